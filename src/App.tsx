@@ -11,6 +11,11 @@ import LanguageSelect from "./pages/LanguageSelect";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
 import StaffDashboard from "./pages/StaffDashboard";
+import Kiosk from "./pages/Kiosk";
+import History from "./pages/History";
+import NotificationPreferences from "./pages/NotificationPreferences";
+import Notifications from "./pages/Notifications";
+import FakeCheckout from "./pages/FakeCheckout";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +35,11 @@ const App = () => (
                 <Route path="/auth" element={<Auth />} />
                 <Route path="/dashboard" element={<Dashboard />} />
                 <Route path="/staff" element={<StaffDashboard />} />
+                <Route path="/kiosk" element={<Kiosk />} />
+                <Route path="/history" element={<History />} />
+                <Route path="/notifications" element={<Notifications />} />
+                <Route path="/notification-settings" element={<NotificationPreferences />} />
+                <Route path="/checkout/fake" element={<FakeCheckout />} />
                 <Route path="*" element={<NotFound />} />
               </Routes>
             </BrowserRouter>
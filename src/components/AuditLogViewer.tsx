@@ -0,0 +1,326 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ChevronDown, Loader2, Search } from 'lucide-react';
+import { format, parseISO, addDays } from 'date-fns';
+
+interface AuditEntry {
+  id: string;
+  created_at: string;
+  actor_id: string | null;
+  source: string;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  target_user_id: string | null;
+  old_values: Json | null;
+  new_values: Json | null;
+}
+
+interface Filters {
+  search: string;
+  entityType: string;
+  fromDate: string;
+  toDate: string;
+}
+
+type Values = Record<string, Json | undefined>;
+
+const PAGE_SIZE = 50;
+
+// Tables written to the log by the record_audit_log trigger, plus edge function events
+const ENTITY_TYPES = [
+  'profiles',
+  'user_roles',
+  'reservations',
+  'waiting_list',
+  'attendance',
+  'workouts',
+  'workout_series',
+  'memberships',
+  'membership_plans',
+  'member_strikes',
+  'payments',
+  'club_settings',
+  'staff_permissions',
+  'trainers',
+  'workout_trainers',
+  'locations',
+  'rooms',
+  'report',
+];
+
+const EMPTY_FILTERS: Filters = { search: '', entityType: 'all', fromDate: '', toDate: '' };
+
+const asValues = (json: Json | null): Values =>
+  json && typeof json === 'object' && !Array.isArray(json) ? json : {};
+
+// Updates show only the fields that changed; created and deleted rows show everything
+const changedFields = (entry: AuditEntry) => {
+  const before = asValues(entry.old_values);
+  const after = asValues(entry.new_values);
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  if (!entry.old_values || !entry.new_values) return keys;
+  return keys.filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+};
+
+const formatValue = (value: Json | undefined) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+// Admin viewer for audit_log: who did what to whom, newest first
+export function AuditLogViewer() {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [form, setForm] = useState<Filters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [people, setPeople] = useState<Record<string, { full_name: string; email: string }>>({});
+  const [workoutNames, setWorkoutNames] = useState<Record<string, string>>({});
+  const [hasMore, setHasMore] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+
+  const workoutIdOf = (entry: AuditEntry) => {
+    if (entry.entity_type === 'workouts') return entry.entity_id;
+    const values = asValues(entry.new_values ?? entry.old_values);
+    return typeof values.workout_id === 'string' ? values.workout_id : null;
+  };
+
+  const fetchEntries = async (offset: number) => {
+    setIsFetching(true);
+
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.entityType !== 'all') query = query.eq('entity_type', filters.entityType);
+    if (filters.fromDate) query = query.gte('created_at', parseISO(filters.fromDate).toISOString());
+    if (filters.toDate) query = query.lt('created_at', addDays(parseISO(filters.toDate), 1).toISOString());
+
+    // Free text matches member names and emails (as actor or target), actions, sources
+    // and record ids. Characters with a meaning in PostgREST filters are dropped.
+    const term = filters.search.replace(/[,()%*"\\]/g, ' ').trim();
+    if (term) {
+      const { data: matches } = await supabase
+        .from('profiles')
+        .select('user_id')
+        .or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+        .limit(50);
+      const userIds = (matches || []).map(p => p.user_id);
+      const conditions = [`action.ilike.%${term}%`, `source.ilike.%${term}%`, `entity_id.eq.${term}`];
+      if (userIds.length > 0) {
+        conditions.push(`actor_id.in.(${userIds.join(',')})`, `target_user_id.in.(${userIds.join(',')})`);
+      }
+      query = query.or(conditions.join(','));
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      setIsFetching(false);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    const page = (data || []) as AuditEntry[];
+
+    // Names for the people and workouts on this page
+    const userIds = [...new Set(page.flatMap(e => [e.actor_id, e.target_user_id]).filter((id): id is string => !!id))];
+    const workoutIds = [...new Set(page.map(workoutIdOf).filter((id): id is string => !!id))];
+
+    const [{ data: profiles }, { data: workouts }] = await Promise.all([
+      userIds.length > 0
+        ? supabase.from('profiles').select('user_id, full_name, email').in('user_id', userIds)
+        : Promise.resolve({ data: [] as { user_id: string; full_name: string; email: string }[] }),
+      workoutIds.length > 0
+        ? supabase.from('workouts').select('id, title, title_bg, workout_date, start_time').in('id', workoutIds)
+        : Promise.resolve({ data: [] as { id: string; title: string; title_bg: string | null; workout_date: string; start_time: string }[] }),
+    ]);
+
+    setPeople(prev => ({
+      ...prev,
+      ...Object.fromEntries((profiles || []).map(p => [p.user_id, { full_name: p.full_name, email: p.email }])),
+    }));
+    setWorkoutNames(prev => ({
+      ...prev,
+      ...Object.fromEntries((workouts || []).map(w => [
+        w.id,
+        `${(language === 'bg' && w.title_bg) || w.title} · ${format(parseISO(w.workout_date), 'MMM d')} ${w.start_time.slice(0, 5)}`,
+      ])),
+    }));
+
+    setEntries(prev => (offset === 0 ? page : [...prev, ...page]));
+    setHasMore(page.length === PAGE_SIZE);
+    setIsFetching(false);
+  };
+
+  useEffect(() => {
+    fetchEntries(0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filters]);
+
+  const personName = (userId: string | null) => {
+    if (!userId) return null;
+    const person = people[userId];
+    return person ? person.full_name || person.email : t('auditUnknownUser');
+  };
+
+  const workoutName = (entry: AuditEntry) => {
+    const workoutId = workoutIdOf(entry);
+    if (!workoutId) return null;
+    if (workoutNames[workoutId]) return workoutNames[workoutId];
+    // Deleted workouts are only known from the logged row
+    const title = asValues(entry.old_values).title;
+    return typeof title === 'string' ? title : null;
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters(form);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSearch} className="grid gap-3 sm:grid-cols-[2fr_1fr_auto_auto_auto] sm:items-end">
+        <div className="space-y-2">
+          <Label htmlFor="audit-search">{t('auditSearch')}</Label>
+          <Input
+            id="audit-search"
+            value={form.search}
+            placeholder={t('auditSearchHint')}
+            onChange={e => setForm(f => ({ ...f, search: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>{t('auditRecord')}</Label>
+          <Select value={form.entityType} onValueChange={value => setForm(f => ({ ...f, entityType: value }))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('allTypes')}</SelectItem>
+              {ENTITY_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{t(`audit_entity_${type}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-from">{t('fromDate')}</Label>
+          <Input
+            id="audit-from"
+            type="date"
+            value={form.fromDate}
+            onChange={e => setForm(f => ({ ...f, fromDate: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-to">{t('toDate')}</Label>
+          <Input
+            id="audit-to"
+            type="date"
+            value={form.toDate}
+            onChange={e => setForm(f => ({ ...f, toDate: e.target.value }))}
+          />
+        </div>
+        <Button type="submit" disabled={isFetching}>
+          <Search className="h-4 w-4 mr-1" />
+          {t('auditSearch')}
+        </Button>
+      </form>
+
+      {entries.length === 0 && !isFetching ? (
+        <p className="text-muted-foreground text-center py-8">{t('auditNoEntries')}</p>
+      ) : (
+        <div className="grid gap-2">
+          {entries.map(entry => {
+            const fields = changedFields(entry);
+            const target = personName(entry.target_user_id);
+            const workout = workoutName(entry);
+            return (
+              <Card key={entry.id} className="border-border/50">
+                <Collapsible>
+                  <CardContent className="p-3 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="text-xs text-muted-foreground tabular-nums">
+                        {format(parseISO(entry.created_at), 'MMM d, yyyy HH:mm:ss')}
+                      </span>
+                      <span className="font-medium">{personName(entry.actor_id) ?? t('auditSystem')}</span>
+                      <Badge variant="secondary">{t(`audit_action_${entry.action}`)}</Badge>
+                      <span>{t(`audit_entity_${entry.entity_type}`)}</span>
+                      {target && <span className="text-muted-foreground">→ {target}</span>}
+                      {entry.source !== 'app' && (
+                        <Badge variant="outline" className="text-xs">{entry.source}</Badge>
+                      )}
+                    </div>
+                    {workout && <p className="text-xs text-muted-foreground">{workout}</p>}
+                    {fields.length > 0 && (
+                      <>
+                        <CollapsibleTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+                            <ChevronDown className="h-3 w-3 mr-1" />
+                            {t('auditChanges')} ({fields.length})
+                          </Button>
+                        </CollapsibleTrigger>
+                        <CollapsibleContent>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>{t('auditField')}</TableHead>
+                                <TableHead>{t('auditBefore')}</TableHead>
+                                <TableHead>{t('auditAfter')}</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {fields.map(field => (
+                                <TableRow key={field}>
+                                  <TableCell className="font-mono text-xs">{field}</TableCell>
+                                  <TableCell className="text-xs break-all">
+                                    {entry.old_values ? formatValue(asValues(entry.old_values)[field]) : ''}
+                                  </TableCell>
+                                  <TableCell className="text-xs break-all">
+                                    {entry.new_values ? formatValue(asValues(entry.new_values)[field]) : ''}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </CollapsibleContent>
+                      </>
+                    )}
+                  </CardContent>
+                </Collapsible>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      {isFetching && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {hasMore && !isFetching && (
+        <div className="flex justify-center">
+          <Button variant="outline" onClick={() => fetchEntries(entries.length)}>
+            {t('loadMore')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
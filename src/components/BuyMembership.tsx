@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatPrice } from '@/lib/formatPrice';
+import { Crown, Loader2, ShoppingCart } from 'lucide-react';
+
+interface PurchasablePlan {
+  id: string;
+  name: string;
+  name_bg: string | null;
+  duration_days: number;
+  credits: number | null;
+  grants_card_priority: boolean;
+  price_cents: number | null;
+  currency: string;
+}
+
+export function BuyMembership() {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [plans, setPlans] = useState<PurchasablePlan[]>([]);
+  const [buyingPlanId, setBuyingPlanId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchPlans = async () => {
+      const { data } = await supabase
+        .from('membership_plans')
+        .select('id, name, name_bg, duration_days, credits, grants_card_priority, price_cents, currency')
+        .eq('is_active', true)
+        .not('price_cents', 'is', null)
+        .order('sort_order');
+      setPlans(data || []);
+    };
+
+    fetchPlans();
+  }, [isOpen]);
+
+  const handleBuy = async (plan: PurchasablePlan) => {
+    setBuyingPlanId(plan.id);
+
+    const { data, error } = await supabase.functions.invoke('create-checkout', {
+      body: { planId: plan.id },
+    });
+
+    if (error || !data?.url) {
+      toast({ variant: 'destructive', title: 'Error', description: t('checkoutFailed') });
+      setBuyingPlanId(null);
+      return;
+    }
+
+    // Continue on the payment provider's checkout page
+    window.location.assign(data.url);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <ShoppingCart className="h-4 w-4" />
+          {t('buyMembership')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">{t('buyMembership')}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          {plans.map(plan => (
+            <div key={plan.id} className="flex items-center justify-between gap-3 rounded-lg border border-border/60 p-4">
+              <div className="min-w-0">
+                <p className="font-medium flex items-center gap-2">
+                  {language === 'bg' && plan.name_bg ? plan.name_bg : plan.name}
+                  {plan.grants_card_priority && <Crown className="h-4 w-4 text-primary" />}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {plan.credits === null ? t('unlimitedClasses') : `${plan.credits} ${t('classes')}`}
+                  {' · '}
+                  {plan.duration_days} {t('days')}
+                </p>
+              </div>
+              <Button onClick={() => handleBuy(plan)} disabled={!!buyingPlanId} className="flex-shrink-0">
+                {buyingPlanId === plan.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  formatPrice(plan.price_cents ?? 0, plan.currency, language)
+                )}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
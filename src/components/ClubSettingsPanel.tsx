@@ -0,0 +1,285 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { getPriorityPeriodHours, type ClubSettings } from '@/lib/clubSettings';
+import { REMINDER_OFFSETS } from '@/lib/notificationTypes';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface ClubSettingsPanelProps {
+  settings: ClubSettings;
+  onSaved: (settings: ClubSettings) => void;
+}
+
+// Whole numbers from a number input; empty stays null so optional fields can be cleared
+const toInteger = (value: string) => (value === '' ? null : Math.max(0, parseInt(value) || 0));
+
+// Admin editor for the club-wide booking rules and defaults in club_settings
+export function ClubSettingsPanel({ settings, onSaved }: ClubSettingsPanelProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [form, setForm] = useState<ClubSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setForm(settings);
+  }, [settings]);
+
+  const update = <K extends keyof ClubSettings>(key: K, value: ClubSettings[K]) =>
+    setForm(f => ({ ...f, [key]: value }));
+
+  const handleSave = async () => {
+    if (form.default_end_time <= form.default_start_time) {
+      toast({ variant: 'destructive', title: 'Error', description: t('endTimeBeforeStart') });
+      return;
+    }
+
+    setIsSaving(true);
+    const { data, error } = await supabase
+      .from('club_settings')
+      .update({
+        cancellation_deadline_hours: form.cancellation_deadline_hours,
+        strike_threshold: form.strike_threshold,
+        strike_penalty: form.strike_penalty,
+        time_zone: form.time_zone.trim(),
+        default_reservation_opens_hours: form.default_reservation_opens_hours,
+        priority_period_hours: form.priority_period_hours,
+        default_max_spots: form.default_max_spots,
+        default_start_time: form.default_start_time,
+        default_end_time: form.default_end_time,
+        default_card_priority_enabled: form.default_card_priority_enabled,
+        default_auto_reserve_enabled: form.default_auto_reserve_enabled,
+        default_reminder_offsets: form.default_reminder_offsets,
+        waitlist_offers_enabled: form.waitlist_offers_enabled,
+        waitlist_offer_minutes: form.waitlist_offer_minutes,
+        waitlist_offer_cutoff_minutes: form.waitlist_offer_cutoff_minutes,
+      })
+      .eq('id', true)
+      .select('*')
+      .single();
+    setIsSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    onSaved(data as ClubSettings);
+    toast({ title: t('settingsSaved') });
+  };
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      {/* Booking rules */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t('bookingRules')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="club-opens-hours">{t('bookingOpensHours')}</Label>
+            <Input
+              id="club-opens-hours"
+              type="number"
+              min={1}
+              value={form.default_reservation_opens_hours}
+              onChange={e => update('default_reservation_opens_hours', Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-priority-hours">{t('priorityPeriodHours')}</Label>
+            <Input
+              id="club-priority-hours"
+              type="number"
+              min={0}
+              placeholder={`${t('halfTheWindow')} (${getPriorityPeriodHours({ ...form, priority_period_hours: null }, form.default_reservation_opens_hours)})`}
+              value={form.priority_period_hours ?? ''}
+              onChange={e => update('priority_period_hours', toInteger(e.target.value))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-cancellation">{t('cancellationDeadline')}</Label>
+            <Input
+              id="club-cancellation"
+              type="number"
+              min={0}
+              value={form.cancellation_deadline_hours}
+              onChange={e => update('cancellation_deadline_hours', toInteger(e.target.value) ?? 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-time-zone">{t('clubTimeZone')}</Label>
+            <Input
+              id="club-time-zone"
+              value={form.time_zone}
+              placeholder="Europe/Sofia"
+              onChange={e => update('time_zone', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-strike-threshold">{t('strikeThreshold')}</Label>
+            <Input
+              id="club-strike-threshold"
+              type="number"
+              min={1}
+              value={form.strike_threshold}
+              onChange={e => update('strike_threshold', Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('strikePenalty')}</Label>
+            <Select
+              value={form.strike_penalty}
+              onValueChange={value => update('strike_penalty', value as ClubSettings['strike_penalty'])}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="block_booking">{t('strikePenaltyBlock')}</SelectItem>
+                <SelectItem value="lose_priority">{t('strikePenaltyPriority')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Waiting list */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t('waitingList')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label>{t('waitlistOffers')}</Label>
+              <p className="text-xs text-muted-foreground">{t('waitlistOffersHint')}</p>
+            </div>
+            <Switch
+              checked={form.waitlist_offers_enabled}
+              onCheckedChange={checked => update('waitlist_offers_enabled', checked)}
+            />
+          </div>
+          {form.waitlist_offers_enabled && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="club-offer-minutes">{t('waitlistOfferMinutes')}</Label>
+                <Input
+                  id="club-offer-minutes"
+                  type="number"
+                  min={1}
+                  max={1440}
+                  value={form.waitlist_offer_minutes}
+                  onChange={e => update('waitlist_offer_minutes', Math.min(1440, Math.max(1, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="club-offer-cutoff">{t('waitlistOfferCutoff')}</Label>
+                <Input
+                  id="club-offer-cutoff"
+                  type="number"
+                  min={0}
+                  value={form.waitlist_offer_cutoff_minutes}
+                  onChange={e => update('waitlist_offer_cutoff_minutes', toInteger(e.target.value) ?? 0)}
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Defaults for new workouts */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t('workoutDefaults')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="club-start-time">{t('startTime')}</Label>
+            <Input
+              id="club-start-time"
+              type="time"
+              value={form.default_start_time.slice(0, 5)}
+              onChange={e => update('default_start_time', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-end-time">{t('endTime')}</Label>
+            <Input
+              id="club-end-time"
+              type="time"
+              value={form.default_end_time.slice(0, 5)}
+              onChange={e => update('default_end_time', e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="club-max-spots">{t('maxSpots')}</Label>
+            <Input
+              id="club-max-spots"
+              type="number"
+              min={1}
+              value={form.default_max_spots}
+              onChange={e => update('default_max_spots', Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>{t('cardPriority')}</Label>
+              <Switch
+                checked={form.default_card_priority_enabled}
+                onCheckedChange={checked => setForm(f => ({
+                  ...f,
+                  default_card_priority_enabled: checked,
+                  default_auto_reserve_enabled: checked ? f.default_auto_reserve_enabled : false,
+                }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label>{t('autoReserve')}</Label>
+              <Switch
+                checked={form.default_auto_reserve_enabled}
+                disabled={!form.default_card_priority_enabled}
+                onCheckedChange={checked => update('default_auto_reserve_enabled', checked)}
+              />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Notification defaults */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t('notificationDefaults')}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t('defaultReminderTimesHint')}</p>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="flex-wrap justify-start"
+            value={form.default_reminder_offsets.map(String)}
+            onValueChange={values => update('default_reminder_offsets', values.map(Number).sort((a, b) => b - a))}
+          >
+            {REMINDER_OFFSETS.map(offset => (
+              <ToggleGroupItem key={offset} value={String(offset)} size="sm">
+                {t(`reminder_${offset}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </CardContent>
+      </Card>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {t('save')}
+      </Button>
+    </div>
+  );
+}
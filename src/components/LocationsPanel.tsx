@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Location, Room } from '@/lib/locations';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Plus } from 'lucide-react';
+
+interface LocationsPanelProps {
+  locations: Location[];
+  onChanged: () => void;
+}
+
+interface RoomDraft {
+  name: string;
+  name_bg: string;
+  capacity: number;
+}
+
+const EMPTY_ROOM: RoomDraft = { name: '', name_bg: '', capacity: 20 };
+
+type Write = PromiseLike<{ error: { message: string } | null }>;
+
+// Admin editor for the club's locations and their rooms. Rooms are closed rather than
+// deleted, so past workouts keep their room.
+export function LocationsPanel({ locations, onChanged }: LocationsPanelProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [newLocation, setNewLocation] = useState({ name: '', name_bg: '', address: '' });
+  const [newRooms, setNewRooms] = useState<Record<string, RoomDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const save = async (write: Write) => {
+    setIsSaving(true);
+    const { error } = await write;
+    setIsSaving(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return false;
+    }
+    toast({ title: t('settingsSaved') });
+    onChanged();
+    return true;
+  };
+
+  const handleAddLocation = async () => {
+    if (!newLocation.name.trim()) return;
+    const added = await save(
+      supabase.from('locations').insert({
+        name: newLocation.name.trim(),
+        name_bg: newLocation.name_bg.trim() || null,
+        address: newLocation.address.trim() || null,
+        sort_order: locations.length,
+      })
+    );
+    if (added) setNewLocation({ name: '', name_bg: '', address: '' });
+  };
+
+  const handleAddRoom = async (location: Location) => {
+    const draft = newRooms[location.id] ?? EMPTY_ROOM;
+    if (!draft.name.trim()) return;
+    const added = await save(
+      supabase.from('rooms').insert({
+        location_id: location.id,
+        name: draft.name.trim(),
+        name_bg: draft.name_bg.trim() || null,
+        capacity: draft.capacity,
+        sort_order: location.rooms.length,
+      })
+    );
+    if (added) setNewRooms(prev => ({ ...prev, [location.id]: EMPTY_ROOM }));
+  };
+
+  return (
+    <div className="space-y-4 max-w-2xl">
+      {locations.map(location => {
+        const draft = newRooms[location.id] ?? EMPTY_ROOM;
+        return (
+          <Card key={location.id} className={location.is_active ? undefined : 'opacity-60'}>
+            <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0 gap-4">
+              <div>
+                <CardTitle className="text-base">{location.name}</CardTitle>
+                {location.address && <p className="text-xs text-muted-foreground">{location.address}</p>}
+              </div>
+              <div className="flex items-center gap-2">
+                <Label htmlFor={`location-active-${location.id}`} className="text-xs text-muted-foreground">
+                  {t('active')}
+                </Label>
+                <Switch
+                  id={`location-active-${location.id}`}
+                  checked={location.is_active}
+                  disabled={isSaving}
+                  onCheckedChange={checked => save(supabase.from('locations').update({ is_active: checked }).eq('id', location.id))}
+                />
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {location.rooms.map(room => (
+                <RoomRow key={room.id} room={room} disabled={isSaving} onSave={save} />
+              ))}
+
+              <div className="grid gap-2 sm:grid-cols-[1fr_1fr_6rem_auto] sm:items-end pt-2 border-t border-border/50">
+                <div className="space-y-1">
+                  <Label className="text-xs">{t('newRoom')}</Label>
+                  <Input
+                    value={draft.name}
+                    placeholder="English"
+                    onChange={e => setNewRooms(prev => ({ ...prev, [location.id]: { ...draft, name: e.target.value } }))}
+                  />
+                </div>
+                <Input
+                  value={draft.name_bg}
+                  placeholder="Български"
+                  onChange={e => setNewRooms(prev => ({ ...prev, [location.id]: { ...draft, name_bg: e.target.value } }))}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  aria-label={t('roomCapacity')}
+                  value={draft.capacity}
+                  onChange={e => setNewRooms(prev => ({
+                    ...prev,
+                    [location.id]: { ...draft, capacity: Math.max(1, parseInt(e.target.value) || 1) },
+                  }))}
+                />
+                <Button variant="outline" onClick={() => handleAddRoom(location)} disabled={isSaving || !draft.name.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">{t('newLocation')}</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-2 sm:grid-cols-2">
+          <Input
+            value={newLocation.name}
+            placeholder="English"
+            onChange={e => setNewLocation(l => ({ ...l, name: e.target.value }))}
+          />
+          <Input
+            value={newLocation.name_bg}
+            placeholder="Български"
+            onChange={e => setNewLocation(l => ({ ...l, name_bg: e.target.value }))}
+          />
+          <Input
+            className="sm:col-span-2"
+            value={newLocation.address}
+            placeholder={t('address')}
+            onChange={e => setNewLocation(l => ({ ...l, address: e.target.value }))}
+          />
+          <Button className="sm:col-span-2" onClick={handleAddLocation} disabled={isSaving || !newLocation.name.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('addLocation')}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+interface RoomRowProps {
+  room: Room;
+  disabled: boolean;
+  onSave: (write: Write) => Promise<boolean>;
+}
+
+function RoomRow({ room, disabled, onSave }: RoomRowProps) {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<RoomDraft>({ name: room.name, name_bg: room.name_bg ?? '', capacity: room.capacity });
+
+  useEffect(() => {
+    setDraft({ name: room.name, name_bg: room.name_bg ?? '', capacity: room.capacity });
+  }, [room]);
+
+  const isDirty = draft.name !== room.name || draft.name_bg !== (room.name_bg ?? '') || draft.capacity !== room.capacity;
+
+  return (
+    <div className={`grid gap-2 sm:grid-cols-[1fr_1fr_6rem_auto_auto] sm:items-center ${room.is_active ? '' : 'opacity-60'}`}>
+      <Input value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} />
+      <Input value={draft.name_bg} placeholder="Български" onChange={e => setDraft(d => ({ ...d, name_bg: e.target.value }))} />
+      <Input
+        type="number"
+        min={1}
+        aria-label={t('roomCapacity')}
+        value={draft.capacity}
+        onChange={e => setDraft(d => ({ ...d, capacity: Math.max(1, parseInt(e.target.value) || 1) }))}
+      />
+      <Switch
+        aria-label={t('active')}
+        checked={room.is_active}
+        disabled={disabled}
+        onCheckedChange={checked => onSave(supabase.from('rooms').update({ is_active: checked }).eq('id', room.id))}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={disabled || !isDirty || !draft.name.trim()}
+        onClick={() => onSave(
+          supabase
+            .from('rooms')
+            .update({ name: draft.name.trim(), name_bg: draft.name_bg.trim() || null, capacity: draft.capacity })
+            .eq('id', room.id)
+        )}
+      >
+        {t('save')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { parseCsv } from '@/lib/parseCsv';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Upload, Loader2 } from 'lucide-react';
+
+interface ImportRow {
+  full_name: string;
+  email: string;
+  phone: string;
+  member_type: string;
+  language: string;
+}
+
+interface Plan {
+  id: string;
+  name: string;
+  name_bg: string | null;
+}
+
+interface RowResult {
+  row: number;
+  email: string;
+  status: 'ready' | 'invalid' | 'duplicate' | 'created' | 'failed';
+  errors: string[];
+}
+
+// Accepted header names for each column, lower case
+const COLUMN_ALIASES: Record<keyof ImportRow, string[]> = {
+  full_name: ['name', 'full_name', 'full name', 'име'],
+  email: ['email', 'e-mail', 'имейл'],
+  phone: ['phone', 'телефон'],
+  member_type: ['member_type', 'member type', 'type', 'тип'],
+  language: ['language', 'lang', 'език'],
+};
+
+// Validation codes from the import-members function that have a translation
+const ERROR_CODES = [
+  'missing_name',
+  'invalid_email',
+  'invalid_phone',
+  'invalid_member_type',
+  'invalid_language',
+  'duplicate_in_file',
+  'email_exists',
+  'no_plan',
+];
+
+const statusVariants: Record<RowResult['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  ready: 'secondary',
+  created: 'default',
+  invalid: 'destructive',
+  duplicate: 'outline',
+  failed: 'destructive',
+};
+
+function toImportRows(cells: string[][]): ImportRow[] | null {
+  const [header, ...body] = cells;
+  if (!header) return null;
+
+  const normalized = header.map(h => h.trim().toLowerCase());
+  const indexOf = (column: keyof ImportRow) =>
+    normalized.findIndex(h => COLUMN_ALIASES[column].includes(h));
+
+  const indexes = {
+    full_name: indexOf('full_name'),
+    email: indexOf('email'),
+    phone: indexOf('phone'),
+    member_type: indexOf('member_type'),
+    language: indexOf('language'),
+  };
+  if (indexes.full_name < 0 || indexes.email < 0) return null;
+
+  const cell = (row: string[], index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+  return body.map(row => ({
+    full_name: cell(row, indexes.full_name),
+    email: cell(row, indexes.email),
+    phone: cell(row, indexes.phone),
+    member_type: cell(row, indexes.member_type),
+    language: cell(row, indexes.language),
+  }));
+}
+
+interface MemberImportProps {
+  onImported: () => void;
+}
+
+// Admin bulk import: upload a CSV, review a dry run, then create the accounts and invite everyone
+export function MemberImport({ onImported }: MemberImportProps) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  // Regular members start on this plan; card members on the first card plan
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [planId, setPlanId] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [results, setResults] = useState<RowResult[]>([]);
+  const [isCommitted, setIsCommitted] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const fetchPlans = async () => {
+      const { data } = await supabase
+        .from('membership_plans')
+        .select('id, name, name_bg')
+        .eq('is_active', true)
+        .eq('grants_card_priority', false)
+        .order('sort_order');
+      setPlans(data || []);
+      setPlanId(current => current || data?.[0]?.id || '');
+    };
+
+    fetchPlans();
+  }, [isOpen]);
+
+  const reset = () => {
+    setRows([]);
+    setResults([]);
+    setIsCommitted(false);
+  };
+
+  const runImport = async (importRows: ImportRow[], dryRun: boolean) => {
+    setIsWorking(true);
+
+    const { data, error } = await supabase.functions.invoke('import-members', {
+      body: { rows: importRows, dryRun, redirectTo: `${window.location.origin}/auth`, planId: planId || undefined },
+    });
+
+    setIsWorking(false);
+
+    if (error || data?.error) {
+      toast({ variant: 'destructive', title: 'Error', description: data?.error || error?.message });
+      return;
+    }
+
+    setResults(data.results as RowResult[]);
+    if (!dryRun) {
+      setIsCommitted(true);
+      const created = (data.results as RowResult[]).filter(r => r.status === 'created').length;
+      toast({ title: t('membersImported'), description: `${created} / ${importRows.length}` });
+      onImported();
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    reset();
+    const parsed = toImportRows(parseCsv(await file.text()));
+    if (!parsed || parsed.length === 0) {
+      toast({ variant: 'destructive', title: 'Error', description: t('importInvalidFile') });
+      return;
+    }
+
+    setRows(parsed);
+    // Always preview first
+    await runImport(parsed, true);
+  };
+
+  const readyCount = results.filter(r => r.status === 'ready').length;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={open => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Upload className="h-4 w-4" />
+          {t('importMembers')}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="font-display">{t('importMembers')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{t('importHint')}</p>
+          {plans.length > 0 && (
+            <div className="space-y-1">
+              <Label className="text-sm">{t('importPlan')}</Label>
+              <Select value={planId} onValueChange={setPlanId} disabled={isWorking || isCommitted}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {plans.map(plan => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {language === 'bg' && plan.name_bg ? plan.name_bg : plan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            disabled={isWorking}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {isWorking && (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {results.length > 0 && !isWorking && (
+          <>
+            <ScrollArea className="flex-1 min-h-0 max-h-[50vh]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>{t('fullName')}</TableHead>
+                    <TableHead>{t('email')}</TableHead>
+                    <TableHead>{t('status')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(result => (
+                    <TableRow key={result.row}>
+                      <TableCell>{result.row}</TableCell>
+                      <TableCell>{rows[result.row - 1]?.full_name}</TableCell>
+                      <TableCell className="break-all">{result.email}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[result.status]} className="text-xs">
+                          {t(`import_${result.status}`)}
+                        </Badge>
+                        {result.errors.length > 0 && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {result.errors.map(e => (ERROR_CODES.includes(e) ? t(`import_error_${e}`) : e)).join(', ')}
+                          </p>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {!isCommitted && (
+              <Button onClick={() => runImport(rows, false)} disabled={readyCount === 0}>
+                {t('importConfirm')} ({readyCount})
+              </Button>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,12 +3,14 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Settings, Camera, Loader2, Crown } from 'lucide-react';
+import { fetchLocations, localizedName, type Location } from '@/lib/locations';
+import { Settings, Camera, Loader2, Crown, MapPin } from 'lucide-react';
 
 export function MemberProfileEditor() {
   const { t, language } = useLanguage();
@@ -28,6 +30,10 @@ export function MemberProfileEditor() {
   const [cardImageUrl, setCardImageUrl] = useState<string | null>(null);
   const [autoReserveEnabled, setAutoReserveEnabled] = useState(true);
   const [preferredWorkoutType, setPreferredWorkoutType] = useState<'early' | 'late' | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [preferredLocationId, setPreferredLocationId] = useState<string | null>(null);
+
+  const activeLocations = locations.filter(l => l.is_active || l.id === preferredLocationId);
 
   const handleOpen = async (open: boolean) => {
     if (open && profile) {
@@ -41,7 +47,7 @@ export function MemberProfileEditor() {
       if (user) {
         const { data } = await supabase
           .from('profiles')
-          .select('card_image_url, auto_reserve_enabled, preferred_workout_type')
+          .select('card_image_url, auto_reserve_enabled, preferred_workout_type, preferred_location_id')
           .eq('user_id', user.id)
           .single();
         
@@ -49,7 +55,12 @@ export function MemberProfileEditor() {
           setCardImageUrl(data.card_image_url);
           setAutoReserveEnabled(data.auto_reserve_enabled ?? true);
           setPreferredWorkoutType(data.preferred_workout_type as 'early' | 'late' | null);
+          setPreferredLocationId(data.preferred_location_id);
         }
+
+        fetchLocations()
+          .then(setLocations)
+          .catch(error => console.error('Error fetching locations:', error));
       }
     }
     setIsOpen(open);
@@ -112,6 +123,7 @@ export function MemberProfileEditor() {
       const updateData: any = {
         phone: formData.phone,
         full_name: formData.full_name,
+        preferred_location_id: preferredLocationId,
       };
       
       // Add card member preferences if applicable
@@ -299,6 +311,32 @@ export function MemberProfileEditor() {
             </div>
           )}
           
+          {/* Preferred location - only worth asking once there is a choice */}
+          {activeLocations.length > 1 && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                {t('preferredLocation')}
+              </Label>
+              <Select
+                value={preferredLocationId ?? 'none'}
+                onValueChange={value => setPreferredLocationId(value === 'none' ? null : value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t('noPreference')}</SelectItem>
+                  {activeLocations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {localizedName(location, language)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>{t('fullName')}</Label>
             <Input
@@ -0,0 +1,83 @@
+import { useState, useEffect } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { QrCode, Loader2 } from 'lucide-react';
+
+// Tokens are valid for 60 seconds; refresh well before they expire
+const REFRESH_INTERVAL_MS = 30000;
+
+export function MemberQrCode() {
+  const { t } = useLanguage();
+  const { profile } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+  const [pin, setPin] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setToken(null);
+      return;
+    }
+
+    const fetchToken = async () => {
+      const { data, error } = await supabase.functions.invoke('member-qr-token');
+      if (error || !data?.token) {
+        setError(true);
+        return;
+      }
+      setError(false);
+      setToken(data.token);
+    };
+
+    const fetchPin = async () => {
+      const { data } = await supabase.rpc('get_my_kiosk_pin');
+      setPin(data ?? null);
+    };
+
+    fetchToken();
+    fetchPin();
+    const intervalId = window.setInterval(fetchToken, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [isOpen]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-2">
+          <QrCode className="h-4 w-4" />
+          <span className="hidden sm:inline">{t('myQrCode')}</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="font-display">{t('myQrCode')}</DialogTitle>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4 py-2">
+          <div className="bg-white p-4 rounded-lg h-[272px] w-[272px] flex items-center justify-center">
+            {token ? (
+              <QRCodeSVG value={token} size={240} level="M" />
+            ) : error ? (
+              <p className="text-sm text-destructive text-center">{t('qrCodeUnavailable')}</p>
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            )}
+          </div>
+          {profile?.full_name && (
+            <p className="font-medium">{profile.full_name}</p>
+          )}
+          {pin && (
+            <p className="text-sm text-muted-foreground">
+              {t('kioskPin')}: <span className="font-mono text-lg font-semibold tracking-widest text-foreground">{pin}</span>
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground text-center">{t('qrCodeHint')}</p>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,4 @@
-import { BellOff, BellRing, Loader2 } from 'lucide-react';
+import { BellOff, BellRing, Inbox, Loader2, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -6,20 +6,23 @@ import { useOneSignal } from '@/components/OneSignalProvider';
 import { useNotifications } from '@/hooks/useNotifications';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useToast } from '@/hooks/use-toast';
+import { getNotificationIcon } from '@/lib/notificationTypes';
 import {
   Popover,
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { formatDistanceToNow } from 'date-fns';
 import { bg, enUS } from 'date-fns/locale';
 
 export function NotificationSettings() {
+  const navigate = useNavigate();
   const { t, language } = useLanguage();
   const { toast } = useToast();
   const { isSubscribed, isInitialized, requestPermission } = useOneSignal();
-  const { notifications, unreadCount, isLoading: notifLoading, clearNotifications } = useNotifications();
+  const { notifications, unreadCount, isLoading: notifLoading, markAllAsRead } = useNotifications();
   const [isToggling, setIsToggling] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
@@ -51,26 +54,16 @@ export function NotificationSettings() {
   const handleOpenChange = (open: boolean) => {
     setIsOpen(open);
     if (!open && unreadCount > 0) {
-      clearNotifications();
+      markAllAsRead();
     }
   };
 
   const showLoading = isToggling;
 
-  const getNotificationIcon = (type: string) => {
-    switch (type) {
-      case 'new_workout': return '🏋️';
-      case 'workout_updated': return '📝';
-      case 'workout_deleted': return '❌';
-      case 'spot_freed': return '🎉';
-      case 'workout_full': return '📋';
-      case 'workout_reminder': return '⏰';
-      case 'auto_reserved': return '🎫';
-      case 'waiting_list_promoted': return '🎉';
-      case 'member_booked': return '📗';
-      case 'member_cancelled': return '📕';
-      default: return '🔔';
-    }
+  const openWorkout = (workoutId: string) => {
+    setIsOpen(false);
+    markAllAsRead();
+    navigate(`/dashboard?workout=${workoutId}`);
   };
 
   return (
@@ -126,7 +119,8 @@ export function NotificationSettings() {
                   {notifications.slice(0, 10).map((notification) => (
                     <div
                       key={notification.id}
-                      className="p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors"
+                      className={`p-2 rounded-md bg-muted/50 hover:bg-muted transition-colors ${notification.workout_id ? 'cursor-pointer' : ''} ${notification.read_at ? '' : 'border-l-2 border-primary'}`}
+                      onClick={notification.workout_id ? () => openWorkout(notification.workout_id!) : undefined}
                     >
                       <div className="flex items-start gap-2">
                         <span className="text-base mt-0.5">
@@ -164,6 +158,17 @@ export function NotificationSettings() {
               ? 'Получавайте известия за нови тренировки, промени и свободни места.'
               : 'Get notified about new workouts, updates, and available spots.'}
           </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/notifications')}>
+              <Inbox className="h-4 w-4" />
+              {t('allNotifications')}
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => navigate('/notification-settings')}>
+              <Settings className="h-4 w-4" />
+              {t('preferences')}
+            </Button>
+          </div>
         </div>
       </PopoverContent>
     </Popover>
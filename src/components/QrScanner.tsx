@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { CameraOff } from 'lucide-react';
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+  // While paused the camera keeps running but no codes are reported
+  paused?: boolean;
+}
+
+const SCAN_INTERVAL_MS = 250;
+
+export function QrScanner({ onScan, paused = false }: QrScannerProps) {
+  const { t } = useLanguage();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const onScanRef = useRef(onScan);
+  const pausedRef = useRef(paused);
+  const [cameraError, setCameraError] = useState(false);
+
+  onScanRef.current = onScan;
+  pausedRef.current = paused;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let intervalId: number | undefined;
+    let cancelled = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+      } catch (e) {
+        console.error('Camera unavailable:', e);
+        setCameraError(true);
+        return;
+      }
+
+      if (cancelled || !videoRef.current) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play().catch(() => {});
+
+      intervalId = window.setInterval(() => {
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        if (pausedRef.current || !video || !canvas || video.readyState < video.HAVE_ENOUGH_DATA) return;
+
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d', { willReadFrequently: true });
+        if (!context) return;
+
+        context.drawImage(video, 0, 0, canvas.width, canvas.height);
+        const image = context.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' });
+        if (code?.data) {
+          onScanRef.current(code.data);
+        }
+      }, SCAN_INTERVAL_MS);
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (cameraError) {
+    return (
+      <div className="aspect-square w-full rounded-lg bg-muted flex flex-col items-center justify-center gap-2 text-muted-foreground">
+        <CameraOff className="h-8 w-8" />
+        <p className="text-sm text-center px-4">{t('cameraUnavailable')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative aspect-square w-full overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className={`absolute inset-8 rounded-lg border-4 transition-colors ${paused ? 'border-muted/50' : 'border-primary/70'}`} />
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2 } from 'lucide-react';
+
+export type ReportType = 'workout_attendees' | 'monthly_attendance' | 'member_roster';
+type ReportFormat = 'csv' | 'xlsx';
+
+interface ReportExportButtonProps {
+  report: ReportType;
+  // Used as the download name, without the extension
+  fileName: string;
+  workoutId?: string;
+  // YYYY-MM, for monthly_attendance
+  month?: string;
+  disabled?: boolean;
+}
+
+// Downloads a staff report generated by the export-report edge function
+export function ReportExportButton({ report, fileName, workoutId, month, disabled }: ReportExportButtonProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ReportFormat) => {
+    setIsExporting(true);
+
+    const { data, error } = await supabase.functions.invoke('export-report', {
+      body: { report, format, workoutId, month },
+    });
+
+    setIsExporting(false);
+
+    if (error || !(data instanceof Blob)) {
+      toast({ variant: 'destructive', title: 'Error', description: error?.message || t('exportFailed') });
+      return;
+    }
+
+    const url = URL.createObjectURL(data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2" disabled={disabled || isExporting}>
+          {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          {t('export')}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ReportExportButton } from '@/components/ReportExportButton';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { format, parseISO, subDays, getDay } from 'date-fns';
+
+interface WorkoutAnalytics {
+  workout_id: string;
+  workout_date: string;
+  start_time: string;
+  title: string;
+  title_bg: string | null;
+  workout_type: string;
+  max_spots: number;
+  reserved_count: number;
+  card_reserved_count: number;
+  cancelled_count: number;
+  attended_count: number;
+  no_show_count: number;
+  waitlist_count: number;
+  unserved_waitlist_count: number;
+}
+
+const RANGE_PRESETS = [7, 30, 90];
+
+// Monday first, matching the schedule
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const shortDayKeys = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+export function StaffAnalytics() {
+  const { t, language } = useLanguage();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [rows, setRows] = useState<WorkoutAnalytics[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [exportMonth, setExportMonth] = useState(format(new Date(), 'yyyy-MM'));
+
+  useEffect(() => {
+    if (!startDate || !endDate) return;
+
+    const fetchAnalytics = async () => {
+      setIsFetching(true);
+      const { data, error } = await supabase.rpc('get_workout_analytics', {
+        p_start: startDate,
+        p_end: endDate,
+      });
+
+      if (error) {
+        console.error('Error fetching analytics:', error);
+      }
+      setRows(data || []);
+      setIsFetching(false);
+    };
+
+    fetchAnalytics();
+  }, [startDate, endDate]);
+
+  const applyPreset = (days: number) => {
+    setStartDate(format(subDays(new Date(), days - 1), 'yyyy-MM-dd'));
+    setEndDate(format(new Date(), 'yyyy-MM-dd'));
+  };
+
+  const sum = (items: WorkoutAnalytics[], key: keyof WorkoutAnalytics) =>
+    items.reduce((total, row) => total + (row[key] as number), 0);
+
+  const totalSpots = sum(rows, 'max_spots');
+  const totalReserved = sum(rows, 'reserved_count');
+  const totalCard = sum(rows, 'card_reserved_count');
+  const totalAttended = sum(rows, 'attended_count');
+  const totalNoShows = sum(rows, 'no_show_count');
+  const totalWaitlist = sum(rows, 'waitlist_count');
+  const totalUnserved = sum(rows, 'unserved_waitlist_count');
+
+  const weekdayData = WEEKDAY_ORDER.map(day => {
+    const dayRows = rows.filter(row => getDay(parseISO(row.workout_date)) === day);
+    return {
+      day: t(shortDayKeys[day]),
+      booked: sum(dayRows, 'reserved_count'),
+      fill: percent(sum(dayRows, 'reserved_count'), sum(dayRows, 'max_spots')),
+    };
+  });
+
+  const slots = [...new Set(rows.map(row => row.start_time.slice(0, 5)))].sort();
+  const slotData = slots.map(slot => {
+    const slotRows = rows.filter(row => row.start_time.slice(0, 5) === slot);
+    return {
+      slot,
+      booked: sum(slotRows, 'reserved_count'),
+      fill: percent(sum(slotRows, 'reserved_count'), sum(slotRows, 'max_spots')),
+    };
+  });
+
+  const typeStats = ['early', 'late'].map(type => {
+    const typeRows = rows.filter(row => row.workout_type === type);
+    return {
+      type,
+      workouts: typeRows.length,
+      booked: sum(typeRows, 'reserved_count'),
+      fill: percent(sum(typeRows, 'reserved_count'), sum(typeRows, 'max_spots')),
+      attended: sum(typeRows, 'attended_count'),
+    };
+  });
+
+  const chartConfig = {
+    booked: { label: t('bookingsMade'), color: 'hsl(var(--primary))' },
+    fill: { label: t('fillRate'), color: 'hsl(var(--primary) / 0.45)' },
+  } satisfies ChartConfig;
+
+  const getWorkoutTitle = (row: WorkoutAnalytics) =>
+    language === 'bg' && row.title_bg ? row.title_bg : row.title;
+
+  return (
+    <div className="space-y-4">
+      {/* Date range */}
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="analytics-start">{t('fromDate')}</Label>
+          <Input
+            id="analytics-start"
+            type="date"
+            value={startDate}
+            max={endDate}
+            onChange={e => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="analytics-end">{t('toDate')}</Label>
+          <Input
+            id="analytics-end"
+            type="date"
+            value={endDate}
+            min={startDate}
+            onChange={e => setEndDate(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          {RANGE_PRESETS.map(days => (
+            <Button key={days} variant="outline" size="sm" onClick={() => applyPreset(days)}>
+              {days} {t('days')}
+            </Button>
+          ))}
+        </div>
+        {isFetching && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('fillRate')}</p>
+            <p className="font-display text-3xl font-semibold">{percent(totalReserved, totalSpots)}%</p>
+            <p className="text-xs text-muted-foreground">
+              {totalReserved}/{totalSpots} · {rows.length} {t('workouts').toLowerCase()}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('showUpRate')}</p>
+            <p className="font-display text-3xl font-semibold">{percent(totalAttended, totalAttended + totalNoShows)}%</p>
+            <p className="text-xs text-muted-foreground">
+              {t('attended')}: {totalAttended} · {t('noShows')}: {totalNoShows}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('unservedDemand')}</p>
+            <p className="font-display text-3xl font-semibold">{totalUnserved}</p>
+            <p className="text-xs text-muted-foreground">
+              {t('waitingList')}: {totalWaitlist}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-muted-foreground">{t('cardVsRegular')}</p>
+            <p className="font-display text-3xl font-semibold">{percent(totalCard, totalReserved)}%</p>
+            <p className="text-xs text-muted-foreground">
+              {t('cardMember')}: {totalCard} · {t('member')}: {totalReserved - totalCard}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Busiest weekdays and time slots */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="font-display text-lg">{t('busiestWeekdays')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-56 w-full">
+              <BarChart data={weekdayData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="booked" fill="var(--color-booked)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="font-display text-lg">{t('busiestTimeSlots')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-56 w-full">
+              <BarChart data={slotData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="slot" tickLine={false} axisLine={false} />
+                <YAxis unit="%" domain={[0, 100]} tickLine={false} axisLine={false} width={40} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="fill" fill="var(--color-fill)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Early vs late */}
+      <div className="grid grid-cols-2 gap-3">
+        {typeStats.map(stat => (
+          <Card key={stat.type}>
+            <CardContent className="p-4 space-y-1">
+              <Badge variant="outline">{t(stat.type)}</Badge>
+              <p className="font-display text-2xl font-semibold">{stat.fill}%</p>
+              <p className="text-xs text-muted-foreground">
+                {stat.workouts} {t('workouts').toLowerCase()} · {t('bookingsMade')}: {stat.booked} · {t('attended')}: {stat.attended}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Monthly attendance sheet */}
+      <Card>
+        <CardContent className="p-4 flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="analytics-export-month">{t('monthlyAttendanceSheet')}</Label>
+            <Input
+              id="analytics-export-month"
+              type="month"
+              value={exportMonth}
+              onChange={e => setExportMonth(e.target.value)}
+            />
+          </div>
+          <ReportExportButton
+            report="monthly_attendance"
+            month={exportMonth}
+            fileName={`attendance-${exportMonth}`}
+            disabled={!exportMonth}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Fill rate per workout */}
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="font-display text-lg">{t('fillRatePerWorkout')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-muted-foreground text-center py-6">{t('noWorkouts')}</p>
+          ) : (
+            <ScrollArea className="h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('date')}</TableHead>
+                    <TableHead>{t('workoutTitle')}</TableHead>
+                    <TableHead className="text-right">{t('fillRate')}</TableHead>
+                    <TableHead className="text-right">{t('attended')}</TableHead>
+                    <TableHead className="text-right">{t('noShows')}</TableHead>
+                    <TableHead className="text-right">{t('unservedDemand')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow key={row.workout_id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(parseISO(row.workout_date), 'dd.MM')} {row.start_time.slice(0, 5)}
+                      </TableCell>
+                      <TableCell>{getWorkoutTitle(row)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {row.reserved_count}/{row.max_spots} ({percent(row.reserved_count, row.max_spots)}%)
+                      </TableCell>
+                      <TableCell className="text-right">{row.attended_count}</TableCell>
+                      <TableCell className="text-right">{row.no_show_count}</TableCell>
+                      <TableCell className="text-right">{row.unserved_waitlist_count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  STAFF_PERMISSIONS,
+  STAFF_PERMISSION_PRESETS,
+  fetchStaffPermissions,
+  saveStaffPermissions,
+  type StaffPermission,
+} from '@/lib/staffPermissions';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface StaffPermissionsDialogProps {
+  staffMember: { user_id: string; full_name: string | null } | null;
+  onClose: () => void;
+}
+
+// Admin editor for what one staff account may do
+export function StaffPermissionsDialog({ staffMember, onClose }: StaffPermissionsDialogProps) {
+  const { t } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<StaffPermission[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!staffMember) return;
+
+    setIsFetching(true);
+    fetchStaffPermissions(staffMember.user_id)
+      .then(setSelected)
+      .catch(error => toast({ variant: 'destructive', title: 'Error', description: error.message }))
+      .finally(() => setIsFetching(false));
+  }, [staffMember, toast]);
+
+  const toggle = (permission: StaffPermission, checked: boolean) =>
+    setSelected(current => (checked ? [...current, permission] : current.filter(p => p !== permission)));
+
+  const handleSave = async () => {
+    if (!staffMember || !user) return;
+
+    setIsSaving(true);
+    try {
+      await saveStaffPermissions(staffMember.user_id, selected, user.id);
+      toast({ title: t('permissionsSaved') });
+      onClose();
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!staffMember} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="font-display">
+            {t('staffPermissions')}: {staffMember?.full_name || t('staff')}
+          </DialogTitle>
+        </DialogHeader>
+
+        {isFetching ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(STAFF_PERMISSION_PRESETS).map(([preset, permissions]) => (
+                <Button key={preset} variant="outline" size="sm" onClick={() => setSelected(permissions)}>
+                  {t(`permissionPreset_${preset}`)}
+                </Button>
+              ))}
+            </div>
+
+            {STAFF_PERMISSIONS.map(permission => (
+              <div key={permission} className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor={`permission-${permission}`}>{t(`permission_${permission}`)}</Label>
+                  <p className="text-xs text-muted-foreground">{t(`permission_${permission}_hint`)}</p>
+                </div>
+                <Switch
+                  id={`permission-${permission}`}
+                  checked={selected.includes(permission)}
+                  onCheckedChange={checked => toggle(permission, checked)}
+                />
+              </div>
+            ))}
+
+            <Button onClick={handleSave} disabled={isSaving} className="w-full">
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('save')}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
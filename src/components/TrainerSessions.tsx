@@ -0,0 +1,273 @@
+import { useState, useEffect } from 'react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { clubToday } from '@/lib/clubTime';
+import { notifyTrainerChange, substituteTrainer, type Trainer } from '@/lib/trainers';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Calendar, CheckCircle, Clock, Crown, Loader2, Repeat, Users, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+interface Session {
+  id: string;
+  title: string;
+  title_bg: string | null;
+  workout_date: string;
+  start_time: string;
+  end_time: string;
+  max_spots: number;
+}
+
+interface RosterEntry {
+  workout_id: string;
+  user_id: string;
+  full_name: string | null;
+  member_type: string | null;
+}
+
+interface TrainerSessionsProps {
+  trainer: Trainer;
+  trainers: Trainer[];
+  timeZone: string;
+}
+
+// "My sessions": the upcoming workouts a trainer leads, with their rosters, attendance
+// marking and handing a session over to another trainer
+export function TrainerSessions({ trainer, trainers, timeZone }: TrainerSessionsProps) {
+  const { t, language } = useLanguage();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  // Attendance per workout and member: `${workout_id}:${user_id}`
+  const [attendance, setAttendance] = useState<Record<string, boolean>>({});
+  // Substitute picked per workout
+  const [substitutes, setSubstitutes] = useState<Record<string, string>>({});
+  const [isFetching, setIsFetching] = useState(true);
+  const [handingOver, setHandingOver] = useState<string | null>(null);
+
+  const otherTrainers = trainers.filter(tr => tr.is_active && tr.id !== trainer.id);
+
+  const fetchSessions = async () => {
+    setIsFetching(true);
+
+    const { data: links } = await supabase
+      .from('workout_trainers')
+      .select('workout_id')
+      .eq('trainer_id', trainer.id);
+    const workoutIds = (links || []).map(l => l.workout_id);
+
+    if (workoutIds.length === 0) {
+      setSessions([]);
+      setRoster([]);
+      setIsFetching(false);
+      return;
+    }
+
+    const { data: workouts, error } = await supabase
+      .from('workouts')
+      .select('id, title, title_bg, workout_date, start_time, end_time, max_spots')
+      .in('id', workoutIds)
+      .gte('workout_date', clubToday(timeZone))
+      .order('workout_date')
+      .order('start_time');
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      setIsFetching(false);
+      return;
+    }
+
+    const upcomingIds = (workouts || []).map(w => w.id);
+    const [{ data: reservations }, { data: marks }] = await Promise.all([
+      supabase
+        .from('reservations')
+        .select('workout_id, user_id')
+        .in('workout_id', upcomingIds)
+        .eq('is_active', true),
+      supabase
+        .from('attendance')
+        .select('workout_id, user_id, attended')
+        .in('workout_id', upcomingIds),
+    ]);
+
+    const userIds = [...new Set((reservations || []).map(r => r.user_id))];
+    const { data: profiles } = userIds.length > 0
+      ? await supabase.from('profiles').select('user_id, full_name, member_type').in('user_id', userIds)
+      : { data: [] as { user_id: string; full_name: string | null; member_type: string | null }[] };
+
+    setSessions(workouts || []);
+    setRoster((reservations || []).map(r => {
+      const profile = profiles?.find(p => p.user_id === r.user_id);
+      return {
+        workout_id: r.workout_id,
+        user_id: r.user_id,
+        full_name: profile?.full_name ?? null,
+        member_type: profile?.member_type ?? null,
+      };
+    }));
+    setAttendance(Object.fromEntries((marks || []).map(m => [`${m.workout_id}:${m.user_id}`, m.attended ?? false])));
+    setIsFetching(false);
+  };
+
+  useEffect(() => {
+    fetchSessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [trainer.id, timeZone]);
+
+  const handleMarkAttendance = async (workoutId: string, userId: string, attended: boolean) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('attendance')
+      .upsert({
+        workout_id: workoutId,
+        user_id: userId,
+        attended,
+        marked_by: user.id,
+      }, { onConflict: 'workout_id,user_id' });
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } else {
+      setAttendance(prev => ({ ...prev, [`${workoutId}:${userId}`]: attended }));
+    }
+  };
+
+  const handleHandOver = async (session: Session) => {
+    const substitute = otherTrainers.find(tr => tr.id === substitutes[session.id]);
+    if (!substitute) return;
+
+    setHandingOver(session.id);
+    try {
+      await substituteTrainer(session.id, trainer.id, substitute.id);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : String(error) });
+      setHandingOver(null);
+      return;
+    }
+
+    toast({ title: t('sessionHandedOver'), description: substitute.display_name });
+    setHandingOver(null);
+    fetchSessions();
+    await notifyTrainerChange([session], substitute.display_name);
+  };
+
+  if (isFetching) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (sessions.length === 0) {
+    return <p className="text-muted-foreground text-center py-8">{t('noUpcomingSessions')}</p>;
+  }
+
+  return (
+    <div className="grid gap-4">
+      {sessions.map(session => {
+        const booked = roster.filter(r => r.workout_id === session.id);
+        return (
+          <Card key={session.id} className="border-border/50">
+            <CardContent className="p-4 space-y-3">
+              <div className="space-y-1">
+                <h3 className="font-display text-lg font-semibold">
+                  {(language === 'bg' && session.title_bg) || session.title}
+                </h3>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    {format(parseISO(session.workout_date), 'MMM d, yyyy')}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    {session.start_time.slice(0, 5)} - {session.end_time.slice(0, 5)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Users className="h-4 w-4" />
+                    {booked.length} / {session.max_spots}
+                  </span>
+                </div>
+              </div>
+
+              {booked.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('noBookingsYet')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {booked.map(entry => {
+                    const key = `${session.id}:${entry.user_id}`;
+                    return (
+                      <div key={key} className="flex items-center justify-between p-2 rounded-lg bg-secondary/50">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">{entry.full_name || 'Member'}</span>
+                          {entry.member_type === 'card' && (
+                            <Badge className="bg-primary/20 text-xs">
+                              <Crown className="h-3 w-3 mr-1" />
+                              Card
+                            </Badge>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            variant={attendance[key] === true ? 'default' : 'outline'}
+                            size="sm"
+                            onClick={() => handleMarkAttendance(session.id, entry.user_id, true)}
+                          >
+                            <CheckCircle className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant={attendance[key] === false ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => handleMarkAttendance(session.id, entry.user_id, false)}
+                          >
+                            <XCircle className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
+              {otherTrainers.length > 0 && (
+                <div className="flex flex-col sm:flex-row gap-2 pt-2 border-t border-border/50">
+                  <Select
+                    value={substitutes[session.id] || ''}
+                    onValueChange={value => setSubstitutes(prev => ({ ...prev, [session.id]: value }))}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder={t('pickSubstitute')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {otherTrainers.map(tr => (
+                        <SelectItem key={tr.id} value={tr.id}>{tr.display_name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    onClick={() => handleHandOver(session)}
+                    disabled={!substitutes[session.id] || handingOver === session.id}
+                  >
+                    {handingOver === session.id ? (
+                      <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                    ) : (
+                      <Repeat className="h-4 w-4 mr-1" />
+                    )}
+                    {t('handOverSession')}
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchStaffPermissions, type StaffPermission } from '@/lib/staffPermissions';
 import { useToast } from '@/hooks/use-toast';
 
-type AppRole = 'admin' | 'staff' | 'card_member' | 'member';
+type AppRole = 'admin' | 'staff' | 'card_member' | 'member' | 'kiosk';
 type MemberType = 'regular' | 'card';
 
 interface Profile {
@@ -15,6 +16,7 @@ interface Profile {
   member_type: MemberType;
   card_image_url: string | null;
   preferred_language: string;
+  preferred_location_id: string | null;
   is_regular_attendee: boolean;
 }
 
@@ -28,10 +30,13 @@ interface AuthContextType {
   session: Session | null;
   profile: Profile | null;
   roles: UserRole[];
+  permissions: StaffPermission[];
   isLoading: boolean;
   isStaff: boolean;
   isAdmin: boolean;
   isCardMember: boolean;
+  isKiosk: boolean;
+  hasPermission: (permission: StaffPermission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string, memberType: MemberType, requestedRole?: AppRole) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -45,6 +50,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
   const [roles, setRoles] = useState<UserRole[]>([]);
+  const [permissions, setPermissions] = useState<StaffPermission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
@@ -69,6 +75,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (rolesData) {
       setRoles(rolesData as UserRole[]);
     }
+
+    try {
+      setPermissions(await fetchStaffPermissions(userId));
+    } catch (error) {
+      console.error('Error fetching staff permissions:', error);
+    }
   };
 
   const refreshProfile = async () => {
@@ -91,6 +103,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       } else {
         setProfile(null);
         setRoles([]);
+        setPermissions([]);
       }
       
       setIsLoading(false);
@@ -176,11 +189,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await supabase.auth.signOut();
     setProfile(null);
     setRoles([]);
+    setPermissions([]);
   };
 
   const isStaff = roles.some(r => (r.role === 'staff' || r.role === 'admin') && r.is_approved);
   const isAdmin = roles.some(r => r.role === 'admin' && r.is_approved);
   const isCardMember = profile?.member_type === 'card' || roles.some(r => r.role === 'card_member');
+  const isKiosk = roles.some(r => r.role === 'kiosk' && r.is_approved);
+  // Mirrors has_permission() in the database: admins can do everything
+  const hasPermission = (permission: StaffPermission) =>
+    isAdmin || (isStaff && permissions.includes(permission));
 
   return (
     <AuthContext.Provider value={{
@@ -188,10 +206,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       session,
       profile,
       roles,
+      permissions,
       isLoading,
       isStaff,
       isAdmin,
       isCardMember,
+      isKiosk,
+      hasPermission,
       signIn,
       signUp,
       signOut,
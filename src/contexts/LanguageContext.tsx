@@ -74,7 +74,27 @@ const translations: Translations = {
   bookingOpensHours: { en: 'Booking opens (hours before)', bg: 'Записване се отваря (часове преди)' },
   bookingNotOpen: { en: 'Booking not open yet', bg: 'Записването още не е отворено' },
   cardPriorityPeriod: { en: 'Card member priority period', bg: 'Период за приоритет на картови членове' },
-  
+  autoReserveLastRun: { en: 'Auto-reserve ran', bg: 'Авто-резервацията е изпълнена' },
+  autoReserveFailed: { en: 'Auto-reserve failed', bg: 'Авто-резервацията е неуспешна' },
+  autoReservePending: { en: 'Auto-reserve running', bg: 'Авто-резервацията се изпълнява' },
+  autoReserveScheduled: { en: 'Auto-reserve runs when booking opens', bg: 'Авто-резервацията ще се изпълни при отваряне на записването' },
+  spotsReserved: { en: 'reserved', bg: 'резервирани' },
+
+  // Workout series
+  repeatWeekly: { en: 'Repeat weekly', bg: 'Повтаряй седмично' },
+  repeatOn: { en: 'Repeat on', bg: 'Повтаряй в' },
+  repeatUntil: { en: 'Until', bg: 'До' },
+  startsOn: { en: 'Starts on', bg: 'Започва на' },
+  recurring: { en: 'Recurring', bg: 'Повтаряща се' },
+  seriesCreated: { en: 'Workout series created!', bg: 'Серията тренировки е създадена!' },
+  seriesInvalid: { en: 'Pick at least one day and an end date after the start date', bg: 'Изберете поне един ден и крайна дата след началната' },
+  applyTo: { en: 'Apply changes to', bg: 'Приложи промените към' },
+  onlyThisWorkout: { en: 'Only this workout', bg: 'Само тази тренировка' },
+  thisAndFollowing: { en: 'This and following', bg: 'Тази и следващите' },
+  deleteThisWorkout: { en: 'Delete this workout', bg: 'Изтрий тази тренировка' },
+  deleteThisAndFollowing: { en: 'Delete this and following', bg: 'Изтрий тази и следващите' },
+  confirmDeleteSeriesFollowing: { en: 'Are you sure you want to delete this workout and all following workouts in the series? Booked members will be notified.', bg: 'Сигурни ли сте, че искате да изтриете тази и всички следващи тренировки от серията? Записаните членове ще бъдат уведомени.' },
+
   // Reservations
   book: { en: 'Book Spot', bg: 'Запиши се' },
   cancelBooking: { en: 'Cancel Booking', bg: 'Откажи записване' },
@@ -104,8 +124,6 @@ const translations: Translations = {
   removeMember: { en: 'Remove Member', bg: 'Премахни член' },
   
   // Member management
-  promoteToCard: { en: 'Promote to Card Member', bg: 'Повиши до картов член' },
-  demoteToMember: { en: 'Demote to Member', bg: 'Понижи до член' },
   deactivate: { en: 'Deactivate', bg: 'Деактивирай' },
   activate: { en: 'Activate', bg: 'Активирай' },
   removeStaff: { en: 'Remove Staff', bg: 'Премахни персонал' },
@@ -128,7 +146,346 @@ const translations: Translations = {
   yourPosition: { en: 'Your position', bg: 'Вашата позиция' },
   workoutPassed: { en: 'Workout has passed', bg: 'Тренировката е приключила' },
   alreadyOnWaitingList: { en: 'You are already on the waiting list', bg: 'Вече сте в листа за чакане' },
-  
+  addedToWaitingList: { en: 'The workout is full - you were added to the waiting list', bg: 'Тренировката е пълна - добавени сте в листа за чакане' },
+  bookingNotAllowed: { en: 'This account cannot book this workout', bg: 'Този акаунт не може да резервира тази тренировка' },
+  spotOffered: { en: 'A spot is held for you', bg: 'Пазим място за вас' },
+  spotOfferPending: { en: 'Spot offered', bg: 'Предложено място' },
+  acceptWithin: { en: 'Accept within', bg: 'Време за приемане' },
+  acceptSpot: { en: 'Accept spot', bg: 'Приеми мястото' },
+  declineSpot: { en: 'Decline', bg: 'Откажи' },
+  offerDeclined: { en: 'The spot was passed on to the next member', bg: 'Мястото беше предложено на следващия член' },
+  offerExpired: { en: 'This offer has expired', bg: 'Това предложение е изтекло' },
+  offerClosed: { en: 'This offer is no longer open', bg: 'Това предложение вече не е активно' },
+
+  // Cancellation policy and strikes
+  cancellationDeadline: { en: 'Cancellation deadline (hours before)', bg: 'Краен срок за отказ (часове преди)' },
+  clubDefault: { en: 'Club default', bg: 'По подразбиране за клуба' },
+  lateCancelTitle: { en: 'Late cancellation', bg: 'Късен отказ' },
+  lateCancelWarning: { en: 'The cancellation deadline for this workout has passed. Cancelling now will count as a strike.', bg: 'Крайният срок за отказ от тази тренировка е изтекъл. Отказът сега ще се брои за наказателна точка.' },
+  lateCancelRecorded: { en: 'This counted as a late cancellation', bg: 'Това се отчете като късен отказ' },
+  cancelAnyway: { en: 'Cancel anyway', bg: 'Откажи въпреки това' },
+  keepBooking: { en: 'Keep booking', bg: 'Запази записването' },
+  strikes: { en: 'Strikes', bg: 'Наказателни точки' },
+  strikesInfo: { en: 'Strikes for late cancellations and no-shows', bg: 'Наказателни точки за късни откази и неявявания' },
+  bookingSuspended: { en: 'Booking is suspended until staff clear your strikes', bg: 'Записването е спряно, докато персоналът не изчисти наказателните ви точки' },
+  priorityLostStrikes: { en: 'Card priority is paused until staff clear your strikes', bg: 'Приоритетът на картата е спрян, докато персоналът не изчисти наказателните ви точки' },
+  clearStrikes: { en: 'Clear strikes', bg: 'Изчисти наказателните точки' },
+  strikesCleared: { en: 'Strikes cleared', bg: 'Наказателните точки са изчистени' },
+
+  // Club settings
+  clubSettings: { en: 'Club settings', bg: 'Настройки на клуба' },
+  bookingRules: { en: 'Booking rules', bg: 'Правила за записване' },
+  priorityPeriodHours: { en: 'Card member priority (hours)', bg: 'Приоритет за картови членове (часове)' },
+  halfTheWindow: { en: 'Half the booking window', bg: 'Половината от периода за записване' },
+  clubTimeZone: { en: 'Club time zone', bg: 'Часова зона на клуба' },
+  strikeThreshold: { en: 'Strikes before penalty', bg: 'Наказателни точки до санкция' },
+  strikePenalty: { en: 'Penalty', bg: 'Санкция' },
+  strikePenaltyBlock: { en: 'Suspend booking', bg: 'Спиране на записването' },
+  strikePenaltyPriority: { en: 'Pause card priority', bg: 'Спиране на приоритета на картата' },
+  workoutDefaults: { en: 'New workout defaults', bg: 'Стойности по подразбиране за нови тренировки' },
+  autoReserve: { en: 'Auto-reserve', bg: 'Авто-резервация' },
+  notificationDefaults: { en: 'Notification defaults', bg: 'Известия по подразбиране' },
+  defaultReminderTimesHint: {
+    en: 'Reminder times for members who have not picked their own.',
+    bg: 'Напомняния за членовете, които не са избрали свои.'
+  },
+  endTimeBeforeStart: { en: 'End time must be after start time', bg: 'Крайният час трябва да е след началния' },
+  settingsSaved: { en: 'Settings saved', bg: 'Настройките са запазени' },
+  useClubDefault: { en: 'Use club default', bg: 'Използвай настройката на клуба' },
+  waitlistOffers: { en: 'Offer freed spots first', bg: 'Първо предлагай освободените места' },
+  waitlistOffersHint: {
+    en: 'The next member on the waiting list gets a limited time to accept a freed spot before it moves on.',
+    bg: 'Следващият в листа за чакане има ограничено време да приеме освободеното място, преди то да се предложи на друг.'
+  },
+  waitlistOfferMinutes: { en: 'Time to accept (minutes)', bg: 'Време за приемане (минути)' },
+  waitlistOfferCutoff: { en: 'Promote directly within (minutes before start)', bg: 'Директно записване в последните (минути преди началото)' },
+
+  // Audit log
+  auditLog: { en: 'Audit log', bg: 'Дневник на действията' },
+  auditSearch: { en: 'Search', bg: 'Търсене' },
+  auditSearchHint: { en: 'Name, email, action or record ID', bg: 'Име, имейл, действие или ID на запис' },
+  auditRecord: { en: 'Record', bg: 'Запис' },
+  auditNoEntries: { en: 'No matching entries', bg: 'Няма съвпадащи записи' },
+  auditSystem: { en: 'System', bg: 'Системата' },
+  auditUnknownUser: { en: 'Deleted user', bg: 'Изтрит потребител' },
+  auditChanges: { en: 'Changes', bg: 'Промени' },
+  auditField: { en: 'Field', bg: 'Поле' },
+  auditBefore: { en: 'Before', bg: 'Преди' },
+  auditAfter: { en: 'After', bg: 'След' },
+  audit_action_created: { en: 'created', bg: 'създаде' },
+  audit_action_updated: { en: 'updated', bg: 'промени' },
+  audit_action_deleted: { en: 'deleted', bg: 'изтри' },
+  audit_action_removed: { en: 'removed', bg: 'премахна' },
+  audit_action_restored: { en: 'restored', bg: 'възстанови' },
+  audit_action_cancelled: { en: 'cancelled', bg: 'отмени' },
+  audit_action_cleared: { en: 'cleared', bg: 'изчисти' },
+  audit_action_refunded: { en: 'refunded', bg: 'възстанови сумата' },
+  audit_action_deactivated: { en: 'deactivated', bg: 'деактивира' },
+  audit_action_activated: { en: 'activated', bg: 'активира' },
+  audit_action_approved: { en: 'approved', bg: 'одобри' },
+  audit_action_member_type_changed: { en: 'changed member type', bg: 'смени типа член' },
+  audit_action_exported: { en: 'exported', bg: 'експортира' },
+  audit_entity_profiles: { en: 'Profile', bg: 'Профил' },
+  audit_entity_user_roles: { en: 'Role', bg: 'Роля' },
+  audit_entity_reservations: { en: 'Booking', bg: 'Резервация' },
+  audit_entity_waiting_list: { en: 'Waiting list entry', bg: 'Място в листа за чакане' },
+  audit_entity_attendance: { en: 'Attendance', bg: 'Присъствие' },
+  audit_entity_workouts: { en: 'Workout', bg: 'Тренировка' },
+  audit_entity_workout_series: { en: 'Workout series', bg: 'Серия тренировки' },
+  audit_entity_memberships: { en: 'Membership', bg: 'Членство' },
+  audit_entity_membership_plans: { en: 'Membership plan', bg: 'План за членство' },
+  audit_entity_member_strikes: { en: 'Strike', bg: 'Наказателна точка' },
+  audit_entity_payments: { en: 'Payment', bg: 'Плащане' },
+  audit_entity_club_settings: { en: 'Club settings', bg: 'Настройки на клуба' },
+  audit_entity_staff_permissions: { en: 'Staff permission', bg: 'Право на служител' },
+  audit_entity_trainers: { en: 'Trainer', bg: 'Треньор' },
+  audit_entity_workout_trainers: { en: 'Workout trainer', bg: 'Треньор на тренировка' },
+  audit_entity_locations: { en: 'Location', bg: 'Локация' },
+  audit_entity_rooms: { en: 'Room', bg: 'Зала' },
+  audit_entity_report: { en: 'Report', bg: 'Справка' },
+
+  // Staff permissions
+  staffPermissions: { en: 'Permissions', bg: 'Права' },
+  permissionsSaved: { en: 'Permissions saved', bg: 'Правата са запазени' },
+  permission_manage_schedule: { en: 'Manage schedule', bg: 'Управление на графика' },
+  permission_manage_schedule_hint: { en: 'Create, edit and delete workouts and series', bg: 'Създаване, редакция и изтриване на тренировки и серии' },
+  permission_manage_members: { en: 'Manage members', bg: 'Управление на членове' },
+  permission_manage_members_hint: { en: 'Bookings, memberships, refunds, strikes, removing and restoring members', bg: 'Резервации, членства, възстановяване на плащания, наказателни точки, премахване и възстановяване на членове' },
+  permission_mark_attendance: { en: 'Take attendance', bg: 'Отбелязване на присъствие' },
+  permission_mark_attendance_hint: { en: 'Check members in and mark who attended', bg: 'Чекиране на членове и отбелязване кой е присъствал' },
+  permission_view_reports: { en: 'View reports', bg: 'Преглед на справки' },
+  permission_view_reports_hint: { en: 'Analytics and CSV exports', bg: 'Анализи и CSV експорти' },
+  permission_approve_staff: { en: 'Approve staff', bg: 'Одобряване на служители' },
+  permission_approve_staff_hint: { en: 'Approve staff sign-ups and remove staff', bg: 'Одобряване на регистрации на служители и премахване на служители' },
+  permissionPreset_front_desk: { en: 'Front desk', bg: 'Рецепция' },
+  permissionPreset_coach: { en: 'Coach', bg: 'Треньор' },
+  permissionPreset_staff: { en: 'Staff', bg: 'Служител' },
+  permissionPreset_manager: { en: 'Manager', bg: 'Мениджър' },
+
+  // Trainers
+  trainers: { en: 'Trainers', bg: 'Треньори' },
+  mySessions: { en: 'My sessions', bg: 'Моите тренировки' },
+  makeTrainer: { en: 'Make trainer', bg: 'Направи треньор' },
+  removeTrainer: { en: 'Remove from trainers', bg: 'Премахни от треньорите' },
+  trainerAdded: { en: 'Added to trainers', bg: 'Добавен/а към треньорите' },
+  trainerRemoved: { en: 'Removed from trainers', bg: 'Премахнат/а от треньорите' },
+  noUpcomingSessions: { en: 'No upcoming sessions assigned to you', bg: 'Нямате предстоящи тренировки' },
+  noBookingsYet: { en: 'No bookings yet', bg: 'Все още няма резервации' },
+  pickSubstitute: { en: 'Pick a substitute trainer', bg: 'Изберете заместващ треньор' },
+  handOverSession: { en: 'Hand over', bg: 'Предай' },
+  sessionHandedOver: { en: 'Session handed over', bg: 'Тренировката е предадена' },
+
+  // Locations
+  locations: { en: 'Locations', bg: 'Локации' },
+  allLocations: { en: 'All locations', bg: 'Всички локации' },
+  preferredLocation: { en: 'Preferred location', bg: 'Предпочитана локация' },
+  noPreference: { en: 'No preference', bg: 'Без предпочитание' },
+  room: { en: 'Room', bg: 'Зала' },
+  noRoom: { en: 'No room', bg: 'Без зала' },
+  roomDoubleBooked: { en: 'Room double-booked', bg: 'Залата е заета по същото време' },
+  roomCapacity: { en: 'Capacity', bg: 'Капацитет' },
+  newRoom: { en: 'New room', bg: 'Нова зала' },
+  newLocation: { en: 'New location', bg: 'Нова локация' },
+  addLocation: { en: 'Add location', bg: 'Добави локация' },
+  address: { en: 'Address', bg: 'Адрес' },
+  active: { en: 'Active', bg: 'Активна' },
+
+  // Check-in
+  myQrCode: { en: 'My QR code', bg: 'Моят QR код' },
+  qrCodeHint: { en: 'Show this code at the front desk to check in. It refreshes automatically.', bg: 'Покажете този код на рецепцията, за да се чекирате. Обновява се автоматично.' },
+  qrCodeUnavailable: { en: 'Could not load your QR code', bg: 'QR кодът не може да бъде зареден' },
+  checkIn: { en: 'Check-in', bg: 'Чекиране' },
+  scanQrCode: { en: 'Scan a member QR code', bg: 'Сканирайте QR кода на член' },
+  cameraUnavailable: { en: 'Camera is not available. Allow camera access and reload the page.', bg: 'Камерата не е достъпна. Разрешете достъп до камерата и презаредете страницата.' },
+  currentWorkoutAuto: { en: 'Current workout (automatic)', bg: 'Текуща тренировка (автоматично)' },
+  checkedIn: { en: 'Checked in', bg: 'Чекиран/а' },
+  alreadyCheckedIn: { en: 'Already checked in', bg: 'Вече е чекиран/а' },
+  noReservation: { en: 'No booking for this workout', bg: 'Няма записване за тази тренировка' },
+  noWorkoutNow: { en: 'No workout open for check-in right now', bg: 'В момента няма тренировка за чекиране' },
+  invalidQrCode: { en: 'Invalid QR code', bg: 'Невалиден QR код' },
+  expiredQrCode: { en: 'QR code expired - ask the member to reopen it', bg: 'QR кодът е изтекъл - помолете члена да го отвори отново' },
+  kioskPin: { en: 'Kiosk PIN', bg: 'ПИН за киоска' },
+
+  // Kiosk
+  kiosk: { en: 'Kiosk', bg: 'Киоск' },
+  kioskTitle: { en: 'Welcome! Check in here', bg: 'Добре дошли! Чекирайте се тук' },
+  kioskHint: { en: 'Scan your QR code from the app or enter your PIN', bg: 'Сканирайте QR кода си от приложението или въведете своя ПИН' },
+  kioskOnly: { en: 'This screen is only available on the reception kiosk account', bg: 'Този екран е достъпен само за акаунта на киоска на рецепцията' },
+  goToDashboard: { en: 'Go to dashboard', bg: 'Към таблото' },
+  currentWorkouts: { en: 'Workouts now', bg: 'Тренировки сега' },
+  spotsFree: { en: 'spots free', bg: 'свободни места' },
+  scanYourCode: { en: 'Scan QR code', bg: 'Сканирай QR код' },
+  enterPin: { en: 'Enter PIN', bg: 'Въведи ПИН' },
+  clear: { en: 'Clear', bg: 'Изчисти' },
+  invalidPin: { en: 'Unknown PIN', bg: 'Непознат ПИН' },
+  kioskQrExpired: { en: 'QR code expired - reopen it in the app', bg: 'QR кодът е изтекъл - отворете го отново в приложението' },
+  kioskAskStaff: { en: 'Something went wrong - please ask at the front desk', bg: 'Възникна проблем - моля, обърнете се към рецепцията' },
+  workoutFull: { en: 'This workout is full', bg: 'Тази тренировка е пълна' },
+  walkInOffer: { en: 'There is a free spot - would you like to join?', bg: 'Има свободно място - искате ли да се включите?' },
+  takeFreeSpot: { en: 'Take a free spot', bg: 'Заеми свободно място' },
+  makeKioskAccount: { en: 'Make kiosk account', bg: 'Направи акаунт за киоск' },
+  confirmMakeKiosk: { en: 'Turn this account into the reception kiosk? It will lose all other roles and can only be used for check-in.', bg: 'Да превърнем ли този акаунт в киоск за рецепцията? Той ще загуби всички други роли и ще може да се използва само за чекиране.' },
+  kioskAccountCreated: { en: 'Kiosk account created', bg: 'Акаунтът за киоск е създаден' },
+
+  // Memberships
+  memberships: { en: 'Memberships', bg: 'Абонаменти' },
+  noMemberships: { en: 'No memberships yet', bg: 'Все още няма абонаменти' },
+  selectPlan: { en: 'Select plan', bg: 'Изберете план' },
+  assignPlan: { en: 'Assign', bg: 'Добави' },
+  membershipAssigned: { en: 'Membership assigned', bg: 'Абонаментът е добавен' },
+  membershipCancelled: { en: 'Membership cancelled', bg: 'Абонаментът е прекратен' },
+  membership_active: { en: 'Active', bg: 'Активен' },
+  membership_upcoming: { en: 'Upcoming', bg: 'Предстоящ' },
+  membership_expired: { en: 'Expired', bg: 'Изтекъл' },
+  membership_used_up: { en: 'Used up', bg: 'Изчерпан' },
+  membership_cancelled: { en: 'Cancelled', bg: 'Прекратен' },
+  validUntil: { en: 'Valid until', bg: 'Валиден до' },
+  unlimitedClasses: { en: 'Unlimited classes', bg: 'Неограничени посещения' },
+  classesLeft: { en: 'classes left', bg: 'оставащи посещения' },
+  noActiveMembership: { en: 'No active membership', bg: 'Нямате активен абонамент' },
+  noActiveMembershipHint: { en: 'Buy a membership or ask at the front desk before booking', bg: 'Купете абонамент или се обърнете към рецепцията, преди да се запишете' },
+
+  // Payments
+  buyMembership: { en: 'Buy membership', bg: 'Купи абонамент' },
+  classes: { en: 'classes', bg: 'посещения' },
+  days: { en: 'days', bg: 'дни' },
+  checkoutFailed: { en: 'Could not start the payment. Please try again.', bg: 'Плащането не може да започне. Моля, опитайте отново.' },
+  checkout: { en: 'Checkout', bg: 'Плащане' },
+  testPayment: { en: 'Test mode', bg: 'Тестов режим' },
+  testPaymentHint: { en: 'This is a test payment. No card is charged.', bg: 'Това е тестово плащане. Няма да бъде таксувана карта.' },
+  pay: { en: 'Pay', bg: 'Плати' },
+  decline: { en: 'Decline', bg: 'Откажи' },
+  paymentSucceeded: { en: 'Payment received - your membership is active', bg: 'Плащането е получено - абонаментът ви е активен' },
+  paymentCancelled: { en: 'The payment was not completed', bg: 'Плащането не беше завършено' },
+  payments: { en: 'Payments', bg: 'Плащания' },
+  refund: { en: 'Refund', bg: 'Възстанови сумата' },
+  confirmRefund: { en: 'Refund this payment in full? The membership it paid for will be cancelled.', bg: 'Да се възстанови ли цялата сума? Абонаментът, платен с нея, ще бъде прекратен.' },
+  paymentRefunded: { en: 'Payment refunded', bg: 'Сумата е възстановена' },
+  payment_pending: { en: 'Pending', bg: 'Изчакващо' },
+  payment_succeeded: { en: 'Paid', bg: 'Платено' },
+  payment_failed: { en: 'Failed', bg: 'Неуспешно' },
+  payment_refunded: { en: 'Refunded', bg: 'Възстановено' },
+
+  // History
+  history: { en: 'History', bg: 'История' },
+  myHistory: { en: 'My history', bg: 'Моята история' },
+  attendedThisMonth: { en: 'This month', bg: 'Този месец' },
+  attendedLastMonth: { en: 'Last month', bg: 'Миналия месец' },
+  sessionsPerMonth: { en: 'Sessions per month', bg: 'Посещения по месеци' },
+  sessions: { en: 'Sessions', bg: 'Посещения' },
+  currentStreak: { en: 'Current streak', bg: 'Текуща серия' },
+  longestStreak: { en: 'Longest streak', bg: 'Най-дълга серия' },
+  weeks: { en: 'weeks', bg: 'седмици' },
+  streakHint: { en: 'Weeks in a row with at least one session', bg: 'Поредни седмици с поне едно посещение' },
+  earlyVsLate: { en: 'Early vs late', bg: 'Ранни и късни' },
+  noShows: { en: 'No-shows', bg: 'Неявявания' },
+  promotedFromWaitlist: { en: 'From waiting list', bg: 'От листа за чакане' },
+  activity: { en: 'Activity', bg: 'Активност' },
+  noHistory: { en: 'No bookings yet', bg: 'Все още няма записвания' },
+  loadMore: { en: 'Load more', bg: 'Зареди още' },
+  history_attended: { en: 'Attended', bg: 'Присъствал' },
+  history_no_show: { en: 'No-show', bg: 'Неявяване' },
+  history_cancelled: { en: 'Cancelled', bg: 'Отказано' },
+  history_booked: { en: 'Booked', bg: 'Записан' },
+  history_waitlisted: { en: 'On waiting list', bg: 'В листа за чакане' },
+  history_left_waitlist: { en: 'Left waiting list', bg: 'Напуснал листа за чакане' },
+
+  // Analytics
+  analytics: { en: 'Analytics', bg: 'Анализи' },
+  fromDate: { en: 'From', bg: 'От' },
+  toDate: { en: 'To', bg: 'До' },
+  fillRate: { en: 'Fill rate', bg: 'Запълненост' },
+  fillRatePerWorkout: { en: 'Fill rate per workout', bg: 'Запълненост по тренировки' },
+  showUpRate: { en: 'Show-up rate', bg: 'Явяване' },
+  unservedDemand: { en: 'Unserved waitlist', bg: 'Неудовлетворено чакане' },
+  cardVsRegular: { en: 'Card member bookings', bg: 'Записвания от картови членове' },
+  busiestWeekdays: { en: 'Bookings by weekday', bg: 'Записвания по дни' },
+  busiestTimeSlots: { en: 'Fill rate by start time', bg: 'Запълненост по начален час' },
+  monthlyAttendanceSheet: { en: 'Monthly attendance sheet', bg: 'Месечна присъствена ведомост' },
+  export: { en: 'Export', bg: 'Експорт' },
+  exportFailed: { en: 'Could not generate the report', bg: 'Справката не може да бъде генерирана' },
+
+  // Member import
+  importMembers: { en: 'Import members', bg: 'Импорт на членове' },
+  importHint: {
+    en: 'CSV with columns name, email, phone, member_type (regular or card) and language (en or bg). Everyone imported gets an email to set their password.',
+    bg: 'CSV с колони name, email, phone, member_type (regular или card) и language (en или bg). Всеки импортиран получава имейл, за да зададе парола.'
+  },
+  importInvalidFile: { en: 'The file needs a header row with at least name and email columns', bg: 'Файлът трябва да има заглавен ред с поне колони name и email' },
+  importConfirm: { en: 'Create and invite', bg: 'Създай и покани' },
+  importPlan: { en: 'Plan for regular members', bg: 'План за обикновените членове' },
+  membersImported: { en: 'Members imported', bg: 'Членовете са импортирани' },
+  status: { en: 'Status', bg: 'Статус' },
+  import_ready: { en: 'Ready', bg: 'Готов' },
+  import_created: { en: 'Invited', bg: 'Поканен' },
+  import_invalid: { en: 'Invalid', bg: 'Невалиден' },
+  import_duplicate: { en: 'Duplicate', bg: 'Дублиран' },
+  import_failed: { en: 'Failed', bg: 'Неуспешен' },
+  import_error_missing_name: { en: 'name missing', bg: 'липсва име' },
+  import_error_invalid_email: { en: 'invalid email', bg: 'невалиден имейл' },
+  import_error_invalid_phone: { en: 'invalid phone', bg: 'невалиден телефон' },
+  import_error_invalid_member_type: { en: 'unknown member type', bg: 'непознат тип член' },
+  import_error_invalid_language: { en: 'unknown language', bg: 'непознат език' },
+  import_error_duplicate_in_file: { en: 'listed twice in the file', bg: 'повторен във файла' },
+  import_error_email_exists: { en: 'account already exists', bg: 'вече има такъв акаунт' },
+  import_error_no_plan: { en: 'no active membership plan to start on', bg: 'няма активен план за членство' },
+
+  // Notification preferences
+  notificationPreferences: { en: 'Notification preferences', bg: 'Настройки на известията' },
+  notificationPreferencesHint: {
+    en: 'Choose which notifications you get and where. Changes are saved right away.',
+    bg: 'Изберете кои известия да получавате и къде. Промените се запазват веднага.'
+  },
+  workoutNotifications: { en: 'Workouts and bookings', bg: 'Тренировки и резервации' },
+  staffNotifications: { en: 'Staff notifications', bg: 'Известия за персонала' },
+  channel_push: { en: 'Push', bg: 'Push' },
+  channel_email: { en: 'Email', bg: 'Имейл' },
+  channel_in_app: { en: 'In-app', bg: 'В приложението' },
+  alwaysInApp: { en: 'Always kept in the app', bg: 'Винаги се пазят в приложението' },
+  notif_new_workout: { en: 'New workouts', bg: 'Нови тренировки' },
+  notif_workout_updated: { en: 'Workout changes', bg: 'Промени в тренировки' },
+  notif_workout_deleted: { en: 'Cancelled workouts', bg: 'Отменени тренировки' },
+  notif_spot_freed: { en: 'Freed spots', bg: 'Освободени места' },
+  notif_waiting_list_promoted: { en: 'Waitlist promotions', bg: 'Записване от чакащите' },
+  notif_waitlist_offer: { en: 'Waitlist spot offers', bg: 'Предложени места от чакащите' },
+  notif_auto_reserved: { en: 'Auto-reservations', bg: 'Авто-резервации' },
+  notif_workout_reminder: { en: 'Workout reminders', bg: 'Напомняния' },
+  notif_trainer_changed: { en: 'Trainer changes', bg: 'Смяна на треньора' },
+  notif_workout_full: { en: 'Workout fully booked', bg: 'Пълна тренировка' },
+  notif_member_booked: { en: 'Member bookings', bg: 'Резервации на членове' },
+  notif_member_cancelled: { en: 'Member cancellations', bg: 'Откази на членове' },
+  quietHours: { en: 'Quiet hours', bg: 'Тихи часове' },
+  quietHoursHint: {
+    en: 'No push notifications between these times. You will still find them in the app.',
+    bg: 'Без push известия в тези часове. Ще ги намерите в приложението.'
+  },
+  quietHoursFrom: { en: 'From', bg: 'От' },
+  quietHoursTo: { en: 'Until', bg: 'До' },
+  preferencesSaved: { en: 'Preferences saved', bg: 'Настройките са запазени' },
+  reminderTimes: { en: 'Workout reminders', bg: 'Напомняния за тренировки' },
+  reminderTimesHint: {
+    en: 'When to remind you about workouts you have booked. Pick as many as you like.',
+    bg: 'Кога да ви напомняме за резервираните тренировки. Изберете колкото искате.'
+  },
+  reminder_30: { en: '30 min before', bg: '30 мин. преди' },
+  reminder_60: { en: '1 hour before', bg: '1 час преди' },
+  reminder_120: { en: '2 hours before', bg: '2 часа преди' },
+  reminder_180: { en: '3 hours before', bg: '3 часа преди' },
+  reminder_720: { en: '12 hours before', bg: '12 часа преди' },
+  reminder_1440: { en: 'The day before', bg: 'Ден преди' },
+  weeklyDigest: { en: 'Weekly schedule email', bg: 'Седмичен график по имейл' },
+  weeklyDigestHint: {
+    en: "Every Sunday we email you next week's workouts with links to book them.",
+    bg: 'Всяка неделя ще ви изпращаме тренировките за следващата седмица с връзки за резервация.'
+  },
+
+  // Notification inbox
+  allNotifications: { en: 'All notifications', bg: 'Всички известия' },
+  preferences: { en: 'Preferences', bg: 'Настройки' },
+  markAllRead: { en: 'Mark all read', bg: 'Маркирай всички като прочетени' },
+  allTypes: { en: 'All types', bg: 'Всички видове' },
+  noNotifications: { en: 'No notifications yet', bg: 'Няма известия' },
+
   // Language
   language: { en: 'Language', bg: 'Език' },
   english: { en: 'English', bg: 'Английски' },
@@ -140,8 +497,6 @@ const translations: Translations = {
   bookingSuccess: { en: 'Booking confirmed!', bg: 'Записването е потвърдено!' },
   bookingCancelled: { en: 'Booking cancelled', bg: 'Записването е отменено' },
   alreadyBooked: { en: 'You already have a booking for this workout', bg: 'Вече имате записване за тази тренировка' },
-  memberPromoted: { en: 'Member promoted successfully', bg: 'Членът е повишен успешно' },
-  memberDemoted: { en: 'Member demoted successfully', bg: 'Членът е понижен успешно' },
   memberRemoved: { en: 'Member removed successfully', bg: 'Членът е премахнат успешно' },
   memberRestored: { en: 'Member restored successfully', bg: 'Членът е възстановен успешно' },
   removedMembers: { en: 'Removed Members', bg: 'Премахнати членове' },
@@ -155,7 +510,6 @@ const translations: Translations = {
   confirmDeleteWorkout: { en: 'Are you sure you want to delete this workout? All reservations will be cancelled and members will be notified.', bg: 'Сигурни ли сте, че искате да изтриете тази тренировка? Всички резервации ще бъдат отменени и членовете ще бъдат уведомени.' },
   confirmRemoveStaff: { en: 'Are you sure you want to remove this staff member? They will lose staff access.', bg: 'Сигурни ли сте, че искате да премахнете този служител? Той ще загуби достъпа на персонал.' },
   confirmDeactivate: { en: 'Are you sure you want to deactivate this member? They will not be able to book workouts.', bg: 'Сигурни ли сте, че искате да деактивирате този член? Той няма да може да резервира тренировки.' },
-  confirmDemote: { en: 'Are you sure you want to demote this card member to regular member?', bg: 'Сигурни ли сте, че искате да понижите този картов член до обикновен член?' },
   confirmRestore: { en: 'Are you sure you want to restore this member? They will regain access to the app.', bg: 'Сигурни ли сте, че искате да възстановите този член? Той ще получи отново достъп до приложението.' },
   areYouSure: { en: 'Are you sure?', bg: 'Сигурни ли сте?' },
   
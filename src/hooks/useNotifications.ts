@@ -2,13 +2,14 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 
-interface Notification {
+export interface Notification {
   id: string;
   workout_id: string | null;
   notification_type: string;
   message: string;
   message_bg: string | null;
-  is_sent: boolean;
+  is_sent: boolean | null;
+  read_at: string | null;
   created_at: string;
 }
 
@@ -18,6 +19,18 @@ export function useNotifications() {
   const [unreadCount, setUnreadCount] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
 
+  const fetchUnreadCount = useCallback(async () => {
+    if (!user) return;
+
+    const { count } = await supabase
+      .from('notification_queue')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    setUnreadCount(count || 0);
+  }, [user]);
+
   const fetchNotifications = useCallback(async () => {
     if (!user) {
       setNotifications([]);
@@ -41,22 +54,20 @@ export function useNotifications() {
       }
 
       setNotifications(data || []);
-      // Count notifications from the last 24 hours as "unread"
-      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-      const recent = (data || []).filter(n => new Date(n.created_at) > oneDayAgo);
-      setUnreadCount(recent.length);
+      await fetchUnreadCount();
     } catch (err) {
       console.error('Error fetching notifications:', err);
     }
 
     setIsLoading(false);
-  }, [user]);
+  }, [user, fetchUnreadCount]);
 
   useEffect(() => {
     fetchNotifications();
   }, [fetchNotifications]);
 
-  // Subscribe to realtime updates
+  // Subscribe to realtime updates. Read state changes arrive as updates, so marking
+  // notifications read on one device clears the badge on the others.
   useEffect(() => {
     if (!user) return;
 
@@ -76,25 +87,58 @@ export function useNotifications() {
           setUnreadCount(prev => prev + 1);
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notification_queue',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const updated = payload.new as Notification;
+          setNotifications(prev => prev.map(n => (n.id === updated.id ? updated : n)));
+          fetchUnreadCount();
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, [user]);
+  }, [user, fetchUnreadCount]);
+
+  const markAsRead = useCallback(async (ids: string[]) => {
+    if (!user || ids.length === 0) return;
 
-  const clearNotifications = useCallback(async () => {
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+
+    const { error } = await supabase.rpc('mark_notifications_read', { p_ids: ids });
+    if (error) console.error('Error marking notifications read:', error);
+    await fetchUnreadCount();
+  }, [user, fetchUnreadCount]);
+
+  const markAllAsRead = useCallback(async () => {
     if (!user) return;
 
-    // We don't actually delete, just clear the local state
+    const readAt = new Date().toISOString();
+    setNotifications(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
     setUnreadCount(0);
-  }, [user]);
+
+    const { error } = await supabase.rpc('mark_notifications_read', {});
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      await fetchUnreadCount();
+    }
+  }, [user, fetchUnreadCount]);
 
   return {
     notifications,
     unreadCount,
     isLoading,
     refresh: fetchNotifications,
-    clearNotifications,
+    markAsRead,
+    markAllAsRead,
   };
-}
\ No newline at end of file
+}
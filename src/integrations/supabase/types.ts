@@ -49,6 +49,354 @@ export type Database = {
           },
         ]
       }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          created_at: string
+          entity_id: string | null
+          entity_type: string
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+          source: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          created_at?: string
+          entity_id?: string | null
+          entity_type?: string
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+          source?: string
+          target_user_id?: string | null
+        }
+        Relationships: []
+      }
+      auto_reserve_runs: {
+        Row: {
+          finished_at: string | null
+          id: string
+          message: string | null
+          request_id: number | null
+          reserved_count: number
+          started_at: string
+          status: string
+          triggered_by: string
+          workout_id: string
+        }
+        Insert: {
+          finished_at?: string | null
+          id?: string
+          message?: string | null
+          request_id?: number | null
+          reserved_count?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+          workout_id: string
+        }
+        Update: {
+          finished_at?: string | null
+          id?: string
+          message?: string | null
+          request_id?: number | null
+          reserved_count?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+          workout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "auto_reserve_runs_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      club_settings: {
+        Row: {
+          cancellation_deadline_hours: number
+          default_auto_reserve_enabled: boolean
+          default_card_priority_enabled: boolean
+          default_end_time: string
+          default_max_spots: number
+          default_reminder_offsets: number[]
+          default_reservation_opens_hours: number
+          default_start_time: string
+          id: boolean
+          priority_period_hours: number | null
+          strike_penalty: string
+          strike_threshold: number
+          time_zone: string
+          updated_at: string
+          waitlist_offer_cutoff_minutes: number
+          waitlist_offer_minutes: number
+          waitlist_offers_enabled: boolean
+        }
+        Insert: {
+          cancellation_deadline_hours?: number
+          default_auto_reserve_enabled?: boolean
+          default_card_priority_enabled?: boolean
+          default_end_time?: string
+          default_max_spots?: number
+          default_reminder_offsets?: number[]
+          default_reservation_opens_hours?: number
+          default_start_time?: string
+          id?: boolean
+          priority_period_hours?: number | null
+          strike_penalty?: string
+          strike_threshold?: number
+          time_zone?: string
+          updated_at?: string
+          waitlist_offer_cutoff_minutes?: number
+          waitlist_offer_minutes?: number
+          waitlist_offers_enabled?: boolean
+        }
+        Update: {
+          cancellation_deadline_hours?: number
+          default_auto_reserve_enabled?: boolean
+          default_card_priority_enabled?: boolean
+          default_end_time?: string
+          default_max_spots?: number
+          default_reminder_offsets?: number[]
+          default_reservation_opens_hours?: number
+          default_start_time?: string
+          id?: boolean
+          priority_period_hours?: number | null
+          strike_penalty?: string
+          strike_threshold?: number
+          time_zone?: string
+          updated_at?: string
+          waitlist_offer_cutoff_minutes?: number
+          waitlist_offer_minutes?: number
+          waitlist_offers_enabled?: boolean
+        }
+        Relationships: []
+      }
+      kiosk_pins: {
+        Row: {
+          created_at: string
+          pin: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          pin: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          pin?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      locations: {
+        Row: {
+          address: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          name_bg: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          name_bg?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          name_bg?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      member_strikes: {
+        Row: {
+          cleared_at: string | null
+          cleared_by: string | null
+          created_at: string
+          id: string
+          reason: string
+          user_id: string
+          workout_id: string
+        }
+        Insert: {
+          cleared_at?: string | null
+          cleared_by?: string | null
+          created_at?: string
+          id?: string
+          reason: string
+          user_id: string
+          workout_id: string
+        }
+        Update: {
+          cleared_at?: string | null
+          cleared_by?: string | null
+          created_at?: string
+          id?: string
+          reason?: string
+          user_id?: string
+          workout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "member_strikes_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      membership_plans: {
+        Row: {
+          created_at: string
+          credits: number | null
+          currency: string
+          duration_days: number
+          grants_card_priority: boolean
+          id: string
+          is_active: boolean
+          name: string
+          name_bg: string | null
+          plan_type: string
+          price_cents: number | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          credits?: number | null
+          currency?: string
+          duration_days: number
+          grants_card_priority?: boolean
+          id?: string
+          is_active?: boolean
+          name: string
+          name_bg?: string | null
+          plan_type: string
+          price_cents?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          credits?: number | null
+          currency?: string
+          duration_days?: number
+          grants_card_priority?: boolean
+          id?: string
+          is_active?: boolean
+          name?: string
+          name_bg?: string | null
+          plan_type?: string
+          price_cents?: number | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      memberships: {
+        Row: {
+          cancelled_at: string | null
+          created_at: string
+          created_by: string | null
+          credits_remaining: number | null
+          ends_on: string
+          id: string
+          plan_id: string
+          starts_on: string
+          user_id: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          credits_remaining?: number | null
+          ends_on: string
+          id?: string
+          plan_id: string
+          starts_on: string
+          user_id: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          credits_remaining?: number | null
+          ends_on?: string
+          id?: string
+          plan_id?: string
+          starts_on?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "memberships_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "membership_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channel: string
+          enabled: boolean
+          notification_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          enabled?: boolean
+          notification_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          enabled?: boolean
+          notification_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       notification_queue: {
         Row: {
           created_at: string
@@ -57,6 +405,7 @@ export type Database = {
           message: string
           message_bg: string | null
           notification_type: string
+          read_at: string | null
           scheduled_for: string | null
           user_id: string
           workout_id: string | null
@@ -68,6 +417,7 @@ export type Database = {
           message: string
           message_bg?: string | null
           notification_type: string
+          read_at?: string | null
           scheduled_for?: string | null
           user_id: string
           workout_id?: string | null
@@ -79,6 +429,7 @@ export type Database = {
           message?: string
           message_bg?: string | null
           notification_type?: string
+          read_at?: string | null
           scheduled_for?: string | null
           user_id?: string
           workout_id?: string | null
@@ -93,6 +444,81 @@ export type Database = {
           },
         ]
       }
+      payments: {
+        Row: {
+          amount_cents: number
+          created_at: string
+          currency: string
+          failure_reason: string | null
+          id: string
+          membership_id: string | null
+          paid_at: string | null
+          plan_id: string
+          provider: string
+          provider_payment_id: string | null
+          provider_refund_id: string | null
+          provider_session_id: string | null
+          refunded_at: string | null
+          refunded_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_cents: number
+          created_at?: string
+          currency: string
+          failure_reason?: string | null
+          id?: string
+          membership_id?: string | null
+          paid_at?: string | null
+          plan_id: string
+          provider: string
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          provider_session_id?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_cents?: number
+          created_at?: string
+          currency?: string
+          failure_reason?: string | null
+          id?: string
+          membership_id?: string | null
+          paid_at?: string | null
+          plan_id?: string
+          provider?: string
+          provider_payment_id?: string | null
+          provider_refund_id?: string | null
+          provider_session_id?: string | null
+          refunded_at?: string | null
+          refunded_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_plan_id_fkey"
+            columns: ["plan_id"]
+            isOneToOne: false
+            referencedRelation: "membership_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pending_staff_approvals: {
         Row: {
           approval_token: string | null
@@ -135,7 +561,11 @@ export type Database = {
           member_type: Database["public"]["Enums"]["member_type"]
           phone: string | null
           preferred_language: string | null
+          preferred_location_id: string | null
           preferred_workout_type: string | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          reminder_offsets: number[] | null
           removed_at: string | null
           updated_at: string
           user_id: string
@@ -151,7 +581,11 @@ export type Database = {
           member_type?: Database["public"]["Enums"]["member_type"]
           phone?: string | null
           preferred_language?: string | null
+          preferred_location_id?: string | null
           preferred_workout_type?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminder_offsets?: number[] | null
           removed_at?: string | null
           updated_at?: string
           user_id: string
@@ -167,12 +601,24 @@ export type Database = {
           member_type?: Database["public"]["Enums"]["member_type"]
           phone?: string | null
           preferred_language?: string | null
+          preferred_location_id?: string | null
           preferred_workout_type?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          reminder_offsets?: number[] | null
           removed_at?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "profiles_preferred_location_id_fkey"
+            columns: ["preferred_location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       push_subscriptions: {
         Row: {
@@ -209,6 +655,7 @@ export type Database = {
           cancelled_at: string | null
           id: string
           is_active: boolean | null
+          membership_id: string | null
           reserved_at: string
           user_id: string
           workout_id: string
@@ -217,6 +664,7 @@ export type Database = {
           cancelled_at?: string | null
           id?: string
           is_active?: boolean | null
+          membership_id?: string | null
           reserved_at?: string
           user_id: string
           workout_id: string
@@ -225,11 +673,19 @@ export type Database = {
           cancelled_at?: string | null
           id?: string
           is_active?: boolean | null
+          membership_id?: string | null
           reserved_at?: string
           user_id?: string
           workout_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "reservations_membership_id_fkey"
+            columns: ["membership_id"]
+            isOneToOne: false
+            referencedRelation: "memberships"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "reservations_workout_id_fkey"
             columns: ["workout_id"]
@@ -239,6 +695,98 @@ export type Database = {
           },
         ]
       }
+      rooms: {
+        Row: {
+          capacity: number
+          created_at: string
+          id: string
+          is_active: boolean
+          location_id: string
+          name: string
+          name_bg: string | null
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          capacity: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_id: string
+          name: string
+          name_bg?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          capacity?: number
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          location_id?: string
+          name?: string
+          name_bg?: string | null
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rooms_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_permissions: {
+        Row: {
+          created_at: string
+          granted_by: string | null
+          permission: Database["public"]["Enums"]["staff_permission"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          granted_by?: string | null
+          permission: Database["public"]["Enums"]["staff_permission"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          granted_by?: string | null
+          permission?: Database["public"]["Enums"]["staff_permission"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      trainers: {
+        Row: {
+          created_at: string
+          display_name: string
+          id: string
+          is_active: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          id?: string
+          is_active?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          id?: string
+          is_active?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           approved_at: string | null
@@ -299,10 +847,191 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_offers: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          notified_at: string | null
+          responded_at: string | null
+          status: string
+          user_id: string
+          workout_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          notified_at?: string | null
+          responded_at?: string | null
+          status?: string
+          user_id: string
+          workout_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          notified_at?: string | null
+          responded_at?: string | null
+          status?: string
+          user_id?: string
+          workout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_offers_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_reminders: {
+        Row: {
+          offset_minutes: number
+          reservation_id: string
+          sent_at: string
+        }
+        Insert: {
+          offset_minutes: number
+          reservation_id: string
+          sent_at?: string
+        }
+        Update: {
+          offset_minutes?: number
+          reservation_id?: string
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_reminders_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_trainers: {
+        Row: {
+          created_at: string
+          id: string
+          trainer_id: string
+          workout_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          trainer_id: string
+          workout_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          trainer_id?: string
+          workout_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_trainers_trainer_id_fkey"
+            columns: ["trainer_id"]
+            isOneToOne: false
+            referencedRelation: "trainers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workout_trainers_workout_id_fkey"
+            columns: ["workout_id"]
+            isOneToOne: false
+            referencedRelation: "workouts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workout_series: {
+        Row: {
+          auto_reserve_enabled: boolean | null
+          cancellation_deadline_hours: number | null
+          card_priority_enabled: boolean | null
+          created_at: string
+          created_by: string
+          description: string | null
+          description_bg: string | null
+          end_time: string
+          ends_on: string
+          id: string
+          max_spots: number
+          reservation_opens_hours: number | null
+          room_id: string | null
+          start_time: string
+          starts_on: string
+          title: string
+          title_bg: string | null
+          updated_at: string
+          weekdays: number[]
+          workout_type: string
+        }
+        Insert: {
+          auto_reserve_enabled?: boolean | null
+          cancellation_deadline_hours?: number | null
+          card_priority_enabled?: boolean | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          description_bg?: string | null
+          end_time: string
+          ends_on: string
+          id?: string
+          max_spots?: number
+          reservation_opens_hours?: number | null
+          room_id?: string | null
+          start_time: string
+          starts_on: string
+          title: string
+          title_bg?: string | null
+          updated_at?: string
+          weekdays: number[]
+          workout_type?: string
+        }
+        Update: {
+          auto_reserve_enabled?: boolean | null
+          cancellation_deadline_hours?: number | null
+          card_priority_enabled?: boolean | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          description_bg?: string | null
+          end_time?: string
+          ends_on?: string
+          id?: string
+          max_spots?: number
+          reservation_opens_hours?: number | null
+          room_id?: string | null
+          start_time?: string
+          starts_on?: string
+          title?: string
+          title_bg?: string | null
+          updated_at?: string
+          weekdays?: number[]
+          workout_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workout_series_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workouts: {
         Row: {
           auto_reserve_enabled: boolean | null
           auto_reserve_executed: boolean | null
+          cancellation_deadline_hours: number | null
           card_priority_enabled: boolean | null
           created_at: string
           created_by: string
@@ -312,6 +1041,8 @@ export type Database = {
           id: string
           max_spots: number
           reservation_opens_hours: number | null
+          room_id: string | null
+          series_id: string | null
           start_time: string
           title: string
           title_bg: string | null
@@ -322,6 +1053,7 @@ export type Database = {
         Insert: {
           auto_reserve_enabled?: boolean | null
           auto_reserve_executed?: boolean | null
+          cancellation_deadline_hours?: number | null
           card_priority_enabled?: boolean | null
           created_at?: string
           created_by: string
@@ -331,6 +1063,8 @@ export type Database = {
           id?: string
           max_spots?: number
           reservation_opens_hours?: number | null
+          room_id?: string | null
+          series_id?: string | null
           start_time: string
           title: string
           title_bg?: string | null
@@ -341,6 +1075,7 @@ export type Database = {
         Update: {
           auto_reserve_enabled?: boolean | null
           auto_reserve_executed?: boolean | null
+          cancellation_deadline_hours?: number | null
           card_priority_enabled?: boolean | null
           created_at?: string
           created_by?: string
@@ -350,6 +1085,8 @@ export type Database = {
           id?: string
           max_spots?: number
           reservation_opens_hours?: number | null
+          room_id?: string | null
+          series_id?: string | null
           start_time?: string
           title?: string
           title_bg?: string | null
@@ -357,23 +1094,135 @@ export type Database = {
           workout_date?: string
           workout_type?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "workouts_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workouts_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "workout_series"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      assign_membership: {
+        Args: { p_plan_id: string; p_starts_on?: string; p_user_id: string }
+        Returns: string
+      }
+      audit_request_header: { Args: { p_name: string }; Returns: string }
+      auto_reserve_workout: {
+        Args: { p_user_ids: string[]; p_workout_id: string }
+        Returns: string[]
+      }
       check_email_exists: { Args: { p_email: string }; Returns: boolean }
+      club_time_zone: { Args: never; Returns: string }
+      club_timestamp: {
+        Args: { p_date: string; p_time: string }
+        Returns: string
+      }
+      club_today: { Args: never; Returns: string }
+      complete_payment: {
+        Args: { p_payment_id: string; p_provider_payment_id: string }
+        Returns: string
+      }
+      expire_waitlist_offers: { Args: never; Returns: number }
+      generate_workout_series: {
+        Args: { p_series_id: string }
+        Returns: number
+      }
+      get_active_strike_count: { Args: { _user_id: string }; Returns: number }
       get_member_type: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["member_type"]
       }
+      get_my_history: {
+        Args: { p_limit?: number; p_offset?: number }
+        Returns: {
+          attended: boolean | null
+          cancelled_at: string | null
+          end_time: string
+          promoted_at: string | null
+          reservation_active: boolean | null
+          reserved_at: string | null
+          start_time: string
+          title: string
+          title_bg: string | null
+          waitlist_active: boolean | null
+          waitlisted_at: string | null
+          workout_date: string
+          workout_id: string
+          workout_type: string
+        }[]
+      }
+      get_my_kiosk_pin: { Args: never; Returns: string }
       get_next_waiting_list_position: {
         Args: { p_workout_id: string }
         Returns: number
       }
+      get_priority_period_hours: {
+        Args: { p_opens_hours: number }
+        Returns: number
+      }
       get_reservation_count: { Args: { p_workout_id: string }; Returns: number }
+      get_strike_penalty: { Args: { _user_id: string }; Returns: string }
+      get_usable_membership: {
+        Args: { _on: string; _user_id: string }
+        Returns: string
+      }
+      get_workout_analytics: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          attended_count: number
+          cancelled_count: number
+          card_reserved_count: number
+          max_spots: number
+          no_show_count: number
+          reserved_count: number
+          start_time: string
+          title: string
+          title_bg: string | null
+          unserved_waitlist_count: number
+          waitlist_count: number
+          workout_date: string
+          workout_id: string
+          workout_type: string
+        }[]
+      }
+      get_workout_counts: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          held_count: number
+          reservation_count: number
+          waiting_count: number
+          workout_id: string
+        }[]
+      }
+      grant_default_staff_permissions: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      has_card_priority: {
+        Args: { _on: string; _user_id: string }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["staff_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -381,8 +1230,25 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_booking_suspended: { Args: { _user_id: string }; Returns: boolean }
       is_member_or_card_member: { Args: { _user_id: string }; Returns: boolean }
+      is_past_cancellation_deadline: {
+        Args: { p_workout_id: string }
+        Returns: boolean
+      }
       is_staff_or_admin: { Args: { _user_id: string }; Returns: boolean }
+      is_workout_trainer: {
+        Args: { _user_id: string; _workout_id: string }
+        Returns: boolean
+      }
+      mark_notifications_read: {
+        Args: { p_ids?: string[] }
+        Returns: number
+      }
+      offer_from_waiting_list: {
+        Args: { p_expires_at: string; p_workout_id: string }
+        Returns: string
+      }
       promote_from_waiting_list: {
         Args: { p_workout_id: string }
         Returns: string
@@ -391,10 +1257,49 @@ export type Database = {
         Args: { p_workout_id: string }
         Returns: number
       }
+      record_payment_refund: {
+        Args: {
+          p_payment_id: string
+          p_provider_refund_id: string
+          p_refunded_by: string
+        }
+        Returns: undefined
+      }
+      request_waitlist_notifications: { Args: never; Returns: undefined }
+      reserve_workout: {
+        Args: { p_user_id?: string; p_workout_id: string }
+        Returns: Json
+      }
+      respond_to_waitlist_offer: {
+        Args: { p_accept: boolean; p_offer_id: string }
+        Returns: Json
+      }
+      run_due_auto_reserves: { Args: never; Returns: number }
+      set_kiosk_account: { Args: { p_user_id: string }; Returns: undefined }
+      split_workout_series: {
+        Args: { p_from: string; p_series_id: string }
+        Returns: string
+      }
+      substitute_workout_trainer: {
+        Args: {
+          p_from_trainer_id: string
+          p_to_trainer_id: string
+          p_workout_id: string
+        }
+        Returns: undefined
+      }
+      sync_all_member_types: { Args: never; Returns: number }
+      sync_member_type: { Args: { _user_id: string }; Returns: undefined }
     }
     Enums: {
-      app_role: "admin" | "staff" | "card_member" | "member"
+      app_role: "admin" | "staff" | "card_member" | "member" | "kiosk"
       member_type: "regular" | "card"
+      staff_permission:
+        | "manage_schedule"
+        | "manage_members"
+        | "mark_attendance"
+        | "view_reports"
+        | "approve_staff"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -522,8 +1427,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "staff", "card_member", "member"],
+      app_role: ["admin", "staff", "card_member", "member", "kiosk"],
       member_type: ["regular", "card"],
+      staff_permission: [
+        "manage_schedule",
+        "manage_members",
+        "mark_attendance",
+        "view_reports",
+        "approve_staff",
+      ],
     },
   },
 } as const
@@ -0,0 +1,53 @@
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CLUB_TIME_ZONE } from '@/lib/clubTime';
+
+// Club-wide booking rules (the single club_settings row), edited by admins
+export interface ClubSettings {
+  cancellation_deadline_hours: number;
+  strike_threshold: number;
+  strike_penalty: 'block_booking' | 'lose_priority';
+  time_zone: string;
+  default_reservation_opens_hours: number;
+  // NULL = half the booking window
+  priority_period_hours: number | null;
+  default_max_spots: number;
+  default_start_time: string;
+  default_end_time: string;
+  default_card_priority_enabled: boolean;
+  default_auto_reserve_enabled: boolean;
+  default_reminder_offsets: number[];
+  // Freed spots are offered to the waiting list for a while instead of given away
+  waitlist_offers_enabled: boolean;
+  waitlist_offer_minutes: number;
+  // Minutes before the start after which spots go straight to the next in line
+  waitlist_offer_cutoff_minutes: number;
+}
+
+// The database defaults, used until the settings have loaded
+export const DEFAULT_CLUB_SETTINGS: ClubSettings = {
+  cancellation_deadline_hours: 3,
+  strike_threshold: 3,
+  strike_penalty: 'block_booking',
+  time_zone: DEFAULT_CLUB_TIME_ZONE,
+  default_reservation_opens_hours: 24,
+  priority_period_hours: null,
+  default_max_spots: 10,
+  default_start_time: '09:00',
+  default_end_time: '10:00',
+  default_card_priority_enabled: true,
+  default_auto_reserve_enabled: true,
+  default_reminder_offsets: [120],
+  waitlist_offers_enabled: false,
+  waitlist_offer_minutes: 30,
+  waitlist_offer_cutoff_minutes: 60,
+};
+
+export const fetchClubSettings = async (): Promise<ClubSettings> => {
+  const { data } = await supabase.from('club_settings').select('*').maybeSingle();
+  return data ? (data as ClubSettings) : DEFAULT_CLUB_SETTINGS;
+};
+
+// Hours at the start of a booking window that only card members may book, the same
+// as get_priority_period_hours() on the server
+export const getPriorityPeriodHours = (settings: ClubSettings, opensHours: number) =>
+  Math.min(settings.priority_period_hours ?? opensHours / 2, opensHours);
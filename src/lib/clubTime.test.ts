@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { clubDateTime } from './clubTime';
+
+describe('clubDateTime', () => {
+  it('reads club wall-clock time in the club time zone', () => {
+    // Sofia is UTC+2 in winter and UTC+3 in summer
+    expect(clubDateTime('2026-01-15', '18:00').toISOString()).toBe('2026-01-15T16:00:00.000Z');
+    expect(clubDateTime('2026-07-15', '18:00:30').toISOString()).toBe('2026-07-15T15:00:30.000Z');
+  });
+
+  it('uses the offset of the day itself around DST changes', () => {
+    // Clocks go forward at 03:00 on 29 March 2026 and back at 04:00 on 25 October 2026
+    expect(clubDateTime('2026-03-29', '01:00').toISOString()).toBe('2026-03-28T23:00:00.000Z');
+    expect(clubDateTime('2026-03-29', '12:00').toISOString()).toBe('2026-03-29T09:00:00.000Z');
+    expect(clubDateTime('2026-10-25', '12:00').toISOString()).toBe('2026-10-25T10:00:00.000Z');
+  });
+
+  it('honours a configured time zone', () => {
+    expect(clubDateTime('2026-01-15', '18:00', 'Pacific/Auckland').toISOString()).toBe('2026-01-15T05:00:00.000Z');
+  });
+});
@@ -0,0 +1,41 @@
+// Workout dates and times are stored as the club's wall-clock time, not the device's.
+// These helpers turn them into real instants using the club's time zone
+// (club_settings.time_zone), like the club_timestamp() SQL function and the edge
+// functions' _shared/clubTime.ts, so members abroad see the same booking windows.
+
+export const DEFAULT_CLUB_TIME_ZONE = 'Europe/Sofia';
+
+// Wall-clock date and time in the time zone at the given instant, as if it were UTC
+const wallClockAsUtc = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+};
+
+// How far the club's clock is ahead of UTC at the given instant, in milliseconds
+const getOffset = (instant: Date, timeZone: string) =>
+  wallClockAsUtc(instant, timeZone) - Math.floor(instant.getTime() / 1000) * 1000;
+
+// The instant a club-local date (YYYY-MM-DD) and time (HH:MM[:SS]) refer to
+export const clubDateTime = (date: string, time: string, timeZone = DEFAULT_CLUB_TIME_ZONE) => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+  // The offset at the first guess is right unless a DST change lies in between, so
+  // check it once more from there
+  const guess = asUtc - getOffset(new Date(asUtc), timeZone);
+  return new Date(asUtc - getOffset(new Date(guess), timeZone));
+};
+
+// Today's date at the club, as YYYY-MM-DD
+export const clubToday = (timeZone = DEFAULT_CLUB_TIME_ZONE) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
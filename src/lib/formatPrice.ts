@@ -0,0 +1,10 @@
+/**
+ * Formats an amount stored in cents (as in membership_plans and payments)
+ * for display, e.g. 6000 EUR -> "€60.00".
+ */
+export function formatPrice(amountCents: number, currency: string, language: string = "en"): string {
+  return new Intl.NumberFormat(language === "bg" ? "bg-BG" : "en-GB", {
+    style: "currency",
+    currency,
+  }).format(amountCents / 100);
+}
@@ -0,0 +1,67 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Room {
+  id: string;
+  location_id: string;
+  name: string;
+  name_bg: string | null;
+  capacity: number;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface Location {
+  id: string;
+  name: string;
+  name_bg: string | null;
+  address: string | null;
+  is_active: boolean;
+  sort_order: number;
+  rooms: Room[];
+}
+
+// Embedded as `rooms(id, name, name_bg, location_id)` in workout selects
+export type WorkoutRoom = { id: string; name: string; name_bg: string | null; location_id: string };
+
+export const localizedName = (item: { name: string; name_bg: string | null }, language: string) =>
+  language === "bg" && item.name_bg ? item.name_bg : item.name;
+
+// Locations with their rooms, both in display order (inactive ones included)
+export async function fetchLocations(): Promise<Location[]> {
+  const { data, error } = await supabase
+    .from("locations")
+    .select("id, name, name_bg, address, is_active, sort_order, rooms(id, location_id, name, name_bg, capacity, is_active, sort_order)")
+    .order("sort_order")
+    .order("name");
+  if (error) throw error;
+  return (data || []).map(location => ({
+    ...location,
+    rooms: [...location.rooms].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)),
+  }));
+}
+
+export interface RoomBooking {
+  id?: string;
+  room_id: string | null;
+  workout_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+// Two workouts clash when they share a room and day and their times overlap; a workout
+// ending at 19:00 and one starting at 19:00 do not
+export const isRoomClash = (a: RoomBooking, b: RoomBooking) =>
+  !!a.room_id
+  && a.room_id === b.room_id
+  && a.workout_date === b.workout_date
+  && (!a.id || a.id !== b.id)
+  && a.start_time.slice(0, 5) < b.end_time.slice(0, 5)
+  && b.start_time.slice(0, 5) < a.end_time.slice(0, 5);
+
+// Scheduled workouts that would clash with the given ones
+export const findRoomConflicts = <T extends RoomBooking>(planned: RoomBooking[], scheduled: T[]): T[] =>
+  scheduled.filter(workout => planned.some(p => isRoomClash(p, workout)));
+
+// Ids of the workouts that clash with another one in the list
+export const getDoubleBookedIds = (workouts: (RoomBooking & { id: string })[]): Set<string> =>
+  new Set(workouts.filter(w => workouts.some(other => isRoomClash(w, other))).map(w => w.id));
@@ -0,0 +1,42 @@
+// Notification types the app shows, grouped the way the notification dispatcher picks
+// their audience
+export const MEMBER_NOTIFICATION_TYPES = [
+  'new_workout',
+  'workout_updated',
+  'workout_deleted',
+  'spot_freed',
+  'waiting_list_promoted',
+  'waitlist_offer',
+  'auto_reserved',
+  'workout_reminder',
+  'trainer_changed',
+];
+
+export const STAFF_NOTIFICATION_TYPES = ['workout_full', 'member_booked', 'member_cancelled'];
+
+// The types that are also sent by email (kept in step with the templates on the server)
+export const EMAIL_NOTIFICATION_TYPES = ['workout_updated', 'workout_deleted', 'auto_reserved', 'waiting_list_promoted', 'waitlist_offer', 'trainer_changed'];
+
+// Lead times members can pick for workout reminders, in minutes before the start
+export const REMINDER_OFFSETS = [30, 60, 120, 180, 720, 1440];
+
+// Opt-in weekly schedule email, stored as its own type in notification_preferences
+export const WEEKLY_DIGEST_TYPE = 'weekly_digest';
+
+export const getNotificationIcon = (type: string) => {
+  switch (type) {
+    case 'new_workout': return '🏋️';
+    case 'workout_updated': return '📝';
+    case 'workout_deleted': return '❌';
+    case 'spot_freed': return '🎉';
+    case 'workout_full': return '📋';
+    case 'workout_reminder': return '⏰';
+    case 'auto_reserved': return '🎫';
+    case 'waiting_list_promoted': return '🎉';
+    case 'waitlist_offer': return '⏳';
+    case 'member_booked': return '📗';
+    case 'member_cancelled': return '📕';
+    case 'trainer_changed': return '🔁';
+    default: return '🔔';
+  }
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './parseCsv';
+
+describe('parseCsv', () => {
+  it('splits comma-separated rows', () => {
+    expect(parseCsv('name,email\nAna,ana@example.com\n')).toEqual([
+      ['name', 'email'],
+      ['Ana', 'ana@example.com'],
+    ]);
+  });
+
+  it('keeps commas, escaped quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('name,note\n"Petrova, Ana","Says ""hi""\ntwice"')).toEqual([
+      ['name', 'note'],
+      ['Petrova, Ana', 'Says "hi"\ntwice'],
+    ]);
+  });
+
+  it('detects semicolon-separated files', () => {
+    expect(parseCsv('name;email;price\nAna;ana@example.com;12,50')).toEqual([
+      ['name', 'email', 'price'],
+      ['Ana', 'ana@example.com', '12,50'],
+    ]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    const rows = parseCsv('\uFEFFname,email\nИван,ivan@example.com');
+    expect(rows[0][0]).toBe('name');
+    expect(rows[1]).toEqual(['Иван', 'ivan@example.com']);
+  });
+
+  it('handles CRLF line endings and drops blank lines', () => {
+    expect(parseCsv('name,email\r\n\r\nAna,ana@example.com\r\n,\r\n')).toEqual([
+      ['name', 'email'],
+      ['Ana', 'ana@example.com'],
+    ]);
+  });
+});
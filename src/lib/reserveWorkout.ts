@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type ReserveWorkoutStatus =
+  | "booked"
+  | "already_booked"
+  | "waitlisted"
+  | "already_waitlisted"
+  | "not_open"
+  | "priority_only"
+  | "passed"
+  | "suspended"
+  | "no_membership"
+  | "not_allowed"
+  | "not_found";
+
+export type ReserveWorkoutResult = {
+  status: ReserveWorkoutStatus;
+  reservation_id?: string;
+  waiting_position?: number;
+  active_count?: number;
+  max_spots?: number;
+};
+
+/**
+ * Books a spot via the reserve_workout database function.
+ * The function locks the workout and enforces booking windows, memberships and capacity,
+ * so the result is authoritative: a full workout puts the member on the waiting list.
+ *
+ * Pass userId to book on behalf of a member (staff only; skips the booking windows,
+ * strike penalties and the membership requirement).
+ * Throws when the RPC itself fails.
+ */
+export async function reserveWorkout(workoutId: string, userId?: string): Promise<ReserveWorkoutResult> {
+  const { data, error } = await supabase.rpc("reserve_workout", {
+    p_workout_id: workoutId,
+    ...(userId ? { p_user_id: userId } : {}),
+  });
+  if (error) throw error;
+  return data as unknown as ReserveWorkoutResult;
+}
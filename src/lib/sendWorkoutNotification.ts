@@ -1,7 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 
 export type WorkoutNotificationRequest = {
-  type: "new_workout" | "workout_updated" | "workout_deleted" | "spot_freed" | "workout_full" | "auto_reserved" | "waiting_list_promoted" | "workout_reminder" | "member_booked" | "member_cancelled";
+  type: "new_workout" | "workout_updated" | "workout_deleted" | "spot_freed" | "workout_full" | "auto_reserved" | "waiting_list_promoted" | "waitlist_offer" | "workout_reminder" | "member_booked" | "member_cancelled" | "trainer_changed";
   workoutId: string;
   workoutTitle: string;
   workoutTitleBg?: string | null;
@@ -10,15 +10,14 @@ export type WorkoutNotificationRequest = {
   targetUserIds?: string[];
   excludeUserIds?: string[];
   memberName?: string;
+  trainerName?: string;
 };
 
 /**
  * Sends a notification via the unified notification edge function.
- * This handles:
+ * The shared dispatcher behind it picks the recipients, renders the texts and handles:
  * - In-app notifications (notification_queue)
- * - Web Push (VAPID)
- * - FCM (native Android/iOS)
- * - OneSignal
+ * - The push/email channels listed in NOTIFICATION_PROVIDERS (email only reaches targetUserIds)
  *
  * Never throws (best-effort).
  */
@@ -0,0 +1,50 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type StaffPermission = Database["public"]["Enums"]["staff_permission"];
+
+export const STAFF_PERMISSIONS: readonly StaffPermission[] = Constants.public.Enums.staff_permission;
+
+// Starting points for the admin permissions editor; "staff" is what newly approved
+// staff get (see grant_default_staff_permissions)
+export const STAFF_PERMISSION_PRESETS: Record<string, StaffPermission[]> = {
+  front_desk: ["mark_attendance"],
+  coach: ["manage_schedule", "mark_attendance", "view_reports"],
+  staff: ["manage_schedule", "manage_members", "mark_attendance", "view_reports"],
+  manager: [...STAFF_PERMISSIONS],
+};
+
+export async function fetchStaffPermissions(userId: string): Promise<StaffPermission[]> {
+  const { data, error } = await supabase
+    .from("staff_permissions")
+    .select("permission")
+    .eq("user_id", userId);
+  if (error) throw error;
+  return (data || []).map(row => row.permission);
+}
+
+/**
+ * Replaces a staff member's permissions with the given set: revokes what is no longer
+ * listed and grants what is new. Admin only (RLS). Throws when either write fails.
+ */
+export async function saveStaffPermissions(userId: string, permissions: StaffPermission[], grantedBy: string) {
+  const current = await fetchStaffPermissions(userId);
+  const revoked = current.filter(p => !permissions.includes(p));
+  const granted = permissions.filter(p => !current.includes(p));
+
+  if (revoked.length > 0) {
+    const { error } = await supabase
+      .from("staff_permissions")
+      .delete()
+      .eq("user_id", userId)
+      .in("permission", revoked);
+    if (error) throw error;
+  }
+
+  if (granted.length > 0) {
+    const { error } = await supabase
+      .from("staff_permissions")
+      .insert(granted.map(permission => ({ user_id: userId, permission, granted_by: grantedBy })));
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,104 @@
+import { supabase } from "@/integrations/supabase/client";
+import { sendWorkoutNotification } from "@/lib/sendWorkoutNotification";
+
+export interface Trainer {
+  id: string;
+  user_id: string;
+  display_name: string;
+  is_active: boolean;
+}
+
+// Embedded as `workout_trainers(trainers(id, display_name))` in workout selects
+export type WorkoutTrainerLink = { trainers: { id: string; display_name: string } | null };
+
+export const getTrainerNames = (links: WorkoutTrainerLink[] | undefined): string[] =>
+  (links || []).map(link => link.trainers?.display_name).filter((name): name is string => !!name);
+
+export const getTrainerIds = (links: WorkoutTrainerLink[] | undefined): string[] =>
+  (links || []).map(link => link.trainers?.id).filter((id): id is string => !!id);
+
+export async function fetchTrainers(): Promise<Trainer[]> {
+  const { data, error } = await supabase
+    .from("trainers")
+    .select("id, user_id, display_name, is_active")
+    .order("display_name");
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Makes the given trainers the ones leading each of the workouts: links that are no
+ * longer listed are removed, new ones added. Needs manage_schedule (RLS).
+ * Throws when either write fails.
+ */
+export async function setWorkoutTrainers(workoutIds: string[], trainerIds: string[]) {
+  if (workoutIds.length === 0) return;
+
+  let removal = supabase.from("workout_trainers").delete().in("workout_id", workoutIds);
+  if (trainerIds.length > 0) {
+    removal = removal.not("trainer_id", "in", `(${trainerIds.join(",")})`);
+  }
+  const { error: deleteError } = await removal;
+  if (deleteError) throw deleteError;
+
+  if (trainerIds.length === 0) return;
+
+  const { error } = await supabase
+    .from("workout_trainers")
+    .upsert(
+      workoutIds.flatMap(workout_id => trainerIds.map(trainer_id => ({ workout_id, trainer_id }))),
+      { onConflict: "workout_id,trainer_id", ignoreDuplicates: true }
+    );
+  if (error) throw error;
+}
+
+/**
+ * Hands a workout from one trainer to another via the substitute_workout_trainer
+ * database function, which the trainer giving the session away may call without
+ * manage_schedule. Throws when the RPC fails.
+ */
+export async function substituteTrainer(workoutId: string, fromTrainerId: string, toTrainerId: string) {
+  const { error } = await supabase.rpc("substitute_workout_trainer", {
+    p_workout_id: workoutId,
+    p_from_trainer_id: fromTrainerId,
+    p_to_trainer_id: toTrainerId,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Tells the members booked on each workout who leads it now (one notification per
+ * workout). Never throws (best-effort).
+ */
+export async function notifyTrainerChange(
+  workouts: { id: string; title: string; title_bg: string | null; workout_date: string; start_time: string }[],
+  trainerName: string
+) {
+  if (workouts.length === 0) return;
+
+  const { data: booked, error } = await supabase
+    .from("reservations")
+    .select("workout_id, user_id")
+    .in("workout_id", workouts.map(w => w.id))
+    .eq("is_active", true);
+  if (error) {
+    console.error("Failed to load bookings for trainer change:", error);
+    return;
+  }
+
+  for (const workout of workouts) {
+    const userIds = (booked || []).filter(r => r.workout_id === workout.id).map(r => r.user_id);
+    if (userIds.length === 0) continue;
+
+    await sendWorkoutNotification({
+      type: "trainer_changed",
+      workoutId: workout.id,
+      workoutTitle: workout.title,
+      workoutTitleBg: workout.title_bg,
+      workoutDate: workout.workout_date,
+      workoutTime: workout.start_time.slice(0, 5),
+      targetUserIds: userIds,
+      trainerName,
+    });
+  }
+}
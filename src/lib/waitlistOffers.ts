@@ -0,0 +1,38 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type WaitlistOfferResponseStatus =
+  | "booked"
+  | "declined"
+  | "expired"
+  | "accepted"
+  | "promoted"
+  | "suspended"
+  | "no_membership"
+  | "not_found";
+
+export type WaitlistOfferResponse = {
+  status: WaitlistOfferResponseStatus;
+  reservation_id?: string;
+};
+
+export interface WaitlistOffer {
+  id: string;
+  workout_id: string;
+  expires_at: string | null;
+}
+
+/**
+ * Accepts or declines a spot held for the member via the respond_to_waitlist_offer
+ * database function. Accepting books the held spot; declining leaves the waiting list
+ * and offers the spot to the next member. An offer that was already answered returns
+ * its current status ("accepted", "declined", "expired").
+ * Throws when the RPC itself fails.
+ */
+export async function respondToWaitlistOffer(offerId: string, accept: boolean): Promise<WaitlistOfferResponse> {
+  const { data, error } = await supabase.rpc("respond_to_waitlist_offer", {
+    p_offer_id: offerId,
+    p_accept: accept,
+  });
+  if (error) throw error;
+  return data as unknown as WaitlistOfferResponse;
+}
@@ -65,10 +65,10 @@ export default function Auth() {
       }
     };
 
-    // Check hash fragment for recovery type
+    // Check hash fragment for recovery type; invited members set their first password the same way
     const hashParams = new URLSearchParams(window.location.hash.substring(1));
     const type = hashParams.get('type');
-    if (type === 'recovery') {
+    if (type === 'recovery' || type === 'invite') {
       activateRecovery();
     }
 
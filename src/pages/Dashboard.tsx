@@ -1,23 +1,33 @@
-import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { sendWorkoutNotification } from '@/lib/sendWorkoutNotification';
+import { reserveWorkout, ReserveWorkoutResult } from '@/lib/reserveWorkout';
+import { respondToWaitlistOffer, type WaitlistOffer, type WaitlistOfferResponse } from '@/lib/waitlistOffers';
+import { getTrainerNames, type WorkoutTrainerLink } from '@/lib/trainers';
+import { fetchLocations, localizedName, type Location, type WorkoutRoom } from '@/lib/locations';
 import { Logo } from '@/components/Logo';
 import { LanguageSelector } from '@/components/LanguageSelector';
 import { NotificationSettings } from '@/components/NotificationSettings';
 import { MemberProfileEditor } from '@/components/MemberProfileEditor';
+import { MemberQrCode } from '@/components/MemberQrCode';
+import { BuyMembership } from '@/components/BuyMembership';
 import { BookingCountdown } from '@/components/BookingCountdown';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Clock, Users, ChevronLeft, ChevronRight, LogOut, Settings, Crown, Lock, Loader2, Bell, BellRing } from 'lucide-react';
+import { Calendar, Clock, Users, ChevronLeft, ChevronRight, LogOut, Settings, Crown, Lock, Loader2, Bell, BellRing, AlertTriangle, CreditCard, History, Dumbbell, MapPin } from 'lucide-react';
 import { useOneSignal } from '@/components/OneSignalProvider';
 import { format, addDays, startOfWeek, isSameDay, parseISO, getDay, getMonth, differenceInHours, isBefore } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
+import { clubDateTime, clubToday } from '@/lib/clubTime';
+import { DEFAULT_CLUB_SETTINGS, fetchClubSettings, getPriorityPeriodHours, type ClubSettings } from '@/lib/clubSettings';
 
 interface Workout {
   id: string;
@@ -30,11 +40,15 @@ interface Workout {
   end_time: string;
   max_spots: number;
   card_priority_enabled: boolean;
-  reservation_opens_hours: number;
+  reservation_opens_hours: number | null;
+  cancellation_deadline_hours: number | null;
   auto_reserve_enabled: boolean;
   auto_reserve_executed: boolean;
   created_by: string;
   workout_type: 'early' | 'late';
+  room_id: string | null;
+  rooms?: WorkoutRoom | null;
+  workout_trainers?: WorkoutTrainerLink[];
 }
 
 interface Reservation {
@@ -44,6 +58,13 @@ interface Reservation {
   is_active: boolean;
 }
 
+interface Membership {
+  id: string;
+  ends_on: string;
+  credits_remaining: number | null;
+  membership_plans: { name: string; name_bg: string | null } | null;
+}
+
 interface WaitingListEntry {
   id: string;
   workout_id: string;
@@ -55,7 +76,7 @@ interface WaitingListEntry {
 export default function Dashboard() {
   const navigate = useNavigate();
   const { t, language } = useLanguage();
-  const { user, profile, isStaff, isAdmin, isCardMember, signOut, isLoading } = useAuth();
+  const { user, profile, isStaff, isAdmin, isCardMember, isKiosk, signOut, isLoading } = useAuth();
   const { toast } = useToast();
   const { isSubscribed, requestPermission, isInitialized } = useOneSignal();
   const [notificationDismissed, setNotificationDismissed] = useState(false);
@@ -67,12 +88,33 @@ export default function Dashboard() {
   const [workouts, setWorkouts] = useState<Workout[]>([]);
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [waitingList, setWaitingList] = useState<WaitingListEntry[]>([]);
+  // Freed spots held for this member until they accept or decline
+  const [waitlistOffers, setWaitlistOffers] = useState<WaitlistOffer[]>([]);
   const [reservationCounts, setReservationCounts] = useState<Record<string, number>>({});
   const [waitingListCounts, setWaitingListCounts] = useState<Record<string, number>>({});
+  const [heldCounts, setHeldCounts] = useState<Record<string, number>>({});
   const [loadingWorkout, setLoadingWorkout] = useState<string | null>(null);
   const [autoReserveEnabled, setAutoReserveEnabled] = useState(true);
   const [preferredWorkoutType, setPreferredWorkoutType] = useState<'early' | 'late' | null>(null);
   const [savingAutoReserve, setSavingAutoReserve] = useState(false);
+  const [clubSettings, setClubSettings] = useState<ClubSettings | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  // 'all' or a location id picked by the member; until then the preferred location
+  const [locationFilter, setLocationFilter] = useState<string | null>(null);
+  const [strikeCount, setStrikeCount] = useState(0);
+  // The membership the next booking would use; null when the member cannot book
+  const [membership, setMembership] = useState<Membership | null>(null);
+  const [membershipLoaded, setMembershipLoaded] = useState(false);
+  // Set when returning from a membership checkout
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [paymentReturn, setPaymentReturn] = useState(() => searchParams.get('payment'));
+  // Set when opened from a notification; the schedule jumps to that workout
+  const [linkedWorkoutId, setLinkedWorkoutId] = useState<string | null>(null);
+  const linkedWorkoutScrolled = useRef(false);
+  // Accept/decline link from a waiting list offer notification
+  const [linkedOfferResponse, setLinkedOfferResponse] = useState<{ offerId: string; accept: boolean } | null>(null);
+  // Workout whose late cancellation is waiting for confirmation
+  const [lateCancelWorkout, setLateCancelWorkout] = useState<Workout | null>(null);
 
   const weekStart = startOfWeek(selectedDate, { weekStartsOn: 1 });
   const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
@@ -80,31 +122,135 @@ export default function Dashboard() {
   useEffect(() => {
     if (!isLoading && !user) {
       navigate('/');
+    } else if (isKiosk) {
+      // Kiosk accounts only ever see the reception check-in screen
+      navigate('/kiosk');
     }
-  }, [user, isLoading, navigate]);
+  }, [user, isKiosk, isLoading, navigate]);
+
+  // Pick up a notification link, then drop it and the checkout result from the URL so a
+  // reload does not show them again
+  useEffect(() => {
+    const workoutId = searchParams.get('workout');
+    const offerId = searchParams.get('offer');
+    if (workoutId) {
+      setLinkedWorkoutId(workoutId);
+      linkedWorkoutScrolled.current = false;
+    }
+    if (offerId) {
+      setLinkedOfferResponse({ offerId, accept: searchParams.get('respond') === 'accept' });
+    }
+    if (searchParams.has('payment') || workoutId || offerId) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (!linkedWorkoutId) return;
+
+    const showLinkedWorkout = async () => {
+      const { data } = await supabase
+        .from('workouts')
+        .select('workout_date, rooms(location_id)')
+        .eq('id', linkedWorkoutId)
+        .maybeSingle();
+      if (!data) return;
+      setSelectedDate(parseISO(data.workout_date));
+      // Don't let the location filter hide the linked workout
+      const locationId = data.rooms?.location_id;
+      if (locationId) {
+        setLocationFilter(current => (current === locationId ? current : 'all'));
+      }
+    };
+
+    showLinkedWorkout();
+  }, [linkedWorkoutId]);
+
+  // Scroll to the linked workout once its card is on screen
+  useEffect(() => {
+    if (!linkedWorkoutId || linkedWorkoutScrolled.current) return;
+    const element = document.getElementById(`workout-${linkedWorkoutId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      linkedWorkoutScrolled.current = true;
+    }
+  }, [linkedWorkoutId, workouts]);
 
   useEffect(() => {
     fetchWorkouts();
     fetchReservations();
     fetchWaitingList();
+    fetchStrikes();
+    fetchMembership();
   }, [selectedDate]);
 
-  // Keep counts in sync across users/devices (no realtime subscriptions)
+  // Keep counts in sync across users/devices.
+  // Booking changes also touch their workout row, so the workouts channel covers
+  // other members' bookings that RLS hides from the reservations channel.
   useEffect(() => {
-    const intervalId = window.setInterval(() => {
-      fetchWorkouts();
-      fetchReservations();
-      fetchWaitingList();
-    }, 15000);
-
-    return () => window.clearInterval(intervalId);
-    // selectedDate changes the visible week; user changes should reset polling too
+    if (!user) return;
+
+    const startDate = format(weekStart, 'yyyy-MM-dd');
+    const endDate = format(addDays(weekStart, 6), 'yyyy-MM-dd');
+    let refreshTimeout: number | undefined;
+
+    // Bursts of changes (e.g. a waiting list promotion) refetch only once
+    const scheduleRefresh = () => {
+      window.clearTimeout(refreshTimeout);
+      refreshTimeout = window.setTimeout(() => {
+        fetchWorkouts();
+        fetchReservations();
+        fetchWaitingList();
+      }, 300);
+    };
+
+    const channel = supabase
+      .channel(`schedule-${startDate}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'workouts' },
+        (payload) => {
+          const changed = (payload.new && 'workout_date' in payload.new ? payload.new : payload.old) as Partial<Workout>;
+          // Deletes only carry the id, so refetch when the date is unknown
+          if (!changed?.workout_date || (changed.workout_date >= startDate && changed.workout_date <= endDate)) {
+            scheduleRefresh();
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'reservations', filter: `user_id=eq.${user.id}` },
+        scheduleRefresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'waiting_list', filter: `user_id=eq.${user.id}` },
+        scheduleRefresh
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'waitlist_offers', filter: `user_id=eq.${user.id}` },
+        scheduleRefresh
+      )
+      .subscribe();
+
+    return () => {
+      window.clearTimeout(refreshTimeout);
+      supabase.removeChannel(channel);
+    };
+    // selectedDate changes the visible week; user changes should resubscribe too
   }, [selectedDate, user?.id]);
 
   const refreshAll = async () => {
-    await Promise.all([fetchWorkouts(), fetchReservations(), fetchWaitingList()]);
+    await Promise.all([fetchWorkouts(), fetchReservations(), fetchWaitingList(), fetchStrikes(), fetchMembership()]);
   };
 
+  useEffect(() => {
+    fetchLocations()
+      .then(setLocations)
+      .catch(error => console.error('Error fetching locations:', error));
+  }, []);
+
   // Fetch auto-reserve preference for card members
   useEffect(() => {
     const fetchAutoReservePref = async () => {
@@ -159,7 +305,7 @@ export default function Dashboard() {
     
     const { data } = await supabase
       .from('workouts')
-      .select('*')
+      .select('*, rooms(id, name, name_bg, location_id), workout_trainers(trainers(id, display_name))')
       .gte('workout_date', startDate)
       .lte('workout_date', endDate)
       .order('workout_date')
@@ -167,56 +313,25 @@ export default function Dashboard() {
     
     if (data) {
       setWorkouts(data as Workout[]);
-      
-      // Fetch reservation counts using RPC (bypasses RLS for consistent counts)
-      const counts: Record<string, number> = {};
-      await Promise.all(data.map(async (workout) => {
-        const { data: countData } = await supabase
-          .rpc('get_reservation_count', { p_workout_id: workout.id });
-        counts[workout.id] = countData ?? 0;
-      }));
-      setReservationCounts(counts);
-      
-      // Check for auto-reserve triggers (only for staff viewing dashboard)
-      checkAutoReserve(data as Workout[]);
     }
-  };
-  
-  // Check and trigger auto-reserve for workouts entering priority period
-  const checkAutoReserve = async (workoutList: Workout[]) => {
-    const now = new Date();
     
-    for (const workout of workoutList) {
-      // Skip if not card priority or auto-reserve disabled or already executed
-      if (!workout.card_priority_enabled || !workout.auto_reserve_enabled || workout.auto_reserve_executed) {
-        continue;
-      }
-      
-      const workoutDateTime = new Date(`${workout.workout_date}T${workout.start_time}`);
-      const hoursUntilWorkout = differenceInHours(workoutDateTime, now);
-      const reservationOpensHours = workout.reservation_opens_hours || 24;
-      
-      // Check if we just entered the reservation window (priority period starts now)
-      if (hoursUntilWorkout <= reservationOpensHours && hoursUntilWorkout > 0) {
-        // Trigger auto-reserve
-        try {
-          console.log('Triggering auto-reserve for workout:', workout.id);
-          const { data, error } = await supabase.functions.invoke('auto-reserve-card-members', {
-            body: { workoutId: workout.id },
-          });
-          
-          if (!error && data) {
-            console.log('Auto-reserve result:', data);
-            // Mark as executed
-            await supabase
-              .from('workouts')
-              .update({ auto_reserve_executed: true })
-              .eq('id', workout.id);
-          }
-        } catch (e) {
-          console.error('Auto-reserve failed:', e);
-        }
+    // Fetch reservation and waiting list counts for the whole week in one call
+    // (RPC bypasses RLS for consistent counts)
+    const { data: countData } = await supabase
+      .rpc('get_workout_counts', { p_start: startDate, p_end: endDate });
+    
+    if (countData) {
+      const counts: Record<string, number> = {};
+      const waitingCounts: Record<string, number> = {};
+      const held: Record<string, number> = {};
+      for (const row of countData) {
+        counts[row.workout_id] = row.reservation_count;
+        waitingCounts[row.workout_id] = row.waiting_count;
+        held[row.workout_id] = row.held_count;
       }
+      setReservationCounts(counts);
+      setWaitingListCounts(waitingCounts);
+      setHeldCounts(held);
     }
   };
 
@@ -246,40 +361,73 @@ export default function Dashboard() {
     if (data) {
       setWaitingList(data as WaitingListEntry[]);
     }
-    
-    // Fetch waiting list counts for all workouts in view
-    const startDate = format(weekStart, 'yyyy-MM-dd');
-    const endDate = format(addDays(weekStart, 6), 'yyyy-MM-dd');
-    
-    const { data: workoutsData } = await supabase
-      .from('workouts')
-      .select('id')
-      .gte('workout_date', startDate)
-      .lte('workout_date', endDate);
-    
-    if (workoutsData) {
-      const counts: Record<string, number> = {};
-      for (const workout of workoutsData) {
-        const { count } = await supabase
-          .from('waiting_list')
-          .select('*', { count: 'exact', head: true })
-          .eq('workout_id', workout.id)
-          .eq('is_active', true);
-        counts[workout.id] = count || 0;
-      }
-      setWaitingListCounts(counts);
+
+    const { data: offers } = await supabase
+      .from('waitlist_offers')
+      .select('id, workout_id, expires_at')
+      .eq('user_id', user.id)
+      .eq('status', 'pending');
+
+    if (offers) {
+      setWaitlistOffers(offers);
     }
   };
 
+  const fetchStrikes = async () => {
+    setClubSettings(await fetchClubSettings());
+
+    if (!user) return;
+
+    const { count } = await supabase
+      .from('member_strikes')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('cleared_at', null);
+
+    setStrikeCount(count || 0);
+  };
+
+  const fetchMembership = async () => {
+    if (!user) return;
+
+    // Membership dates are in the club's local time
+    const today = clubToday(clubSettings?.time_zone);
+    const { data } = await supabase
+      .from('memberships')
+      .select('id, ends_on, credits_remaining, membership_plans(name, name_bg)')
+      .eq('user_id', user.id)
+      .is('cancelled_at', null)
+      .lte('starts_on', today)
+      .gte('ends_on', today)
+      .order('ends_on', { ascending: true });
+
+    // Same preference as the server: unlimited plans first, then the one expiring soonest
+    const usable = (data || []).filter(m => m.credits_remaining === null || m.credits_remaining > 0);
+    setMembership(usable.find(m => m.credits_remaining === null) || usable[0] || null);
+    setMembershipLoaded(true);
+  };
+
+  // Cancelling after the workout's (or the club's) deadline counts as a late cancel
+  const isLateCancellation = (workout: Workout) => {
+    const deadlineHours = workout.cancellation_deadline_hours ?? clubSettings?.cancellation_deadline_hours ?? 0;
+    if (deadlineHours <= 0) return false;
+
+    const workoutDateTime = clubDateTime(workout.workout_date, workout.start_time, clubSettings?.time_zone);
+    const deadline = new Date(workoutDateTime.getTime() - deadlineHours * 60 * 60 * 1000);
+    return !isBefore(new Date(), deadline);
+  };
+
+  const strikePenaltyActive = !!clubSettings && strikeCount >= clubSettings.strike_threshold;
+
   // Check if workout has passed
   const isWorkoutPassed = (workout: Workout) => {
-    const workoutEndDateTime = new Date(`${workout.workout_date}T${workout.end_time}`);
+    const workoutEndDateTime = clubDateTime(workout.workout_date, workout.end_time, clubSettings?.time_zone);
     return isBefore(workoutEndDateTime, new Date());
   };
 
   // Check if reservations are open for a workout
   const getReservationStatus = (workout: Workout) => {
-    const workoutDateTime = new Date(`${workout.workout_date}T${workout.start_time}`);
+    const workoutDateTime = clubDateTime(workout.workout_date, workout.start_time, clubSettings?.time_zone);
     const now = new Date();
     
     // Check if workout has passed
@@ -288,8 +436,9 @@ export default function Dashboard() {
     }
     
     const hoursUntilWorkout = differenceInHours(workoutDateTime, now);
-    const reservationOpensHours = workout.reservation_opens_hours || 24;
-    const priorityPeriodHours = reservationOpensHours / 2;
+    const settings = clubSettings ?? DEFAULT_CLUB_SETTINGS;
+    const reservationOpensHours = workout.reservation_opens_hours ?? settings.default_reservation_opens_hours;
+    const priorityPeriodHours = getPriorityPeriodHours(settings, reservationOpensHours);
     
     const opensAt = new Date(workoutDateTime.getTime() - reservationOpensHours * 60 * 60 * 1000);
     const priorityEndsAt = new Date(workoutDateTime.getTime() - (reservationOpensHours - priorityPeriodHours) * 60 * 60 * 1000);
@@ -299,7 +448,7 @@ export default function Dashboard() {
       return { status: 'not_open', hoursUntil: hoursUntilWorkout - reservationOpensHours, opensAt };
     }
     
-    // Card member priority period (first half of reservation window)
+    // Card member priority period at the start of the reservation window
     if (workout.card_priority_enabled && hoursUntilWorkout > reservationOpensHours - priorityPeriodHours) {
       return { status: 'priority', hoursUntil: hoursUntilWorkout - (reservationOpensHours - priorityPeriodHours), opensAt: priorityEndsAt };
     }
@@ -455,6 +604,73 @@ export default function Dashboard() {
     setLoadingWorkout(null);
   };
 
+  const handleRespondToOffer = async (offerId: string, accept: boolean) => {
+    if (!user) return;
+
+    const offer = waitlistOffers.find(o => o.id === offerId);
+    if (offer) setLoadingWorkout(offer.workout_id);
+
+    let result: WaitlistOfferResponse;
+    try {
+      result = await respondToWaitlistOffer(offerId, accept);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : String(error),
+      });
+      setLoadingWorkout(null);
+      return;
+    }
+
+    switch (result.status) {
+      case 'booked':
+        toast({ title: t('bookingSuccess') });
+        break;
+      case 'declined':
+        toast({ title: t('offerDeclined') });
+        break;
+      case 'expired':
+        toast({ variant: 'destructive', title: t('offerExpired') });
+        break;
+      case 'suspended':
+        toast({ variant: 'destructive', title: t('bookingSuspended') });
+        break;
+      case 'no_membership':
+        toast({ variant: 'destructive', title: t('noActiveMembership'), description: t('noActiveMembershipHint') });
+        break;
+      default:
+        toast({ title: t('offerClosed') });
+    }
+
+    await refreshAll();
+
+    // Notify staff about the booking
+    const workout = offer && workouts.find(w => w.id === offer.workout_id);
+    if (result.status === 'booked' && workout) {
+      await sendWorkoutNotification({
+        type: 'member_booked',
+        workoutId: workout.id,
+        workoutTitle: workout.title,
+        workoutTitleBg: workout.title_bg,
+        workoutDate: workout.workout_date,
+        workoutTime: workout.start_time?.slice(0, 5),
+        memberName: profile?.full_name || user.email || 'Unknown',
+      });
+    }
+
+    setLoadingWorkout(null);
+  };
+
+  // Answer an offer from a notification link once the member is known
+  useEffect(() => {
+    if (!linkedOfferResponse || !user) return;
+    handleRespondToOffer(linkedOfferResponse.offerId, linkedOfferResponse.accept);
+    setLinkedOfferResponse(null);
+    // Runs once per link; the handler is recreated on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedOfferResponse, user]);
+
   const handleTogglePreferredType = async (type: 'early' | 'late' | null) => {
     if (!user) return;
     
@@ -483,130 +699,83 @@ export default function Dashboard() {
 
     setLoadingWorkout(workoutId);
 
-    // First verify the workout isn't full by checking real-time count
-    const { data: currentCount } = await supabase
-      .rpc('get_reservation_count', { p_workout_id: workoutId });
-    
     const workout = workouts.find(w => w.id === workoutId);
-    if (workout && currentCount !== null && currentCount >= workout.max_spots) {
-      toast({ 
-        variant: 'destructive',
-        title: t('spotsFull'),
-        description: language === 'bg' ? 'Тренировката е пълна' : 'The workout is full'
-      });
-      fetchWorkouts(); // Refresh counts
-      setLoadingWorkout(null);
-      return;
-    }
 
-    // If a reservation exists (even cancelled), re-activate it instead of inserting a new row.
-    const { data: existingReservation, error: existingError } = await supabase
-      .from('reservations')
-      .select('id, is_active')
-      .eq('workout_id', workoutId)
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    if (existingError) {
+    // The server locks the workout and checks windows and capacity in one step
+    let result: ReserveWorkoutResult;
+    try {
+      result = await reserveWorkout(workoutId);
+    } catch (error) {
       toast({
         variant: 'destructive',
         title: 'Error',
-        description: existingError.message,
+        description: error instanceof Error ? error.message : String(error),
       });
       setLoadingWorkout(null);
       return;
     }
 
-    if (existingReservation?.id) {
-      if (existingReservation.is_active) {
+    switch (result.status) {
+      case 'booked':
+        toast({ title: t('bookingSuccess') });
+        break;
+      case 'already_booked':
         toast({ title: t('alreadyBooked') });
-        fetchReservations(); // Refresh local state
-      } else {
-        // Re-verify spot availability before reactivating
-        const { data: recheckCount } = await supabase
-          .rpc('get_reservation_count', { p_workout_id: workoutId });
-        
-        if (workout && recheckCount !== null && recheckCount >= workout.max_spots) {
-          toast({ 
-            variant: 'destructive',
-            title: t('spotsFull'),
-            description: language === 'bg' ? 'Тренировката е пълна' : 'The workout is full'
-          });
-          fetchWorkouts();
-          setLoadingWorkout(null);
-          return;
-        }
-
-        const { error: reactivateError } = await supabase
-          .from('reservations')
-          .update({ is_active: true, cancelled_at: null, reserved_at: new Date().toISOString() })
-          .eq('id', existingReservation.id);
-
-        if (reactivateError) {
-          toast({
-            variant: 'destructive',
-            title: 'Error',
-            description: reactivateError.message,
-          });
-        } else {
-          toast({ title: t('bookingSuccess') });
-          await refreshAll();
-        }
-      }
-
-      setLoadingWorkout(null);
-      return;
+        break;
+      case 'waitlisted':
+        toast({
+          title: t('spotsFull'),
+          description: `${t('addedToWaitingList')} (#${result.waiting_position})`,
+        });
+        break;
+      case 'already_waitlisted':
+        toast({ title: t('alreadyOnWaitingList') });
+        break;
+      case 'not_open':
+        toast({ variant: 'destructive', title: t('bookingNotOpen') });
+        break;
+      case 'priority_only':
+        toast({ variant: 'destructive', title: t('cardPriorityPeriod'), description: t('priorityPeriod') });
+        break;
+      case 'passed':
+        toast({ variant: 'destructive', title: t('workoutPassed') });
+        break;
+      case 'suspended':
+        toast({ variant: 'destructive', title: t('bookingSuspended') });
+        break;
+      case 'no_membership':
+        toast({ variant: 'destructive', title: t('noActiveMembership'), description: t('noActiveMembershipHint') });
+        break;
+      default:
+        toast({ variant: 'destructive', title: 'Error', description: t('bookingNotAllowed') });
     }
 
-    const { error } = await supabase.from('reservations').insert({
-      workout_id: workoutId,
-      user_id: user.id,
-    });
+    await refreshAll();
 
-    if (error) {
-      // Check if this is a duplicate key error (race condition)
-      if (error.code === '23505' || error.message.includes('duplicate')) {
-        toast({ title: t('alreadyBooked') });
-        await refreshAll();
-      } else {
-        toast({
-          variant: 'destructive',
-          title: 'Error',
-          description: error.message,
-        });
-      }
-    } else {
-      toast({ title: t('bookingSuccess') });
-      await refreshAll();
-      
+    if (result.status === 'booked' && workout) {
       // Notify staff about the booking
-      if (workout) {
+      try {
+        await sendWorkoutNotification({
+          type: 'member_booked',
+          workoutId: workout.id,
+          workoutTitle: workout.title,
+          workoutTitleBg: workout.title_bg,
+          workoutDate: workout.workout_date,
+          workoutTime: workout.start_time?.slice(0, 5),
+          memberName: profile?.full_name || user.email || 'Unknown',
+        });
+      } catch {}
+
+      // This booking took the last spot - notify staff
+      if (result.active_count !== undefined && result.active_count >= workout.max_spots) {
         try {
           await sendWorkoutNotification({
-            type: 'member_booked',
+            type: 'workout_full',
             workoutId: workout.id,
             workoutTitle: workout.title,
             workoutTitleBg: workout.title_bg,
-            workoutDate: workout.workout_date,
-            workoutTime: workout.start_time?.slice(0, 5),
-            memberName: profile?.full_name || user.email || 'Unknown',
           });
         } catch {}
-
-        // Check if workout is now full and notify staff
-        const { data: countData } = await supabase
-          .rpc('get_reservation_count', { p_workout_id: workoutId });
-        
-        if (countData && countData >= workout.max_spots) {
-          try {
-            await sendWorkoutNotification({
-              type: 'workout_full',
-              workoutId: workout.id,
-              workoutTitle: workout.title,
-              workoutTitleBg: workout.title_bg,
-            });
-          } catch {}
-        }
       }
     }
 
@@ -620,6 +789,7 @@ export default function Dashboard() {
     
     // Get workout details for notification
     const workout = workouts.find(w => w.id === workoutId);
+    const late = !!workout && isLateCancellation(workout);
     
     const { error } = await supabase
       .from('reservations')
@@ -634,7 +804,10 @@ export default function Dashboard() {
         description: error.message,
       });
     } else {
-      toast({ title: t('bookingCancelled') });
+      toast({
+        title: t('bookingCancelled'),
+        description: late ? t('lateCancelRecorded') : undefined,
+      });
 
       // Notify staff about the cancellation
       if (workout) {
@@ -650,32 +823,16 @@ export default function Dashboard() {
           });
         } catch {}
 
-        // Automatically promote from waiting list
-        try {
-          const { data: promotedUserId, error: promoteError } = await supabase
-            .rpc('promote_from_waiting_list', { p_workout_id: workoutId });
-
-          if (promotedUserId && !promoteError) {
-            console.log('Promoted user from waiting list:', promotedUserId);
-
-            await sendWorkoutNotification({
-              type: 'waiting_list_promoted',
-              workoutId: workout.id,
-              workoutTitle: workout.title,
-              workoutTitleBg: workout.title_bg,
-              targetUserIds: [promotedUserId],
-            });
-          } else {
-            await sendWorkoutNotification({
-              type: 'spot_freed',
-              workoutId: workout.id,
-              workoutTitle: workout.title,
-              workoutTitleBg: workout.title_bg,
-              excludeUserIds: [user.id],
-            });
-          }
-        } catch (e) {
-          console.log('Waiting list promotion or notification failed:', e);
+        // The database hands the freed spot to the waiting list (and tells that member);
+        // everyone else only hears about it when nobody is waiting
+        if (!waitingListCounts[workoutId]) {
+          await sendWorkoutNotification({
+            type: 'spot_freed',
+            workoutId: workout.id,
+            workoutTitle: workout.title,
+            workoutTitleBg: workout.title_bg,
+            excludeUserIds: [user.id],
+          });
         }
       }
 
@@ -742,11 +899,31 @@ export default function Dashboard() {
     return reservations.some(r => r.workout_id === workoutId);
   };
 
+  // Spots held for waiting list offers are not free to book
   const getAvailableSpots = (workout: Workout) => {
-    return workout.max_spots - (reservationCounts[workout.id] || 0);
+    return workout.max_spots - (reservationCounts[workout.id] || 0) - (heldCounts[workout.id] || 0);
+  };
+
+  const activeLocations = locations.filter(l => l.is_active);
+  // The filter only applies while members can see and change it, and never to a closed location
+  const showLocationFilter = activeLocations.length > 1;
+  const chosenLocation = locationFilter ?? profile?.preferred_location_id ?? 'all';
+  const selectedLocation = showLocationFilter && activeLocations.some(l => l.id === chosenLocation)
+    ? chosenLocation
+    : 'all';
+
+  // Workouts without a room show under every location
+  const locationWorkouts = workouts.filter(w =>
+    selectedLocation === 'all' || !w.rooms || w.rooms.location_id === selectedLocation
+  );
+
+  const getRoomLabel = (room: WorkoutRoom) => {
+    const location = showLocationFilter ? locations.find(l => l.id === room.location_id) : undefined;
+    const roomName = localizedName(room, language);
+    return location ? `${localizedName(location, language)} · ${roomName}` : roomName;
   };
 
-  const dayWorkouts = workouts.filter(w => 
+  const dayWorkouts = locationWorkouts.filter(w => 
     isSameDay(parseISO(w.workout_date), selectedDate)
   );
 
@@ -767,6 +944,13 @@ export default function Dashboard() {
           
           <div className="flex items-center gap-2">
             <NotificationSettings />
+            {!isStaff && <MemberQrCode />}
+            {!isStaff && (
+              <Button variant="ghost" size="sm" onClick={() => navigate('/history')} className="gap-2">
+                <History className="h-4 w-4" />
+                <span className="hidden sm:inline">{t('history')}</span>
+              </Button>
+            )}
             <MemberProfileEditor />
             <LanguageSelector variant="minimal" />
             
@@ -833,6 +1017,68 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Result of a membership checkout */}
+        {paymentReturn && (
+          <div className={`mb-6 p-4 rounded-lg flex items-center justify-between gap-3 ${paymentReturn === 'success' ? 'bg-green-500/10 border border-green-500/20' : 'bg-muted/50'}`}>
+            <p className="text-sm">
+              {paymentReturn === 'success' ? t('paymentSucceeded') : t('paymentCancelled')}
+            </p>
+            <Button size="sm" variant="ghost" onClick={() => setPaymentReturn(null)}>
+              ✕
+            </Button>
+          </div>
+        )}
+
+        {/* Membership and remaining credits */}
+        {!isStaff && membershipLoaded && (
+          membership ? (
+            <div className="mb-6 p-4 bg-muted/50 rounded-lg flex items-center gap-3">
+              <CreditCard className="h-5 w-5 text-primary flex-shrink-0" />
+              <div className="flex-1">
+                <p className="font-medium text-sm">
+                  {language === 'bg' && membership.membership_plans?.name_bg
+                    ? membership.membership_plans.name_bg
+                    : membership.membership_plans?.name}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {t('validUntil')} {format(parseISO(membership.ends_on), 'dd.MM.yyyy')}
+                  {' · '}
+                  {membership.credits_remaining === null
+                    ? t('unlimitedClasses')
+                    : `${membership.credits_remaining} ${t('classesLeft')}`}
+                </p>
+              </div>
+              <BuyMembership />
+            </div>
+          ) : (
+            <div className="mb-6 p-4 rounded-lg flex items-start gap-3 bg-destructive/10 border border-destructive/20">
+              <CreditCard className="h-5 w-5 flex-shrink-0 text-destructive" />
+              <div className="flex-1">
+                <p className="font-medium text-sm">{t('noActiveMembership')}</p>
+                <p className="text-xs text-muted-foreground">{t('noActiveMembershipHint')}</p>
+              </div>
+              <BuyMembership />
+            </div>
+          )
+        )}
+
+        {/* Late cancellation and no-show strikes */}
+        {!isStaff && strikeCount > 0 && clubSettings && (
+          <div className={`mb-6 p-4 rounded-lg flex items-start gap-3 ${strikePenaltyActive ? 'bg-destructive/10 border border-destructive/20' : 'bg-amber-500/10 border border-amber-500/20'}`}>
+            <AlertTriangle className={`h-5 w-5 flex-shrink-0 ${strikePenaltyActive ? 'text-destructive' : 'text-amber-500'}`} />
+            <div>
+              <p className="font-medium text-sm">
+                {t('strikes')}: {strikeCount} / {clubSettings.strike_threshold}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {strikePenaltyActive
+                  ? (clubSettings.strike_penalty === 'block_booking' ? t('bookingSuspended') : t('priorityLostStrikes'))
+                  : t('strikesInfo')}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Auto-reserve toggle for card members */}
         {isCardMember && (
           <div className="mb-6 p-4 bg-muted/50 rounded-lg space-y-4">
@@ -899,6 +1145,26 @@ export default function Dashboard() {
           </div>
         )}
 
+        {/* Location Filter */}
+        {showLocationFilter && (
+          <div className="flex items-center gap-2 mb-4">
+            <MapPin className="h-4 w-4 text-muted-foreground" />
+            <Select value={selectedLocation} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('allLocations')}</SelectItem>
+                {activeLocations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {localizedName(location, language)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         {/* Week Navigation */}
         <div className="flex items-center justify-between mb-4">
           <Button
@@ -927,7 +1193,7 @@ export default function Dashboard() {
           {weekDays.map((day) => {
             const isSelected = isSameDay(day, selectedDate);
             const isToday = isSameDay(day, new Date());
-            const dayWorkoutCount = workouts.filter(w => 
+            const dayWorkoutCount = locationWorkouts.filter(w => 
               isSameDay(parseISO(w.workout_date), day)
             ).length;
             
@@ -989,17 +1255,19 @@ export default function Dashboard() {
                   const canMakeReservation = canReserve(workout);
                   const isPassed = isWorkoutPassed(workout);
                   const isOnWaitingList = waitingList.some(w => w.workout_id === workout.id);
+                  const offer = waitlistOffers.find(o => o.workout_id === workout.id);
                   const waitingPosition = getUserWaitingPosition(workout.id);
                   const waitingCount = waitingListCounts[workout.id] || 0;
                   
                   return (
                     <motion.div
                       key={workout.id}
+                      id={`workout-${workout.id}`}
                       initial={{ opacity: 0, y: 20 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.1 }}
                     >
-                      <Card className={`overflow-hidden border-border/50 shadow-sm hover:shadow-elegant transition-shadow ${workout.card_priority_enabled ? 'ring-1 ring-primary/30' : ''} ${isPassed ? 'opacity-60' : ''} ${reserved ? 'ring-2 ring-green-500/50' : ''} ${isOnWaitingList ? 'ring-2 ring-amber-500/50' : ''}`}>
+                      <Card className={`overflow-hidden border-border/50 shadow-sm hover:shadow-elegant transition-shadow ${workout.card_priority_enabled ? 'ring-1 ring-primary/30' : ''} ${isPassed ? 'opacity-60' : ''} ${reserved ? 'ring-2 ring-green-500/50' : ''} ${isOnWaitingList ? 'ring-2 ring-amber-500/50' : ''} ${workout.id === linkedWorkoutId ? 'ring-2 ring-primary' : ''}`}>
                         <CardContent className="p-4 sm:p-6">
                           {/* User status banner */}
                           {(reserved || isOnWaitingList) && !isPassed && (
@@ -1012,6 +1280,13 @@ export default function Dashboard() {
                                       {language === 'bg' ? 'Записан/а' : 'Booked'}
                                     </span>
                                   </>
+                                ) : offer ? (
+                                  <>
+                                    <div className="h-2 w-2 rounded-full bg-amber-500 animate-pulse" />
+                                    <span className="text-sm font-medium text-amber-700 dark:text-amber-400">
+                                      {t('spotOffered')}
+                                    </span>
+                                  </>
                                 ) : (
                                   <>
                                     <div className="h-2 w-2 rounded-full bg-amber-500" />
@@ -1070,6 +1345,20 @@ export default function Dashboard() {
                                   {getWorkoutDescription(workout)}
                                 </p>
                               )}
+
+                              {getTrainerNames(workout.workout_trainers).length > 0 && (
+                                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                                  <Dumbbell className="h-4 w-4" />
+                                  {getTrainerNames(workout.workout_trainers).join(', ')}
+                                </p>
+                              )}
+
+                              {workout.rooms && (
+                                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                                  <MapPin className="h-4 w-4" />
+                                  {getRoomLabel(workout.rooms)}
+                                </p>
+                              )}
                               
                               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                                 <span className="flex items-center gap-1">
@@ -1097,12 +1386,34 @@ export default function Dashboard() {
                               ) : reserved ? (
                                 <Button
                                   variant="outline"
-                                  onClick={() => handleCancelReservation(workout.id)}
+                                  onClick={() => isLateCancellation(workout) ? setLateCancelWorkout(workout) : handleCancelReservation(workout.id)}
                                   disabled={loadingWorkout === workout.id}
                                   className="w-full sm:w-auto"
                                 >
                                   {loadingWorkout === workout.id ? t('loading') : t('cancelBooking')}
                                 </Button>
+                              ) : offer ? (
+                                <div className="flex flex-col gap-2">
+                                  {offer.expires_at && (
+                                    <BookingCountdown targetDate={parseISO(offer.expires_at)} label={t('acceptWithin')} />
+                                  )}
+                                  <div className="flex gap-2">
+                                    <Button
+                                      onClick={() => handleRespondToOffer(offer.id, true)}
+                                      disabled={loadingWorkout === workout.id}
+                                      className="flex-1"
+                                    >
+                                      {loadingWorkout === workout.id ? t('loading') : t('acceptSpot')}
+                                    </Button>
+                                    <Button
+                                      variant="outline"
+                                      onClick={() => handleRespondToOffer(offer.id, false)}
+                                      disabled={loadingWorkout === workout.id}
+                                    >
+                                      {t('declineSpot')}
+                                    </Button>
+                                  </div>
+                                </div>
                               ) : isOnWaitingList ? (
                                 <div className="flex flex-col gap-1">
                                   <Badge variant="secondary" className="justify-center">
@@ -1156,6 +1467,28 @@ export default function Dashboard() {
           </AnimatePresence>
         </div>
       </main>
+
+      {/* Late cancellation confirmation */}
+      <AlertDialog open={!!lateCancelWorkout} onOpenChange={(open) => !open && setLateCancelWorkout(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('lateCancelTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('lateCancelWarning')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('keepBooking')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (lateCancelWorkout) handleCancelReservation(lateCancelWorkout.id);
+                setLateCancelWorkout(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t('cancelAnyway')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,108 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { supabase } from '@/integrations/supabase/client';
+import { formatPrice } from '@/lib/formatPrice';
+import { Logo } from '@/components/Logo';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+
+interface CheckoutPayment {
+  amount_cents: number;
+  currency: string;
+  status: string;
+  membership_plans: { name: string; name_bg: string | null } | null;
+}
+
+// Hosted checkout of the local test payment provider. Stands in for a real
+// gateway's payment page: the member approves or declines and the outcome is
+// reported to the payments webhook.
+export default function FakeCheckout() {
+  const navigate = useNavigate();
+  const { t, language } = useLanguage();
+  const [searchParams] = useSearchParams();
+  const sessionId = searchParams.get('session');
+  const token = searchParams.get('token');
+  const [payment, setPayment] = useState<CheckoutPayment | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!sessionId) {
+      setNotFound(true);
+      return;
+    }
+
+    const fetchPayment = async () => {
+      const { data } = await supabase
+        .from('payments')
+        .select('amount_cents, currency, status, membership_plans(name, name_bg)')
+        .eq('provider_session_id', sessionId)
+        .maybeSingle();
+      setPayment(data);
+      setNotFound(!data);
+    };
+
+    fetchPayment();
+  }, [sessionId]);
+
+  const handleOutcome = async (outcome: 'succeeded' | 'failed') => {
+    setIsSubmitting(true);
+
+    const { error } = await supabase.functions.invoke('payments-webhook', {
+      body: { sessionId, token, outcome },
+    });
+
+    navigate(`/dashboard?payment=${!error && outcome === 'succeeded' ? 'success' : 'cancelled'}`);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 bg-background px-4">
+      <Logo size="md" />
+      <Card className="w-full max-w-sm">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h1 className="font-display text-xl font-semibold">{t('checkout')}</h1>
+            <Badge variant="outline">{t('testPayment')}</Badge>
+          </div>
+          {notFound ? (
+            <div className="space-y-4 text-center">
+              <p className="text-muted-foreground">{t('checkoutFailed')}</p>
+              <Button variant="outline" onClick={() => navigate('/dashboard')}>
+                {t('goToDashboard')}
+              </Button>
+            </div>
+          ) : !payment ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">
+                  {language === 'bg' && payment.membership_plans?.name_bg
+                    ? payment.membership_plans.name_bg
+                    : payment.membership_plans?.name}
+                </span>
+                <span className="font-display text-2xl font-semibold">
+                  {formatPrice(payment.amount_cents, payment.currency, language)}
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">{t('testPaymentHint')}</p>
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => handleOutcome('failed')} disabled={isSubmitting || payment.status !== 'pending'}>
+                  {t('decline')}
+                </Button>
+                <Button onClick={() => handleOutcome('succeeded')} disabled={isSubmitting || payment.status !== 'pending'}>
+                  {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : t('pay')}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
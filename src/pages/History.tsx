@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Logo } from '@/components/Logo';
+import { LanguageSelector } from '@/components/LanguageSelector';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, ChartConfig } from '@/components/ui/chart';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ArrowLeft, Clock, Flame, Trophy, UserX, ListOrdered, Loader2 } from 'lucide-react';
+import { format, parseISO, startOfWeek, addWeeks, subWeeks, startOfMonth, subMonths, getMonth, isSameMonth } from 'date-fns';
+
+interface HistoryEntry {
+  workout_id: string;
+  workout_date: string;
+  start_time: string;
+  end_time: string;
+  title: string;
+  title_bg: string | null;
+  workout_type: string;
+  reserved_at: string | null;
+  reservation_active: boolean | null;
+  cancelled_at: string | null;
+  waitlisted_at: string | null;
+  waitlist_active: boolean | null;
+  promoted_at: string | null;
+  attended: boolean | null;
+}
+
+type HistoryStatus = 'attended' | 'no_show' | 'booked' | 'cancelled' | 'waitlisted' | 'left_waitlist';
+
+interface AttendanceRow {
+  attended: boolean | null;
+  workouts: { workout_date: string; workout_type: string } | null;
+}
+
+const PAGE_SIZE = 20;
+const CHART_MONTHS = 12;
+
+const monthKeys = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const getHistoryStatus = (entry: HistoryEntry): HistoryStatus => {
+  if (entry.attended === true) return 'attended';
+  if (entry.attended === false) return 'no_show';
+  if (entry.reservation_active) return 'booked';
+  if (entry.reserved_at) return 'cancelled';
+  if (entry.waitlist_active) return 'waitlisted';
+  return 'left_waitlist';
+};
+
+// Weeks (Monday to Sunday) in a row with at least one attended session. The current
+// streak still counts when this week has no session yet, since the week is not over.
+const getStreaks = (dates: Date[]) => {
+  const weeks = new Set(dates.map(d => startOfWeek(d, { weekStartsOn: 1 }).getTime()));
+  const sorted = [...weeks].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  for (const week of sorted) {
+    run = previous !== null && addWeeks(previous, 1).getTime() === week ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = week;
+  }
+
+  let current = 0;
+  let cursor = startOfWeek(new Date(), { weekStartsOn: 1 });
+  if (!weeks.has(cursor.getTime())) {
+    cursor = subWeeks(cursor, 1);
+  }
+  while (weeks.has(cursor.getTime())) {
+    current++;
+    cursor = subWeeks(cursor, 1);
+  }
+
+  return { current, longest };
+};
+
+export default function History() {
+  const navigate = useNavigate();
+  const { t, language } = useLanguage();
+  const { user, isKiosk, isLoading } = useAuth();
+
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isFetching, setIsFetching] = useState(true);
+  const [attendance, setAttendance] = useState<AttendanceRow[]>([]);
+  const [promotedCount, setPromotedCount] = useState(0);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate('/');
+    } else if (isKiosk) {
+      navigate('/kiosk');
+    }
+  }, [user, isKiosk, isLoading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPage = async () => {
+      setIsFetching(true);
+      const { data } = await supabase.rpc('get_my_history', {
+        p_limit: PAGE_SIZE,
+        p_offset: page * PAGE_SIZE,
+      });
+
+      const rows = data || [];
+      setEntries(prev => (page === 0 ? rows : [...prev, ...rows]));
+      setHasMore(rows.length === PAGE_SIZE);
+      setIsFetching(false);
+    };
+
+    fetchPage();
+  }, [user, page]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchStats = async () => {
+      const [{ data: attendanceData }, { count }] = await Promise.all([
+        supabase
+          .from('attendance')
+          .select('attended, workouts(workout_date, workout_type)')
+          .eq('user_id', user.id),
+        supabase
+          .from('waiting_list')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .not('notified_at', 'is', null),
+      ]);
+
+      setAttendance((attendanceData || []) as AttendanceRow[]);
+      setPromotedCount(count || 0);
+    };
+
+    fetchStats();
+  }, [user]);
+
+  const attendedSessions = attendance.filter(a => a.attended && a.workouts);
+  const attendedDates = attendedSessions.map(a => parseISO(a.workouts!.workout_date));
+  const noShowCount = attendance.filter(a => a.attended === false).length;
+  const earlyCount = attendedSessions.filter(a => a.workouts!.workout_type === 'early').length;
+  const lateCount = attendedSessions.length - earlyCount;
+  const streaks = getStreaks(attendedDates);
+
+  const now = new Date();
+  const thisMonthCount = attendedDates.filter(d => isSameMonth(d, now)).length;
+  const lastMonthCount = attendedDates.filter(d => isSameMonth(d, subMonths(now, 1))).length;
+
+  const chartData = Array.from({ length: CHART_MONTHS }, (_, i) => {
+    const month = startOfMonth(subMonths(now, CHART_MONTHS - 1 - i));
+    const inMonth = attendedSessions.filter(a => isSameMonth(parseISO(a.workouts!.workout_date), month));
+    const early = inMonth.filter(a => a.workouts!.workout_type === 'early').length;
+    return {
+      month: t(monthKeys[getMonth(month)]).slice(0, 3),
+      early,
+      late: inMonth.length - early,
+    };
+  });
+
+  const chartConfig = {
+    early: { label: t('early'), color: 'hsl(var(--primary))' },
+    late: { label: t('late'), color: 'hsl(var(--primary) / 0.45)' },
+  } satisfies ChartConfig;
+
+  const formatShare = (count: number) =>
+    attendedSessions.length > 0 ? `${Math.round((count / attendedSessions.length) * 100)}%` : '0%';
+
+  const getWorkoutTitle = (entry: HistoryEntry) =>
+    language === 'bg' && entry.title_bg ? entry.title_bg : entry.title;
+
+  const statusVariants: Record<HistoryStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+    attended: 'default',
+    no_show: 'destructive',
+    booked: 'secondary',
+    cancelled: 'outline',
+    waitlisted: 'secondary',
+    left_waitlist: 'outline',
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30">
+      {/* Header */}
+      <header className="sticky top-0 z-50 glass border-b border-border/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Logo size="sm" />
+          <div className="flex items-center gap-2">
+            <LanguageSelector variant="minimal" />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="hidden sm:inline">{t('back')}</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        <h1 className="font-display text-2xl sm:text-3xl font-semibold">{t('myHistory')}</h1>
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground">{t('attendedThisMonth')}</p>
+              <p className="font-display text-3xl font-semibold">{thisMonthCount}</p>
+              <p className="text-xs text-muted-foreground">
+                {t('attendedLastMonth')}: {lastMonthCount}
+              </p>
+            </CardContent>
+          </Card>
+          <Card title={t('streakHint')}>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <Flame className="h-4 w-4" />
+                {t('currentStreak')}
+              </p>
+              <p className="font-display text-3xl font-semibold">
+                {streaks.current} <span className="text-base font-normal text-muted-foreground">{t('weeks')}</span>
+              </p>
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                <Trophy className="h-3 w-3" />
+                {t('longestStreak')}: {streaks.longest}
+              </p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <UserX className="h-4 w-4" />
+                {t('noShows')}
+              </p>
+              <p className="font-display text-3xl font-semibold">{noShowCount}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <ListOrdered className="h-4 w-4" />
+                {t('promotedFromWaitlist')}
+              </p>
+              <p className="font-display text-3xl font-semibold">{promotedCount}</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Sessions per month, split into early and late workouts */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="font-display text-lg">{t('sessionsPerMonth')}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {t('earlyVsLate')}: {t('early')} {earlyCount} ({formatShare(earlyCount)}) · {t('late')} {lateCount} ({formatShare(lateCount)})
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="early" stackId="sessions" fill="var(--color-early)" />
+                <Bar dataKey="late" stackId="sessions" fill="var(--color-late)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        {/* Booking timeline */}
+        <div className="space-y-3">
+          <h2 className="font-display text-xl font-medium">{t('activity')}</h2>
+          {entries.length === 0 && !isFetching ? (
+            <p className="text-muted-foreground">{t('noHistory')}</p>
+          ) : (
+            entries.map(entry => {
+              const status = getHistoryStatus(entry);
+              return (
+                <Card key={entry.workout_id}>
+                  <CardContent className="p-4 flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{getWorkoutTitle(entry)}</p>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {format(parseISO(entry.workout_date), 'dd.MM.yyyy')} · {entry.start_time.slice(0, 5)} - {entry.end_time.slice(0, 5)}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-1 flex-shrink-0">
+                      {entry.promoted_at && (
+                        <Badge variant="outline" className="text-xs">{t('promotedFromWaitlist')}</Badge>
+                      )}
+                      <Badge variant={statusVariants[status]} className="text-xs">
+                        {t(`history_${status}`)}
+                      </Badge>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+          {isFetching ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setPage(p => p + 1)}>
+                {t('loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Logo } from '@/components/Logo';
+import { QrScanner } from '@/components/QrScanner';
+import { LanguageSelector } from '@/components/LanguageSelector';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CheckCircle, XCircle, Clock, Users, LogOut, QrCode, KeyRound, Delete, Loader2, UserPlus } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface KioskWorkout {
+  id: string;
+  title: string;
+  title_bg: string | null;
+  start_time: string;
+  end_time: string;
+  max_spots: number;
+  active_count: number;
+}
+
+type KioskStatus =
+  | 'checked_in'
+  | 'already_checked_in'
+  | 'no_reservation'
+  | 'no_workout'
+  | 'invalid_token'
+  | 'expired_token'
+  | 'invalid_pin'
+  | 'full'
+  | 'suspended'
+  | 'no_membership'
+  | 'not_open'
+  | 'passed'
+  | 'not_allowed'
+  | 'not_found';
+
+interface KioskResult {
+  status: KioskStatus;
+  workout?: { id: string; title: string; title_bg: string | null; start_time: string; end_time: string };
+  member?: { full_name: string | null };
+  spots_left?: number;
+}
+
+// The member who was just identified, kept so they can accept a walk-in spot
+interface KioskIdentity {
+  token?: string;
+  pin?: string;
+}
+
+const PIN_LENGTH = 6;
+const WORKOUTS_REFRESH_MS = 60000;
+const RESULT_DISPLAY_MS = 5000;
+// Walk-in offers stay up longer so the member has time to decide
+const OFFER_DISPLAY_MS = 15000;
+
+export default function Kiosk() {
+  const navigate = useNavigate();
+  const { t, language } = useLanguage();
+  const { user, isKiosk, signOut, isLoading } = useAuth();
+
+  const [workouts, setWorkouts] = useState<KioskWorkout[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [now, setNow] = useState(new Date());
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<KioskResult | null>(null);
+  const [identity, setIdentity] = useState<KioskIdentity | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, isLoading, navigate]);
+
+  useEffect(() => {
+    if (!user || !isKiosk) return;
+
+    const fetchWorkouts = async () => {
+      const { data, error } = await supabase.functions.invoke('kiosk-check-in', {
+        body: { action: 'workouts' },
+      });
+      if (!error && data?.workouts) {
+        setWorkouts(data.workouts as KioskWorkout[]);
+      }
+    };
+
+    fetchWorkouts();
+    const intervalId = window.setInterval(fetchWorkouts, WORKOUTS_REFRESH_MS);
+    return () => window.clearInterval(intervalId);
+  }, [user, isKiosk, refreshKey]);
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(new Date()), 30000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  // Clear the result so the next member sees a fresh screen
+  useEffect(() => {
+    if (!result) return;
+
+    const hasOffer = result.status === 'no_reservation' && (result.spots_left ?? 0) > 0;
+    const timeoutId = window.setTimeout(() => {
+      setResult(null);
+      setIdentity(null);
+    }, hasOffer ? OFFER_DISPLAY_MS : RESULT_DISPLAY_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [result]);
+
+  const submit = async (action: 'check_in' | 'walk_in', who: KioskIdentity, workoutId?: string) => {
+    setBusy(true);
+
+    const { data, error } = await supabase.functions.invoke('kiosk-check-in', {
+      body: { action, ...who, workoutId },
+    });
+
+    setBusy(false);
+    setPin('');
+
+    if (error || !data?.status) {
+      setResult({ status: 'not_found' });
+      setIdentity(null);
+      return;
+    }
+
+    setResult(data as KioskResult);
+    setIdentity(data.status === 'no_reservation' ? who : null);
+    if (data.status === 'checked_in') {
+      setRefreshKey(k => k + 1);
+    }
+  };
+
+  const handleScan = (token: string) => {
+    if (busy || result) return;
+    submit('check_in', { token });
+  };
+
+  const handlePinDigit = (digit: string) => {
+    if (busy) return;
+    const next = (pin + digit).slice(0, PIN_LENGTH);
+    setPin(next);
+    if (next.length === PIN_LENGTH) {
+      setResult(null);
+      submit('check_in', { pin: next });
+    }
+  };
+
+  const handleWalkIn = () => {
+    if (!identity || !result?.workout) return;
+    submit('walk_in', identity, result.workout.id);
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate('/');
+  };
+
+  const getWorkoutTitle = (workout: { title: string; title_bg: string | null }) =>
+    language === 'bg' && workout.title_bg ? workout.title_bg : workout.title;
+
+  const statusMessages: Record<KioskStatus, string> = {
+    checked_in: t('checkedIn'),
+    already_checked_in: t('alreadyCheckedIn'),
+    no_reservation: t('noReservation'),
+    no_workout: t('noWorkoutNow'),
+    invalid_token: t('invalidQrCode'),
+    expired_token: t('kioskQrExpired'),
+    invalid_pin: t('invalidPin'),
+    full: t('workoutFull'),
+    suspended: t('bookingSuspended'),
+    no_membership: t('noActiveMembership'),
+    not_open: t('noWorkoutNow'),
+    passed: t('noWorkoutNow'),
+    not_allowed: t('kioskAskStaff'),
+    not_found: t('kioskAskStaff'),
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+      </div>
+    );
+  }
+
+  if (!isKiosk) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 bg-background px-4">
+        <Logo size="md" />
+        <p className="text-muted-foreground text-center">{t('kioskOnly')}</p>
+        <Button variant="outline" onClick={() => navigate('/dashboard')}>
+          {t('goToDashboard')}
+        </Button>
+      </div>
+    );
+  }
+
+  const isSuccess = result?.status === 'checked_in' || result?.status === 'already_checked_in';
+  const canWalkIn = result?.status === 'no_reservation' && (result.spots_left ?? 0) > 0 && !!identity;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30">
+      {/* Header */}
+      <header className="sticky top-0 z-50 glass border-b border-border/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Logo size="sm" />
+          <div className="flex items-center gap-2">
+            <span className="font-display text-xl font-semibold tabular-nums">{format(now, 'HH:mm')}</span>
+            <LanguageSelector variant="minimal" />
+            <Button variant="ghost" size="sm" onClick={handleSignOut}>
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <h1 className="font-display text-2xl sm:text-3xl font-semibold mb-6">{t('kioskTitle')}</h1>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Current workouts */}
+          <div className="space-y-3">
+            <h2 className="font-display text-xl font-medium">{t('currentWorkouts')}</h2>
+            {workouts.length === 0 ? (
+              <p className="text-muted-foreground">{t('noWorkoutNow')}</p>
+            ) : (
+              workouts.map(workout => (
+                <Card key={workout.id}>
+                  <CardContent className="p-4 space-y-2">
+                    <p className="font-medium text-lg">{getWorkoutTitle(workout)}</p>
+                    <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-4 w-4" />
+                        {workout.start_time.slice(0, 5)} - {workout.end_time.slice(0, 5)}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Users className="h-4 w-4" />
+                        {workout.active_count}/{workout.max_spots}
+                      </span>
+                    </div>
+                    {workout.active_count < workout.max_spots && (
+                      <Badge variant="secondary">
+                        {workout.max_spots - workout.active_count} {t('spotsFree')}
+                      </Badge>
+                    )}
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </div>
+
+          {/* Identify with QR code or PIN */}
+          <div className="space-y-3">
+            <Tabs defaultValue="qr">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="qr">
+                  <QrCode className="h-4 w-4 mr-1" />
+                  {t('scanYourCode')}
+                </TabsTrigger>
+                <TabsTrigger value="pin">
+                  <KeyRound className="h-4 w-4 mr-1" />
+                  {t('enterPin')}
+                </TabsTrigger>
+              </TabsList>
+              <TabsContent value="qr">
+                <QrScanner onScan={handleScan} paused={busy || !!result} />
+              </TabsContent>
+              <TabsContent value="pin" className="space-y-3">
+                <div className="flex justify-center gap-2">
+                  {Array.from({ length: PIN_LENGTH }, (_, i) => (
+                    <div
+                      key={i}
+                      className="h-12 w-10 rounded-lg border-2 border-border flex items-center justify-center text-2xl font-semibold"
+                    >
+                      {pin[i] ? '•' : ''}
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {['1', '2', '3', '4', '5', '6', '7', '8', '9'].map(digit => (
+                    <Button key={digit} variant="outline" className="h-16 text-2xl" disabled={busy} onClick={() => handlePinDigit(digit)}>
+                      {digit}
+                    </Button>
+                  ))}
+                  <Button variant="ghost" className="h-16" disabled={busy} onClick={() => setPin('')}>
+                    {t('clear')}
+                  </Button>
+                  <Button variant="outline" className="h-16 text-2xl" disabled={busy} onClick={() => handlePinDigit('0')}>
+                    0
+                  </Button>
+                  <Button variant="ghost" className="h-16" disabled={busy} onClick={() => setPin(p => p.slice(0, -1))}>
+                    <Delete className="h-6 w-6" />
+                  </Button>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+
+          {/* Result */}
+          <div className="space-y-3">
+            {busy ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              </div>
+            ) : result ? (
+              <Card className={`border-2 ${isSuccess ? 'border-green-500/50' : 'border-destructive/50'}`}>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-center gap-3">
+                    {isSuccess ? (
+                      <CheckCircle className="h-10 w-10 text-green-500" />
+                    ) : (
+                      <XCircle className="h-10 w-10 text-destructive" />
+                    )}
+                    <p className="font-display text-2xl font-semibold">{statusMessages[result.status]}</p>
+                  </div>
+                  {result.member?.full_name && (
+                    <p className="text-xl">{result.member.full_name}</p>
+                  )}
+                  {result.workout && (
+                    <p className="text-muted-foreground">
+                      {getWorkoutTitle(result.workout)}
+                      {' · '}
+                      {result.workout.start_time.slice(0, 5)} - {result.workout.end_time.slice(0, 5)}
+                    </p>
+                  )}
+                  {canWalkIn && (
+                    <div className="space-y-2">
+                      <p>{t('walkInOffer')}</p>
+                      <Button size="lg" className="w-full gap-2" onClick={handleWalkIn}>
+                        <UserPlus className="h-5 w-5" />
+                        {t('takeFreeSpot')}
+                      </Button>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-muted-foreground text-center py-12">{t('kioskHint')}</p>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
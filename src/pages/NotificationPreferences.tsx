@@ -0,0 +1,330 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Logo } from '@/components/Logo';
+import { LanguageSelector } from '@/components/LanguageSelector';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_CLUB_SETTINGS, fetchClubSettings } from '@/lib/clubSettings';
+import {
+  EMAIL_NOTIFICATION_TYPES,
+  MEMBER_NOTIFICATION_TYPES,
+  REMINDER_OFFSETS,
+  STAFF_NOTIFICATION_TYPES,
+  WEEKLY_DIGEST_TYPE,
+} from '@/lib/notificationTypes';
+import { AlarmClock, ArrowLeft, CalendarDays, Moon } from 'lucide-react';
+
+type Channel = 'push' | 'email' | 'in_app';
+
+const CHANNELS: Channel[] = ['push', 'email', 'in_app'];
+
+// Sent once per workout; the in-app copy is what keeps them from repeating
+const ALWAYS_IN_APP = ['auto_reserved'];
+
+const DEFAULT_QUIET_START = '22:00';
+const DEFAULT_QUIET_END = '07:00';
+
+const preferenceKey = (type: string, channel: Channel) => `${type}:${channel}`;
+
+export default function NotificationPreferences() {
+  const navigate = useNavigate();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { user, isStaff, isKiosk, isLoading } = useAuth();
+  // Only the channels switched off; everything else is on
+  const [disabled, setDisabled] = useState<Set<string>>(new Set());
+  const [quietEnabled, setQuietEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState(DEFAULT_QUIET_START);
+  const [quietEnd, setQuietEnd] = useState(DEFAULT_QUIET_END);
+  const [isSavingQuiet, setIsSavingQuiet] = useState(false);
+  // Unlike the other preferences the digest is off until switched on
+  const [digestEnabled, setDigestEnabled] = useState(false);
+  // NULL follows the club's default lead times
+  const [reminderOffsets, setReminderOffsets] = useState<number[] | null>(null);
+  const [clubReminderOffsets, setClubReminderOffsets] = useState(DEFAULT_CLUB_SETTINGS.default_reminder_offsets);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate('/');
+    } else if (isKiosk) {
+      navigate('/kiosk');
+    }
+  }, [user, isKiosk, isLoading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPreferences = async () => {
+      const [{ data: preferences }, { data: profile }, settings] = await Promise.all([
+        supabase
+          .from('notification_preferences')
+          .select('notification_type, channel, enabled')
+          .eq('user_id', user.id),
+        supabase
+          .from('profiles')
+          .select('quiet_hours_start, quiet_hours_end, reminder_offsets')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        fetchClubSettings(),
+      ]);
+
+      setDisabled(new Set(
+        (preferences || [])
+          .filter(p => !p.enabled)
+          .map(p => preferenceKey(p.notification_type, p.channel as Channel))
+      ));
+      setDigestEnabled(
+        (preferences || []).some(p => p.notification_type === WEEKLY_DIGEST_TYPE && p.channel === 'email' && p.enabled)
+      );
+
+      setClubReminderOffsets(settings.default_reminder_offsets);
+      setReminderOffsets(profile?.reminder_offsets ?? null);
+
+      if (profile?.quiet_hours_start && profile.quiet_hours_end) {
+        setQuietEnabled(true);
+        setQuietStart(profile.quiet_hours_start.slice(0, 5));
+        setQuietEnd(profile.quiet_hours_end.slice(0, 5));
+      }
+    };
+
+    fetchPreferences();
+  }, [user]);
+
+  const handleToggle = async (type: string, channel: Channel, enabled: boolean) => {
+    if (!user) return;
+
+    const key = preferenceKey(type, channel);
+    const update = (set: Set<string>, off: boolean) => {
+      const next = new Set(set);
+      if (off) next.add(key);
+      else next.delete(key);
+      return next;
+    };
+    setDisabled(prev => update(prev, !enabled));
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: user.id, notification_type: type, channel, enabled });
+
+    if (error) {
+      setDisabled(prev => update(prev, enabled));
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleDigestToggle = async (enabled: boolean) => {
+    if (!user) return;
+
+    setDigestEnabled(enabled);
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({ user_id: user.id, notification_type: WEEKLY_DIGEST_TYPE, channel: 'email', enabled });
+
+    if (error) {
+      setDigestEnabled(!enabled);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const saveReminderOffsets = async (offsets: number[] | null) => {
+    if (!user) return;
+
+    const previous = reminderOffsets;
+    setReminderOffsets(offsets);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ reminder_offsets: offsets })
+      .eq('user_id', user.id);
+
+    if (error) {
+      setReminderOffsets(previous);
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    }
+  };
+
+  const handleReminderOffsetsChange = (values: string[]) =>
+    saveReminderOffsets(values.map(Number).sort((a, b) => b - a));
+
+  const saveQuietHours = async (enabled: boolean) => {
+    if (!user) return;
+
+    setIsSavingQuiet(true);
+    const { error } = await supabase
+      .from('profiles')
+      .update({
+        quiet_hours_start: enabled ? quietStart : null,
+        quiet_hours_end: enabled ? quietEnd : null,
+      })
+      .eq('user_id', user.id);
+    setIsSavingQuiet(false);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    setQuietEnabled(enabled);
+    toast({ title: t('preferencesSaved') });
+  };
+
+  const renderGroup = (title: string, types: string[]) => (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-y-3 items-center text-sm">
+          <span />
+          {CHANNELS.map(channel => (
+            <span key={channel} className="text-xs text-muted-foreground text-center">
+              {t(`channel_${channel}`)}
+            </span>
+          ))}
+          {types.map(type => (
+            <div key={type} className="contents">
+              <span>{t(`notif_${type}`)}</span>
+              {CHANNELS.map(channel => {
+                if (channel === 'email' && !EMAIL_NOTIFICATION_TYPES.includes(type)) {
+                  return <span key={channel} className="text-center text-muted-foreground">—</span>;
+                }
+                const locked = channel === 'in_app' && ALWAYS_IN_APP.includes(type);
+                return (
+                  <div key={channel} className="flex justify-center" title={locked ? t('alwaysInApp') : undefined}>
+                    <Switch
+                      checked={locked || !disabled.has(preferenceKey(type, channel))}
+                      disabled={locked}
+                      onCheckedChange={checked => handleToggle(type, channel, checked)}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30">
+      {/* Header */}
+      <header className="sticky top-0 z-50 glass border-b border-border/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Logo size="sm" />
+          <div className="flex items-center gap-2">
+            <LanguageSelector variant="minimal" />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="hidden sm:inline">{t('back')}</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        <div>
+          <h1 className="font-display text-2xl sm:text-3xl font-semibold">{t('notificationPreferences')}</h1>
+          <p className="text-sm text-muted-foreground mt-1">{t('notificationPreferencesHint')}</p>
+        </div>
+
+        {renderGroup(t('workoutNotifications'), MEMBER_NOTIFICATION_TYPES)}
+        {isStaff && renderGroup(t('staffNotifications'), STAFF_NOTIFICATION_TYPES)}
+
+        {/* Workout reminders */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <AlarmClock className="h-4 w-4" />
+              {t('reminderTimes')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">{t('reminderTimesHint')}</p>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              className="flex-wrap justify-start"
+              value={(reminderOffsets ?? clubReminderOffsets).map(String)}
+              onValueChange={handleReminderOffsetsChange}
+            >
+              {REMINDER_OFFSETS.map(offset => (
+                <ToggleGroupItem key={offset} value={String(offset)} size="sm">
+                  {t(`reminder_${offset}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {reminderOffsets !== null && (
+              <Button variant="link" size="sm" className="px-0" onClick={() => saveReminderOffsets(null)}>
+                {t('useClubDefault')}
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Weekly schedule email */}
+        <Card>
+          <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              {t('weeklyDigest')}
+            </CardTitle>
+            <Switch checked={digestEnabled} onCheckedChange={handleDigestToggle} />
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">{t('weeklyDigestHint')}</p>
+          </CardContent>
+        </Card>
+
+        {/* Quiet hours */}
+        <Card>
+          <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Moon className="h-4 w-4" />
+              {t('quietHours')}
+            </CardTitle>
+            <Switch checked={quietEnabled} disabled={isSavingQuiet} onCheckedChange={saveQuietHours} />
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <p className="text-sm text-muted-foreground">{t('quietHoursHint')}</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="quiet-start">{t('quietHoursFrom')}</Label>
+                <Input id="quiet-start" type="time" value={quietStart} onChange={e => setQuietStart(e.target.value)} className="w-32" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="quiet-end">{t('quietHoursTo')}</Label>
+                <Input id="quiet-end" type="time" value={quietEnd} onChange={e => setQuietEnd(e.target.value)} className="w-32" />
+              </div>
+              {quietEnabled && (
+                <Button
+                  variant="outline"
+                  onClick={() => saveQuietHours(true)}
+                  disabled={isSavingQuiet || !quietStart || !quietEnd}
+                >
+                  {t('save')}
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
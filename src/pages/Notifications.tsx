@@ -0,0 +1,186 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { useNotifications, type Notification } from '@/hooks/useNotifications';
+import { Logo } from '@/components/Logo';
+import { LanguageSelector } from '@/components/LanguageSelector';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { getNotificationIcon, MEMBER_NOTIFICATION_TYPES, STAFF_NOTIFICATION_TYPES } from '@/lib/notificationTypes';
+import { ArrowLeft, CheckCheck, ChevronRight, Loader2, Settings } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { bg, enUS } from 'date-fns/locale';
+
+const PAGE_SIZE = 20;
+const ALL_TYPES = 'all';
+
+export default function Notifications() {
+  const navigate = useNavigate();
+  const { t, language } = useLanguage();
+  const { user, isStaff, isKiosk, isLoading } = useAuth();
+  const { unreadCount, markAsRead, markAllAsRead } = useNotifications();
+  const [entries, setEntries] = useState<Notification[]>([]);
+  const [typeFilter, setTypeFilter] = useState(ALL_TYPES);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isFetching, setIsFetching] = useState(true);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      navigate('/');
+    } else if (isKiosk) {
+      navigate('/kiosk');
+    }
+  }, [user, isKiosk, isLoading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPage = async () => {
+      setIsFetching(true);
+      let query = supabase
+        .from('notification_queue')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+      if (typeFilter !== ALL_TYPES) {
+        query = query.eq('notification_type', typeFilter);
+      }
+
+      const { data } = await query;
+      const rows = data || [];
+      setEntries(prev => (page === 0 ? rows : [...prev, ...rows]));
+      setHasMore(rows.length === PAGE_SIZE);
+      setIsFetching(false);
+    };
+
+    fetchPage();
+  }, [user, page, typeFilter]);
+
+  const handleFilterChange = (value: string) => {
+    setTypeFilter(value);
+    setPage(0);
+  };
+
+  const handleMarkAllRead = async () => {
+    const readAt = new Date().toISOString();
+    setEntries(prev => prev.map(n => (n.read_at ? n : { ...n, read_at: readAt })));
+    await markAllAsRead();
+  };
+
+  const handleOpen = async (notification: Notification) => {
+    if (!notification.read_at) {
+      const readAt = new Date().toISOString();
+      setEntries(prev => prev.map(n => (n.id === notification.id ? { ...n, read_at: readAt } : n)));
+      await markAsRead([notification.id]);
+    }
+    if (notification.workout_id) {
+      navigate(`/dashboard?workout=${notification.workout_id}`);
+    }
+  };
+
+  const types = isStaff ? [...MEMBER_NOTIFICATION_TYPES, ...STAFF_NOTIFICATION_TYPES] : MEMBER_NOTIFICATION_TYPES;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-pulse text-muted-foreground">{t('loading')}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-background to-secondary/30">
+      {/* Header */}
+      <header className="sticky top-0 z-50 glass border-b border-border/50">
+        <div className="container mx-auto px-4 py-3 flex items-center justify-between">
+          <Logo size="sm" />
+          <div className="flex items-center gap-2">
+            <LanguageSelector variant="minimal" />
+            <Button variant="ghost" size="sm" onClick={() => navigate('/dashboard')} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              <span className="hidden sm:inline">{t('back')}</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6 max-w-2xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h1 className="font-display text-2xl sm:text-3xl font-semibold">{t('notifications')}</h1>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleMarkAllRead} disabled={unreadCount === 0}>
+              <CheckCheck className="h-4 w-4" />
+              {t('markAllRead')}
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => navigate('/notification-settings')} title={t('preferences')}>
+              <Settings className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <Select value={typeFilter} onValueChange={handleFilterChange}>
+          <SelectTrigger className="w-full sm:w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>{t('allTypes')}</SelectItem>
+            {types.map(type => (
+              <SelectItem key={type} value={type}>
+                {getNotificationIcon(type)} {t(`notif_${type}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="space-y-2">
+          {entries.map(notification => (
+            <Card
+              key={notification.id}
+              className={`cursor-pointer hover:shadow-elegant transition-shadow ${notification.read_at ? '' : 'border-l-4 border-l-primary'}`}
+              onClick={() => handleOpen(notification)}
+            >
+              <CardContent className="p-4 flex items-start gap-3">
+                <span className="text-lg">{getNotificationIcon(notification.notification_type)}</span>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-sm ${notification.read_at ? 'text-muted-foreground' : 'font-medium'}`}>
+                    {language === 'bg' && notification.message_bg ? notification.message_bg : notification.message}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {formatDistanceToNow(new Date(notification.created_at), {
+                      addSuffix: true,
+                      locale: language === 'bg' ? bg : enUS,
+                    })}
+                  </p>
+                </div>
+                {notification.workout_id && <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-1" />}
+              </CardContent>
+            </Card>
+          ))}
+
+          {isFetching && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isFetching && entries.length === 0 && (
+            <p className="text-center py-8 text-muted-foreground">{t('noNotifications')}</p>
+          )}
+
+          {!isFetching && hasMore && (
+            <div className="flex justify-center">
+              <Button variant="outline" onClick={() => setPage(p => p + 1)}>
+                {t('loadMore')}
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -4,7 +4,21 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { sendWorkoutNotification } from '@/lib/sendWorkoutNotification';
+import { fetchLocations, findRoomConflicts, getDoubleBookedIds, localizedName, type Location, type WorkoutRoom } from '@/lib/locations';
+import { fetchTrainers, getTrainerIds, getTrainerNames, notifyTrainerChange, setWorkoutTrainers, type Trainer, type WorkoutTrainerLink } from '@/lib/trainers';
+import { reserveWorkout, ReserveWorkoutResult } from '@/lib/reserveWorkout';
+import { formatPrice } from '@/lib/formatPrice';
+import { DEFAULT_CLUB_SETTINGS, getPriorityPeriodHours, type ClubSettings } from '@/lib/clubSettings';
 import { Logo } from '@/components/Logo';
+import { QrScanner } from '@/components/QrScanner';
+import { StaffAnalytics } from '@/components/StaffAnalytics';
+import { ReportExportButton } from '@/components/ReportExportButton';
+import { MemberImport } from '@/components/MemberImport';
+import { ClubSettingsPanel } from '@/components/ClubSettingsPanel';
+import { AuditLogViewer } from '@/components/AuditLogViewer';
+import { StaffPermissionsDialog } from '@/components/StaffPermissionsDialog';
+import { TrainerSessions } from '@/components/TrainerSessions';
+import { LocationsPanel } from '@/components/LocationsPanel';
 import { LanguageSelector } from '@/components/LanguageSelector';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -18,13 +32,14 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { 
   ArrowLeft, Plus, Edit, Trash2, Calendar, Clock, Users, 
-  UserCheck, CheckCircle, XCircle, Crown, MoreVertical, ArrowUp, ArrowDown, UserMinus, UserPlus, UserX, Camera, Loader2, UsersRound, Sunrise, Moon
+  UserCheck, CheckCircle, XCircle, Crown, MoreVertical, UserMinus, UserPlus, UserX, Camera, Loader2, UsersRound, Sunrise, Moon, Repeat, ScanLine, Tablet, CreditCard, BarChart3, SlidersHorizontal, ScrollText, KeyRound, Dumbbell, MapPin, AlertTriangle
 } from 'lucide-react';
-import { format, parseISO } from 'date-fns';
+import { format, parseISO, addDays, addMonths } from 'date-fns';
 
 
 interface Workout {
@@ -39,10 +54,15 @@ interface Workout {
   max_spots: number;
   card_priority_enabled: boolean;
   reservation_opens_hours: number;
+  cancellation_deadline_hours: number | null;
   auto_reserve_enabled: boolean;
   auto_reserve_executed: boolean;
   created_by: string;
   workout_type: 'early' | 'late';
+  series_id: string | null;
+  room_id: string | null;
+  rooms?: WorkoutRoom | null;
+  workout_trainers?: WorkoutTrainerLink[];
 }
 
 interface Profile {
@@ -94,8 +114,52 @@ interface RemovedUser {
   is_hard_deleted: boolean;
 }
 
+interface AutoReserveRun {
+  id: string;
+  workout_id: string;
+  triggered_by: 'schedule' | 'staff' | 'workout_created';
+  status: 'pending' | 'success' | 'failed';
+  reserved_count: number;
+  message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface CheckInResult {
+  status: 'checked_in' | 'already_checked_in' | 'no_reservation' | 'no_workout' | 'invalid_token' | 'expired_token';
+  workout?: { id: string; title: string; title_bg: string | null; start_time: string; end_time: string };
+  member?: { user_id: string; full_name: string | null; member_type: string; card_image_url: string | null };
+}
+
+interface MembershipPlan {
+  id: string;
+  name: string;
+  name_bg: string | null;
+  duration_days: number;
+  credits: number | null;
+  grants_card_priority: boolean;
+}
+
+interface Membership {
+  id: string;
+  plan_id: string;
+  starts_on: string;
+  ends_on: string;
+  credits_remaining: number | null;
+  cancelled_at: string | null;
+}
+
+interface Payment {
+  id: string;
+  plan_id: string;
+  amount_cents: number;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'refunded';
+  created_at: string;
+}
+
 interface ConfirmAction {
-  type: 'remove' | 'delete_workout' | 'remove_staff' | 'deactivate' | 'demote' | 'restore';
+  type: 'remove' | 'delete_workout' | 'delete_series_following' | 'remove_staff' | 'deactivate' | 'restore' | 'make_kiosk' | 'refund_payment';
   payload: any;
   message: string;
 }
@@ -103,7 +167,12 @@ interface ConfirmAction {
 export default function StaffDashboard() {
   const navigate = useNavigate();
   const { t, language } = useLanguage();
-  const { user, isStaff, isAdmin, isLoading } = useAuth();
+  const { user, isStaff, isAdmin, isLoading, hasPermission } = useAuth();
+  const canManageSchedule = hasPermission('manage_schedule');
+  const canManageMembers = hasPermission('manage_members');
+  const canMarkAttendance = hasPermission('mark_attendance');
+  const canViewReports = hasPermission('view_reports');
+  const canApproveStaff = hasPermission('approve_staff');
   const { toast } = useToast();
   
   const [workouts, setWorkouts] = useState<Workout[]>([]);
@@ -112,6 +181,7 @@ export default function StaffDashboard() {
   const [allRemovedUsers, setAllRemovedUsers] = useState<RemovedUser[]>([]);
   const [loadingRemovedUsers, setLoadingRemovedUsers] = useState(false);
   const [selectedMember, setSelectedMember] = useState<MemberWithRole | null>(null);
+  const [permissionsMember, setPermissionsMember] = useState<MemberWithRole | null>(null);
   const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
   const [selectedWorkout, setSelectedWorkout] = useState<Workout | null>(null);
   const [workoutReservations, setWorkoutReservations] = useState<Reservation[]>([]);
@@ -119,10 +189,28 @@ export default function StaffDashboard() {
   const [uploadingCardImage, setUploadingCardImage] = useState(false);
   const [manageMembersWorkout, setManageMembersWorkout] = useState<Workout | null>(null);
   const [manageMembersReservations, setManageMembersReservations] = useState<Reservation[]>([]);
-  const [manageMembersWaitingList, setManageMembersWaitingList] = useState<{ id: string; user_id: string; position: number; profiles?: Profile }[]>([]);
+  const [manageMembersWaitingList, setManageMembersWaitingList] = useState<{ id: string; user_id: string; position: number; offered: boolean; profiles?: Profile }[]>([]);
   const [manageMembersReservationCount, setManageMembersReservationCount] = useState<number>(0);
   const [autoReserving, setAutoReserving] = useState(false);
+  // Uncleared late-cancel / no-show strikes per member user_id
+  const [memberStrikes, setMemberStrikes] = useState<Record<string, number>>({});
+  const [clubSettings, setClubSettings] = useState<ClubSettings>(DEFAULT_CLUB_SETTINGS);
+  const [membershipPlans, setMembershipPlans] = useState<MembershipPlan[]>([]);
+  // Memberships of the member open in the details dialog
+  const [memberMemberships, setMemberMemberships] = useState<Membership[]>([]);
+  const [memberPayments, setMemberPayments] = useState<Payment[]>([]);
+  const [membershipsVersion, setMembershipsVersion] = useState(0);
+  const [assignPlanId, setAssignPlanId] = useState('');
+  const [assignStartsOn, setAssignStartsOn] = useState(format(new Date(), 'yyyy-MM-dd'));
+  // QR check-in: 'auto' picks the workout currently open for check-in
+  const [checkInWorkoutId, setCheckInWorkoutId] = useState<string>('auto');
+  const [checkInResult, setCheckInResult] = useState<CheckInResult | null>(null);
+  const [checkInBusy, setCheckInBusy] = useState(false);
+  // Latest auto-reserve run per workout
+  const [autoReserveRuns, setAutoReserveRuns] = useState<Record<string, AutoReserveRun>>({});
   const [confirmAction, setConfirmAction] = useState<ConfirmAction | null>(null);
+  const [trainers, setTrainers] = useState<Trainer[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   
   // Workout form
   const [showWorkoutDialog, setShowWorkoutDialog] = useState(false);
@@ -133,14 +221,29 @@ export default function StaffDashboard() {
     description: '',
     description_bg: '',
     workout_date: format(new Date(), 'yyyy-MM-dd'),
-    start_time: '09:00',
-    end_time: '10:00',
-    max_spots: 10,
-    card_priority_enabled: true,
-    auto_reserve_enabled: true,
-    reservation_opens_hours: 24,
+    start_time: DEFAULT_CLUB_SETTINGS.default_start_time,
+    end_time: DEFAULT_CLUB_SETTINGS.default_end_time,
+    max_spots: DEFAULT_CLUB_SETTINGS.default_max_spots,
+    card_priority_enabled: DEFAULT_CLUB_SETTINGS.default_card_priority_enabled,
+    auto_reserve_enabled: DEFAULT_CLUB_SETTINGS.default_auto_reserve_enabled,
+    reservation_opens_hours: DEFAULT_CLUB_SETTINGS.default_reservation_opens_hours,
+    // Empty means the club-wide cancellation deadline applies
+    cancellation_deadline_hours: null as number | null,
     workout_type: 'early' as 'early' | 'late',
+    room_id: null as string | null,
   });
+  // Weekly repeat settings (only used when creating a new workout)
+  const [seriesForm, setSeriesForm] = useState({
+    enabled: false,
+    weekdays: [] as number[],
+    ends_on: format(addMonths(new Date(), 1), 'yyyy-MM-dd'),
+  });
+  // Whether an edit of a series occurrence applies to it alone or to it and the following ones
+  const [editScope, setEditScope] = useState<'single' | 'following'>('single');
+  // Trainers leading the workout being created or edited
+  const [workoutTrainerIds, setWorkoutTrainerIds] = useState<string[]>([]);
+
+  const myTrainer = trainers.find(tr => tr.user_id === user?.id && tr.is_active);
 
   useEffect(() => {
     if (!isLoading && (!user || !isStaff)) {
@@ -151,21 +254,68 @@ export default function StaffDashboard() {
   useEffect(() => {
     fetchWorkouts();
     fetchMembers();
-    fetchRemovedUsers();
-    if (isAdmin) {
+    loadTrainers();
+    loadLocations();
+    if (canManageMembers) {
+      fetchRemovedUsers();
+    }
+    if (canApproveStaff) {
       fetchPendingApprovals();
     }
-  }, [isAdmin]);
+  }, [canManageMembers, canApproveStaff]);
+
+  useEffect(() => {
+    if (!selectedMember) {
+      setMemberMemberships([]);
+      setMemberPayments([]);
+      return;
+    }
+
+    const fetchMemberMemberships = async () => {
+      const [{ data: memberships }, { data: payments }] = await Promise.all([
+        supabase
+          .from('memberships')
+          .select('id, plan_id, starts_on, ends_on, credits_remaining, cancelled_at')
+          .eq('user_id', selectedMember.user_id)
+          .order('ends_on', { ascending: false }),
+        supabase
+          .from('payments')
+          .select('id, plan_id, amount_cents, currency, status, created_at')
+          .eq('user_id', selectedMember.user_id)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      setMemberMemberships(memberships || []);
+      setMemberPayments((payments || []) as Payment[]);
+    };
+
+    fetchMemberMemberships();
+  }, [selectedMember, membershipsVersion]);
 
   const fetchWorkouts = async () => {
     const { data } = await supabase
       .from('workouts')
-      .select('*')
+      .select('*, rooms(id, name, name_bg, location_id), workout_trainers(trainers(id, display_name))')
       .gte('workout_date', format(new Date(), 'yyyy-MM-dd'))
       .order('workout_date')
       .order('start_time');
     
-    if (data) setWorkouts(data as Workout[]);
+    if (data) {
+      setWorkouts(data as Workout[]);
+
+      // Latest auto-reserve run per listed workout
+      const { data: runs } = await supabase
+        .from('auto_reserve_runs')
+        .select('*')
+        .in('workout_id', data.map(w => w.id))
+        .order('started_at', { ascending: false });
+
+      const latest: Record<string, AutoReserveRun> = {};
+      for (const run of (runs || []) as AutoReserveRun[]) {
+        if (!latest[run.workout_id]) latest[run.workout_id] = run;
+      }
+      setAutoReserveRuns(latest);
+    }
   };
 
   const fetchMembers = async () => {
@@ -190,6 +340,40 @@ export default function StaffDashboard() {
       setMembers(allMembers.filter(m => !m.removed_at));
       setRemovedMembers(allMembers.filter(m => !!m.removed_at));
     }
+
+    const [{ data: strikes }, { data: settings }, { data: plans }] = await Promise.all([
+      supabase.from('member_strikes').select('user_id').is('cleared_at', null),
+      supabase.from('club_settings').select('*').maybeSingle(),
+      supabase
+        .from('membership_plans')
+        .select('id, name, name_bg, duration_days, credits, grants_card_priority')
+        .eq('is_active', true)
+        .order('sort_order'),
+    ]);
+
+    const strikeCounts: Record<string, number> = {};
+    for (const strike of strikes || []) {
+      strikeCounts[strike.user_id] = (strikeCounts[strike.user_id] || 0) + 1;
+    }
+    setMemberStrikes(strikeCounts);
+    if (settings) setClubSettings(settings as ClubSettings);
+    setMembershipPlans(plans || []);
+  };
+
+  const loadTrainers = async () => {
+    try {
+      setTrainers(await fetchTrainers());
+    } catch (e) {
+      console.error('Failed to fetch trainers:', e);
+    }
+  };
+
+  const loadLocations = async () => {
+    try {
+      setLocations(await fetchLocations());
+    } catch (e) {
+      console.error('Failed to fetch locations:', e);
+    }
   };
 
   const fetchRemovedUsers = async () => {
@@ -232,18 +416,24 @@ export default function StaffDashboard() {
       case 'delete_workout':
         await handleDeleteWorkout(payload);
         break;
+      case 'delete_series_following':
+        await handleDeleteSeriesFollowing(payload);
+        break;
       case 'remove_staff':
         await handleRemoveStaff(payload);
         break;
       case 'deactivate':
         await handleDeactivateMember(payload);
         break;
-      case 'demote':
-        await handleDemoteToMember(payload);
-        break;
       case 'restore':
         await handleRestoreRemovedUser(payload);
         break;
+      case 'make_kiosk':
+        await handleMakeKiosk(payload);
+        break;
+      case 'refund_payment':
+        await handleRefundPayment(payload);
+        break;
     }
   };
 
@@ -297,6 +487,11 @@ export default function StaffDashboard() {
 
   const handleCreateWorkout = async () => {
     if (!user) return;
+
+    if (seriesForm.enabled) {
+      await handleCreateSeries();
+      return;
+    }
     
     const { data, error } = await supabase
       .from('workouts')
@@ -310,6 +505,7 @@ export default function StaffDashboard() {
     if (error) {
       toast({ variant: 'destructive', title: 'Error', description: error.message });
     } else {
+      if (data) await saveWorkoutTrainers([data]);
       toast({ title: 'Workout created!' });
       setShowWorkoutDialog(false);
       resetWorkoutForm();
@@ -323,7 +519,7 @@ export default function StaffDashboard() {
           try {
             console.log('Triggering auto-reserve for new workout:', data.id);
             const { data: autoReserveResult, error: autoReserveError } = await supabase.functions.invoke('auto-reserve-card-members', {
-              body: { workoutId: data.id }
+              body: { workoutId: data.id, trigger: 'workout_created' }
             });
             if (autoReserveError) {
               console.error('Auto-reserve error:', autoReserveError);
@@ -366,8 +562,220 @@ export default function StaffDashboard() {
     }
   };
 
+  const handleCreateSeries = async () => {
+    if (!user) return;
+
+    if (seriesForm.weekdays.length === 0 || !seriesForm.ends_on || seriesForm.ends_on < workoutForm.workout_date) {
+      toast({ variant: 'destructive', title: 'Error', description: t('seriesInvalid') });
+      return;
+    }
+
+    // The form date is the first day of the series; every occurrence gets the rest of the form
+    const { workout_date, ...template } = workoutForm;
+
+    const { data: series, error } = await supabase
+      .from('workout_series')
+      .insert({
+        ...template,
+        weekdays: seriesForm.weekdays,
+        starts_on: workout_date,
+        ends_on: seriesForm.ends_on,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error || !series) {
+      toast({ variant: 'destructive', title: 'Error', description: error?.message });
+      return;
+    }
+
+    const { data: generatedCount, error: generateError } = await supabase
+      .rpc('generate_workout_series', { p_series_id: series.id });
+
+    if (generateError) {
+      toast({ variant: 'destructive', title: 'Error', description: generateError.message });
+      return;
+    }
+
+    if (workoutTrainerIds.length > 0) {
+      const { data: generated } = await supabase
+        .from('workouts')
+        .select('id, title, title_bg, workout_date, start_time')
+        .eq('series_id', series.id);
+      await saveWorkoutTrainers(generated || []);
+    }
+
+    toast({
+      title: t('seriesCreated'),
+      description: language === 'bg'
+        ? `${generatedCount ?? 0} тренировки са добавени в разписанието`
+        : `${generatedCount ?? 0} workouts added to the schedule`,
+    });
+    setShowWorkoutDialog(false);
+    resetWorkoutForm();
+    fetchWorkouts();
+  };
+
+  // Saves the form's trainers on the given workouts. Workouts that already had other
+  // trainers tell their booked members who leads them now.
+  const saveWorkoutTrainers = async (
+    affectedWorkouts: Pick<Workout, 'id' | 'title' | 'title_bg' | 'workout_date' | 'start_time' | 'workout_trainers'>[]
+  ) => {
+    try {
+      await setWorkoutTrainers(affectedWorkouts.map(w => w.id), workoutTrainerIds);
+    } catch (e) {
+      toast({ variant: 'destructive', title: 'Error', description: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+
+    const changed = affectedWorkouts.filter(w => {
+      const previous = getTrainerIds(w.workout_trainers);
+      return previous.length > 0
+        && (previous.length !== workoutTrainerIds.length || workoutTrainerIds.some(id => !previous.includes(id)));
+    });
+    const names = trainers.filter(tr => workoutTrainerIds.includes(tr.id)).map(tr => tr.display_name);
+    if (changed.length > 0 && names.length > 0) {
+      await notifyTrainerChange(changed, names.join(', '));
+    }
+  };
+
+  // Notify only the members booked on the given workouts (one notification per workout).
+  // Must run before the workouts are deleted, since reservations cascade with them.
+  const notifyBookedMembers = async (
+    type: 'workout_updated' | 'workout_deleted',
+    affectedWorkouts: Pick<Workout, 'id' | 'title' | 'title_bg' | 'workout_date' | 'start_time'>[]
+  ) => {
+    if (affectedWorkouts.length === 0) return;
+
+    const { data: booked } = await supabase
+      .from('reservations')
+      .select('workout_id, user_id')
+      .in('workout_id', affectedWorkouts.map(w => w.id))
+      .eq('is_active', true);
+
+    for (const workout of affectedWorkouts) {
+      const userIds = booked?.filter(r => r.workout_id === workout.id).map(r => r.user_id) || [];
+      if (userIds.length === 0) continue;
+
+      try {
+        await sendWorkoutNotification({
+          type,
+          workoutId: workout.id,
+          workoutTitle: workout.title,
+          workoutTitleBg: workout.title_bg,
+          workoutDate: workout.workout_date,
+          workoutTime: workout.start_time?.slice(0, 5),
+          targetUserIds: userIds,
+        });
+      } catch (e) {
+        console.log('Push notification failed');
+      }
+    }
+  };
+
+  const handleUpdateSeriesFollowing = async (workout: Workout) => {
+    if (!workout.series_id) return;
+
+    // Dates stay as generated; every other field is applied to this and the following occurrences
+    const { workout_date, ...template } = workoutForm;
+
+    const { data: seriesId, error: splitError } = await supabase
+      .rpc('split_workout_series', { p_series_id: workout.series_id, p_from: workout.workout_date });
+
+    if (splitError || !seriesId) {
+      toast({ variant: 'destructive', title: 'Error', description: splitError?.message });
+      return;
+    }
+
+    const { error: seriesError } = await supabase
+      .from('workout_series')
+      .update(template)
+      .eq('id', seriesId);
+
+    if (seriesError) {
+      toast({ variant: 'destructive', title: 'Error', description: seriesError.message });
+      return;
+    }
+
+    const { data: updatedWorkouts, error } = await supabase
+      .from('workouts')
+      .update(template)
+      .eq('series_id', seriesId)
+      .gte('workout_date', workout.workout_date)
+      .select('id, title, title_bg, workout_date, start_time, workout_trainers(trainers(id, display_name))');
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    await saveWorkoutTrainers(updatedWorkouts || []);
+
+    toast({ title: 'Workout updated!' });
+    setShowWorkoutDialog(false);
+    setEditingWorkout(null);
+    resetWorkoutForm();
+    fetchWorkouts();
+
+    await notifyBookedMembers('workout_updated', updatedWorkouts || []);
+  };
+
+  const handleDeleteSeriesFollowing = async (workout: Workout) => {
+    if (!workout.series_id) return;
+
+    const { data: followingWorkouts, error: fetchError } = await supabase
+      .from('workouts')
+      .select('id, title, title_bg, workout_date, start_time')
+      .eq('series_id', workout.series_id)
+      .gte('workout_date', workout.workout_date);
+
+    if (fetchError) {
+      toast({ variant: 'destructive', title: 'Error', description: fetchError.message });
+      return;
+    }
+
+    // Notify before deleting: the reservations are removed together with the workouts
+    await notifyBookedMembers('workout_deleted', followingWorkouts || []);
+
+    const { error } = await supabase
+      .from('workouts')
+      .delete()
+      .eq('series_id', workout.series_id)
+      .gte('workout_date', workout.workout_date);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    // Shorten the series so it ends before the cancelled occurrences (or drop it entirely)
+    const { data: series } = await supabase
+      .from('workout_series')
+      .select('starts_on')
+      .eq('id', workout.series_id)
+      .maybeSingle();
+
+    if (series && workout.workout_date <= series.starts_on) {
+      await supabase.from('workout_series').delete().eq('id', workout.series_id);
+    } else if (series) {
+      await supabase
+        .from('workout_series')
+        .update({ ends_on: format(addDays(parseISO(workout.workout_date), -1), 'yyyy-MM-dd') })
+        .eq('id', workout.series_id);
+    }
+
+    toast({ title: 'Workout deleted' });
+    fetchWorkouts();
+  };
+
   const handleUpdateWorkout = async () => {
     if (!editingWorkout) return;
+
+    if (editingWorkout.series_id && editScope === 'following') {
+      await handleUpdateSeriesFollowing(editingWorkout);
+      return;
+    }
     
     const { error } = await supabase
       .from('workouts')
@@ -377,32 +785,24 @@ export default function StaffDashboard() {
     if (error) {
       toast({ variant: 'destructive', title: 'Error', description: error.message });
     } else {
+      await saveWorkoutTrainers([{ ...editingWorkout, ...workoutForm }]);
       toast({ title: 'Workout updated!' });
       setShowWorkoutDialog(false);
       setEditingWorkout(null);
       resetWorkoutForm();
       fetchWorkouts();
-      
-      // Send push notification for updated workout
-      try {
-        await sendWorkoutNotification({
-          type: 'workout_updated',
-          workoutId: editingWorkout.id,
-          workoutTitle: workoutForm.title,
-          workoutTitleBg: workoutForm.title_bg,
-          workoutDate: workoutForm.workout_date,
-          workoutTime: workoutForm.start_time?.slice(0, 5),
-        });
-      } catch (e) {
-        console.log('Push notification failed');
-      }
+
+      await notifyBookedMembers('workout_updated', [{ ...workoutForm, id: editingWorkout.id }]);
     }
   };
 
   const handleDeleteWorkout = async (workoutId: string) => {
-    // Get workout details before deletion for notification
+    // Notify before deleting: the reservations are removed together with the workout
     const workoutToDelete = workouts.find(w => w.id === workoutId);
-    
+    if (workoutToDelete) {
+      await notifyBookedMembers('workout_deleted', [workoutToDelete]);
+    }
+
     const { error } = await supabase
       .from('workouts')
       .delete()
@@ -413,20 +813,6 @@ export default function StaffDashboard() {
     } else {
       toast({ title: 'Workout deleted' });
       fetchWorkouts();
-      
-      // Send push notification for deleted workout
-      if (workoutToDelete) {
-        try {
-          await sendWorkoutNotification({
-            type: 'workout_deleted',
-            workoutId: workoutId,
-            workoutTitle: workoutToDelete.title,
-            workoutTitleBg: workoutToDelete.title_bg,
-          });
-        } catch (e) {
-          console.log('Push notification failed');
-        }
-      }
     }
   };
 
@@ -449,7 +835,7 @@ export default function StaffDashboard() {
     for (const workout of cardPriorityWorkouts) {
       try {
         const { data, error } = await supabase.functions.invoke('auto-reserve-card-members', {
-          body: { workoutId: workout.id }
+          body: { workoutId: workout.id, trigger: 'staff' }
         });
         if (!error && data?.reserved) {
           totalReserved += data.reserved;
@@ -488,6 +874,54 @@ export default function StaffDashboard() {
     }
   };
 
+  const isActiveTrainer = (member: MemberWithRole) =>
+    trainers.some(tr => tr.user_id === member.user_id && tr.is_active);
+
+  // Staff become trainers under their profile name; removing keeps the trainer so past
+  // workouts still show who led them
+  const handleSetTrainer = async (member: MemberWithRole, active: boolean) => {
+    const { error } = active
+      ? await supabase
+        .from('trainers')
+        .upsert(
+          { user_id: member.user_id, display_name: member.full_name || member.email || 'Trainer', is_active: true },
+          { onConflict: 'user_id' }
+        )
+      : await supabase
+        .from('trainers')
+        .update({ is_active: false })
+        .eq('user_id', member.user_id);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } else {
+      toast({ title: active ? t('trainerAdded') : t('trainerRemoved') });
+      loadTrainers();
+    }
+  };
+
+  const handleCheckInScan = async (token: string) => {
+    if (checkInBusy) return;
+    setCheckInBusy(true);
+
+    const { data, error } = await supabase.functions.invoke('check-in-member', {
+      body: { token, workoutId: checkInWorkoutId === 'auto' ? undefined : checkInWorkoutId },
+    });
+
+    if (error || !data?.status) {
+      toast({ variant: 'destructive', title: 'Error', description: error?.message || data?.error });
+    } else {
+      setCheckInResult(data as CheckInResult);
+      // Keep the attendance dialog in sync if it is open for the same workout
+      if (data.status === 'checked_in' && selectedWorkout && data.workout?.id === selectedWorkout.id) {
+        fetchWorkoutReservations(selectedWorkout.id);
+      }
+    }
+
+    // Give staff a moment to read the result before the next scan
+    window.setTimeout(() => setCheckInBusy(false), 2500);
+  };
+
   const handleApproveStaff = async (approval: PendingApproval) => {
     if (!user) return;
     
@@ -557,102 +991,6 @@ export default function StaffDashboard() {
     fetchMembers();
   };
 
-  const handlePromoteToCard = async (member: MemberWithRole) => {
-    // Update profile member_type
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .update({ member_type: 'card' })
-      .eq('user_id', member.user_id);
-    
-    if (profileError) {
-      toast({ variant: 'destructive', title: 'Error', description: profileError.message });
-      return;
-    }
-    
-    // Check if user already has a role entry
-    const memberRole = member.roles.find(r => r.role === 'member');
-    const cardRole = member.roles.find(r => r.role === 'card_member');
-    
-    if (memberRole) {
-      // Update existing member role to card_member
-      await supabase
-        .from('user_roles')
-        .update({ role: 'card_member' })
-        .eq('id', memberRole.id);
-    } else if (!cardRole) {
-      // Create new card_member role if none exists
-      await supabase
-        .from('user_roles')
-        .insert({ 
-          user_id: member.user_id, 
-          role: 'card_member',
-          is_approved: true 
-        });
-    }
-    
-    toast({ title: t('memberPromoted') });
-    await fetchMembers();
-    
-    // Refetch and update selectedMember with latest data
-    const { data: updatedProfile } = await supabase
-      .from('profiles')
-      .select('id, user_id, full_name, email, phone, member_type, card_image_url')
-      .eq('user_id', member.user_id)
-      .single();
-    
-    const { data: updatedRoles } = await supabase
-      .from('user_roles')
-      .select('*')
-      .eq('user_id', member.user_id);
-    
-    if (updatedProfile && selectedMember?.user_id === member.user_id) {
-      setSelectedMember({ ...updatedProfile, roles: updatedRoles || [] });
-    }
-  };
-
-  const handleDemoteToMember = async (member: MemberWithRole) => {
-    // Update profile member_type
-    const { error: profileError } = await supabase
-      .from('profiles')
-      .update({ member_type: 'regular' })
-      .eq('user_id', member.user_id);
-    
-    if (profileError) {
-      toast({ variant: 'destructive', title: 'Error', description: profileError.message });
-      return;
-    }
-    
-    // Check if user has card_member role
-    const cardRole = member.roles.find(r => r.role === 'card_member');
-    
-    if (cardRole) {
-      // Update card_member role to member
-      await supabase
-        .from('user_roles')
-        .update({ role: 'member' })
-        .eq('id', cardRole.id);
-    }
-    
-    toast({ title: t('memberDemoted') });
-    await fetchMembers();
-    
-    // Refetch and update selectedMember with latest data
-    const { data: updatedProfile } = await supabase
-      .from('profiles')
-      .select('id, user_id, full_name, email, phone, member_type, card_image_url')
-      .eq('user_id', member.user_id)
-      .single();
-    
-    const { data: updatedRoles } = await supabase
-      .from('user_roles')
-      .select('*')
-      .eq('user_id', member.user_id);
-    
-    if (updatedProfile && selectedMember?.user_id === member.user_id) {
-      setSelectedMember({ ...updatedProfile, roles: updatedRoles || [] });
-    }
-  };
-
   const handleDeactivateMember = async (member: MemberWithRole) => {
     // Remove all roles except staff/admin to make member inactive
     const memberRoles = member.roles.filter(r => r.role === 'member' || r.role === 'card_member');
@@ -731,11 +1069,97 @@ export default function StaffDashboard() {
       toast({ title: language === 'bg' ? 'Снимката е обновена' : 'Card image updated' });
     } catch (error: any) {
       toast({ variant: 'destructive', title: 'Error', description: error.message });
-    } finally {
-      setUploadingCardImage(false);
+    } finally {
+      setUploadingCardImage(false);
+    }
+  };
+
+  const handleClearStrikes = async (member: MemberWithRole) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('member_strikes')
+      .update({ cleared_at: new Date().toISOString(), cleared_by: user.id })
+      .eq('user_id', member.user_id)
+      .is('cleared_at', null);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } else {
+      toast({ title: t('strikesCleared') });
+      fetchMembers();
+    }
+  };
+
+  const handleAssignMembership = async (member: MemberWithRole) => {
+    if (!assignPlanId) return;
+
+    const { error } = await supabase.rpc('assign_membership', {
+      p_user_id: member.user_id,
+      p_plan_id: assignPlanId,
+      p_starts_on: assignStartsOn,
+    });
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+      return;
+    }
+
+    toast({ title: t('membershipAssigned') });
+    setAssignPlanId('');
+    setMembershipsVersion(v => v + 1);
+    await fetchMembers();
+
+    // Card status follows the plan, so refresh it in the open dialog
+    const { data: updatedProfile } = await supabase
+      .from('profiles')
+      .select('member_type')
+      .eq('user_id', member.user_id)
+      .single();
+
+    if (updatedProfile) {
+      setSelectedMember(prev => prev?.user_id === member.user_id ? { ...prev, member_type: updatedProfile.member_type } : prev);
+    }
+  };
+
+  const handleCancelMembership = async (membership: Membership) => {
+    const { error } = await supabase
+      .from('memberships')
+      .update({ cancelled_at: new Date().toISOString() })
+      .eq('id', membership.id);
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } else {
+      toast({ title: t('membershipCancelled') });
+      setMembershipsVersion(v => v + 1);
+      fetchMembers();
+    }
+  };
+
+  const handleRefundPayment = async (payment: Payment) => {
+    const { data, error } = await supabase.functions.invoke('refund-payment', {
+      body: { paymentId: payment.id },
+    });
+
+    if (error || data?.error) {
+      toast({ variant: 'destructive', title: 'Error', description: data?.error || error?.message });
+    } else {
+      toast({ title: t('paymentRefunded') });
+      setMembershipsVersion(v => v + 1);
+      fetchMembers();
     }
   };
 
+  const getMembershipStatus = (membership: Membership) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    if (membership.cancelled_at) return 'cancelled';
+    if (membership.ends_on < today) return 'expired';
+    if (membership.starts_on > today) return 'upcoming';
+    if (membership.credits_remaining === 0) return 'used_up';
+    return 'active';
+  };
+
   const handleRemoveStaff = async (member: MemberWithRole) => {
     const staffRole = member.roles.find(r => r.role === 'staff');
     if (staffRole) {
@@ -753,6 +1177,17 @@ export default function StaffDashboard() {
     }
   };
 
+  const handleMakeKiosk = async (member: MemberWithRole) => {
+    const { error } = await supabase.rpc('set_kiosk_account', { p_user_id: member.user_id });
+
+    if (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error.message });
+    } else {
+      toast({ title: t('kioskAccountCreated') });
+      fetchMembers();
+    }
+  };
+
   const fetchManageMembersReservations = async (workoutId: string) => {
     // Use RPC for consistent reservation count (same as Dashboard)
     const { data: countData } = await supabase
@@ -801,6 +1236,14 @@ export default function StaffDashboard() {
         .select('id, user_id, full_name, email, member_type, card_image_url, phone')
         .in('user_id', waitingUserIds);
       
+      // Members a freed spot is currently held for
+      const { data: offers } = await supabase
+        .from('waitlist_offers')
+        .select('user_id')
+        .eq('workout_id', workoutId)
+        .eq('status', 'pending');
+      const offeredUserIds = new Set(offers?.map(o => o.user_id) || []);
+
       // Build a map for faster lookup
       const profileMap = new Map(waitingProfiles?.map(p => [p.user_id, p]) || []);
       
@@ -808,6 +1251,7 @@ export default function StaffDashboard() {
         id: w.id,
         user_id: w.user_id,
         position: w.position,
+        offered: offeredUserIds.has(w.user_id),
         profiles: profileMap.get(w.user_id) as Profile | undefined,
       }));
       
@@ -818,58 +1262,47 @@ export default function StaffDashboard() {
   };
 
   const handleAddMemberToWorkout = async (workoutId: string, memberId: string) => {
-    // First try to reactivate an existing inactive reservation
-    const { data: existing } = await supabase
-      .from('reservations')
-      .select('id')
-      .eq('workout_id', workoutId)
-      .eq('user_id', memberId)
-      .maybeSingle();
+    // Same server-side path as member bookings: capacity is enforced, a full workout waitlists
+    let result: ReserveWorkoutResult;
+    try {
+      result = await reserveWorkout(workoutId, memberId);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Error', description: error instanceof Error ? error.message : String(error) });
+      return;
+    }
 
-    let error;
-    if (existing) {
-      // Reactivate the existing reservation
-      const result = await supabase
-        .from('reservations')
-        .update({ is_active: true, cancelled_at: null, reserved_at: new Date().toISOString() })
-        .eq('id', existing.id);
-      error = result.error;
-    } else {
-      // Insert new reservation
-      const result = await supabase
-        .from('reservations')
-        .insert({ workout_id: workoutId, user_id: memberId, is_active: true });
-      error = result.error;
+    fetchManageMembersReservations(workoutId);
+
+    if (result.status === 'waitlisted' || result.status === 'already_waitlisted') {
+      toast({
+        title: t('spotsFull'),
+        description: language === 'bg'
+          ? `Членът е в листа за чакане (#${result.waiting_position})`
+          : `Member is on the waiting list (#${result.waiting_position})`,
+      });
+      return;
     }
 
-    if (error) {
-      toast({ variant: 'destructive', title: 'Error', description: error.message });
-    } else {
-      toast({ title: language === 'bg' ? 'Членът е добавен' : 'Member added' });
-      fetchManageMembersReservations(workoutId);
+    if (result.status !== 'booked' && result.status !== 'already_booked') {
+      toast({ variant: 'destructive', title: 'Error', description: t('bookingNotAllowed') });
+      return;
+    }
 
-      // Check if workout is now full and notify staff
-      const workout = workouts.find(w => w.id === workoutId);
-      if (workout) {
-        const { count } = await supabase
-          .from('reservations')
-          .select('*', { count: 'exact', head: true })
-          .eq('workout_id', workoutId)
-          .eq('is_active', true);
-
-        if (count && count >= workout.max_spots) {
-          // Notify when workout is full (unified notification handles staff targeting for this type)
-          try {
-            await sendWorkoutNotification({
-              type: 'workout_full',
-              workoutId: workout.id,
-              workoutTitle: workout.title,
-              workoutTitleBg: workout.title_bg,
-            });
-          } catch (e) {
-            console.log('Push notification failed');
-          }
-        }
+    toast({ title: language === 'bg' ? 'Членът е добавен' : 'Member added' });
+
+    // Check if workout is now full and notify staff
+    const workout = workouts.find(w => w.id === workoutId);
+    if (workout && result.status === 'booked' && result.active_count !== undefined && result.active_count >= workout.max_spots) {
+      // Notify when workout is full (unified notification handles staff targeting for this type)
+      try {
+        await sendWorkoutNotification({
+          type: 'workout_full',
+          workoutId: workout.id,
+          workoutTitle: workout.title,
+          workoutTitleBg: workout.title_bg,
+        });
+      } catch (e) {
+        console.log('Push notification failed');
       }
     }
   };
@@ -902,6 +1335,7 @@ export default function StaffDashboard() {
     const isCard = member.member_type === 'card';
 
     if (isStaffMember) return 'staff';
+    if (member.roles.some(r => r.role === 'kiosk')) return 'kiosk';
     if (isCard && hasMemberRole) return 'card';
     if (hasMemberRole) return 'member';
     
@@ -916,14 +1350,24 @@ export default function StaffDashboard() {
       description: '',
       description_bg: '',
       workout_date: format(new Date(), 'yyyy-MM-dd'),
-      start_time: '09:00',
-      end_time: '10:00',
-      max_spots: 10,
-      card_priority_enabled: true,
-      auto_reserve_enabled: true,
-      reservation_opens_hours: 24,
+      // New workouts start from the club's defaults
+      start_time: clubSettings.default_start_time.slice(0, 5),
+      end_time: clubSettings.default_end_time.slice(0, 5),
+      max_spots: clubSettings.default_max_spots,
+      card_priority_enabled: clubSettings.default_card_priority_enabled,
+      auto_reserve_enabled: clubSettings.default_auto_reserve_enabled,
+      reservation_opens_hours: clubSettings.default_reservation_opens_hours,
+      cancellation_deadline_hours: null,
       workout_type: 'early',
+      room_id: null,
     });
+    setSeriesForm({
+      enabled: false,
+      weekdays: [],
+      ends_on: format(addMonths(new Date(), 1), 'yyyy-MM-dd'),
+    });
+    setEditScope('single');
+    setWorkoutTrainerIds([]);
   };
 
   const openEditWorkout = (workout: Workout) => {
@@ -942,12 +1386,42 @@ export default function StaffDashboard() {
       max_spots: workout.max_spots,
       card_priority_enabled: workout.card_priority_enabled,
       auto_reserve_enabled: workout.auto_reserve_enabled ?? true,
-      reservation_opens_hours: workout.reservation_opens_hours || 24,
+      reservation_opens_hours: workout.reservation_opens_hours ?? clubSettings.default_reservation_opens_hours,
+      cancellation_deadline_hours: workout.cancellation_deadline_hours ?? null,
       workout_type: workout.workout_type || 'early',
+      room_id: workout.room_id,
     });
+    setEditScope('single');
+    setWorkoutTrainerIds(getTrainerIds(workout.workout_trainers));
     setShowWorkoutDialog(true);
   };
 
+  // Days the form would schedule: each matching weekday of a new series, or the one date
+  const getPlannedDates = () => {
+    if (editingWorkout || !seriesForm.enabled) return [workoutForm.workout_date];
+    const dates: string[] = [];
+    for (let day = parseISO(workoutForm.workout_date); format(day, 'yyyy-MM-dd') <= seriesForm.ends_on; day = addDays(day, 1)) {
+      if (seriesForm.weekdays.includes(day.getDay())) dates.push(format(day, 'yyyy-MM-dd'));
+    }
+    return dates;
+  };
+
+  const roomConflicts = showWorkoutDialog && workoutForm.room_id
+    ? findRoomConflicts(
+      getPlannedDates().map(workout_date => ({ ...workoutForm, id: editingWorkout?.id, workout_date })),
+      workouts
+    )
+    : [];
+  const doubleBookedIds = getDoubleBookedIds(workouts);
+
+  // Active rooms to pick from, plus the workout's own room if it was since closed
+  const roomOptions = locations.flatMap(location => location.rooms
+    .filter(room => (location.is_active && room.is_active) || room.id === workoutForm.room_id)
+    .map(room => ({
+      room,
+      label: `${localizedName(location, language)} · ${localizedName(room, language)} (${room.capacity})`,
+    })));
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -977,14 +1451,46 @@ export default function StaffDashboard() {
         </h1>
 
         <Tabs defaultValue="workouts" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 sm:w-auto sm:inline-grid">
+          <TabsList className="grid w-full grid-cols-9 sm:w-auto sm:inline-grid">
             <TabsTrigger value="workouts">{t('workouts')}</TabsTrigger>
+            {myTrainer && (
+              <TabsTrigger value="sessions">
+                <Dumbbell className="h-4 w-4 mr-1" />
+                {t('mySessions')}
+              </TabsTrigger>
+            )}
+            {canMarkAttendance && (
+              <TabsTrigger value="checkin">
+                <ScanLine className="h-4 w-4 mr-1" />
+                {t('checkIn')}
+              </TabsTrigger>
+            )}
             <TabsTrigger value="members">{t('manageMembers')}</TabsTrigger>
-            <TabsTrigger value="removed">
-              <UserX className="h-4 w-4 mr-1" />
-              {t('removedMembers')}
-            </TabsTrigger>
+            {canManageMembers && (
+              <TabsTrigger value="removed">
+                <UserX className="h-4 w-4 mr-1" />
+                {t('removedMembers')}
+              </TabsTrigger>
+            )}
+            {canViewReports && (
+              <TabsTrigger value="analytics">
+                <BarChart3 className="h-4 w-4 mr-1" />
+                {t('analytics')}
+              </TabsTrigger>
+            )}
+            {isAdmin && (
+              <TabsTrigger value="settings">
+                <SlidersHorizontal className="h-4 w-4 mr-1" />
+                {t('clubSettings')}
+              </TabsTrigger>
+            )}
             {isAdmin && (
+              <TabsTrigger value="audit">
+                <ScrollText className="h-4 w-4 mr-1" />
+                {t('auditLog')}
+              </TabsTrigger>
+            )}
+            {canApproveStaff && (
               <TabsTrigger value="approvals">
                 {t('pendingApprovals')}
                 {pendingApprovals.length > 0 && (
@@ -996,17 +1502,26 @@ export default function StaffDashboard() {
             )}
           </TabsList>
 
+          {/* My Sessions Tab */}
+          {myTrainer && (
+            <TabsContent value="sessions" className="space-y-4">
+              <TrainerSessions trainer={myTrainer} trainers={trainers} timeZone={clubSettings.time_zone} />
+            </TabsContent>
+          )}
+
           {/* Workouts Tab */}
           <TabsContent value="workouts" className="space-y-4">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
               <h2 className="font-display text-xl font-medium">{t('manageWorkouts')}</h2>
               <Dialog open={showWorkoutDialog} onOpenChange={setShowWorkoutDialog}>
+                {canManageSchedule && (
                   <DialogTrigger asChild>
                     <Button onClick={() => { setEditingWorkout(null); resetWorkoutForm(); }}>
                       <Plus className="h-4 w-4 mr-2" />
                       {t('createWorkout')}
                     </Button>
                   </DialogTrigger>
+                )}
                 <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle className="font-display">
@@ -1014,6 +1529,32 @@ export default function StaffDashboard() {
                     </DialogTitle>
                   </DialogHeader>
                   <div className="space-y-4 py-4">
+                    {/* Scope of the edit for workouts generated from a series */}
+                    {editingWorkout?.series_id && (
+                      <div className="space-y-2">
+                        <Label>{t('applyTo')}</Label>
+                        <div className="flex gap-2">
+                          <Button
+                            type="button"
+                            variant={editScope === 'single' ? 'default' : 'outline'}
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => setEditScope('single')}
+                          >
+                            {t('onlyThisWorkout')}
+                          </Button>
+                          <Button
+                            type="button"
+                            variant={editScope === 'following' ? 'default' : 'outline'}
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => setEditScope('following')}
+                          >
+                            {t('thisAndFollowing')}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                     {/* Unified Title Field */}
                     <div className="space-y-2">
                       <Label>{t('workoutTitle')}</Label>
@@ -1042,11 +1583,12 @@ export default function StaffDashboard() {
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div className="space-y-2">
-                        <Label>{t('date')}</Label>
+                        <Label>{seriesForm.enabled ? t('startsOn') : t('date')}</Label>
                         <Input
                           type="date"
                           value={workoutForm.workout_date}
                           onChange={(e) => setWorkoutForm(f => ({ ...f, workout_date: e.target.value }))}
+                          disabled={!!editingWorkout?.series_id && editScope === 'following'}
                         />
                       </div>
                       <div className="space-y-2">
@@ -1091,6 +1633,136 @@ export default function StaffDashboard() {
                         />
                       </div>
                     </div>
+                    {trainers.some(tr => tr.is_active || workoutTrainerIds.includes(tr.id)) && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <Dumbbell className="h-4 w-4" />
+                          {t('trainers')}
+                        </Label>
+                        <div className="flex flex-wrap gap-2">
+                          {trainers
+                            .filter(tr => tr.is_active || workoutTrainerIds.includes(tr.id))
+                            .map((trainer) => {
+                              const selected = workoutTrainerIds.includes(trainer.id);
+                              return (
+                                <Button
+                                  key={trainer.id}
+                                  type="button"
+                                  variant={selected ? 'default' : 'outline'}
+                                  size="sm"
+                                  onClick={() => setWorkoutTrainerIds(ids => selected
+                                    ? ids.filter(id => id !== trainer.id)
+                                    : [...ids, trainer.id])}
+                                >
+                                  {trainer.display_name}
+                                </Button>
+                              );
+                            })}
+                        </div>
+                      </div>
+                    )}
+                    {/* Weekly repeat (new workouts only) */}
+                    {!editingWorkout && (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                          <Label className="flex items-center gap-2">
+                            <Repeat className="h-4 w-4" />
+                            {t('repeatWeekly')}
+                          </Label>
+                          <Switch
+                            checked={seriesForm.enabled}
+                            onCheckedChange={(checked) => setSeriesForm(f => ({
+                              ...f,
+                              enabled: checked,
+                              // Pre-select the weekday of the chosen date
+                              weekdays: checked && f.weekdays.length === 0
+                                ? [parseISO(workoutForm.workout_date).getDay()]
+                                : f.weekdays,
+                            }))}
+                          />
+                        </div>
+                        {seriesForm.enabled && (
+                          <div className="space-y-3 pl-4 border-l-2 border-primary/20">
+                            <div className="space-y-2">
+                              <Label>{t('repeatOn')}</Label>
+                              <div className="grid grid-cols-7 gap-1">
+                                {[1, 2, 3, 4, 5, 6, 0].map((day) => {
+                                  const selected = seriesForm.weekdays.includes(day);
+                                  return (
+                                    <Button
+                                      key={day}
+                                      type="button"
+                                      variant={selected ? 'default' : 'outline'}
+                                      size="sm"
+                                      className="px-0"
+                                      onClick={() => setSeriesForm(f => ({
+                                        ...f,
+                                        weekdays: selected
+                                          ? f.weekdays.filter(d => d !== day)
+                                          : [...f.weekdays, day].sort(),
+                                      }))}
+                                    >
+                                      {t(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'][day])}
+                                    </Button>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                            <div className="space-y-2">
+                              <Label>{t('repeatUntil')}</Label>
+                              <Input
+                                type="date"
+                                min={workoutForm.workout_date}
+                                value={seriesForm.ends_on}
+                                onChange={(e) => setSeriesForm(f => ({ ...f, ends_on: e.target.value }))}
+                              />
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {roomOptions.length > 0 && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <MapPin className="h-4 w-4" />
+                          {t('room')}
+                        </Label>
+                        <Select
+                          value={workoutForm.room_id ?? 'none'}
+                          onValueChange={(value) => {
+                            const room = roomOptions.find(o => o.room.id === value)?.room;
+                            // A room's capacity is the starting point for the spots
+                            setWorkoutForm(f => ({ ...f, room_id: room?.id ?? null, max_spots: room?.capacity ?? f.max_spots }));
+                          }}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">{t('noRoom')}</SelectItem>
+                            {roomOptions.map(({ room, label }) => (
+                              <SelectItem key={room.id} value={room.id}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {roomConflicts.length > 0 && (
+                          <div className="rounded-md border border-destructive/50 bg-destructive/10 p-2 text-xs space-y-1">
+                            <p className="flex items-center gap-1 font-medium text-destructive">
+                              <AlertTriangle className="h-3 w-3" />
+                              {t('roomDoubleBooked')}
+                            </p>
+                            {roomConflicts.slice(0, 5).map(conflict => (
+                              <p key={conflict.id} className="text-muted-foreground">
+                                {conflict.title} · {format(parseISO(conflict.workout_date), 'MMM d')} {conflict.start_time.slice(0, 5)}-{conflict.end_time.slice(0, 5)}
+                              </p>
+                            ))}
+                            {roomConflicts.length > 5 && (
+                              <p className="text-muted-foreground">+{roomConflicts.length - 5}</p>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )}
                     <div className="space-y-2">
                       <Label>{t('maxSpots')}</Label>
                       <Input
@@ -1106,12 +1778,25 @@ export default function StaffDashboard() {
                         type="number"
                         min={1}
                         value={workoutForm.reservation_opens_hours}
-                        onChange={(e) => setWorkoutForm(f => ({ ...f, reservation_opens_hours: parseInt(e.target.value) || 24 }))}
+                        onChange={(e) => setWorkoutForm(f => ({ ...f, reservation_opens_hours: parseInt(e.target.value) || clubSettings.default_reservation_opens_hours }))}
                       />
                       <p className="text-xs text-muted-foreground">
-                        {t('cardPriorityPeriod')}: {Math.floor(workoutForm.reservation_opens_hours / 2)} {language === 'bg' ? 'часа' : 'hours'}
+                        {t('cardPriorityPeriod')}: {Math.floor(getPriorityPeriodHours(clubSettings, workoutForm.reservation_opens_hours))} {language === 'bg' ? 'часа' : 'hours'}
                       </p>
                     </div>
+                    <div className="space-y-2">
+                      <Label>{t('cancellationDeadline')}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        placeholder={`${t('clubDefault')} (${clubSettings.cancellation_deadline_hours})`}
+                        value={workoutForm.cancellation_deadline_hours ?? ''}
+                        onChange={(e) => setWorkoutForm(f => ({
+                          ...f,
+                          cancellation_deadline_hours: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value) || 0),
+                        }))}
+                      />
+                    </div>
                     <div className="flex items-center justify-between">
                       <Label>{t('cardPriority')}</Label>
                       <Switch
@@ -1173,6 +1858,24 @@ export default function StaffDashboard() {
                             {workout.max_spots} spots
                           </span>
                         </div>
+                        {workout.rooms && (
+                          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                            <MapPin className="h-4 w-4" />
+                            {localizedName(workout.rooms, language)}
+                          </p>
+                        )}
+                        {doubleBookedIds.has(workout.id) && (
+                          <Badge variant="destructive" className="text-xs">
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            {t('roomDoubleBooked')}
+                          </Badge>
+                        )}
+                        {getTrainerNames(workout.workout_trainers).length > 0 && (
+                          <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                            <Dumbbell className="h-4 w-4" />
+                            {getTrainerNames(workout.workout_trainers).join(', ')}
+                          </p>
+                        )}
                         <Badge variant={workout.workout_type === 'early' ? 'default' : 'secondary'} className="text-xs">
                           {t(workout.workout_type || 'early')}
                         </Badge>
@@ -1182,36 +1885,98 @@ export default function StaffDashboard() {
                             {t('cardPriority')}
                           </Badge>
                         )}
+                        {workout.series_id && (
+                          <Badge variant="outline" className="text-xs">
+                            <Repeat className="h-3 w-3 mr-1" />
+                            {t('recurring')}
+                          </Badge>
+                        )}
+                        {workout.card_priority_enabled && workout.auto_reserve_enabled && (() => {
+                          const run = autoReserveRuns[workout.id];
+                          if (!run) {
+                            if (workout.auto_reserve_executed) return null;
+                            return (
+                              <p className="text-xs text-muted-foreground">{t('autoReserveScheduled')}</p>
+                            );
+                          }
+                          const ranAt = format(parseISO(run.finished_at || run.started_at), 'MMM d, HH:mm');
+                          if (run.status === 'failed') {
+                            return (
+                              <p className="text-xs text-destructive">
+                                {t('autoReserveFailed')} · {ranAt}{run.message ? ` · ${run.message}` : ''}
+                              </p>
+                            );
+                          }
+                          if (run.status === 'pending') {
+                            return (
+                              <p className="text-xs text-muted-foreground">{t('autoReservePending')} · {ranAt}</p>
+                            );
+                          }
+                          return (
+                            <p className="text-xs text-muted-foreground">
+                              {t('autoReserveLastRun')} · {ranAt} · {run.reserved_count} {t('spotsReserved')}
+                            </p>
+                          );
+                        })()}
                       </div>
                       <div className="flex gap-2">
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setManageMembersWorkout(workout);
-                            fetchManageMembersReservations(workout.id);
-                          }}
-                        >
-                          <UsersRound className="h-4 w-4 mr-1" />
-                          {language === 'bg' ? 'Членове' : 'Members'}
-                        </Button>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          onClick={() => {
-                            setSelectedWorkout(workout);
-                            fetchWorkoutReservations(workout.id);
-                          }}
-                        >
-                          <UserCheck className="h-4 w-4 mr-1" />
-                          {t('attendance')}
-                        </Button>
-                        <Button variant="ghost" size="icon" onClick={() => openEditWorkout(workout)}>
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button variant="ghost" size="icon" onClick={() => setConfirmAction({ type: 'delete_workout', payload: workout.id, message: t('confirmDeleteWorkout') })}>
-                          <Trash2 className="h-4 w-4 text-destructive" />
-                        </Button>
+                        {canManageMembers && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setManageMembersWorkout(workout);
+                              fetchManageMembersReservations(workout.id);
+                            }}
+                          >
+                            <UsersRound className="h-4 w-4 mr-1" />
+                            {language === 'bg' ? 'Членове' : 'Members'}
+                          </Button>
+                        )}
+                        {canMarkAttendance && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedWorkout(workout);
+                              fetchWorkoutReservations(workout.id);
+                            }}
+                          >
+                            <UserCheck className="h-4 w-4 mr-1" />
+                            {t('attendance')}
+                          </Button>
+                        )}
+                        {canManageSchedule && (
+                          <Button variant="ghost" size="icon" onClick={() => openEditWorkout(workout)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canManageSchedule && (
+                          workout.series_id ? (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon">
+                                  <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => setConfirmAction({ type: 'delete_workout', payload: workout.id, message: t('confirmDeleteWorkout') })}>
+                                  {t('deleteThisWorkout')}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => setConfirmAction({ type: 'delete_series_following', payload: workout, message: t('confirmDeleteSeriesFollowing') })}
+                                  className="text-destructive"
+                                >
+                                  {t('deleteThisAndFollowing')}
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          ) : (
+                            <Button variant="ghost" size="icon" onClick={() => setConfirmAction({ type: 'delete_workout', payload: workout.id, message: t('confirmDeleteWorkout') })}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -1220,9 +1985,96 @@ export default function StaffDashboard() {
             </div>
           </TabsContent>
 
+          {/* Check-in Tab */}
+          <TabsContent value="checkin" className="space-y-4">
+            <h2 className="font-display text-xl font-medium">{t('scanQrCode')}</h2>
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-3">
+                <Select value={checkInWorkoutId} onValueChange={setCheckInWorkoutId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">{t('currentWorkoutAuto')}</SelectItem>
+                    {workouts
+                      .filter(w => w.workout_date === format(new Date(), 'yyyy-MM-dd'))
+                      .map(w => (
+                        <SelectItem key={w.id} value={w.id}>
+                          {w.start_time.slice(0, 5)} · {language === 'bg' && w.title_bg ? w.title_bg : w.title}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <QrScanner onScan={handleCheckInScan} paused={checkInBusy} />
+              </div>
+              {checkInResult && (
+                <Card className={`border-2 ${
+                  checkInResult.status === 'checked_in' || checkInResult.status === 'already_checked_in'
+                    ? 'border-green-500/50'
+                    : 'border-destructive/50'
+                }`}>
+                  <CardContent className="p-6 space-y-4">
+                    <div className="flex items-center gap-3">
+                      {checkInResult.status === 'checked_in' || checkInResult.status === 'already_checked_in' ? (
+                        <CheckCircle className="h-8 w-8 text-green-500" />
+                      ) : (
+                        <XCircle className="h-8 w-8 text-destructive" />
+                      )}
+                      <p className="font-display text-xl font-semibold">
+                        {{
+                          checked_in: t('checkedIn'),
+                          already_checked_in: t('alreadyCheckedIn'),
+                          no_reservation: t('noReservation'),
+                          no_workout: t('noWorkoutNow'),
+                          invalid_token: t('invalidQrCode'),
+                          expired_token: t('expiredQrCode'),
+                        }[checkInResult.status]}
+                      </p>
+                    </div>
+                    {checkInResult.member && (
+                      <div className="flex items-center gap-3">
+                        {checkInResult.member.card_image_url && (
+                          <img
+                            src={checkInResult.member.card_image_url}
+                            alt={`Photo for ${checkInResult.member.full_name || 'member'}`}
+                            className="h-16 w-16 rounded-lg object-cover"
+                          />
+                        )}
+                        <div>
+                          <p className="font-medium text-lg">{checkInResult.member.full_name || 'Member'}</p>
+                          {checkInResult.member.member_type === 'card' && (
+                            <Badge className="bg-primary/20">
+                              <Crown className="h-3 w-3 mr-1" />
+                              {t('cardMember')}
+                            </Badge>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                    {checkInResult.workout && (
+                      <p className="text-sm text-muted-foreground">
+                        {language === 'bg' && checkInResult.workout.title_bg ? checkInResult.workout.title_bg : checkInResult.workout.title}
+                        {' · '}
+                        {checkInResult.workout.start_time.slice(0, 5)} - {checkInResult.workout.end_time.slice(0, 5)}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </TabsContent>
+
           {/* Members Tab */}
           <TabsContent value="members" className="space-y-4">
-            <h2 className="font-display text-xl font-medium">{t('manageMembers')}</h2>
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="font-display text-xl font-medium">{t('manageMembers')}</h2>
+              <div className="flex items-center gap-2">
+                {isAdmin && <MemberImport onImported={fetchMembers} />}
+                {canViewReports && (
+                  <ReportExportButton report="member_roster" fileName={`members-${format(new Date(), 'yyyy-MM-dd')}`} />
+                )}
+              </div>
+            </div>
             <div className="grid gap-3">
               {members.map((member) => {
                 const status = getMemberStatus(member);
@@ -1270,11 +2122,25 @@ export default function StaffDashboard() {
                             {status === 'member' && (
                               <Badge variant="secondary">{t('member')}</Badge>
                             )}
+                            {status === 'kiosk' && (
+                              <Badge variant="outline">
+                                <Tablet className="h-3 w-3 mr-1" />
+                                {t('kiosk')}
+                              </Badge>
+                            )}
                             {status === 'inactive' && (
                               <Badge variant="outline" className="text-muted-foreground border-muted">
                                 {t('inactive')}
                               </Badge>
                             )}
+                            {memberStrikes[member.user_id] > 0 && (
+                              <Badge
+                                variant={memberStrikes[member.user_id] >= clubSettings.strike_threshold ? 'destructive' : 'outline'}
+                                className="text-xs"
+                              >
+                                {t('strikes')}: {memberStrikes[member.user_id]}
+                              </Badge>
+                            )}
                             {/* Auto-reserve indicator for card members */}
                             {member.member_type === 'card' && member.auto_reserve_enabled && member.preferred_workout_type && (
                               <Badge variant="outline" className="text-xs py-0.5" title={`Auto-reserve: ${member.preferred_workout_type}`}>
@@ -1288,58 +2154,74 @@ export default function StaffDashboard() {
                           </div>
                         </div>
                       </button>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon">
-                            <MoreVertical className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          {status === 'inactive' && (
-                            <DropdownMenuItem onClick={() => handleActivateMember(member)}>
-                              <UserPlus className="h-4 w-4 mr-2" />
-                              {t('activate')}
-                            </DropdownMenuItem>
-                          )}
-                          {status === 'member' && (
-                            <>
-                              <DropdownMenuItem onClick={() => handlePromoteToCard(member)}>
-                                <ArrowUp className="h-4 w-4 mr-2" />
-                                {t('promoteToCard')}
+                      {(canManageMembers || canManageSchedule || canApproveStaff || isAdmin) && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="icon">
+                              <MoreVertical className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            {status === 'inactive' && canManageMembers && (
+                              <DropdownMenuItem onClick={() => handleActivateMember(member)}>
+                                <UserPlus className="h-4 w-4 mr-2" />
+                                {t('activate')}
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => setConfirmAction({ type: 'deactivate', payload: member, message: t('confirmDeactivate') })}>
-                                <UserX className="h-4 w-4 mr-2" />
-                                {t('deactivate')}
+                            )}
+                            {status === 'inactive' && isAdmin && (
+                              <DropdownMenuItem onClick={() => setConfirmAction({ type: 'make_kiosk', payload: member, message: t('confirmMakeKiosk') })}>
+                                <Tablet className="h-4 w-4 mr-2" />
+                                {t('makeKioskAccount')}
                               </DropdownMenuItem>
-                            </>
-                          )}
-                          {status === 'card' && (
-                            <>
-                              <DropdownMenuItem onClick={() => setConfirmAction({ type: 'demote', payload: member, message: t('confirmDemote') })}>
-                                <ArrowDown className="h-4 w-4 mr-2" />
-                                {t('demoteToMember')}
+                            )}
+                            {(status === 'member' || status === 'card') && canManageMembers && (
+                              <>
+                                <DropdownMenuItem onClick={() => setSelectedMember(member)}>
+                                  <CreditCard className="h-4 w-4 mr-2" />
+                                  {t('memberships')}
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => setConfirmAction({ type: 'deactivate', payload: member, message: t('confirmDeactivate') })}>
+                                  <UserX className="h-4 w-4 mr-2" />
+                                  {t('deactivate')}
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                            {memberStrikes[member.user_id] > 0 && canManageMembers && (
+                              <DropdownMenuItem onClick={() => handleClearStrikes(member)}>
+                                <CheckCircle className="h-4 w-4 mr-2" />
+                                {t('clearStrikes')}
                               </DropdownMenuItem>
-                              <DropdownMenuItem onClick={() => setConfirmAction({ type: 'deactivate', payload: member, message: t('confirmDeactivate') })}>
-                                <UserX className="h-4 w-4 mr-2" />
-                                {t('deactivate')}
+                            )}
+                            {status === 'staff' && isAdmin && !member.roles.some(r => r.role === 'admin') && (
+                              <DropdownMenuItem onClick={() => setPermissionsMember(member)}>
+                                <KeyRound className="h-4 w-4 mr-2" />
+                                {t('staffPermissions')}
                               </DropdownMenuItem>
-                            </>
-                          )}
-                          {status === 'staff' && (
-                            <DropdownMenuItem onClick={() => setConfirmAction({ type: 'remove_staff', payload: member, message: t('confirmRemoveStaff') })}>
-                              <UserMinus className="h-4 w-4 mr-2" />
-                              {t('removeStaff')}
-                            </DropdownMenuItem>
-                          )}
-                          <DropdownMenuItem 
-                            onClick={() => setConfirmAction({ type: 'remove', payload: member, message: t('confirmRemoveMember') })}
-                            className="text-destructive"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            {t('removeMember')}
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                            )}
+                            {status === 'staff' && canManageSchedule && (
+                              <DropdownMenuItem onClick={() => handleSetTrainer(member, !isActiveTrainer(member))}>
+                                <Dumbbell className="h-4 w-4 mr-2" />
+                                {isActiveTrainer(member) ? t('removeTrainer') : t('makeTrainer')}
+                              </DropdownMenuItem>
+                            )}
+                            {status === 'staff' && canApproveStaff && (
+                              <DropdownMenuItem onClick={() => setConfirmAction({ type: 'remove_staff', payload: member, message: t('confirmRemoveStaff') })}>
+                                <UserMinus className="h-4 w-4 mr-2" />
+                                {t('removeStaff')}
+                              </DropdownMenuItem>
+                            )}
+                            {canManageMembers && (
+                              <DropdownMenuItem 
+                                onClick={() => setConfirmAction({ type: 'remove', payload: member, message: t('confirmRemoveMember') })}
+                                className="text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                {t('removeMember')}
+                              </DropdownMenuItem>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -1348,6 +2230,12 @@ export default function StaffDashboard() {
 
           </TabsContent>
 
+          {/* Analytics Tab */}
+          <TabsContent value="analytics" className="space-y-4">
+            <h2 className="font-display text-xl font-medium">{t('analytics')}</h2>
+            <StaffAnalytics />
+          </TabsContent>
+
           {/* Removed Members Tab */}
           <TabsContent value="removed" className="space-y-4">
             <h2 className="font-display text-xl font-medium">{t('removedMembers')}</h2>
@@ -1393,8 +2281,26 @@ export default function StaffDashboard() {
             )}
           </TabsContent>
 
-          {/* Pending Approvals Tab (Admin only) */}
+          {/* Club Settings Tab (Admin only) */}
+          {isAdmin && (
+            <TabsContent value="settings" className="space-y-4">
+              <h2 className="font-display text-xl font-medium">{t('clubSettings')}</h2>
+              <ClubSettingsPanel settings={clubSettings} onSaved={setClubSettings} />
+              <h2 className="font-display text-xl font-medium pt-4">{t('locations')}</h2>
+              <LocationsPanel locations={locations} onChanged={loadLocations} />
+            </TabsContent>
+          )}
+
+          {/* Audit Log Tab (Admin only) */}
           {isAdmin && (
+            <TabsContent value="audit" className="space-y-4">
+              <h2 className="font-display text-xl font-medium">{t('auditLog')}</h2>
+              <AuditLogViewer />
+            </TabsContent>
+          )}
+
+          {/* Pending Approvals Tab */}
+          {canApproveStaff && (
             <TabsContent value="approvals" className="space-y-4">
               <h2 className="font-display text-xl font-medium">{t('pendingApprovals')}</h2>
               {pendingApprovals.length === 0 ? (
@@ -1442,8 +2348,17 @@ export default function StaffDashboard() {
                 {t('bookingsMade')}: <span className="font-medium text-foreground">{workoutReservations.length}</span>
               </span>
               {selectedWorkout && (
-                <span>
-                  {t('maxSpots')}: <span className="font-medium text-foreground">{selectedWorkout.max_spots}</span>
+                <span className="flex items-center gap-3">
+                  <span>
+                    {t('maxSpots')}: <span className="font-medium text-foreground">{selectedWorkout.max_spots}</span>
+                  </span>
+                  {canViewReports && (
+                    <ReportExportButton
+                      report="workout_attendees"
+                      workoutId={selectedWorkout.id}
+                      fileName={`attendees-${selectedWorkout.workout_date}-${selectedWorkout.start_time.slice(0, 5).replace(':', '')}`}
+                    />
+                  )}
                 </span>
               )}
             </div>
@@ -1546,25 +2461,27 @@ export default function StaffDashboard() {
                           <Camera className="h-6 w-6 text-muted-foreground" />
                         </div>
                       )}
-                      <label className="absolute -bottom-2 -right-2 cursor-pointer">
-                        <input
-                          type="file"
-                          accept="image/*"
-                          className="hidden"
-                          onChange={(e) => {
-                            const file = e.target.files?.[0];
-                            if (file) handleUpdateCardImage(selectedMember, file);
-                          }}
-                          disabled={uploadingCardImage}
-                        />
-                        <div className="rounded-full bg-primary p-1.5 text-primary-foreground hover:bg-primary/90 transition-colors">
-                          {uploadingCardImage ? (
-                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
-                          ) : (
-                            <Edit className="h-3.5 w-3.5" />
-                          )}
-                        </div>
-                      </label>
+                      {canManageMembers && (
+                        <label className="absolute -bottom-2 -right-2 cursor-pointer">
+                          <input
+                            type="file"
+                            accept="image/*"
+                            className="hidden"
+                            onChange={(e) => {
+                              const file = e.target.files?.[0];
+                              if (file) handleUpdateCardImage(selectedMember, file);
+                            }}
+                            disabled={uploadingCardImage}
+                          />
+                          <div className="rounded-full bg-primary p-1.5 text-primary-foreground hover:bg-primary/90 transition-colors">
+                            {uploadingCardImage ? (
+                              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            ) : (
+                              <Edit className="h-3.5 w-3.5" />
+                            )}
+                          </div>
+                        </label>
+                      )}
                     </div>
                   )}
                 </div>
@@ -1581,6 +2498,112 @@ export default function StaffDashboard() {
                     </div>
                   </dl>
                 </div>
+
+                {/* Memberships */}
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium flex items-center gap-2">
+                    <CreditCard className="h-4 w-4" />
+                    {t('memberships')}
+                  </h4>
+                  {memberMemberships.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">{t('noMemberships')}</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {memberMemberships.map(membership => {
+                        const plan = membershipPlans.find(p => p.id === membership.plan_id);
+                        const membershipStatus = getMembershipStatus(membership);
+                        return (
+                          <div key={membership.id} className="flex items-center justify-between gap-3 rounded-lg border border-border/60 p-3">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium truncate">
+                                {plan ? (language === 'bg' && plan.name_bg ? plan.name_bg : plan.name) : '-'}
+                              </p>
+                              <p className="text-xs text-muted-foreground">
+                                {format(parseISO(membership.starts_on), 'dd.MM.yyyy')} - {format(parseISO(membership.ends_on), 'dd.MM.yyyy')}
+                                {' · '}
+                                {membership.credits_remaining === null
+                                  ? t('unlimitedClasses')
+                                  : `${membership.credits_remaining} ${t('classesLeft')}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2 flex-shrink-0">
+                              <Badge variant={membershipStatus === 'active' ? 'secondary' : 'outline'} className="text-xs">
+                                {t(`membership_${membershipStatus}`)}
+                              </Badge>
+                              {(membershipStatus === 'active' || membershipStatus === 'upcoming') && canManageMembers && (
+                                <Button variant="ghost" size="icon" onClick={() => handleCancelMembership(membership)}>
+                                  <XCircle className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {canManageMembers && (
+                    <div className="flex flex-col sm:flex-row gap-2">
+                      <Select value={assignPlanId} onValueChange={setAssignPlanId}>
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder={t('selectPlan')} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {membershipPlans.map(plan => (
+                            <SelectItem key={plan.id} value={plan.id}>
+                              {language === 'bg' && plan.name_bg ? plan.name_bg : plan.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="date"
+                        value={assignStartsOn}
+                        onChange={(e) => setAssignStartsOn(e.target.value)}
+                        className="sm:w-40"
+                      />
+                      <Button onClick={() => handleAssignMembership(selectedMember)} disabled={!assignPlanId}>
+                        {t('assignPlan')}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {/* Payments */}
+                {memberPayments.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">{t('payments')}</h4>
+                    {memberPayments.map(payment => {
+                      const plan = membershipPlans.find(p => p.id === payment.plan_id);
+                      return (
+                        <div key={payment.id} className="flex items-center justify-between gap-3 rounded-lg border border-border/60 p-3">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">
+                              {formatPrice(payment.amount_cents, payment.currency, language)}
+                              {plan && ` · ${language === 'bg' && plan.name_bg ? plan.name_bg : plan.name}`}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              {format(parseISO(payment.created_at), 'dd.MM.yyyy HH:mm')}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <Badge variant={payment.status === 'succeeded' ? 'secondary' : 'outline'} className="text-xs">
+                              {t(`payment_${payment.status}`)}
+                            </Badge>
+                            {payment.status === 'succeeded' && canManageMembers && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setConfirmAction({ type: 'refund_payment', payload: payment, message: t('confirmRefund') })}
+                              >
+                                {t('refund')}
+                              </Button>
+                            )}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             )}
           </DialogContent>
@@ -1693,6 +2716,11 @@ export default function StaffDashboard() {
                                       Card
                                     </Badge>
                                   )}
+                                  {entry.offered && (
+                                    <Badge variant="outline" className="text-xs py-0 border-amber-500/50 text-amber-600">
+                                      {t('spotOfferPending')}
+                                    </Badge>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -1700,14 +2728,9 @@ export default function StaffDashboard() {
                               variant="ghost"
                               size="sm"
                               onClick={() => {
+                                // Booking through reserve_workout also clears the waiting list entry
                                 if (manageMembersWorkout) {
                                   handleAddMemberToWorkout(manageMembersWorkout.id, entry.user_id);
-                                  // Also remove from waiting list
-                                  supabase
-                                    .from('waiting_list')
-                                    .update({ is_active: false })
-                                    .eq('id', entry.id)
-                                    .then(() => fetchManageMembersReservations(manageMembersWorkout.id));
                                 }
                               }}
                               className="text-primary hover:text-primary"
@@ -1798,6 +2821,8 @@ export default function StaffDashboard() {
           </DialogContent>
         </Dialog>
 
+        <StaffPermissionsDialog staffMember={permissionsMember} onClose={() => setPermissionsMember(null)} />
+
         {/* Confirmation Dialog */}
         <AlertDialog open={!!confirmAction} onOpenChange={(open) => !open && setConfirmAction(null)}>
           <AlertDialogContent>
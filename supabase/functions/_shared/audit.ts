@@ -0,0 +1,39 @@
+// Audit log support for edge functions. Functions run as the service role, so the
+// database cannot tell who asked for a change; these headers carry the signed-in caller
+// and the function name through to the record_audit_log trigger (see the audit_log
+// migration). Use them on the client that makes the writes.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export function auditHeaders(actorId: string | null, source: string): Record<string, string> {
+  return {
+    ...(actorId ? { "x-audit-actor": actorId } : {}),
+    "x-audit-source": source,
+  };
+}
+
+export interface AuditEvent {
+  actorId: string | null;
+  source: string;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  targetUserId?: string | null;
+  oldValues?: Record<string, unknown> | null;
+  newValues?: Record<string, unknown> | null;
+}
+
+// Records an action that does not change an audited table. Failures are logged rather
+// than thrown so a missing entry never undoes the action itself.
+export async function recordAuditEvent(supabase: SupabaseClient, event: AuditEvent): Promise<void> {
+  const { error } = await supabase.from("audit_log").insert({
+    actor_id: event.actorId,
+    source: event.source,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    target_user_id: event.targetUserId ?? null,
+    old_values: event.oldValues ?? null,
+    new_values: event.newValues ?? null,
+  });
+  if (error) console.error("Error recording audit event:", error);
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCheckInToken, TOKEN_TTL_SECONDS, verifyCheckInToken } from "./checkIn.ts";
+
+const USER_ID = "0b6f3c1e-6d1a-4c59-9f0e-2a7c3d4e5f60";
+
+describe("check-in tokens", () => {
+  beforeEach(() => {
+    vi.stubGlobal("Deno", { env: { get: (name: string) => (name === "QR_SIGNING_SECRET" ? "test-secret" : undefined) } });
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T18:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("accepts a fresh token for the member it was made for", async () => {
+    const { token, expiresAt } = await createCheckInToken(USER_ID);
+    expect(expiresAt).toBe(new Date(Date.now() + TOKEN_TTL_SECONDS * 1000).toISOString());
+    expect(await verifyCheckInToken(token)).toEqual({ valid: true, userId: USER_ID });
+  });
+
+  it("rejects a token once it has expired", async () => {
+    const { token } = await createCheckInToken(USER_ID);
+    vi.setSystemTime(Date.now() + (TOKEN_TTL_SECONDS + 1) * 1000);
+    expect(await verifyCheckInToken(token)).toEqual({ valid: false, reason: "expired_token" });
+  });
+
+  it("rejects a token whose member or expiry was changed", async () => {
+    const { token } = await createCheckInToken(USER_ID);
+    const [prefix, , expires, signature] = token.split(".");
+    const otherUser = [prefix, "11111111-2222-3333-4444-555555555555", expires, signature].join(".");
+    const longerLived = [prefix, USER_ID, String(Number(expires) + 3600), signature].join(".");
+    expect(await verifyCheckInToken(otherUser)).toEqual({ valid: false, reason: "invalid_token" });
+    expect(await verifyCheckInToken(longerLived)).toEqual({ valid: false, reason: "invalid_token" });
+  });
+
+  it("rejects a token signed with another secret", async () => {
+    const { token } = await createCheckInToken(USER_ID);
+    vi.stubGlobal("Deno", { env: { get: () => "another-secret" } });
+    expect(await verifyCheckInToken(token)).toEqual({ valid: false, reason: "invalid_token" });
+  });
+
+  it("rejects malformed input", async () => {
+    expect(await verifyCheckInToken("")).toEqual({ valid: false, reason: "invalid_token" });
+    expect(await verifyCheckInToken(`other.${USER_ID}.1.sig`)).toEqual({ valid: false, reason: "invalid_token" });
+  });
+});
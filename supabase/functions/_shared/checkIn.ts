@@ -0,0 +1,167 @@
+// Shared check-in logic: signed, short-lived member QR tokens and marking attendance
+// for the member's current workout.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { clubNow, getClubTimeZone } from "./clubTime.ts";
+
+const TOKEN_PREFIX = "nzsc1";
+// A QR code is only valid for a minute, so a screenshot cannot be reused later
+export const TOKEN_TTL_SECONDS = 60;
+// Check-in opens this many minutes before a workout starts
+const CHECK_IN_OPENS_MINUTES = 30;
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+async function sign(payload: string): Promise<string> {
+  const secret = Deno.env.get("QR_SIGNING_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+}
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function createCheckInToken(userId: string): Promise<{ token: string; expiresAt: string }> {
+  const expires = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  const payload = `${TOKEN_PREFIX}.${userId}.${expires}`;
+  return {
+    token: `${payload}.${await sign(payload)}`,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+export type TokenCheck =
+  | { valid: true; userId: string }
+  | { valid: false; reason: "invalid_token" | "expired_token" };
+
+export async function verifyCheckInToken(token: string): Promise<TokenCheck> {
+  const parts = token.trim().split(".");
+  if (parts.length !== 4 || parts[0] !== TOKEN_PREFIX) {
+    return { valid: false, reason: "invalid_token" };
+  }
+
+  const [prefix, userId, expires, signature] = parts;
+  if (!safeEqual(signature, await sign(`${prefix}.${userId}.${expires}`))) {
+    return { valid: false, reason: "invalid_token" };
+  }
+
+  if (Number(expires) < Date.now() / 1000) {
+    return { valid: false, reason: "expired_token" };
+  }
+
+  return { valid: true, userId };
+}
+
+function shiftTime(time: string, minutes: number): string {
+  const [h, m, s] = time.split(":").map(Number);
+  const total = Math.max(0, h * 60 + m + minutes);
+  return `${String(Math.floor(total / 60)).padStart(2, "0")}:${String(total % 60).padStart(2, "0")}:${String(s || 0).padStart(2, "0")}`;
+}
+
+// Workouts that are in progress or start within the check-in window
+export async function getCheckInWorkouts(supabase: SupabaseClient) {
+  const now = clubNow(await getClubTimeZone(supabase));
+  const { data, error } = await supabase
+    .from("workouts")
+    .select("id, title, title_bg, workout_date, start_time, end_time, max_spots")
+    .eq("workout_date", now.date)
+    .lte("start_time", shiftTime(now.time, CHECK_IN_OPENS_MINUTES))
+    .gte("end_time", now.time)
+    .order("start_time");
+
+  if (error) throw error;
+  return data || [];
+}
+
+export type CheckInStatus = "checked_in" | "already_checked_in" | "no_reservation" | "no_workout";
+
+export interface CheckInResult {
+  status: CheckInStatus;
+  workout?: { id: string; title: string; title_bg: string | null; start_time: string; end_time: string };
+  member?: { user_id: string; full_name: string | null; member_type: string; card_image_url: string | null };
+}
+
+/**
+ * Marks attendance for the member's active reservation. Without a workoutId the
+ * member's workout among the ones currently open for check-in is used.
+ * Members without a reservation are reported but not checked in.
+ */
+export async function checkInMember(
+  supabase: SupabaseClient,
+  userId: string,
+  markedBy: string,
+  workoutId?: string
+): Promise<CheckInResult> {
+  const { data: member } = await supabase
+    .from("profiles")
+    .select("user_id, full_name, member_type, card_image_url")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const candidates = workoutId
+    ? (await supabase
+        .from("workouts")
+        .select("id, title, title_bg, workout_date, start_time, end_time, max_spots")
+        .eq("id", workoutId)).data || []
+    : await getCheckInWorkouts(supabase);
+
+  if (candidates.length === 0) {
+    return { status: "no_workout", member: member || undefined };
+  }
+
+  const { data: reservations } = await supabase
+    .from("reservations")
+    .select("workout_id")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .in("workout_id", candidates.map(w => w.id));
+
+  const workout = candidates.find(w => reservations?.some(r => r.workout_id === w.id));
+  if (!workout) {
+    return { status: "no_reservation", workout: candidates[0], member: member || undefined };
+  }
+
+  const { data: existing } = await supabase
+    .from("attendance")
+    .select("attended")
+    .eq("workout_id", workout.id)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (existing?.attended) {
+    return { status: "already_checked_in", workout, member: member || undefined };
+  }
+
+  const { error } = await supabase
+    .from("attendance")
+    .upsert({
+      workout_id: workout.id,
+      user_id: userId,
+      attended: true,
+      marked_by: markedBy,
+      marked_at: new Date().toISOString(),
+    }, { onConflict: "workout_id,user_id" });
+
+  if (error) throw error;
+
+  return { status: "checked_in", workout, member: member || undefined };
+}
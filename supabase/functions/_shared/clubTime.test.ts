@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { clubNow } from "./clubTime.ts";
+
+describe("clubNow", () => {
+  it("gives the date and time on the club's clock", () => {
+    const at = new Date("2026-01-15T22:30:05Z");
+    expect(clubNow("Europe/Sofia", at)).toEqual({ date: "2026-01-16", time: "00:30:05" });
+    expect(clubNow("UTC", at)).toEqual({ date: "2026-01-15", time: "22:30:05" });
+  });
+
+  it("follows summer time", () => {
+    expect(clubNow("Europe/Sofia", new Date("2026-07-15T15:00:00Z"))).toEqual({ date: "2026-07-15", time: "18:00:00" });
+  });
+});
@@ -0,0 +1,36 @@
+// Workout dates and times are stored as the club's wall-clock time. These helpers read
+// the clock in the club's time zone (club_settings.time_zone) whatever zone the function
+// runs in, the same way as the club_today()/club_timestamp() SQL functions and
+// src/lib/clubTime.ts in the app.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+export const DEFAULT_CLUB_TIME_ZONE = "Europe/Sofia";
+
+export async function getClubTimeZone(supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase.from("club_settings").select("time_zone").maybeSingle();
+  if (error) console.error("Error fetching club time zone:", error);
+  return data?.time_zone || DEFAULT_CLUB_TIME_ZONE;
+}
+
+// Date (YYYY-MM-DD) and time (HH:MM:SS) at the club, now or at the given instant
+export function clubNow(timeZone: string, at: Date = new Date()): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (type: string) => parts.find(p => p.type === type)?.value;
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}:${get("second")}`,
+  };
+}
+
+export function clubToday(timeZone: string): string {
+  return clubNow(timeZone).date;
+}
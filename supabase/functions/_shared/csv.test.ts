@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./csv.ts";
+
+describe("toCsv", () => {
+  it("starts with a byte order mark and separates rows with CRLF", () => {
+    expect(toCsv([["Name", "Total"], ["Ana", 3]])).toBe("\uFEFFName,Total\r\nAna,3");
+  });
+
+  it("quotes cells with commas, quotes and line breaks", () => {
+    expect(toCsv([["Petrova, Ana", 'Says "hi"', "two\nlines"]])).toBe(
+      '\uFEFF"Petrova, Ana","Says ""hi""","two\nlines"'
+    );
+  });
+
+  it("neutralises text that spreadsheets would run as a formula", () => {
+    expect(toCsv([["=HYPERLINK(\"http://evil\")", "+359 88", "-1", "@SUM(A1)"]])).toBe(
+      "\uFEFF\"'=HYPERLINK(\"\"http://evil\"\")\",'+359 88,'-1,'@SUM(A1)"
+    );
+    expect(toCsv([["\tcmd", "\rcmd"]])).toBe("\uFEFF'\tcmd,\"'\rcmd\"");
+  });
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect(toCsv([[-5, 0, "Иван", "ana@example.com"]])).toBe("\uFEFF-5,0,Иван,ana@example.com");
+  });
+});
@@ -0,0 +1,14 @@
+// CSV output for downloadable reports, safe to open in Excel.
+
+// Text starting with one of these is run as a formula by Excel and other spreadsheets
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function toCsv(rows: (string | number)[][]): string {
+  const escape = (value: string | number) => {
+    // Member-entered text such as names and phone numbers is kept as plain text
+    const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  // The byte order mark makes Excel read Cyrillic names as UTF-8
+  return "\uFEFF" + rows.map(row => row.map(escape).join(",")).join("\r\n");
+}
@@ -0,0 +1,20 @@
+// Test sink: every message is written as an HTML file (with the headers in a comment)
+// to MAIL_FILE_DIR, so templates can be checked in a browser without sending anything
+import type { MailMessage, MailTransport } from "./transport.ts";
+
+export function createFileTransport(): MailTransport {
+  const directory = Deno.env.get("MAIL_FILE_DIR") || "/tmp/mail";
+
+  return {
+    name: "file",
+
+    async send(message: MailMessage) {
+      await Deno.mkdir(directory, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, "_");
+      const path = `${directory}/${Date.now()}-${safeRecipient}.html`;
+      const headers = `<!--\nTo: ${message.to}\nSubject: ${message.subject}\n-->\n`;
+      await Deno.writeTextFile(path, headers + message.html);
+      console.log(`[mail] wrote ${path}`);
+    },
+  };
+}
@@ -0,0 +1,60 @@
+// Shared HTML frame for member emails: heading, body, optional buttons and a footer
+// linking to the notification preferences. Everything passed in as text is escaped here.
+
+export type EmailLanguage = "en" | "bg";
+
+export interface EmailAction {
+  label: string;
+  url: string;
+}
+
+export interface EmailLayout {
+  language: EmailLanguage;
+  heading: string;
+  // Already escaped HTML for the body
+  bodyHtml: string;
+  actions?: EmailAction[];
+}
+
+const FOOTER = {
+  en: { text: "You get this email because of your notification settings.", link: "Manage email notifications" },
+  bg: { text: "Получавате този имейл заради настройките си за известия.", link: "Настройки на известията" },
+};
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Links in emails point at the deployed app
+export function getSiteUrl(): string {
+  return (Deno.env.get("SITE_URL") || "https://nzsportsclub.lovable.app").replace(/\/$/, "");
+}
+
+export function renderEmail({ language, heading, bodyHtml, actions = [] }: EmailLayout): string {
+  const footer = FOOTER[language];
+  const buttons = actions.length > 0
+    ? `<p style="margin:24px 0">${actions.map(action =>
+      `<a href="${escapeHtml(action.url)}" style="background:#7C3AED;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block;margin:0 8px 8px 0">${escapeHtml(action.label)}</a>`
+    ).join("")}</p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="${language}">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <p style="margin:0 0 16px;font-weight:bold;color:#7C3AED">NZ Sport Club</p>
+    <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(heading)}</h1>
+    ${bodyHtml}
+    ${buttons}
+    <p style="margin:24px 0 0;font-size:12px;color:#71717a">
+      ${escapeHtml(footer.text)}
+      <a href="${getSiteUrl()}/notification-settings" style="color:#71717a">${escapeHtml(footer.link)}</a>
+    </p>
+  </div>
+</body>
+</html>`;
+}
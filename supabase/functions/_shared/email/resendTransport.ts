@@ -0,0 +1,25 @@
+// Production transport: the Resend API, which the staff approval emails already use
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { getMailFrom, type MailMessage, type MailTransport } from "./transport.ts";
+
+export function createResendTransport(): MailTransport | null {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  if (!apiKey) return null;
+
+  const resend = new Resend(apiKey);
+
+  return {
+    name: "resend",
+
+    async send(message: MailMessage) {
+      const { error } = await resend.emails.send({
+        from: getMailFrom(),
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Plain SMTP, meant for a local mail catcher such as the Inbucket/Mailpit instance the
+// Supabase CLI starts. Defaults match that setup (localhost:2500, no TLS, no auth).
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { getMailFrom, type MailMessage, type MailTransport } from "./transport.ts";
+
+export function createSmtpTransport(): MailTransport {
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASSWORD");
+
+  return {
+    name: "smtp",
+
+    async send(message: MailMessage) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: Deno.env.get("SMTP_HOST") || "localhost",
+          port: Number(Deno.env.get("SMTP_PORT") || 2500),
+          tls: Deno.env.get("SMTP_TLS") === "true",
+          auth: username && password ? { username, password } : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: getMailFrom(),
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+// Mail transport abstraction. Everything that sends email builds a MailMessage and hands
+// it to the transport chosen with MAIL_TRANSPORT, so local development can write mail to
+// disk or a local SMTP catcher instead of sending it through Resend.
+import { createFileTransport } from "./fileTransport.ts";
+import { createResendTransport } from "./resendTransport.ts";
+import { createSmtpTransport } from "./smtpTransport.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  // Plain text alternative
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export function getMailFrom(): string {
+  return Deno.env.get("MAIL_FROM") || "NZ Sport Club <onboarding@resend.dev>";
+}
+
+/**
+ * The transport configured with MAIL_TRANSPORT ("resend", "smtp" or "file"). Defaults to
+ * Resend when RESEND_API_KEY is set; returns null when email is not configured.
+ */
+export function getMailTransport(): MailTransport | null {
+  switch (Deno.env.get("MAIL_TRANSPORT")) {
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return createFileTransport();
+    case "resend":
+    case undefined:
+    case "":
+      return createResendTransport();
+    default:
+      console.error(`Unknown MAIL_TRANSPORT: ${Deno.env.get("MAIL_TRANSPORT")}`);
+      return null;
+  }
+}
@@ -0,0 +1,116 @@
+// Who may send which notification through the notification endpoints. They dispatch with
+// the service role, so for callers without schedule or member permissions everything they
+// may not choose (recipients, titles, names) is taken from the database instead.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { NotificationType } from "./content.ts";
+import type { NotificationRequest } from "./dispatcher.ts";
+
+// Events members cause themselves by booking or cancelling; they go to the type's usual
+// audience, never to users the caller picks
+const MEMBER_EVENTS: NotificationType[] = ["member_booked", "member_cancelled", "spot_freed", "workout_full"];
+
+// A trainer who handed a session over may announce it for this long afterwards
+const HAND_OVER_WINDOW_MS = 60 * 60 * 1000;
+
+export type NotificationAuthorization =
+  | { allowed: true; request: NotificationRequest | null } // null: nobody to notify
+  | { allowed: false; status: number; error: string };
+
+async function hasPermission(supabase: SupabaseClient, userId: string, permission: string): Promise<boolean> {
+  const { data } = await supabase.rpc("has_permission", { _user_id: userId, _permission: permission });
+  return !!data;
+}
+
+// Assigned to the workout, or the trainer who just handed it over (their link is gone by
+// the time the app announces the change)
+async function isTrainerOfWorkout(supabase: SupabaseClient, userId: string, workoutId: string): Promise<boolean> {
+  const { data: isAssigned } = await supabase.rpc("is_workout_trainer", { _user_id: userId, _workout_id: workoutId });
+  if (isAssigned) return true;
+
+  const { data: handedOver } = await supabase
+    .from("audit_log")
+    .select("id")
+    .eq("entity_type", "workout_trainers")
+    .eq("action", "deleted")
+    .eq("actor_id", userId)
+    .eq("old_values->>workout_id", workoutId)
+    .gte("created_at", new Date(Date.now() - HAND_OVER_WINDOW_MS).toISOString())
+    .limit(1);
+  return (handedOver || []).length > 0;
+}
+
+/**
+ * Checks the caller's token against the request: the service role and staff who manage
+ * the schedule or members may send anything; members only the events they trigger;
+ * trainers only the trainer change for their own session.
+ */
+export async function authorizeNotification(
+  supabase: SupabaseClient,
+  authHeader: string | null,
+  body: NotificationRequest
+): Promise<NotificationAuthorization> {
+  const token = authHeader?.replace("Bearer ", "");
+  if (!token) return { allowed: false, status: 401, error: "Unauthorized" };
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return { allowed: true, request: body };
+
+  const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+  if (authError || !caller) return { allowed: false, status: 401, error: "Unauthorized" };
+
+  if (
+    await hasPermission(supabase, caller.id, "manage_schedule") ||
+    await hasPermission(supabase, caller.id, "manage_members")
+  ) {
+    return { allowed: true, request: body };
+  }
+
+  const { data: workout } = await supabase
+    .from("workouts")
+    .select("id, title, title_bg, workout_date, start_time")
+    .eq("id", body.workoutId)
+    .maybeSingle();
+  if (!workout) return { allowed: false, status: 404, error: "Workout not found" };
+
+  const details = {
+    type: body.type,
+    workoutId: workout.id,
+    workoutTitle: workout.title,
+    workoutTitleBg: workout.title_bg,
+    workoutDate: workout.workout_date,
+    workoutTime: workout.start_time?.slice(0, 5),
+  };
+
+  if (MEMBER_EVENTS.includes(body.type)) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", caller.id)
+      .maybeSingle();
+    return {
+      allowed: true,
+      request: { ...details, memberName: profile?.full_name || caller.email || "", excludeUserIds: [caller.id] },
+    };
+  }
+
+  if (body.type === "trainer_changed" && await isTrainerOfWorkout(supabase, caller.id, workout.id)) {
+    const [{ data: booked, error: bookedError }, { data: links, error: linksError }] = await Promise.all([
+      supabase.from("reservations").select("user_id").eq("workout_id", workout.id).eq("is_active", true),
+      supabase.from("workout_trainers").select("trainers(display_name)").eq("workout_id", workout.id),
+    ]);
+    if (bookedError) throw bookedError;
+    if (linksError) throw linksError;
+
+    // An empty target list would reach every member
+    const userIds = (booked || []).map(r => r.user_id);
+    if (userIds.length === 0) return { allowed: true, request: null };
+
+    const trainerNames = (links || [])
+      .map(link => (link.trainers as { display_name: string } | null)?.display_name)
+      .filter((name): name is string => !!name);
+    return {
+      allowed: true,
+      request: { ...details, targetUserIds: userIds, trainerName: trainerNames.join(", ") },
+    };
+  }
+
+  return { allowed: false, status: 403, error: "Forbidden" };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  getNotificationActions,
+  getNotificationAudience,
+  getNotificationContent,
+  isEmailNotification,
+  isNotificationType,
+  toNotificationLanguage,
+} from "./content.ts";
+
+const workout = { workoutTitle: "Boxing", workoutTitleBg: "Бокс", workoutDate: "2026-03-02", workoutTime: "18:00" };
+
+describe("notification templates", () => {
+  it("renders the member's language and the workout's title in it", () => {
+    expect(getNotificationContent("workout_deleted", workout, "en")).toEqual({
+      title: "❌ NZ Workout Cancelled",
+      body: '"Boxing" has been cancelled.',
+    });
+    expect(getNotificationContent("workout_deleted", workout, "bg").body).toBe('"Бокс" беше отменена.');
+  });
+
+  it("falls back to the English title when there is no Bulgarian one", () => {
+    const body = getNotificationContent("workout_deleted", { ...workout, workoutTitleBg: null }, "bg").body;
+    expect(body).toBe('"Boxing" беше отменена.');
+  });
+
+  it("leaves out a missing date or time", () => {
+    const data = { workoutTitle: "Boxing", memberName: "Ana" };
+    expect(getNotificationContent("member_booked", data, "en").body).toBe('Ana booked a spot for "Boxing"');
+    expect(getNotificationContent("member_booked", { ...data, workoutTime: "18:00" }, "en").body)
+      .toBe('Ana booked a spot for "Boxing" at 18:00');
+  });
+
+  it("names the day in reminders for today and tomorrow", () => {
+    expect(getNotificationContent("workout_reminder", { ...workout, workoutDay: "tomorrow" }, "en").body)
+      .toBe('"Boxing" starts tomorrow at 18:00!');
+    expect(getNotificationContent("workout_reminder", { ...workout, workoutDay: "today" }, "bg").body)
+      .toBe('"Бокс" започва днес в 18:00!');
+    expect(getNotificationContent("workout_reminder", workout, "en").body)
+      .toBe('"Boxing" starts on 2026-03-02 at 18:00!');
+  });
+
+  it("adds answer buttons only to waiting list offers that name the offer", () => {
+    expect(getNotificationActions("waitlist_offer", { ...workout, offerId: "abc" }).map(a => a.path)).toEqual([
+      "/dashboard?offer=abc&respond=accept",
+      "/dashboard?offer=abc&respond=decline",
+    ]);
+    expect(getNotificationActions("waitlist_offer", workout)).toEqual([]);
+    expect(getNotificationActions("new_workout", workout)).toEqual([]);
+  });
+
+  it("knows each type's audience and which types are emailed", () => {
+    expect(getNotificationAudience("member_booked")).toBe("staff");
+    expect(getNotificationAudience("trainer_changed")).toBe("members");
+    expect(isEmailNotification("trainer_changed")).toBe(true);
+    expect(isEmailNotification("spot_freed")).toBe(false);
+  });
+
+  it("accepts only known types and languages", () => {
+    expect(isNotificationType("auto_reserved")).toBe(true);
+    expect(isNotificationType("toString")).toBe(false);
+    expect(isNotificationType(42)).toBe(false);
+    expect(toNotificationLanguage("bg")).toBe("bg");
+    expect(toNotificationLanguage(null)).toBe("en");
+  });
+});
@@ -0,0 +1,234 @@
+// The one place notification texts live. Every channel (in-app list, push, email)
+// renders from these templates, so adding a notification type means adding one entry
+// here.
+
+export type NotificationType =
+  | "new_workout"
+  | "workout_updated"
+  | "workout_deleted"
+  | "spot_freed"
+  | "workout_full"
+  | "auto_reserved"
+  | "waiting_list_promoted"
+  | "waitlist_offer"
+  | "workout_reminder"
+  | "member_booked"
+  | "member_cancelled"
+  | "trainer_changed";
+
+export type NotificationLanguage = "en" | "bg";
+
+export interface NotificationData {
+  workoutTitle: string;
+  workoutTitleBg?: string | null;
+  workoutDate?: string;
+  workoutTime?: string;
+  // Reminders name the day when it is today or tomorrow instead of giving the date
+  workoutDay?: "today" | "tomorrow";
+  memberName?: string;
+  // Waiting list offers: the offer to answer and the club time (HH:MM) it is held until
+  offerId?: string;
+  offerExpiresAt?: string;
+  // Trainer changes: who leads the workout now
+  trainerName?: string;
+}
+
+export interface NotificationContent {
+  title: string;
+  body: string;
+}
+
+// A button on the notification that opens the app at the given path
+export interface NotificationAction {
+  id: string;
+  label: Record<NotificationLanguage, string>;
+  path: string;
+}
+
+interface NotificationTemplate {
+  // Who gets the notification when the caller does not name the recipients
+  audience: "members" | "staff";
+  // Sent at most once per user and workout, however often it is requested
+  oncePerWorkout?: boolean;
+  // Important enough to also go out by email
+  email?: boolean;
+  en: (d: TemplateData) => NotificationContent;
+  bg: (d: TemplateData) => NotificationContent;
+  actions?: (d: NotificationData) => NotificationAction[];
+}
+
+interface TemplateData {
+  title: string;
+  date: string;
+  time: string;
+  day: "today" | "tomorrow" | "";
+  member: string;
+  until: string;
+  trainer: string;
+}
+
+// " on 2026-01-05 at 18:00", leaving out whatever is missing
+function when(date: string, time: string, on: string, at: string): string {
+  return `${date ? ` ${on} ${date}` : ""}${time ? ` ${at} ${time}` : ""}`;
+}
+
+const TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  new_workout: {
+    audience: "members",
+    en: d => ({
+      title: "🏋️ New Workout at NZ!",
+      body: `"${d.title}" scheduled for ${d.date} at ${d.time}. Reserve now!`,
+    }),
+    bg: d => ({
+      title: "🏋️ Нова тренировка в NZ!",
+      body: `"${d.title}" е добавена за ${d.date} в ${d.time}. Резервирайте сега!`,
+    }),
+  },
+  workout_updated: {
+    audience: "members",
+    email: true,
+    en: d => ({ title: "📝 NZ Workout Updated", body: `Details for "${d.title}" have been changed.` }),
+    bg: d => ({ title: "📝 NZ Тренировка актуализирана", body: `Детайлите за "${d.title}" бяха променени.` }),
+  },
+  workout_deleted: {
+    audience: "members",
+    email: true,
+    en: d => ({ title: "❌ NZ Workout Cancelled", body: `"${d.title}" has been cancelled.` }),
+    bg: d => ({ title: "❌ NZ Тренировка отменена", body: `"${d.title}" беше отменена.` }),
+  },
+  spot_freed: {
+    audience: "members",
+    en: d => ({ title: "🎉 NZ Spot Available!", body: `A spot opened for "${d.title}"! Reserve now.` }),
+    bg: d => ({ title: "🎉 NZ Освободено място!", body: `Свободно място за "${d.title}"! Резервирайте бързо.` }),
+  },
+  workout_full: {
+    audience: "staff",
+    en: d => ({ title: "📋 NZ Workout Full", body: `"${d.title}" is fully booked.` }),
+    bg: d => ({ title: "📋 NZ Тренировката е пълна", body: `"${d.title}" е напълно заета.` }),
+  },
+  auto_reserved: {
+    audience: "members",
+    email: true,
+    oncePerWorkout: true,
+    en: d => ({
+      title: "🎫 NZ Auto-Reserved!",
+      body: `Your spot for "${d.title}" on ${d.date} at ${d.time} is reserved.`,
+    }),
+    bg: d => ({
+      title: "🎫 NZ Авто-резервация!",
+      body: `Мястото ви за "${d.title}" на ${d.date} в ${d.time} е резервирано.`,
+    }),
+  },
+  waiting_list_promoted: {
+    audience: "members",
+    email: true,
+    en: d => ({ title: "🎉 NZ Spot Confirmed!", body: `A spot opened for "${d.title}" and you're in!` }),
+    bg: d => ({ title: "🎉 NZ Мястото ви е потвърдено!", body: `Освободи се място за "${d.title}" и вие сте записани!` }),
+  },
+  waitlist_offer: {
+    audience: "members",
+    email: true,
+    en: d => ({
+      title: "⏳ NZ Spot Offered",
+      body: `A spot opened for "${d.title}"${when(d.date, d.time, "on", "at")}. We're holding it for you until ${d.until}. Accept or decline it in the app.`,
+    }),
+    bg: d => ({
+      title: "⏳ NZ Предложено място",
+      body: `Освободи се място за "${d.title}"${when(d.date, d.time, "на", "в")}. Пазим го за вас до ${d.until}. Приемете или откажете в приложението.`,
+    }),
+    actions: d => d.offerId
+      ? [
+        { id: "accept", label: { en: "Accept", bg: "Приеми" }, path: `/dashboard?offer=${d.offerId}&respond=accept` },
+        { id: "decline", label: { en: "Decline", bg: "Откажи" }, path: `/dashboard?offer=${d.offerId}&respond=decline` },
+      ]
+      : [],
+  },
+  workout_reminder: {
+    audience: "members",
+    en: d => ({
+      title: "⏰ NZ Reminder",
+      body: `"${d.title}" starts ${d.day || `on ${d.date}`} at ${d.time}!`,
+    }),
+    bg: d => ({
+      title: "⏰ NZ Напомняне",
+      body: `"${d.title}" започва ${d.day ? { today: "днес", tomorrow: "утре" }[d.day] : `на ${d.date}`} в ${d.time}!`,
+    }),
+  },
+  member_booked: {
+    audience: "staff",
+    en: d => ({
+      title: "📗 NZ New Booking",
+      body: `${d.member || "Member"} booked a spot for "${d.title}"${when(d.date, d.time, "on", "at")}`,
+    }),
+    bg: d => ({
+      title: "📗 NZ Нова резервация",
+      body: `${d.member || "Член"} резервира място за "${d.title}"${when(d.date, d.time, "на", "в")}`,
+    }),
+  },
+  member_cancelled: {
+    audience: "staff",
+    en: d => ({
+      title: "📕 NZ Booking Cancelled",
+      body: `${d.member || "Member"} cancelled their booking for "${d.title}"${when(d.date, d.time, "on", "at")}`,
+    }),
+    bg: d => ({
+      title: "📕 NZ Отказана резервация",
+      body: `${d.member || "Член"} отказа резервация за "${d.title}"${when(d.date, d.time, "на", "в")}`,
+    }),
+  },
+  trainer_changed: {
+    audience: "members",
+    email: true,
+    en: d => ({
+      title: "🔁 NZ Trainer Change",
+      body: `"${d.title}"${when(d.date, d.time, "on", "at")} will be led by ${d.trainer || "a different trainer"}.`,
+    }),
+    bg: d => ({
+      title: "🔁 NZ Смяна на треньора",
+      body: `"${d.title}"${when(d.date, d.time, "на", "в")} ще се води от ${d.trainer || "друг треньор"}.`,
+    }),
+  },
+};
+
+export function isNotificationType(type: unknown): type is NotificationType {
+  return typeof type === "string" && Object.hasOwn(TEMPLATES, type);
+}
+
+export function getNotificationAudience(type: NotificationType): "members" | "staff" {
+  return TEMPLATES[type].audience;
+}
+
+export function isOncePerWorkout(type: NotificationType): boolean {
+  return TEMPLATES[type].oncePerWorkout === true;
+}
+
+export function isEmailNotification(type: NotificationType): boolean {
+  return TEMPLATES[type].email === true;
+}
+
+export function getNotificationActions(type: NotificationType, data: NotificationData): NotificationAction[] {
+  return TEMPLATES[type].actions?.(data) ?? [];
+}
+
+export function getNotificationContent(
+  type: NotificationType,
+  data: NotificationData,
+  language: NotificationLanguage
+): NotificationContent {
+  const isBg = language === "bg";
+  const template = TEMPLATES[type];
+  const templateData: TemplateData = {
+    title: isBg && data.workoutTitleBg ? data.workoutTitleBg : data.workoutTitle,
+    date: data.workoutDate || "",
+    time: data.workoutTime || "",
+    day: data.workoutDay || "",
+    member: data.memberName || "",
+    until: data.offerExpiresAt || "",
+    trainer: data.trainerName || "",
+  };
+  return isBg ? template.bg(templateData) : template.en(templateData);
+}
+
+export function toNotificationLanguage(language: string | null | undefined): NotificationLanguage {
+  return language === "bg" ? "bg" : "en";
+}
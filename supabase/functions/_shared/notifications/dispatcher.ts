@@ -0,0 +1,230 @@
+// Notification dispatch: works out who gets a notification, renders it in each
+// recipient's language, stores the in-app copy and fans it out to the enabled channel
+// providers. Every notification in the app goes through dispatchNotification.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { clubNow, getClubTimeZone } from "../clubTime.ts";
+import {
+  getNotificationActions,
+  getNotificationAudience,
+  getNotificationContent,
+  isEmailNotification,
+  isOncePerWorkout,
+  toNotificationLanguage,
+  type NotificationData,
+  type NotificationType,
+} from "./content.ts";
+import {
+  getNotificationProviders,
+  type DeliveryResult,
+  type NotificationChannel,
+  type OutgoingNotification,
+  type Recipient,
+} from "./provider.ts";
+
+interface ResolvedRecipient extends Recipient {
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface NotificationRequest extends NotificationData {
+  type: NotificationType;
+  workoutId: string;
+  // Exactly these users; otherwise the type's audience (all members or all staff)
+  targetUserIds?: string[];
+  excludeUserIds?: string[];
+  // Only card members
+  priorityOnly?: boolean;
+  // Staff as well as members
+  notifyStaff?: boolean;
+  // Staff only
+  excludeMembers?: boolean;
+}
+
+export interface DispatchOptions {
+  // Provider names; defaults to NOTIFICATION_PROVIDERS
+  providers?: string[];
+  // Store the notification in the in-app list (default true)
+  inApp?: boolean;
+  // Email the type's whole audience when no targetUserIds are given (default false);
+  // untargeted sends are otherwise in-app and push only
+  emailBroadcast?: boolean;
+}
+
+export interface DispatchResult {
+  notified: number;
+  // Recipients dropped because they already had this notification
+  duplicates: number;
+  // Recipients whose push was held back by quiet hours
+  quiet: number;
+  providers: Record<string, DeliveryResult>;
+}
+
+async function getStaffUserIds(supabase: SupabaseClient): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .in("role", ["staff", "admin"])
+    .eq("is_approved", true);
+  if (error) throw error;
+  return new Set((data || []).map(r => r.user_id));
+}
+
+async function resolveRecipients(supabase: SupabaseClient, request: NotificationRequest): Promise<ResolvedRecipient[]> {
+  const staffUserIds = await getStaffUserIds(supabase);
+
+  let profilesQuery = supabase
+    .from("profiles")
+    .select("user_id, email, member_type, preferred_language, quiet_hours_start, quiet_hours_end")
+    .is("removed_at", null);
+  if (request.targetUserIds && request.targetUserIds.length > 0) {
+    profilesQuery = profilesQuery.in("user_id", request.targetUserIds);
+  }
+
+  const { data: profiles, error } = await profilesQuery;
+  if (error) throw error;
+
+  const staffOnly = request.excludeMembers || getNotificationAudience(request.type) === "staff";
+  const excluded = new Set(request.excludeUserIds || []);
+
+  return (profiles || [])
+    .filter(p => {
+      if (excluded.has(p.user_id)) return false;
+      // Named recipients are taken as given
+      if (request.targetUserIds && request.targetUserIds.length > 0) return true;
+
+      const isStaff = staffUserIds.has(p.user_id);
+      if (staffOnly) return isStaff;
+      if (isStaff) return !!request.notifyStaff;
+      return !request.priorityOnly || p.member_type === "card";
+    })
+    .map(p => ({
+      userId: p.user_id,
+      language: toNotificationLanguage(p.preferred_language),
+      email: p.email || null,
+      quietHoursStart: p.quiet_hours_start,
+      quietHoursEnd: p.quiet_hours_end,
+    }));
+}
+
+// Drops recipients who already have a once-per-workout notification, so a retried job or
+// a second caller cannot send the same reminder twice
+async function removeAlreadyNotified(
+  supabase: SupabaseClient,
+  request: NotificationRequest,
+  recipients: ResolvedRecipient[]
+): Promise<ResolvedRecipient[]> {
+  if (!isOncePerWorkout(request.type) || recipients.length === 0) return recipients;
+
+  const { data, error } = await supabase
+    .from("notification_queue")
+    .select("user_id")
+    .eq("workout_id", request.workoutId)
+    .eq("notification_type", request.type)
+    .in("user_id", recipients.map(r => r.userId));
+  if (error) throw error;
+
+  const notified = new Set((data || []).map(n => n.user_id));
+  return recipients.filter(r => !notified.has(r.userId));
+}
+
+// Channels each recipient has switched off for this notification type
+async function getOptOuts(
+  supabase: SupabaseClient,
+  type: NotificationType,
+  recipients: Recipient[]
+): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("user_id, channel")
+    .eq("notification_type", type)
+    .eq("enabled", false)
+    .in("user_id", recipients.map(r => r.userId));
+  if (error) throw error;
+
+  return new Set((data || []).map(p => `${p.user_id}:${p.channel}`));
+}
+
+function isInQuietHours(recipient: ResolvedRecipient, now: string): boolean {
+  if (!recipient.quietHoursStart || !recipient.quietHoursEnd) return false;
+  const start = recipient.quietHoursStart.slice(0, 5);
+  const end = recipient.quietHoursEnd.slice(0, 5);
+  // A window like 22:00-07:00 runs past midnight
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
+
+export async function dispatchNotification(
+  supabase: SupabaseClient,
+  request: NotificationRequest,
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const resolved = await resolveRecipients(supabase, request);
+  const recipients = await removeAlreadyNotified(supabase, request, resolved);
+  const result: DispatchResult = {
+    notified: recipients.length,
+    duplicates: resolved.length - recipients.length,
+    quiet: 0,
+    providers: {},
+  };
+
+  if (recipients.length === 0) return result;
+
+  const optOuts = await getOptOuts(supabase, request.type, recipients);
+  const wants = (recipient: Recipient, channel: NotificationChannel | "in_app") =>
+    !optOuts.has(`${recipient.userId}:${channel}`);
+
+  const notification: OutgoingNotification = {
+    type: request.type,
+    workoutId: request.workoutId,
+    content: {
+      en: getNotificationContent(request.type, request, "en"),
+      bg: getNotificationContent(request.type, request, "bg"),
+    },
+    actions: getNotificationActions(request.type, request),
+  };
+
+  // The in-app copy goes first so it shows even if every push channel fails. Once-per-workout
+  // notifications are always stored, since the stored copy is what stops them repeating.
+  const inAppRecipients = recipients.filter(r => isOncePerWorkout(request.type) || wants(r, "in_app"));
+  if (options.inApp !== false && inAppRecipients.length > 0) {
+    const { error } = await supabase.from("notification_queue").insert(
+      inAppRecipients.map(r => ({
+        user_id: r.userId,
+        // The workout row is already gone for deletions
+        workout_id: request.type === "workout_deleted" ? null : request.workoutId,
+        notification_type: request.type,
+        message: notification.content.en.body,
+        message_bg: notification.content.bg.body,
+        is_sent: true,
+        scheduled_for: new Date().toISOString(),
+      }))
+    );
+    if (error) console.error("Error inserting in-app notifications:", error);
+  }
+
+  // Quiet hours are stored in the club's local time, compared as "HH:MM"
+  const clubTime = clubNow(await getClubTimeZone(supabase)).time.slice(0, 5);
+  const quiet = new Set(recipients.filter(r => isInQuietHours(r, clubTime)).map(r => r.userId));
+  result.quiet = quiet.size;
+
+  const isTargeted = !!request.targetUserIds && request.targetUserIds.length > 0;
+  const sendsEmail = isEmailNotification(request.type) && (isTargeted || !!options.emailBroadcast);
+
+  for (const provider of getNotificationProviders(options.providers)) {
+    if (provider.channel === "email" && !sendsEmail) continue;
+
+    const channelRecipients = recipients.filter(
+      r => wants(r, provider.channel) && !(provider.channel === "push" && quiet.has(r.userId))
+    );
+    if (channelRecipients.length === 0) continue;
+
+    try {
+      result.providers[provider.name] = await provider.send(supabase, channelRecipients, notification);
+    } catch (error) {
+      console.error(`Notification provider ${provider.name} failed:`, error);
+      result.providers[provider.name] = { sent: 0, failed: channelRecipients.length };
+    }
+  }
+
+  console.log(`📤 ${request.type} for ${request.workoutId}: ${recipients.length} recipients`, result.providers);
+  return result;
+}
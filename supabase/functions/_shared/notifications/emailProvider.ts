@@ -0,0 +1,56 @@
+// Email through the configured mail transport, one message per recipient in their
+// language. The dispatcher only hands it the types marked for email in content.ts.
+import { escapeHtml, getSiteUrl, renderEmail } from "../email/layout.ts";
+import { getMailTransport } from "../email/transport.ts";
+import type { DeliveryResult, NotificationProvider } from "./provider.ts";
+
+const VIEW_WORKOUT = { en: "View workout", bg: "Виж тренировката" };
+const OPEN_SCHEDULE = { en: "Open the schedule", bg: "Към графика" };
+
+export function createEmailProvider(): NotificationProvider | null {
+  const transport = getMailTransport();
+  if (!transport) return null;
+
+  return {
+    name: "email",
+    channel: "email",
+
+    async send(_supabase, recipients, notification) {
+      const result: DeliveryResult = { sent: 0, failed: 0 };
+      // A deleted workout has nothing left to link to
+      const url = notification.type === "workout_deleted"
+        ? `${getSiteUrl()}/dashboard`
+        : `${getSiteUrl()}/dashboard?workout=${notification.workoutId}`;
+
+      for (const recipient of recipients) {
+        if (!recipient.email) continue;
+        const content = notification.content[recipient.language];
+        const label = notification.type === "workout_deleted" ? OPEN_SCHEDULE : VIEW_WORKOUT;
+        // The notification's own buttons replace the link to the workout
+        const actions = notification.actions.length > 0
+          ? notification.actions.map(a => ({ label: a.label[recipient.language], url: `${getSiteUrl()}${a.path}` }))
+          : [{ label: label[recipient.language], url }];
+
+        try {
+          await transport.send({
+            to: recipient.email,
+            subject: content.title,
+            html: renderEmail({
+              language: recipient.language,
+              heading: content.title,
+              bodyHtml: `<p style="margin:0;line-height:1.5">${escapeHtml(content.body)}</p>`,
+              actions,
+            }),
+            text: `${content.body}\n\n${actions.map(a => `${a.label}: ${a.url}`).join("\n")}`,
+          });
+          result.sent++;
+        } catch (error) {
+          result.failed++;
+          console.error(`Notification email to ${recipient.userId} failed:`, error);
+        }
+      }
+
+      return result;
+    },
+  };
+}
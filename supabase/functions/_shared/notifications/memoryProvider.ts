@@ -0,0 +1,25 @@
+// In-memory test provider. It delivers nothing and records every message instead, so
+// the dispatcher can be exercised without push credentials. Only used when "memory" is
+// listed in NOTIFICATION_PROVIDERS.
+import type { NotificationProvider, OutgoingNotification, Recipient } from "./provider.ts";
+
+export interface RecordedDelivery {
+  notification: OutgoingNotification;
+  recipients: Recipient[];
+}
+
+// Lives as long as the function instance
+export const recordedDeliveries: RecordedDelivery[] = [];
+
+export function createMemoryProvider(): NotificationProvider {
+  return {
+    name: "memory",
+    channel: "push",
+
+    send(_supabase, recipients, notification) {
+      recordedDeliveries.push({ notification, recipients });
+      console.log(`[memory] ${notification.type} for ${recipients.length} recipients`);
+      return Promise.resolve({ sent: recipients.length, failed: 0 });
+    },
+  };
+}
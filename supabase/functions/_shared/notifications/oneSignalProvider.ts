@@ -0,0 +1,80 @@
+// OneSignal push. Users are addressed by their external id (our user id), one request
+// per language since each request carries a single text.
+import { getSiteUrl } from "../email/layout.ts";
+import type { NotificationContent, NotificationLanguage } from "./content.ts";
+import type { DeliveryResult, NotificationProvider } from "./provider.ts";
+
+export function createOneSignalProvider(): NotificationProvider | null {
+  const appId = Deno.env.get("ONESIGNAL_APP_ID");
+  const apiKey = Deno.env.get("ONESIGNAL_REST_API_KEY");
+  if (!appId || !apiKey) return null;
+
+  return {
+    name: "onesignal",
+    channel: "push",
+
+    async send(_supabase, recipients, notification) {
+      const result: DeliveryResult = { sent: 0, failed: 0 };
+      const siteUrl = getSiteUrl();
+
+      const byLanguage = new Map<NotificationLanguage, string[]>();
+      for (const recipient of recipients) {
+        byLanguage.set(recipient.language, [...(byLanguage.get(recipient.language) || []), recipient.userId]);
+      }
+
+      for (const [language, userIds] of byLanguage) {
+        const content: NotificationContent = notification.content[language];
+        // Unique topic per type+workout so different notifications don't replace each other
+        const topic = `${notification.type}_${notification.workoutId}`;
+
+        try {
+          const response = await fetch("https://api.onesignal.com/notifications", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "Authorization": `Basic ${apiKey}`,
+            },
+            body: JSON.stringify({
+              app_id: appId,
+              include_aliases: { external_id: userIds },
+              target_channel: "push",
+              headings: { en: content.title },
+              contents: { en: content.body },
+              data: { type: notification.type, workoutId: notification.workoutId },
+              // Web push shows the notification's actions as buttons that open the app
+              ...(notification.actions.length > 0 && {
+                web_buttons: notification.actions.map(a => ({
+                  id: a.id,
+                  text: a.label[language],
+                  url: `${siteUrl}${a.path}`,
+                })),
+              }),
+              web_push_topic: topic,
+              collapse_id: topic,
+              ios_badgeType: "Increase",
+              ios_badgeCount: 1,
+              ios_sound: "default",
+              priority: 10,
+              chrome_web_icon: "/favicon.ico",
+              chrome_web_badge: "/favicon.ico",
+              ttl: 86400,
+            }),
+          });
+
+          const data = await response.json();
+          if (response.ok) {
+            result.sent += data.recipients || userIds.length;
+          } else {
+            result.failed += userIds.length;
+            console.error("OneSignal error:", data);
+          }
+        } catch (error) {
+          result.failed += userIds.length;
+          console.error("OneSignal request failed:", error);
+        }
+      }
+
+      return result;
+    },
+  };
+}
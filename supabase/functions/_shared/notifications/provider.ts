@@ -0,0 +1,76 @@
+// Notification channel abstraction. The dispatcher resolves recipients and renders the
+// texts once, then hands the same message to every enabled provider; a provider only
+// knows how to deliver it over its channel.
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { NotificationAction, NotificationContent, NotificationLanguage, NotificationType } from "./content.ts";
+import { createEmailProvider } from "./emailProvider.ts";
+import { createFcmProvider } from "./fcmProvider.ts";
+import { createMemoryProvider } from "./memoryProvider.ts";
+import { createOneSignalProvider } from "./oneSignalProvider.ts";
+import { createWebPushProvider } from "./webPushProvider.ts";
+
+export interface Recipient {
+  userId: string;
+  language: NotificationLanguage;
+  email: string | null;
+}
+
+export interface OutgoingNotification {
+  type: NotificationType;
+  workoutId: string;
+  content: Record<NotificationLanguage, NotificationContent>;
+  // Buttons for channels that can show them; the others just link to the workout
+  actions: NotificationAction[];
+}
+
+export interface DeliveryResult {
+  sent: number;
+  failed: number;
+}
+
+// Matches notification_preferences.channel
+export type NotificationChannel = "push" | "email";
+
+export interface NotificationProvider {
+  name: string;
+  channel: NotificationChannel;
+  send(
+    supabase: SupabaseClient,
+    recipients: Recipient[],
+    notification: OutgoingNotification
+  ): Promise<DeliveryResult>;
+}
+
+const PROVIDER_FACTORIES: Record<string, () => NotificationProvider | null> = {
+  onesignal: createOneSignalProvider,
+  webpush: createWebPushProvider,
+  fcm: createFcmProvider,
+  email: createEmailProvider,
+  memory: createMemoryProvider,
+};
+
+// OneSignal is what the apps subscribe to today; email reaches members without push
+const DEFAULT_PROVIDERS = ["onesignal", "email"];
+
+/**
+ * The providers named in NOTIFICATION_PROVIDERS (comma separated), or the given names.
+ * Providers whose credentials are missing are skipped, so a half-configured channel
+ * never blocks the others.
+ */
+export function getNotificationProviders(names?: string[]): NotificationProvider[] {
+  const configured = Deno.env.get("NOTIFICATION_PROVIDERS");
+  const selected = names ?? (configured ? configured.split(",").map(n => n.trim()).filter(Boolean) : DEFAULT_PROVIDERS);
+
+  const providers: NotificationProvider[] = [];
+  for (const name of new Set(selected)) {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.error(`Unknown notification provider: ${name}`);
+      continue;
+    }
+    const provider = factory();
+    if (provider) providers.push(provider);
+    else console.log(`Notification provider ${name} is not configured, skipping`);
+  }
+  return providers;
+}
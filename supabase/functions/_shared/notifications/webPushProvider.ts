@@ -0,0 +1,118 @@
+// Standard web push signed with our VAPID keys, for browsers that subscribed through
+// the service worker. Subscriptions that the push service reports as gone are removed.
+import { buildPushHTTPRequest } from "https://esm.sh/@pushforge/builder@1.1.2?target=denonext";
+import type { DeliveryResult, NotificationProvider } from "./provider.ts";
+
+function base64UrlToUint8Array(base64url: string): Uint8Array {
+  const base64 = base64url.replace(/-/g, "+").replace(/_/g, "/");
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(base64 + padding);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function uint8ArrayToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+}
+
+function buildVapidPrivateJwk(vapidPrivateKeySecret: string, vapidPublicKey: string): JsonWebKey {
+  const trimmed = vapidPrivateKeySecret.trim();
+
+  // Preferred: store private key as JSON JWK (what PushForge CLI outputs)
+  if (trimmed.startsWith("{") && trimmed.endsWith("}")) {
+    const jwk = JSON.parse(trimmed) as JsonWebKey;
+    if (!jwk.kty || !jwk.crv || !jwk.d) {
+      throw new Error("VAPID_PRIVATE_KEY JWK missing required fields");
+    }
+    return jwk;
+  }
+
+  // Back-compat: store private key as base64url raw 32 bytes + public key as base64url uncompressed point
+  const pub = base64UrlToUint8Array(vapidPublicKey);
+  if (pub.length !== 65 || pub[0] !== 4) {
+    throw new Error("VAPID_PUBLIC_KEY must be uncompressed P-256 key (65 bytes, starts with 0x04)");
+  }
+
+  return {
+    alg: "ES256",
+    kty: "EC",
+    crv: "P-256",
+    x: uint8ArrayToBase64Url(pub.slice(1, 33)),
+    y: uint8ArrayToBase64Url(pub.slice(33, 65)),
+    d: trimmed,
+  };
+}
+
+export function createWebPushProvider(): NotificationProvider | null {
+  const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  if (!vapidPrivateKey || !vapidPublicKey) return null;
+
+  return {
+    name: "webpush",
+    channel: "push",
+
+    async send(supabase, recipients, notification) {
+      const result: DeliveryResult = { sent: 0, failed: 0 };
+      const privateJWK = buildVapidPrivateJwk(vapidPrivateKey, vapidPublicKey);
+      const languages = new Map(recipients.map(r => [r.userId, r.language]));
+
+      // FCM and native tokens share the table but are not web push endpoints
+      const { data: subscriptions, error } = await supabase
+        .from("push_subscriptions")
+        .select("id, user_id, endpoint, p256dh, auth")
+        .in("user_id", [...languages.keys()])
+        .like("endpoint", "https://%");
+      if (error) throw error;
+
+      const expiredSubscriptions: string[] = [];
+
+      for (const sub of subscriptions || []) {
+        const content = notification.content[languages.get(sub.user_id) || "en"];
+        try {
+          const { endpoint, headers, body } = await buildPushHTTPRequest({
+            privateJWK,
+            message: {
+              payload: {
+                title: content.title,
+                body: content.body,
+                icon: "/favicon.ico",
+                badge: "/favicon.ico",
+                data: { workoutId: notification.workoutId, type: notification.type },
+              },
+              options: { ttl: 60 * 60 * 24, urgency: "high" },
+              adminContact: "mailto:nz@sportclub.com",
+            },
+            subscription: { endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } },
+          });
+
+          const response = await fetch(endpoint, { method: "POST", headers, body });
+          if (response.status === 201) {
+            result.sent++;
+            continue;
+          }
+
+          result.failed++;
+          console.log(`[!] Push response: ${response.status} ${await response.text().catch(() => "")}`);
+          if (response.status === 410 || response.status === 404) {
+            expiredSubscriptions.push(sub.id);
+          }
+        } catch (e) {
+          // If build/encrypt fails, keep the subscription and carry on
+          result.failed++;
+          console.error("Push send failed:", e);
+        }
+      }
+
+      if (expiredSubscriptions.length > 0) {
+        console.log(`🗑️ Deleting ${expiredSubscriptions.length} expired subscriptions`);
+        await supabase.from("push_subscriptions").delete().in("id", expiredSubscriptions);
+      }
+
+      return result;
+    },
+  };
+}
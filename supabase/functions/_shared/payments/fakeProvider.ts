@@ -0,0 +1,52 @@
+// Local test provider. Its "hosted checkout" is the app's /checkout/fake page, which
+// reports the outcome straight to the payments webhook. Each session carries an HMAC
+// token so only the page we sent the member to can complete that session.
+import type { CheckoutRequest, CheckoutSession, PaymentProvider, WebhookEvent } from "./provider.ts";
+
+const encoder = new TextEncoder();
+
+async function signSession(sessionId: string): Promise<string> {
+  const secret = Deno.env.get("FAKE_PAYMENT_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(sessionId));
+  return Array.from(new Uint8Array(signature), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function createFakeProvider(): PaymentProvider {
+  return {
+    name: "fake",
+
+    async createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+      const sessionId = `fake_cs_${crypto.randomUUID()}`;
+      // The test checkout page lives in the app itself and returns to the dashboard
+      const checkoutUrl = new URL("/checkout/fake", request.successUrl);
+      checkoutUrl.search = new URLSearchParams({
+        session: sessionId,
+        token: await signSession(sessionId),
+      }).toString();
+      return { sessionId, url: checkoutUrl.toString() };
+    },
+
+    async parseWebhook(req: Request): Promise<WebhookEvent | null> {
+      const body = await req.json().catch(() => null);
+      if (!body?.sessionId || !body?.token || body.token !== await signSession(body.sessionId)) {
+        return null;
+      }
+
+      if (body.outcome === "succeeded") {
+        return { type: "payment_succeeded", sessionId: body.sessionId, providerPaymentId: `fake_pi_${crypto.randomUUID()}` };
+      }
+      return { type: "payment_failed", sessionId: body.sessionId, reason: "Declined on the test checkout" };
+    },
+
+    refund(_providerPaymentId: string, _amountCents: number): Promise<{ refundId: string }> {
+      return Promise.resolve({ refundId: `fake_re_${crypto.randomUUID()}` });
+    },
+  };
+}
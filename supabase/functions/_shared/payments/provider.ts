@@ -0,0 +1,47 @@
+// Payment provider abstraction. Edge functions only talk to a PaymentProvider, so a
+// real gateway can be added next to the fake one without touching the checkout,
+// webhook or refund functions.
+import { createFakeProvider } from "./fakeProvider.ts";
+
+export interface CheckoutRequest {
+  // Our payments row id, echoed back by the provider
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  description: string;
+  customerEmail?: string;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string;
+  // Where the member is sent to pay
+  url: string;
+}
+
+export type WebhookEvent =
+  | { type: "payment_succeeded"; sessionId: string; providerPaymentId: string }
+  | { type: "payment_failed"; sessionId: string; reason: string };
+
+export interface PaymentProvider {
+  name: string;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Verifies the webhook signature; returns null for requests that are not genuine
+  // provider events or that we do not handle
+  parseWebhook(req: Request): Promise<WebhookEvent | null>;
+  refund(providerPaymentId: string, amountCents: number): Promise<{ refundId: string }>;
+}
+
+/**
+ * The provider configured with PAYMENT_PROVIDER. Returns null when payments are not
+ * configured; the fake provider is never used unless it is selected explicitly.
+ */
+export function getPaymentProvider(): PaymentProvider | null {
+  switch (Deno.env.get("PAYMENT_PROVIDER")) {
+    case "fake":
+      return createFakeProvider();
+    default:
+      return null;
+  }
+}
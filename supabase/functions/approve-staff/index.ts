@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -55,9 +56,12 @@ const handler = async (req: Request): Promise<Response> => {
       return renderErrorPage("Invalid request method");
     }
 
+    // Whoever approves is only known by the emailed link, so changes are recorded
+    // under this function's name
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { global: { headers: auditHeaders(null, "approve-staff") } }
     );
 
     // Fetch record (even if already processed) so we can show a friendly message on refresh.
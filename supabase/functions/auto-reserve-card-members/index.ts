@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { dispatchNotification } from "../_shared/notifications/dispatcher.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -8,6 +10,23 @@ const corsHeaders = {
 
 interface AutoReserveRequest {
   workoutId: string;
+  // Set by the pg_cron job, which records the run before calling us
+  runId?: string;
+  trigger?: "schedule" | "staff" | "workout_created";
+}
+
+interface AutoReserveOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -16,219 +35,288 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const body: AutoReserveRequest = await req.json();
-    const { workoutId } = body;
-
-    console.log("🎫 Auto-reserving card members for workout:", workoutId);
-
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    
-    const supabase = createClient(supabaseUrl, serviceRoleKey);
-
-    // Get workout details
-    const { data: workout, error: workoutError } = await supabase
-      .from("workouts")
-      .select("*")
-      .eq("id", workoutId)
-      .single();
-
-    if (workoutError || !workout) {
-      console.error("Workout not found:", workoutError);
-      return new Response(
-        JSON.stringify({ error: "Workout not found" }),
-        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
 
-    // Check if card priority is enabled
-    if (!workout.card_priority_enabled) {
-      console.log("Card priority not enabled for this workout");
-      return new Response(
-        JSON.stringify({ message: "Card priority not enabled", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    // Called by the pg_cron job with the service role key, or by staff who manage the schedule
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    if (!token) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
     }
 
-    // Check if auto-reserve is enabled
-    if (!workout.auto_reserve_enabled) {
-      console.log("Auto-reserve not enabled for this workout");
-      return new Response(
-        JSON.stringify({ message: "Auto-reserve not enabled", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+    const isScheduled = token === serviceRoleKey;
+    let callerId: string | null = null;
+    if (!isScheduled) {
+      const admin = createClient(supabaseUrl, serviceRoleKey);
+      const { data: { user: caller }, error: authError } = await admin.auth.getUser(token);
+      if (authError || !caller) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
 
-    // Get existing reservations count
-    const { count: existingCount } = await supabase
-      .from("reservations")
-      .select("*", { count: "exact", head: true })
-      .eq("workout_id", workoutId)
-      .eq("is_active", true);
-
-    const availableSpots = workout.max_spots - (existingCount || 0);
-    
-    if (availableSpots <= 0) {
-      console.log("No available spots");
-      return new Response(
-        JSON.stringify({ message: "No available spots", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+      const { data: isAllowed } = await admin.rpc("has_permission", { _user_id: caller.id, _permission: "manage_schedule" });
+      if (!isAllowed) {
+        return jsonResponse({ error: "Forbidden" }, 403);
+      }
+      callerId = caller.id;
     }
 
-    // Get workout type (early/late)
-    const workoutType = workout.workout_type || 'early';
-    console.log(`Workout type: ${workoutType}, title: ${workout.title}`);
-
-    // Get all card members who have auto-reserve enabled AND have set a preference
-    const { data: cardMembers, error: cardMembersError } = await supabase
-      .from("profiles")
-      .select("user_id, preferred_workout_type, auto_reserve_enabled, full_name")
-      .eq("member_type", "card")
-      .eq("auto_reserve_enabled", true);
-
-    if (cardMembersError) {
-      console.error("Error fetching card members:", cardMembersError);
-      return new Response(
-        JSON.stringify({ error: "Failed to fetch card members" }),
-        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    const body: AutoReserveRequest = await req.json();
+    const { workoutId, trigger } = body;
+    if (!workoutId) {
+      return jsonResponse({ error: "workoutId is required" }, 400);
     }
 
-    if (!cardMembers || cardMembers.length === 0) {
-      console.log("No card members with auto-reserve enabled found");
-      return new Response(
-        JSON.stringify({ message: "No card members with auto-reserve enabled", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
-    }
+    console.log("🎫 Auto-reserving card members for workout:", workoutId);
 
-    console.log(`Found ${cardMembers.length} card members with auto-reserve enabled`);
-
-    // Filter to only include members whose preference EXACTLY matches the workout type
-    // Members with NULL preference are NOT auto-reserved (they must select a preference)
-    // Members with 'early' preference only get early workouts
-    // Members with 'late' preference only get late workouts
-    const eligibleCardMembers = cardMembers.filter(m => {
-      // If member has no preference (null/undefined/empty), skip them
-      if (!m.preferred_workout_type) {
-        console.log(`Member ${m.full_name || m.user_id}: no preference set, skipping`);
-        return false;
-      }
-      // Only exact matches are eligible
-      const matches = m.preferred_workout_type === workoutType;
-      console.log(`Member ${m.full_name || m.user_id}: prefers ${m.preferred_workout_type}, workout is ${workoutType}, eligible: ${matches}`);
-      return matches;
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(callerId, "auto-reserve-card-members") },
     });
 
-    console.log(`${eligibleCardMembers.length} members eligible for ${workoutType} workout`);
-
-    if (eligibleCardMembers.length === 0) {
-      return new Response(
-        JSON.stringify({ message: "No eligible card members for this workout type", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    // Every run is recorded so staff can see when auto-reserve fired and what it did.
+    // Only the cron job, which records the run itself, may pass one in.
+    let runId = isScheduled ? body.runId : undefined;
+    if (!runId) {
+      const { data: run } = await supabase
+        .from("auto_reserve_runs")
+        .insert({ workout_id: workoutId, triggered_by: trigger || "staff" })
+        .select("id")
+        .single();
+      runId = run?.id;
     }
 
-    const cardMemberIds = eligibleCardMembers.map(m => m.user_id);
-
-    // Get existing reservations for these card members (including cancelled ones to check)
-    const { data: existingReservations } = await supabase
-      .from("reservations")
-      .select("user_id, is_active")
-      .eq("workout_id", workoutId)
-      .in("user_id", cardMemberIds);
-
-    const alreadyReservedIds = new Set(
-      existingReservations?.filter(r => r.is_active).map(r => r.user_id) || []
-    );
-    
-    // Filter out members who already have active reservations
-    const membersToReserve = cardMemberIds.filter(id => !alreadyReservedIds.has(id));
-
-    // Limit to available spots
-    const membersToReserveSlice = membersToReserve.slice(0, availableSpots);
-
-    if (membersToReserveSlice.length === 0) {
-      console.log("All eligible card members already have reservations");
-      return new Response(
-        JSON.stringify({ message: "All eligible card members already reserved", reserved: 0 }),
-        { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+    const outcome = await autoReserveCardMembers(supabase, workoutId);
+
+    if (runId) {
+      const succeeded = outcome.status < 400;
+      await supabase
+        .from("auto_reserve_runs")
+        .update({
+          status: succeeded ? "success" : "failed",
+          reserved_count: Number(outcome.body.reserved) || 0,
+          message: String(succeeded ? outcome.body.message : outcome.body.error),
+          finished_at: new Date().toISOString(),
+        })
+        .eq("id", runId);
     }
 
-    console.log(`Creating reservations for ${membersToReserveSlice.length} card members`);
-
-    // Create reservations for card members (upsert to handle duplicates gracefully)
-    const reservations = membersToReserveSlice.map(userId => ({
-      workout_id: workoutId,
-      user_id: userId,
-      is_active: true,
-      reserved_at: new Date().toISOString(),
-    }));
-
-    const { error: insertError } = await supabase
-      .from("reservations")
-      .upsert(reservations, { 
-        onConflict: "workout_id,user_id",
-        ignoreDuplicates: false 
-      });
+    return jsonResponse({ ...outcome.body, runId }, outcome.status);
+  } catch (error) {
+    console.error("Error in auto-reserve:", error);
+    return jsonResponse({ error: "Internal server error" }, 500);
+  }
+};
+
+async function autoReserveCardMembers(
+  supabase: SupabaseClient,
+  workoutId: string
+): Promise<AutoReserveOutcome> {
+  // Get workout details
+  const { data: workout, error: workoutError } = await supabase
+    .from("workouts")
+    .select("*")
+    .eq("id", workoutId)
+    .single();
+
+  if (workoutError || !workout) {
+    console.error("Workout not found:", workoutError);
+    return { status: 404, body: { error: "Workout not found" } };
+  }
+
+  // Check if card priority is enabled
+  if (!workout.card_priority_enabled) {
+    console.log("Card priority not enabled for this workout");
+    return { status: 200, body: { message: "Card priority not enabled", reserved: 0 } };
+  }
+
+  // Check if auto-reserve is enabled
+  if (!workout.auto_reserve_enabled) {
+    console.log("Auto-reserve not enabled for this workout");
+    return { status: 200, body: { message: "Auto-reserve not enabled", reserved: 0 } };
+  }
+
+  // Get existing reservations count
+  const { count: existingCount } = await supabase
+    .from("reservations")
+    .select("*", { count: "exact", head: true })
+    .eq("workout_id", workoutId)
+    .eq("is_active", true);
+
+  const availableSpots = workout.max_spots - (existingCount || 0);
+  
+  if (availableSpots <= 0) {
+    console.log("No available spots");
+    return { status: 200, body: { message: "No available spots", reserved: 0 } };
+  }
+
+  // Get workout type (early/late)
+  const workoutType = workout.workout_type || 'early';
+  console.log(`Workout type: ${workoutType}, title: ${workout.title}`);
+
+  // Get all card members who have auto-reserve enabled AND have set a preference
+  const { data: cardMembers, error: cardMembersError } = await supabase
+    .from("profiles")
+    .select("user_id, preferred_workout_type, preferred_location_id, auto_reserve_enabled, full_name")
+    .eq("member_type", "card")
+    .eq("auto_reserve_enabled", true);
+
+  if (cardMembersError) {
+    console.error("Error fetching card members:", cardMembersError);
+    return { status: 500, body: { error: "Failed to fetch card members" } };
+  }
+
+  if (!cardMembers || cardMembers.length === 0) {
+    console.log("No card members with auto-reserve enabled found");
+    return { status: 200, body: { message: "No card members with auto-reserve enabled", reserved: 0 } };
+  }
+
+  console.log(`Found ${cardMembers.length} card members with auto-reserve enabled`);
 
-    if (insertError) {
-      console.error("Error creating reservations:", insertError);
-      return new Response(
-        JSON.stringify({ error: "Failed to create reservations" }),
-        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
-      );
+  // Members at the strike threshold are either suspended or have lost card priority;
+  // either way they are not auto-reserved until staff clear their strikes
+  const { data: settings } = await supabase
+    .from("club_settings")
+    .select("strike_threshold")
+    .maybeSingle();
+
+  const { data: strikes } = await supabase
+    .from("member_strikes")
+    .select("user_id")
+    .is("cleared_at", null)
+    .in("user_id", cardMembers.map(m => m.user_id));
+
+  const strikeCounts = new Map<string, number>();
+  for (const strike of strikes || []) {
+    strikeCounts.set(strike.user_id, (strikeCounts.get(strike.user_id) || 0) + 1);
+  }
+  const strikeThreshold = settings?.strike_threshold ?? Infinity;
+
+  // Card priority comes from a plan that is still valid (with credits) on the workout date
+  const { data: memberships } = await supabase
+    .from("memberships")
+    .select("user_id, credits_remaining, membership_plans!inner(grants_card_priority)")
+    .is("cancelled_at", null)
+    .lte("starts_on", workout.workout_date)
+    .gte("ends_on", workout.workout_date)
+    .eq("membership_plans.grants_card_priority", true)
+    .in("user_id", cardMembers.map(m => m.user_id));
+
+  const priorityMemberIds = new Set(
+    memberships?.filter(m => m.credits_remaining === null || m.credits_remaining > 0).map(m => m.user_id) || []
+  );
+
+  // Members who prefer another location are not booked here; workouts without a room
+  // count as being everywhere
+  const { data: room } = workout.room_id
+    ? await supabase.from("rooms").select("location_id").eq("id", workout.room_id).maybeSingle()
+    : { data: null };
+  const workoutLocationId: string | null = room?.location_id ?? null;
+
+  // Filter to only include members whose preference EXACTLY matches the workout type
+  // Members with NULL preference are NOT auto-reserved (they must select a preference)
+  // Members with 'early' preference only get early workouts
+  // Members with 'late' preference only get late workouts
+  const eligibleCardMembers = cardMembers.filter(m => {
+    if ((strikeCounts.get(m.user_id) || 0) >= strikeThreshold) {
+      console.log(`Member ${m.full_name || m.user_id}: strike threshold reached, skipping`);
+      return false;
+    }
+    if (!priorityMemberIds.has(m.user_id)) {
+      console.log(`Member ${m.full_name || m.user_id}: no card plan valid on ${workout.workout_date}, skipping`);
+      return false;
     }
+    if (workoutLocationId && m.preferred_location_id && m.preferred_location_id !== workoutLocationId) {
+      console.log(`Member ${m.full_name || m.user_id}: prefers another location, skipping`);
+      return false;
+    }
+    // If member has no preference (null/undefined/empty), skip them
+    if (!m.preferred_workout_type) {
+      console.log(`Member ${m.full_name || m.user_id}: no preference set, skipping`);
+      return false;
+    }
+    // Only exact matches are eligible
+    const matches = m.preferred_workout_type === workoutType;
+    console.log(`Member ${m.full_name || m.user_id}: prefers ${m.preferred_workout_type}, workout is ${workoutType}, eligible: ${matches}`);
+    return matches;
+  });
+
+  console.log(`${eligibleCardMembers.length} members eligible for ${workoutType} workout`);
 
-    console.log(`✅ Auto-reserved ${membersToReserveSlice.length} spots for card members`);
+  if (eligibleCardMembers.length === 0) {
+    return { status: 200, body: { message: "No eligible card members for this workout type", reserved: 0 } };
+  }
+
+  const cardMemberIds = eligibleCardMembers.map(m => m.user_id);
+
+  // Get existing reservations for these card members (including cancelled ones to check)
+  const { data: existingReservations } = await supabase
+    .from("reservations")
+    .select("user_id, is_active")
+    .eq("workout_id", workoutId)
+    .in("user_id", cardMemberIds);
+
+  const alreadyReservedIds = new Set(
+    existingReservations?.filter(r => r.is_active).map(r => r.user_id) || []
+  );
+  
+  // Filter out members who already have active reservations
+  const membersToReserve = cardMemberIds.filter(id => !alreadyReservedIds.has(id));
+
+  if (membersToReserve.length === 0) {
+    console.log("All eligible card members already have reservations");
+    return { status: 200, body: { message: "All eligible card members already reserved", reserved: 0 } };
+  }
+
+  console.log(`Reserving for up to ${membersToReserve.length} card members`);
+
+  // The database locks the workout and stops at max_spots (held waitlist offers included),
+  // so member bookings made since the count above cannot be overbooked
+  const { data: reservedIds, error: reserveError } = await supabase.rpc("auto_reserve_workout", {
+    p_workout_id: workoutId,
+    p_user_ids: membersToReserve,
+  });
+
+  if (reserveError) {
+    console.error("Error creating reservations:", reserveError);
+    return { status: 500, body: { error: "Failed to create reservations" } };
+  }
+
+  const reservedMemberIds: string[] = reservedIds || [];
 
-    // Mark workout as auto_reserve_executed
-    await supabase
-      .from("workouts")
-      .update({ auto_reserve_executed: true })
-      .eq("id", workoutId);
+  console.log(`✅ Auto-reserved ${reservedMemberIds.length} spots for card members`);
 
-    // Send notifications to auto-reserved members via unified notification
+  // Mark workout as auto_reserve_executed
+  await supabase
+    .from("workouts")
+    .update({ auto_reserve_executed: true })
+    .eq("id", workoutId);
+
+  // Notify the auto-reserved members (an empty target list would reach everyone)
+  if (reservedMemberIds.length > 0) {
     try {
-      await fetch(`${supabaseUrl}/functions/v1/unified-notification`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${Deno.env.get("SUPABASE_ANON_KEY")}`,
-        },
-        body: JSON.stringify({
-          type: "auto_reserved",
-          workoutId: workout.id,
-          workoutTitle: workout.title,
-          workoutTitleBg: workout.title_bg,
-          workoutDate: workout.workout_date,
-          workoutTime: workout.start_time?.slice(0, 5),
-          targetUserIds: membersToReserveSlice,
-        }),
+      await dispatchNotification(supabase, {
+        type: "auto_reserved",
+        workoutId: workout.id,
+        workoutTitle: workout.title,
+        workoutTitleBg: workout.title_bg,
+        workoutDate: workout.workout_date,
+        workoutTime: workout.start_time?.slice(0, 5),
+        targetUserIds: reservedMemberIds,
       });
       console.log("Sent auto-reserve notifications");
     } catch (e) {
       console.log("Failed to send auto-reserve notifications:", e);
     }
-
-    return new Response(
-      JSON.stringify({ 
-        message: "Auto-reserved spots for card members", 
-        reserved: membersToReserveSlice.length,
-        workoutType: workoutType,
-        eligibleMembers: eligibleCardMembers.length,
-      }),
-      { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
-    );
-  } catch (error) {
-    console.error("Error in auto-reserve:", error);
-    return new Response(
-      JSON.stringify({ error: "Internal server error" }),
-      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
-    );
   }
-};
+
+  return {
+    status: 200,
+    body: { 
+      message: "Auto-reserved spots for card members", 
+      reserved: reservedMemberIds.length,
+      workoutType: workoutType,
+      eligibleMembers: eligibleCardMembers.length,
+    },
+  };
+}
 
 serve(handler);
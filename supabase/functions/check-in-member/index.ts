@@ -0,0 +1,86 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { checkInMember, verifyCheckInToken } from "../_shared/checkIn.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CheckInRequest {
+  token: string;
+  // Optional: check in to this workout instead of the one currently open for check-in
+  workoutId?: string;
+}
+
+// Staff scanner: verifies a member QR token and marks attendance for their reservation
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Verify caller is staff with the mark_attendance permission
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isAllowed } = await supabase.rpc("has_permission", { _user_id: caller.id, _permission: "mark_attendance" });
+    if (!isAllowed) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: CheckInRequest = await req.json();
+    if (!body.token) {
+      return new Response(JSON.stringify({ error: "token required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const tokenCheck = await verifyCheckInToken(body.token);
+    if (!tokenCheck.valid) {
+      // Invalid or expired codes are a normal scan outcome, not a request error
+      return new Response(JSON.stringify({ status: tokenCheck.reason }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Attendance is attributed to the scanning staff member in the audit log
+    const db = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(caller.id, "check-in-member") },
+    });
+    const result = await checkInMember(db, tokenCheck.userId, caller.id, body.workoutId);
+    console.log(`Check-in for ${tokenCheck.userId}: ${result.status}`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in check-in:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -0,0 +1,116 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { getPaymentProvider } from "../_shared/payments/provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CheckoutBody {
+  planId: string;
+}
+
+// Starts a membership purchase: records a pending payment and opens a provider checkout
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return new Response(JSON.stringify({ error: "Payments are not configured" }), {
+        status: 503,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isMember } = await supabase.rpc("is_member_or_card_member", { _user_id: user.id });
+    if (!isMember) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { planId }: CheckoutBody = await req.json();
+    const { data: plan } = await supabase
+      .from("membership_plans")
+      .select("id, name, price_cents, currency")
+      .eq("id", planId)
+      .eq("is_active", true)
+      .maybeSingle();
+
+    if (!plan || plan.price_cents === null) {
+      return new Response(JSON.stringify({ error: "Plan is not available for purchase" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: payment, error: paymentError } = await supabase
+      .from("payments")
+      .insert({
+        user_id: user.id,
+        plan_id: plan.id,
+        provider: provider.name,
+        amount_cents: plan.price_cents,
+        currency: plan.currency,
+      })
+      .select("id")
+      .single();
+
+    if (paymentError || !payment) {
+      throw paymentError;
+    }
+
+    const appUrl = req.headers.get("origin") || Deno.env.get("SITE_URL")!;
+    const session = await provider.createCheckoutSession({
+      paymentId: payment.id,
+      amountCents: plan.price_cents,
+      currency: plan.currency,
+      description: plan.name,
+      customerEmail: user.email,
+      successUrl: `${appUrl}/dashboard?payment=success`,
+      cancelUrl: `${appUrl}/dashboard?payment=cancelled`,
+    });
+
+    await supabase
+      .from("payments")
+      .update({ provider_session_id: session.sessionId })
+      .eq("id", payment.id);
+
+    console.log(`Checkout ${session.sessionId} for ${user.id}, plan ${plan.name}`);
+
+    return new Response(JSON.stringify({ url: session.url }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error creating checkout:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
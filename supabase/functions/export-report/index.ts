@@ -0,0 +1,367 @@
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import * as XLSX from "npm:xlsx@0.18.5";
+import { recordAuditEvent } from "../_shared/audit.ts";
+import { clubToday, getClubTimeZone } from "../_shared/clubTime.ts";
+import { toCsv } from "../_shared/csv.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// IDs per .in() filter, well under URL length limits
+const ID_CHUNK_SIZE = 200;
+
+type ReportType = "workout_attendees" | "monthly_attendance" | "member_roster";
+type ReportFormat = "csv" | "xlsx";
+
+interface ExportRequest {
+  report: ReportType;
+  format: ReportFormat;
+  // workout_attendees
+  workoutId?: string;
+  // monthly_attendance, as YYYY-MM
+  month?: string;
+}
+
+interface Report {
+  name: string;
+  rows: (string | number)[][];
+}
+
+class ReportError extends Error {}
+
+// Reads every page of a query so large clubs are not cut off at the row limit
+async function fetchAll<T>(
+  query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Splits ID lists for .in() filters, which travel in the request URL
+function chunk<T>(items: T[], size = ID_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+function attendedLabel(attended: boolean | null | undefined): string {
+  if (attended === true) return "Yes";
+  if (attended === false) return "No";
+  return "";
+}
+
+// Everyone booked on one workout, with their attendance mark
+async function workoutAttendees(supabase: SupabaseClient, workoutId?: string): Promise<Report> {
+  if (!workoutId) throw new ReportError("workoutId required");
+
+  const { data: workout } = await supabase
+    .from("workouts")
+    .select("title, workout_date, start_time")
+    .eq("id", workoutId)
+    .maybeSingle();
+  if (!workout) throw new ReportError("Workout not found");
+
+  const [{ data: reservations, error: reservationsError }, { data: attendance, error: attendanceError }] = await Promise.all([
+    supabase
+      .from("reservations")
+      .select("user_id, reserved_at")
+      .eq("workout_id", workoutId)
+      .eq("is_active", true)
+      .order("reserved_at"),
+    supabase
+      .from("attendance")
+      .select("user_id, attended")
+      .eq("workout_id", workoutId),
+  ]);
+  if (reservationsError) throw reservationsError;
+  if (attendanceError) throw attendanceError;
+
+  // Walk-ins marked by staff count even without a reservation
+  const userIds = [...new Set([
+    ...(reservations || []).map(r => r.user_id),
+    ...(attendance || []).map(a => a.user_id),
+  ])];
+  const { data: profiles } = userIds.length > 0
+    ? await supabase.from("profiles").select("user_id, full_name, email, phone, member_type").in("user_id", userIds)
+    : { data: [] };
+
+  const profileById = new Map((profiles || []).map(p => [p.user_id, p]));
+  const attendedById = new Map((attendance || []).map(a => [a.user_id, a.attended]));
+  const reservedAtById = new Map((reservations || []).map(r => [r.user_id, r.reserved_at]));
+
+  const rows: (string | number)[][] = [["Name", "Email", "Phone", "Member type", "Reserved at", "Attended"]];
+  for (const userId of userIds) {
+    const profile = profileById.get(userId);
+    rows.push([
+      profile?.full_name || "",
+      profile?.email || "",
+      profile?.phone || "",
+      profile?.member_type || "",
+      reservedAtById.get(userId) || "",
+      attendedLabel(attendedById.get(userId)),
+    ]);
+  }
+
+  return {
+    name: `attendees-${workout.workout_date}-${workout.start_time.slice(0, 5).replace(":", "")}`,
+    rows,
+  };
+}
+
+// Members down the side, workout dates across the top, sessions attended in each cell
+async function monthlyAttendance(supabase: SupabaseClient, month?: string): Promise<Report> {
+  if (!month || !/^\d{4}-\d{2}$/.test(month)) throw new ReportError("month must be YYYY-MM");
+
+  const [year, monthNumber] = month.split("-").map(Number);
+  const start = `${month}-01`;
+  const lastDay = new Date(Date.UTC(year, monthNumber, 0)).getUTCDate();
+  const end = `${month}-${String(lastDay).padStart(2, "0")}`;
+
+  const workouts = await fetchAll<{ id: string; workout_date: string }>((from, to) =>
+    supabase
+      .from("workouts")
+      .select("id, workout_date")
+      .gte("workout_date", start)
+      .lte("workout_date", end)
+      .order("workout_date")
+      .order("id")
+      .range(from, to)
+  );
+
+  const dates = [...new Set(workouts.map(w => w.workout_date))];
+
+  const attendance = await fetchAll<{ user_id: string; workouts: { workout_date: string } }>((from, to) =>
+    supabase
+      .from("attendance")
+      .select("user_id, workouts!inner(workout_date)")
+      .eq("attended", true)
+      .gte("workouts.workout_date", start)
+      .lte("workouts.workout_date", end)
+      .order("id")
+      .range(from, to)
+  );
+
+  const countsByUser = new Map<string, Map<string, number>>();
+  for (const mark of attendance) {
+    const date = mark.workouts.workout_date;
+    const counts = countsByUser.get(mark.user_id) || new Map<string, number>();
+    counts.set(date, (counts.get(date) || 0) + 1);
+    countsByUser.set(mark.user_id, counts);
+  }
+
+  const profiles = (await Promise.all(
+    chunk([...countsByUser.keys()]).map(userIds =>
+      fetchAll<{ user_id: string; full_name: string | null; email: string }>((from, to) =>
+        supabase
+          .from("profiles")
+          .select("user_id, full_name, email")
+          .in("user_id", userIds)
+          .order("id")
+          .range(from, to)
+      )
+    )
+  )).flat();
+  const members = profiles.sort((a, b) => (a.full_name || a.email).localeCompare(b.full_name || b.email));
+
+  const rows: (string | number)[][] = [["Name", "Email", ...dates, "Total"]];
+  for (const member of members) {
+    const counts = countsByUser.get(member.user_id)!;
+    let total = 0;
+    const cells = dates.map(date => {
+      const count = counts.get(date) || 0;
+      total += count;
+      return count || "";
+    });
+    rows.push([member.full_name || "", member.email, ...cells, total]);
+  }
+
+  return { name: `attendance-${month}`, rows };
+}
+
+// All current members with their plan and when they last came in
+async function memberRoster(supabase: SupabaseClient): Promise<Report> {
+  const today = clubToday(await getClubTimeZone(supabase));
+
+  const memberRoles = await fetchAll<{ user_id: string }>((from, to) =>
+    supabase
+      .from("user_roles")
+      .select("user_id")
+      .in("role", ["member", "card_member"])
+      .order("id")
+      .range(from, to)
+  );
+  const memberIds = new Set(memberRoles.map(r => r.user_id));
+
+  const [profiles, memberships, attendance] = await Promise.all([
+    fetchAll<{ user_id: string; full_name: string | null; email: string; phone: string | null; member_type: string; created_at: string }>((from, to) =>
+      supabase
+        .from("profiles")
+        .select("user_id, full_name, email, phone, member_type, created_at")
+        .is("removed_at", null)
+        .order("full_name")
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAll<{ user_id: string; ends_on: string; membership_plans: { name: string } | null }>((from, to) =>
+      supabase
+        .from("memberships")
+        .select("user_id, ends_on, membership_plans(name)")
+        .is("cancelled_at", null)
+        .lte("starts_on", today)
+        .gte("ends_on", today)
+        .order("id")
+        .range(from, to)
+    ),
+    fetchAll<{ user_id: string; workouts: { workout_date: string } | null }>((from, to) =>
+      supabase
+        .from("attendance")
+        .select("user_id, workouts(workout_date)")
+        .eq("attended", true)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  const membershipByUser = new Map(memberships.map(m => [m.user_id, m]));
+  const visits = new Map<string, { count: number; last: string }>();
+  for (const mark of attendance) {
+    const date = mark.workouts?.workout_date;
+    if (!date) continue;
+    const current = visits.get(mark.user_id) || { count: 0, last: "" };
+    visits.set(mark.user_id, { count: current.count + 1, last: date > current.last ? date : current.last });
+  }
+
+  const rows: (string | number)[][] = [[
+    "Name", "Email", "Phone", "Member type", "Membership", "Valid until", "Visits", "Last visit", "Joined",
+  ]];
+  for (const profile of profiles) {
+    if (!memberIds.has(profile.user_id)) continue;
+    const membership = membershipByUser.get(profile.user_id);
+    const visit = visits.get(profile.user_id);
+    rows.push([
+      profile.full_name || "",
+      profile.email,
+      profile.phone || "",
+      profile.member_type,
+      membership?.membership_plans?.name || "",
+      membership?.ends_on || "",
+      visit?.count || 0,
+      visit?.last || "",
+      profile.created_at.slice(0, 10),
+    ]);
+  }
+
+  return { name: `members-${today}`, rows };
+}
+
+function toXlsx(report: Report): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(report.rows), "Report");
+  return new Uint8Array(XLSX.write(workbook, { type: "array", bookType: "xlsx" }));
+}
+
+// Staff-only downloadable reports: workout attendee lists, monthly attendance sheets
+// and the member roster, as CSV or Excel
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Verify caller is staff with the view_reports permission
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isAllowed } = await supabase.rpc("has_permission", { _user_id: caller.id, _permission: "view_reports" });
+    if (!isAllowed) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: ExportRequest = await req.json();
+    let report: Report;
+    switch (body.report) {
+      case "workout_attendees":
+        report = await workoutAttendees(supabase, body.workoutId);
+        break;
+      case "monthly_attendance":
+        report = await monthlyAttendance(supabase, body.month);
+        break;
+      case "member_roster":
+        report = await memberRoster(supabase);
+        break;
+      default:
+        throw new ReportError("Unknown report");
+    }
+
+    const format: ReportFormat = body.format === "xlsx" ? "xlsx" : "csv";
+    const content = format === "xlsx" ? toXlsx(report) : new TextEncoder().encode(toCsv(report.rows));
+    console.log(`Export ${body.report} (${format}) by ${caller.id}: ${report.rows.length - 1} rows`);
+
+    // Exports carry member data out of the app, so they are audited like changes
+    await recordAuditEvent(supabase, {
+      actorId: caller.id,
+      source: "export-report",
+      action: "exported",
+      entityType: "report",
+      entityId: body.report,
+      newValues: {
+        format,
+        rows: report.rows.length - 1,
+        workoutId: body.workoutId ?? null,
+        month: body.month ?? null,
+      },
+    });
+
+    // Sent as a plain binary download so the functions client hands it back as a Blob
+    return new Response(content, {
+      headers: {
+        ...corsHeaders,
+        "Access-Control-Expose-Headers": "Content-Disposition",
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${report.name}.${format}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ReportError) {
+      return new Response(JSON.stringify({ error: error.message }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    console.error("Error exporting report:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
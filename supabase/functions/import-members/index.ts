@@ -0,0 +1,289 @@
+import { createClient, SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { clubToday, getClubTimeZone } from "../_shared/clubTime.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_REGEX = /^\+?[0-9 ()-]{6,20}$/;
+// Keeps a single request well inside the edge function time limit
+const MAX_ROWS = 500;
+
+interface ImportRow {
+  full_name: string;
+  email: string;
+  phone?: string;
+  member_type?: string;
+  language?: string;
+}
+
+interface ImportRequest {
+  rows: ImportRow[];
+  // Validate and report without creating anything
+  dryRun: boolean;
+  // Where the invitation link sends people to set their password
+  redirectTo?: string;
+  // Plan given to imported regular members (default: the first active plan without card priority)
+  planId?: string;
+}
+
+interface ImportPlan {
+  id: string;
+  duration_days: number;
+  credits: number | null;
+}
+
+type RowStatus = "ready" | "invalid" | "duplicate" | "created" | "failed";
+
+interface RowResult {
+  row: number;
+  email: string;
+  status: RowStatus;
+  errors: string[];
+}
+
+interface ValidRow {
+  full_name: string;
+  email: string;
+  phone: string | null;
+  member_type: "regular" | "card";
+  language: "en" | "bg";
+}
+
+function normalizeMemberType(value?: string): "regular" | "card" | null {
+  const type = (value || "").trim().toLowerCase();
+  if (!type || type === "regular" || type === "member") return "regular";
+  if (type === "card" || type === "card_member") return "card";
+  return null;
+}
+
+function normalizeLanguage(value?: string): "en" | "bg" | null {
+  const language = (value || "").trim().toLowerCase();
+  if (!language) return "en";
+  return language === "en" || language === "bg" ? language : null;
+}
+
+function validateRow(row: ImportRow): { valid: ValidRow | null; errors: string[] } {
+  const errors: string[] = [];
+  const fullName = (row.full_name || "").trim();
+  const email = (row.email || "").trim().toLowerCase();
+  const phone = (row.phone || "").trim();
+  const memberType = normalizeMemberType(row.member_type);
+  const language = normalizeLanguage(row.language);
+
+  if (!fullName) errors.push("missing_name");
+  if (!EMAIL_REGEX.test(email)) errors.push("invalid_email");
+  if (phone && !PHONE_REGEX.test(phone)) errors.push("invalid_phone");
+  if (!memberType) errors.push("invalid_member_type");
+  if (!language) errors.push("invalid_language");
+
+  if (errors.length > 0) return { valid: null, errors };
+  return {
+    valid: { full_name: fullName, email, phone: phone || null, member_type: memberType!, language: language! },
+    errors,
+  };
+}
+
+// The plans imported members start on: the chosen (or first) plan without card priority for
+// regular members and, like existing card members, the first card plan for card members so
+// staff can move them onto the right one later
+async function getImportPlans(supabase: SupabaseClient, planId?: string) {
+  const { data, error } = await supabase
+    .from("membership_plans")
+    .select("id, duration_days, credits, grants_card_priority")
+    .eq("is_active", true)
+    .order("sort_order");
+  if (error) throw error;
+
+  const plans = data || [];
+  const regular = planId
+    ? plans.find(p => p.id === planId)
+    : plans.find(p => !p.grants_card_priority);
+  return {
+    regular: (regular ?? null) as ImportPlan | null,
+    card: (plans.find(p => p.grants_card_priority) ?? null) as ImportPlan | null,
+  };
+}
+
+// Creates the account and sends the invitation. The profile comes from the signup
+// trigger; the role and a starting membership are added here. If any of that fails the
+// invited account is deleted again, so the row can simply be imported once more.
+async function createMember(
+  supabase: SupabaseClient,
+  row: ValidRow,
+  plan: ImportPlan,
+  createdBy: string,
+  redirectTo?: string
+) {
+  const { data: invite, error: inviteError } = await supabase.auth.admin.inviteUserByEmail(row.email, {
+    data: { full_name: row.full_name, member_type: row.member_type },
+    redirectTo,
+  });
+  if (inviteError || !invite.user) throw inviteError || new Error("Invite failed");
+
+  const userId = invite.user.id;
+
+  try {
+    await setUpMember(supabase, userId, row, plan, createdBy);
+  } catch (error) {
+    const { error: deleteError } = await supabase.auth.admin.deleteUser(userId);
+    if (deleteError) console.error(`Could not remove invited user ${userId}:`, deleteError);
+    throw error;
+  }
+}
+
+async function setUpMember(supabase: SupabaseClient, userId: string, row: ValidRow, plan: ImportPlan, createdBy: string) {
+  const { error: profileError } = await supabase
+    .from("profiles")
+    .update({ phone: row.phone, preferred_language: row.language })
+    .eq("user_id", userId);
+  if (profileError) throw profileError;
+
+  const { error: roleError } = await supabase.from("user_roles").insert({
+    user_id: userId,
+    role: row.member_type === "card" ? "card_member" : "member",
+    is_approved: true,
+  });
+  if (roleError) throw roleError;
+
+  // Booking needs a membership. Membership dates are in the club's local time.
+  const today = clubToday(await getClubTimeZone(supabase));
+  const endsOn = new Date(Date.parse(today) + (plan.duration_days - 1) * 86400000).toISOString().slice(0, 10);
+  const { error: membershipError } = await supabase.from("memberships").insert({
+    user_id: userId,
+    plan_id: plan.id,
+    starts_on: today,
+    ends_on: endsOn,
+    credits_remaining: plan.credits,
+    created_by: createdBy,
+  });
+  if (membershipError) throw membershipError;
+}
+
+// Admin bulk import of members from a parsed CSV, with a dry run that reports what
+// would be created before anything is written
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Verify caller is an admin
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: caller.id, _role: "admin" });
+    if (!isAdmin) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { rows, dryRun, redirectTo, planId }: ImportRequest = await req.json();
+    if (!Array.isArray(rows) || rows.length === 0 || rows.length > MAX_ROWS) {
+      return new Response(JSON.stringify({ error: `Between 1 and ${MAX_ROWS} rows required` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // New accounts are attributed to the importing admin in the audit log
+    const db = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(caller.id, "import-members") },
+    });
+
+    const plans = await getImportPlans(supabase, planId);
+    if (planId && !plans.regular) {
+      return new Response(JSON.stringify({ error: "Membership plan not found" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const results: RowResult[] = [];
+    const seenEmails = new Set<string>();
+
+    for (const [index, row] of rows.entries()) {
+      const { valid, errors } = validateRow(row);
+      const result: RowResult = { row: index + 1, email: valid?.email || (row.email || "").trim(), status: "ready", errors };
+      results.push(result);
+
+      if (!valid) {
+        result.status = "invalid";
+        continue;
+      }
+
+      const plan = valid.member_type === "card" ? plans.card : plans.regular;
+      if (!plan) {
+        result.status = "invalid";
+        result.errors.push("no_plan");
+        continue;
+      }
+
+      // Duplicates within the file and against existing accounts
+      if (seenEmails.has(valid.email)) {
+        result.status = "duplicate";
+        result.errors.push("duplicate_in_file");
+        continue;
+      }
+      seenEmails.add(valid.email);
+
+      const { data: exists } = await supabase.rpc("check_email_exists", { p_email: valid.email });
+      if (exists) {
+        result.status = "duplicate";
+        result.errors.push("email_exists");
+        continue;
+      }
+
+      if (dryRun) continue;
+
+      try {
+        await createMember(db, valid, plan, caller.id, redirectTo);
+        result.status = "created";
+      } catch (error) {
+        console.error(`Import failed for row ${result.row}:`, error);
+        result.status = "failed";
+        result.errors.push(error instanceof Error ? error.message : "create_failed");
+      }
+    }
+
+    const count = (status: RowStatus) => results.filter(r => r.status === status).length;
+    console.log(
+      `Member import by ${caller.id} (${dryRun ? "dry run" : "commit"}): ` +
+        `${count("ready") + count("created")} ok, ${count("invalid")} invalid, ` +
+        `${count("duplicate")} duplicate, ${count("failed")} failed`,
+    );
+
+    return new Response(JSON.stringify({ dryRun, results }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error importing members:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
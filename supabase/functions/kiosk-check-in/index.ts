@@ -0,0 +1,189 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { checkInMember, getCheckInWorkouts, verifyCheckInToken } from "../_shared/checkIn.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface KioskRequest {
+  action: "workouts" | "check_in" | "walk_in";
+  // Members identify themselves with either their QR token or their PIN
+  token?: string;
+  pin?: string;
+  workoutId?: string;
+}
+
+type Identity =
+  | { userId: string }
+  | { status: "invalid_token" | "expired_token" | "invalid_pin" };
+
+async function identifyMember(supabase: SupabaseClient, body: KioskRequest): Promise<Identity> {
+  let userId: string | null = null;
+
+  if (body.token) {
+    const tokenCheck = await verifyCheckInToken(body.token);
+    if (!tokenCheck.valid) return { status: tokenCheck.reason };
+    userId = tokenCheck.userId;
+  } else if (body.pin && /^[0-9]{6}$/.test(body.pin)) {
+    const { data } = await supabase
+      .from("kiosk_pins")
+      .select("user_id")
+      .eq("pin", body.pin)
+      .maybeSingle();
+    userId = data?.user_id ?? null;
+  }
+
+  if (!userId) {
+    return { status: body.token ? "invalid_token" : "invalid_pin" };
+  }
+
+  // Only active members can check in; removed members keep their old PIN row
+  const { data: isMember } = await supabase.rpc("is_member_or_card_member", { _user_id: userId });
+  if (!isMember) {
+    return { status: body.token ? "invalid_token" : "invalid_pin" };
+  }
+
+  return { userId };
+}
+
+// Current workouts with their number of active reservations
+async function getKioskWorkouts(supabase: SupabaseClient) {
+  const workouts = await getCheckInWorkouts(supabase);
+  if (workouts.length === 0) return [];
+
+  const { data: reservations } = await supabase
+    .from("reservations")
+    .select("workout_id")
+    .eq("is_active", true)
+    .in("workout_id", workouts.map(w => w.id));
+
+  return workouts.map(w => ({
+    ...w,
+    active_count: reservations?.filter(r => r.workout_id === w.id).length ?? 0,
+  }));
+}
+
+// Reception kiosk: lists the workouts open for check-in, checks members in by QR code or PIN
+// and books walk-ins into free spots. Only the identified member is ever returned.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Verify caller is a kiosk account
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isKiosk } = await supabase.rpc("has_role", { _user_id: caller.id, _role: "kiosk" });
+    if (!isKiosk) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const body: KioskRequest = await req.json();
+    const workouts = await getKioskWorkouts(supabase);
+
+    if (body.action === "workouts") {
+      return new Response(JSON.stringify({ workouts }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.action !== "check_in" && body.action !== "walk_in") {
+      return new Response(JSON.stringify({ error: "Unknown action" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Bad codes and PINs are a normal kiosk outcome, not a request error
+    const identity = await identifyMember(supabase, body);
+    if ("status" in identity) {
+      return new Response(JSON.stringify({ status: identity.status }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // The kiosk can only act on workouts currently open for check-in
+    if (body.workoutId && !workouts.some(w => w.id === body.workoutId)) {
+      return new Response(JSON.stringify({ status: "no_workout" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (body.action === "walk_in") {
+      if (!body.workoutId) {
+        return new Response(JSON.stringify({ error: "workoutId required" }), {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // Book as the kiosk so reserve_workout applies the kiosk rules (free spots only, strikes)
+      const kioskClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: reservation, error: reserveError } = await kioskClient.rpc("reserve_workout", {
+        p_workout_id: body.workoutId,
+        p_user_id: identity.userId,
+      });
+      if (reserveError) throw reserveError;
+
+      const reserveStatus = (reservation as { status: string }).status;
+      console.log(`Kiosk walk-in for ${identity.userId}: ${reserveStatus}`);
+      if (reserveStatus !== "booked" && reserveStatus !== "already_booked") {
+        return new Response(JSON.stringify({ status: reserveStatus }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    const db = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(caller.id, "kiosk-check-in") },
+    });
+    const result = await checkInMember(db, identity.userId, caller.id, body.workoutId);
+    console.log(`Kiosk check-in for ${identity.userId}: ${result.status}`);
+
+    // Let the kiosk offer a free spot to members who turned up without booking
+    const workout = result.workout && workouts.find(w => w.id === result.workout!.id);
+    const spotsLeft = workout ? Math.max(0, workout.max_spots - workout.active_count) : 0;
+
+    return new Response(JSON.stringify({
+      status: result.status,
+      workout: result.workout,
+      member: result.member && { full_name: result.member.full_name },
+      spots_left: result.status === "no_reservation" ? spotsLeft : undefined,
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in kiosk check-in:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -15,7 +15,7 @@ Deno.serve(async (req) => {
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    // Verify caller is staff/admin
+    // Verify caller is staff with the manage_members permission
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -33,9 +33,8 @@ Deno.serve(async (req) => {
       });
     }
 
-    // Check caller is staff or admin
-    const { data: isStaff } = await supabase.rpc("is_staff_or_admin", { _user_id: caller.id });
-    if (!isStaff) {
+    const { data: isAllowed } = await supabase.rpc("has_permission", { _user_id: caller.id, _permission: "manage_members" });
+    if (!isAllowed) {
       return new Response(JSON.stringify({ error: "Forbidden" }), {
         status: 403,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
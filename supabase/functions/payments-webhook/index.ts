@@ -0,0 +1,79 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { getPaymentProvider } from "../_shared/payments/provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Payment provider callback: activates the membership once a payment succeeds.
+// Not authenticated with a user JWT; the provider verifies the event signature.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(null, "payments-webhook") },
+    });
+
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return new Response(JSON.stringify({ error: "Payments are not configured" }), {
+        status: 503,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const event = await provider.parseWebhook(req);
+    if (!event) {
+      return new Response(JSON.stringify({ error: "Invalid webhook" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: payment } = await supabase
+      .from("payments")
+      .select("id, status")
+      .eq("provider", provider.name)
+      .eq("provider_session_id", event.sessionId)
+      .maybeSingle();
+
+    if (!payment) {
+      return new Response(JSON.stringify({ error: "Unknown session" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (event.type === "payment_succeeded") {
+      const { data: membershipId, error } = await supabase.rpc("complete_payment", {
+        p_payment_id: payment.id,
+        p_provider_payment_id: event.providerPaymentId,
+      });
+      if (error) throw error;
+      console.log(`Payment ${payment.id} succeeded, membership ${membershipId}`);
+    } else if (payment.status === "pending") {
+      await supabase
+        .from("payments")
+        .update({ status: "failed", failure_reason: event.reason })
+        .eq("id", payment.id);
+      console.log(`Payment ${payment.id} failed: ${event.reason}`);
+    }
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error handling payment webhook:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
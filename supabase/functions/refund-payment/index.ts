@@ -0,0 +1,99 @@
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
+import { getPaymentProvider } from "../_shared/payments/provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface RefundBody {
+  paymentId: string;
+}
+
+// Staff refund a membership payment in full; the membership it paid for is cancelled
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Verify caller is staff with the manage_members permission
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: isAllowed } = await supabase.rpc("has_permission", { _user_id: caller.id, _permission: "manage_members" });
+    if (!isAllowed) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { paymentId }: RefundBody = await req.json();
+    const { data: payment } = await supabase
+      .from("payments")
+      .select("id, provider, provider_payment_id, amount_cents, status")
+      .eq("id", paymentId)
+      .maybeSingle();
+
+    if (!payment || payment.status !== "succeeded" || !payment.provider_payment_id) {
+      return new Response(JSON.stringify({ error: "Only succeeded payments can be refunded" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Refunds go back through the provider that took the payment
+    const provider = getPaymentProvider();
+    if (!provider || provider.name !== payment.provider) {
+      return new Response(JSON.stringify({ error: `Payment provider ${payment.provider} is not configured` }), {
+        status: 503,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { refundId } = await provider.refund(payment.provider_payment_id, payment.amount_cents);
+
+    // The refund and the cancelled membership are attributed to the caller in the audit log
+    const db = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(caller.id, "refund-payment") },
+    });
+    const { error: recordError } = await db.rpc("record_payment_refund", {
+      p_payment_id: payment.id,
+      p_provider_refund_id: refundId,
+      p_refunded_by: caller.id,
+    });
+    if (recordError) throw recordError;
+
+    console.log(`Payment ${payment.id} refunded by ${caller.id}: ${refundId}`);
+
+    return new Response(JSON.stringify({ success: true, refundId }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error refunding payment:", error);
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { auditHeaders } from "../_shared/audit.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -15,7 +16,7 @@ Deno.serve(async (req) => {
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    // Verify caller is staff/admin
+    // Verify caller is staff with the manage_members permission
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
@@ -33,14 +34,19 @@ Deno.serve(async (req) => {
       });
     }
 
-    const { data: isStaff } = await supabase.rpc("is_staff_or_admin", { _user_id: caller.id });
-    if (!isStaff) {
+    const { data: isAllowed } = await supabase.rpc("has_permission", { _user_id: caller.id, _permission: "manage_members" });
+    if (!isAllowed) {
       return new Response(JSON.stringify({ error: "Forbidden" }), {
         status: 403,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
 
+    // Writes are attributed to the caller in the audit log
+    const db = createClient(supabaseUrl, serviceRoleKey, {
+      global: { headers: auditHeaders(caller.id, "restore-member") },
+    });
+
     const { userId, isHardDeleted } = await req.json();
     if (!userId) {
       return new Response(JSON.stringify({ error: "userId required" }), {
@@ -60,7 +66,7 @@ Deno.serve(async (req) => {
       }
 
       // Recreate profile
-      const { error: insertError } = await supabase.from("profiles").insert({
+      const { error: insertError } = await db.from("profiles").insert({
         user_id: authUser.id,
         email: authUser.email || "",
         full_name: authUser.user_metadata?.full_name || "",
@@ -76,7 +82,7 @@ Deno.serve(async (req) => {
       }
 
       // Add member role
-      await supabase.from("user_roles").insert({
+      await db.from("user_roles").insert({
         user_id: authUser.id,
         role: "member",
         is_approved: true,
@@ -87,7 +93,7 @@ Deno.serve(async (req) => {
       });
     } else {
       // Soft-deleted: clear removed_at and re-add role
-      const { error: updateError } = await supabase
+      const { error: updateError } = await db
         .from("profiles")
         .update({ removed_at: null })
         .eq("user_id", userId);
@@ -100,7 +106,7 @@ Deno.serve(async (req) => {
       }
 
       // Re-add member role
-      await supabase.from("user_roles").insert({
+      await db.from("user_roles").insert({
         user_id: userId,
         role: "member",
         is_approved: true,
@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 
 const corsHeaders = {
@@ -20,6 +20,39 @@ interface StaffApprovalRequest {
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
+// Used when nobody holds approve_staff yet, so requests are never lost
+const FALLBACK_APPROVER_EMAIL = "slavovdimitar11@gmail.com";
+
+// Everyone who can act on the request: admins and staff granted approve_staff
+async function getApproverEmails(supabase: SupabaseClient): Promise<string[]> {
+  const { data: roles, error: rolesError } = await supabase
+    .from("user_roles")
+    .select("user_id")
+    .in("role", ["staff", "admin"])
+    .eq("is_approved", true);
+  if (rolesError) throw rolesError;
+
+  const candidateIds: string[] = [...new Set<string>((roles || []).map(r => r.user_id))];
+  const checks = await Promise.all(
+    candidateIds.map(async (userId) => {
+      const { data } = await supabase.rpc("has_permission", { _user_id: userId, _permission: "approve_staff" });
+      return data ? userId : null;
+    })
+  );
+  const approverIds = checks.filter((id): id is string => !!id);
+  if (approverIds.length === 0) return [FALLBACK_APPROVER_EMAIL];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from("profiles")
+    .select("email")
+    .in("user_id", approverIds)
+    .is("removed_at", null);
+  if (profilesError) throw profilesError;
+
+  const emails = [...new Set<string>((profiles || []).map(p => p.email).filter(Boolean))];
+  return emails.length > 0 ? emails : [FALLBACK_APPROVER_EMAIL];
+}
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -37,12 +70,12 @@ const handler = async (req: Request): Promise<Response> => {
     }
 
     const resend = new Resend(resendApiKey);
-    const adminEmail = "slavovdimitar11@gmail.com";
 
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
+    const approverEmails = await getApproverEmails(supabase);
 
     const body = await req.json();
     const { sendPending } = body;
@@ -79,7 +112,7 @@ const handler = async (req: Request): Promise<Response> => {
         await sleep(600);
 
         try {
-          await sendApprovalEmail(resend, adminEmail, approval);
+          await sendApprovalEmail(resend, approverEmails, approval);
           results.push({ user_id: approval.user_id, ok: true });
         } catch (e: any) {
           console.error("Failed sending approval email:", e);
@@ -148,7 +181,7 @@ const handler = async (req: Request): Promise<Response> => {
       });
     }
 
-    await sendApprovalEmail(resend, adminEmail, pendingApproval);
+    await sendApprovalEmail(resend, approverEmails, pendingApproval);
 
     return new Response(JSON.stringify({ success: true, message: "Approval email sent" }), {
       status: 200,
@@ -163,7 +196,7 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-async function sendApprovalEmail(resend: any, adminEmail: string, approval: any) {
+async function sendApprovalEmail(resend: any, approverEmails: string[], approval: any) {
   const baseUrl = Deno.env.get("SUPABASE_URL");
   const approveUrl = `${baseUrl}/functions/v1/approve-staff?userId=${encodeURIComponent(approval.user_id)}&token=${encodeURIComponent(approval.approval_token)}&action=approve`;
   const denyUrl = `${baseUrl}/functions/v1/approve-staff?userId=${encodeURIComponent(approval.user_id)}&token=${encodeURIComponent(approval.approval_token)}&action=deny`;
@@ -225,7 +258,7 @@ async function sendApprovalEmail(resend: any, adminEmail: string, approval: any)
   for (let attempt = 1; attempt <= 3; attempt++) {
     const emailResponse = await resend.emails.send({
       from: "NZ Sport Club <onboarding@resend.dev>",
-      to: [adminEmail],
+      to: approverEmails,
       subject: `Staff Request: ${approval.full_name || approval.email}`,
       html: emailHtml,
     });
@@ -0,0 +1,119 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { clubNow, getClubTimeZone } from "../_shared/clubTime.ts";
+import { dispatchNotification } from "../_shared/notifications/dispatcher.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Hand-offs older than this are left alone; the member has long seen them in the app
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+interface WaitlistHandOff {
+  id: string;
+  workout_id: string;
+  user_id: string;
+  status: "pending" | "promoted";
+  expires_at: string | null;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Called by the database when spots are handed out
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+
+    // Claim the hand-offs before sending, so an overlapping call cannot send them again
+    const { data: claimed, error: claimError } = await supabase
+      .from("waitlist_offers")
+      .update({ notified_at: new Date().toISOString() })
+      .is("notified_at", null)
+      .in("status", ["pending", "promoted"])
+      .gte("created_at", new Date(Date.now() - MAX_AGE_MS).toISOString())
+      .select("id, workout_id, user_id, status, expires_at");
+
+    if (claimError) throw claimError;
+
+    const handOffs = (claimed || []) as WaitlistHandOff[];
+    if (handOffs.length === 0) {
+      return jsonResponse({ message: "Nothing to send", offered: 0, promoted: 0 });
+    }
+
+    const { data: workouts, error: workoutsError } = await supabase
+      .from("workouts")
+      .select("id, title, title_bg, workout_date, start_time")
+      .in("id", [...new Set(handOffs.map(h => h.workout_id))]);
+
+    if (workoutsError) throw workoutsError;
+
+    const timeZone = await getClubTimeZone(supabase);
+    let offered = 0;
+    let promoted = 0;
+
+    for (const workout of workouts || []) {
+      const forWorkout = handOffs.filter(h => h.workout_id === workout.id);
+      const details = {
+        workoutId: workout.id,
+        workoutTitle: workout.title,
+        workoutTitleBg: workout.title_bg,
+        workoutDate: workout.workout_date,
+        workoutTime: workout.start_time?.slice(0, 5) || "",
+      };
+
+      // Each offer has its own accept/decline links and expiry, so they go out one by one
+      for (const offer of forWorkout.filter(h => h.status === "pending")) {
+        try {
+          await dispatchNotification(supabase, {
+            type: "waitlist_offer",
+            ...details,
+            offerId: offer.id,
+            offerExpiresAt: offer.expires_at ? clubNow(timeZone, new Date(offer.expires_at)).time.slice(0, 5) : "",
+            targetUserIds: [offer.user_id],
+          });
+          offered++;
+        } catch (error) {
+          console.error(`Failed to send waitlist offer ${offer.id}:`, error);
+        }
+      }
+
+      const promotedUserIds = forWorkout.filter(h => h.status === "promoted").map(h => h.user_id);
+      if (promotedUserIds.length > 0) {
+        try {
+          await dispatchNotification(supabase, {
+            type: "waiting_list_promoted",
+            ...details,
+            targetUserIds: promotedUserIds,
+          });
+          promoted += promotedUserIds.length;
+        } catch (error) {
+          console.error(`Failed to send waiting list promotions for ${workout.id}:`, error);
+        }
+      }
+    }
+
+    console.log(`Waiting list notifications: ${offered} offers, ${promoted} promotions`);
+    return jsonResponse({ offered, promoted });
+  } catch (error) {
+    console.error("Error in send-waitlist-offers:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
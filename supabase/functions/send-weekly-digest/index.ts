@@ -0,0 +1,193 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { clubToday, getClubTimeZone } from "../_shared/clubTime.ts";
+import { escapeHtml, getSiteUrl, renderEmail, type EmailLanguage } from "../_shared/email/layout.ts";
+import { getMailTransport } from "../_shared/email/transport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Members opt in with this pseudo-type in notification_preferences
+const DIGEST_TYPE = "weekly_digest";
+
+const TEXT = {
+  en: {
+    subject: "NZ Sport Club: next week's schedule",
+    heading: "Next week at NZ",
+    intro: "These are the workouts coming up next week. Tap one to book your spot.",
+    book: "Book",
+  },
+  bg: {
+    subject: "NZ Sport Club: графикът за следващата седмица",
+    heading: "Следващата седмица в NZ",
+    intro: "Това са тренировките през следващата седмица. Натиснете някоя, за да запазите място.",
+    book: "Запази",
+  },
+};
+
+interface DigestWorkout {
+  id: string;
+  title: string;
+  title_bg: string | null;
+  workout_date: string;
+  start_time: string;
+  end_time: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+// Monday to Sunday of the week after the current one, in club time
+function getNextWeek(timeZone: string): { from: string; to: string } {
+  const today = clubToday(timeZone);
+  const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+  const from = addDays(today, ((8 - weekday) % 7) || 7);
+  return { from, to: addDays(from, 6) };
+}
+
+function formatDay(date: string, language: EmailLanguage): string {
+  return new Intl.DateTimeFormat(language === "bg" ? "bg-BG" : "en-GB", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  }).format(new Date(`${date}T00:00:00Z`));
+}
+
+function renderDigest(workouts: DigestWorkout[], language: EmailLanguage): { html: string; text: string } {
+  const text = TEXT[language];
+  const siteUrl = getSiteUrl();
+  const days = new Map<string, DigestWorkout[]>();
+  for (const workout of workouts) {
+    days.set(workout.workout_date, [...(days.get(workout.workout_date) || []), workout]);
+  }
+
+  const htmlParts: string[] = [`<p style="margin:0 0 16px;line-height:1.5">${escapeHtml(text.intro)}</p>`];
+  const textParts: string[] = [text.intro];
+
+  for (const [date, dayWorkouts] of days) {
+    const day = formatDay(date, language);
+    htmlParts.push(`<h2 style="font-size:16px;margin:16px 0 8px">${escapeHtml(day)}</h2>`);
+    textParts.push("", day);
+
+    for (const workout of dayWorkouts) {
+      const title = language === "bg" && workout.title_bg ? workout.title_bg : workout.title;
+      const time = `${workout.start_time.slice(0, 5)}–${workout.end_time.slice(0, 5)}`;
+      const url = `${siteUrl}/dashboard?workout=${workout.id}`;
+      htmlParts.push(
+        `<p style="margin:0 0 8px;line-height:1.5">${escapeHtml(time)} · ${escapeHtml(title)} · ` +
+          `<a href="${escapeHtml(url)}" style="color:#7C3AED">${escapeHtml(text.book)}</a></p>`
+      );
+      textParts.push(`${time} ${title}: ${url}`);
+    }
+  }
+
+  return {
+    html: renderEmail({ language, heading: text.heading, bodyHtml: htmlParts.join("\n") }),
+    text: textParts.join("\n"),
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduled job may send the digest to everyone
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const transport = getMailTransport();
+    if (!transport) {
+      console.log("No mail transport configured, skipping weekly digest");
+      return jsonResponse({ message: "Email is not configured", sent: 0 });
+    }
+
+    const supabase = createClient(supabaseUrl, serviceRoleKey);
+    const { from, to } = getNextWeek(await getClubTimeZone(supabase));
+
+    const { data: workouts, error: workoutsError } = await supabase
+      .from("workouts")
+      .select("id, title, title_bg, workout_date, start_time, end_time")
+      .gte("workout_date", from)
+      .lte("workout_date", to)
+      .order("workout_date", { ascending: true })
+      .order("start_time", { ascending: true });
+
+    if (workoutsError) throw workoutsError;
+
+    if (!workouts || workouts.length === 0) {
+      console.log(`No workouts between ${from} and ${to}, skipping weekly digest`);
+      return jsonResponse({ message: "No workouts next week", sent: 0 });
+    }
+
+    const { data: subscribers, error: subscribersError } = await supabase
+      .from("notification_preferences")
+      .select("user_id")
+      .eq("notification_type", DIGEST_TYPE)
+      .eq("channel", "email")
+      .eq("enabled", true);
+
+    if (subscribersError) throw subscribersError;
+
+    const userIds = (subscribers || []).map(s => s.user_id);
+    if (userIds.length === 0) {
+      return jsonResponse({ message: "No subscribers", sent: 0 });
+    }
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("user_id, email, preferred_language")
+      .in("user_id", userIds)
+      .is("removed_at", null);
+
+    if (profilesError) throw profilesError;
+
+    // Each language is rendered once and reused for every member reading it
+    const rendered: Partial<Record<EmailLanguage, { html: string; text: string }>> = {};
+    let sent = 0;
+    let failed = 0;
+
+    for (const profile of profiles || []) {
+      if (!profile.email) continue;
+      const language: EmailLanguage = profile.preferred_language === "bg" ? "bg" : "en";
+      const digest = rendered[language] ??= renderDigest(workouts, language);
+
+      try {
+        await transport.send({
+          to: profile.email,
+          subject: TEXT[language].subject,
+          html: digest.html,
+          text: digest.text,
+        });
+        sent++;
+      } catch (error) {
+        failed++;
+        console.error(`Weekly digest to ${profile.user_id} failed:`, error);
+      }
+    }
+
+    console.log(`Weekly digest for ${from}..${to}: ${sent} sent, ${failed} failed`);
+    return jsonResponse({ from, to, sent, failed });
+  } catch (error) {
+    console.error("Error in send-weekly-digest:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
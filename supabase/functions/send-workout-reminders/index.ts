@@ -1,11 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "npm:@supabase/supabase-js@2";
+import { dispatchNotification } from "../_shared/notifications/dispatcher.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+interface DueReminder {
+  reservation_id: string;
+  user_id: string;
+  workout_id: string;
+  offset_minutes: number;
+  days_until: number;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -16,124 +25,90 @@ serve(async (req) => {
     const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    // Find workouts starting in the next 2 hours that haven't been reminded yet
-    const now = new Date();
-    const twoHoursFromNow = new Date(now.getTime() + 2 * 60 * 60 * 1000);
-    
-    const todayStr = now.toISOString().split('T')[0];
-    const twoHoursDate = twoHoursFromNow.toISOString().split('T')[0];
-
-    // Get workouts happening today or tomorrow (within 2 hour window)
-    const { data: workouts, error: workoutsError } = await supabase
-      .from("workouts")
-      .select("*")
-      .gte("workout_date", todayStr)
-      .lte("workout_date", twoHoursDate);
+    // Every (booking, lead time) pair whose reminder is due and not sent yet
+    const { data: due, error: dueError } = await supabase.rpc("get_due_workout_reminders");
 
-    if (workoutsError) {
-      console.error("Error fetching workouts:", workoutsError);
-      throw workoutsError;
+    if (dueError) {
+      console.error("Error fetching due reminders:", dueError);
+      throw dueError;
     }
 
-    if (!workouts || workouts.length === 0) {
-      console.log("No upcoming workouts found");
+    if (!due || due.length === 0) {
+      console.log("No reminders due");
       return new Response(
-        JSON.stringify({ message: "No upcoming workouts", reminded: 0 }),
+        JSON.stringify({ message: "No reminders due", reminded: 0 }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    let totalReminded = 0;
-
-    for (const workout of workouts) {
-      // Build the full workout datetime
-      const workoutDateTime = new Date(`${workout.workout_date}T${workout.start_time}`);
-      const diffMs = workoutDateTime.getTime() - now.getTime();
-      const diffMinutes = diffMs / (1000 * 60);
-
-      // Only remind if workout is between 90 and 150 minutes away (roughly 2 hours)
-      if (diffMinutes < 90 || diffMinutes > 150) {
-        continue;
+    // Claim the reminders before sending, so an overlapping run cannot send them again
+    const { data: claimed, error: claimError } = await supabase
+      .from("workout_reminders")
+      .upsert(
+        (due as DueReminder[]).map(r => ({ reservation_id: r.reservation_id, offset_minutes: r.offset_minutes })),
+        { onConflict: "reservation_id,offset_minutes", ignoreDuplicates: true }
+      )
+      .select("reservation_id, offset_minutes");
+
+    if (claimError) throw claimError;
+
+    const claimedKeys = new Set((claimed || []).map(c => `${c.reservation_id}:${c.offset_minutes}`));
+
+    // When several lead times are due at once (the job was down, or the member booked
+    // late) only the closest one is sent; the others are recorded as done
+    const closest = new Map<string, DueReminder>();
+    for (const reminder of due as DueReminder[]) {
+      if (!claimedKeys.has(`${reminder.reservation_id}:${reminder.offset_minutes}`)) continue;
+      const current = closest.get(reminder.reservation_id);
+      if (!current || reminder.offset_minutes < current.offset_minutes) {
+        closest.set(reminder.reservation_id, reminder);
       }
+    }
 
-      // Check if we already sent a reminder for this workout
-      const { data: existingReminders } = await supabase
-        .from("notification_queue")
-        .select("id")
-        .eq("workout_id", workout.id)
-        .eq("notification_type", "workout_reminder")
-        .limit(1);
+    const byWorkout = new Map<string, DueReminder[]>();
+    for (const reminder of closest.values()) {
+      byWorkout.set(reminder.workout_id, [...(byWorkout.get(reminder.workout_id) || []), reminder]);
+    }
 
-      if (existingReminders && existingReminders.length > 0) {
-        console.log(`Reminder already sent for workout ${workout.id}`);
-        continue;
-      }
+    if (byWorkout.size === 0) {
+      return new Response(
+        JSON.stringify({ message: "Reminders already claimed", reminded: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-      // Get active reservations for this workout
-      const { data: reservations } = await supabase
-        .from("reservations")
-        .select("user_id")
-        .eq("workout_id", workout.id)
-        .eq("is_active", true);
+    const { data: workouts, error: workoutsError } = await supabase
+      .from("workouts")
+      .select("id, title, title_bg, workout_date, start_time")
+      .in("id", [...byWorkout.keys()]);
 
-      if (!reservations || reservations.length === 0) {
-        continue;
-      }
+    if (workoutsError) {
+      console.error("Error fetching workouts:", workoutsError);
+      throw workoutsError;
+    }
 
-      const userIds = reservations.map(r => r.user_id);
-      const timeStr = workout.start_time?.slice(0, 5) || '';
-
-      // Get user language preferences
-      const { data: profiles } = await supabase
-        .from("profiles")
-        .select("user_id, preferred_language")
-        .in("user_id", userIds);
-
-      // Insert reminder notifications into notification_queue
-      const notificationRecords = userIds.map(userId => {
-        const lang = profiles?.find(p => p.user_id === userId)?.preferred_language || 'en';
-        const isBg = lang === 'bg';
-        return {
-          user_id: userId,
-          workout_id: workout.id,
-          notification_type: "workout_reminder",
-          message: `⏰ Reminder: "${workout.title}" starts at ${timeStr} today!`,
-          message_bg: `⏰ Напомняне: "${workout.title_bg || workout.title}" започва в ${timeStr} днес!`,
-          is_sent: true,
-          scheduled_for: new Date().toISOString(),
-        };
-      });
-
-      const { error: insertError } = await supabase
-        .from("notification_queue")
-        .insert(notificationRecords);
-
-      if (insertError) {
-        console.error("Error inserting reminder notifications:", insertError);
-        continue;
-      }
+    let totalReminded = 0;
 
-      // Send push notifications via unified-notification
+    for (const workout of workouts || []) {
+      const reminders = byWorkout.get(workout.id) || [];
+      const daysUntil = reminders[0]?.days_until;
+      const userIds = reminders.map(r => r.user_id);
+
+      // The dispatcher stores the in-app reminder and pushes it
       try {
-        const functionUrl = `${supabaseUrl}/functions/v1/unified-notification`;
-        await fetch(functionUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${serviceRoleKey}`,
-          },
-          body: JSON.stringify({
-            type: "workout_reminder",
-            workoutId: workout.id,
-            workoutTitle: workout.title,
-            workoutTitleBg: workout.title_bg,
-            workoutDate: workout.workout_date,
-            workoutTime: timeStr,
-            targetUserIds: userIds,
-          }),
+        await dispatchNotification(supabase, {
+          type: "workout_reminder",
+          workoutId: workout.id,
+          workoutTitle: workout.title,
+          workoutTitleBg: workout.title_bg,
+          workoutDate: workout.workout_date,
+          workoutTime: workout.start_time?.slice(0, 5) || "",
+          workoutDay: daysUntil === 0 ? "today" : daysUntil === 1 ? "tomorrow" : undefined,
+          targetUserIds: userIds,
         });
       } catch (e) {
-        console.error("Failed to send push reminders:", e);
+        console.error("Failed to send reminders:", e);
+        continue;
       }
 
       totalReminded += userIds.length;
@@ -0,0 +1,155 @@
+-- Recurring workout series: a weekly template that generates individual workouts rows.
+CREATE TABLE public.workout_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  title_bg TEXT,
+  description TEXT,
+  description_bg TEXT,
+  -- Days of week using JavaScript getDay() numbering (0 = Sunday ... 6 = Saturday)
+  weekdays SMALLINT[] NOT NULL CHECK (array_length(weekdays, 1) > 0 AND weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  max_spots INTEGER NOT NULL DEFAULT 10,
+  card_priority_enabled BOOLEAN DEFAULT true,
+  auto_reserve_enabled BOOLEAN DEFAULT true,
+  reservation_opens_hours INTEGER DEFAULT 24,
+  workout_type TEXT NOT NULL DEFAULT 'early' CHECK (workout_type IN ('early', 'late')),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (ends_on >= starts_on),
+  -- Keep a single series to at most one year of occurrences
+  CHECK (ends_on - starts_on <= 366)
+);
+
+ALTER TABLE public.workout_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view workout series"
+ON public.workout_series
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can insert workout series"
+ON public.workout_series
+FOR INSERT
+WITH CHECK (is_staff_or_admin(auth.uid()));
+
+CREATE POLICY "Staff can update workout series"
+ON public.workout_series
+FOR UPDATE
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE POLICY "Staff can delete workout series"
+ON public.workout_series
+FOR DELETE
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE TRIGGER update_workout_series_updated_at
+  BEFORE UPDATE ON public.workout_series
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link generated workouts back to their series (one-off workouts keep series_id NULL)
+ALTER TABLE public.workouts
+ADD COLUMN series_id UUID REFERENCES public.workout_series(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX workouts_series_date_unique
+ON public.workouts (series_id, workout_date)
+WHERE series_id IS NOT NULL;
+
+-- Generate the missing occurrences of a series from today (or its start date) until its end date.
+-- Runs with the caller's rights, so the workouts RLS policies still restrict this to staff.
+CREATE OR REPLACE FUNCTION public.generate_workout_series(p_series_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.workouts (
+    title, title_bg, description, description_bg,
+    workout_date, start_time, end_time, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    workout_type, created_by, series_id
+  )
+  SELECT
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg,
+    d::date, v_series.start_time, v_series.end_time, v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.workout_type, v_series.created_by, v_series.id
+  FROM generate_series(GREATEST(v_series.starts_on, CURRENT_DATE), v_series.ends_on, interval '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::smallint = ANY (v_series.weekdays)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workouts w
+      WHERE w.series_id = v_series.id
+        AND w.workout_date = d::date
+    );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+-- Split a series at the given date ("this and following").
+-- Occurrences on or after p_from move to a copy of the series that starts at p_from,
+-- and the original series is shortened to end the day before. Returns the series id
+-- that now owns the following occurrences (the same id when p_from is the first day).
+CREATE OR REPLACE FUNCTION public.split_workout_series(p_series_id uuid, p_from date)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout series % not found', p_series_id;
+  END IF;
+
+  IF p_from <= v_series.starts_on THEN
+    RETURN v_series.id;
+  END IF;
+
+  INSERT INTO public.workout_series (
+    title, title_bg, description, description_bg, weekdays,
+    start_time, end_time, starts_on, ends_on, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    workout_type, created_by
+  )
+  VALUES (
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg, v_series.weekdays,
+    v_series.start_time, v_series.end_time, p_from, GREATEST(v_series.ends_on, p_from), v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.workout_type, v_series.created_by
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE public.workouts
+  SET series_id = v_new_id
+  WHERE series_id = v_series.id
+    AND workout_date >= p_from;
+
+  UPDATE public.workout_series
+  SET ends_on = LEAST(ends_on, p_from - 1)
+  WHERE id = v_series.id;
+
+  RETURN v_new_id;
+END;
+$$;
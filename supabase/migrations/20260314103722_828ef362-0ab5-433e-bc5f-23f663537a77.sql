@@ -0,0 +1,211 @@
+-- Atomic server-side reservation.
+-- Locks the workout row so concurrent bookings are serialized, enforces the booking
+-- window, the card member priority period and max_spots, and either books the member
+-- or puts them on the waiting list.
+--
+-- p_user_id lets staff book on behalf of a member; staff bookings skip the opening
+-- and priority windows but still respect capacity.
+--
+-- Returns a JSON object:
+--   { status, reservation_id, waiting_position, active_count, max_spots }
+-- where status is one of: booked, already_booked, waitlisted, already_waitlisted,
+-- not_open, priority_only, passed, not_allowed, not_found.
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+
+  IF v_on_behalf AND NOT public.is_staff_or_admin(v_caller) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Workout times are stored in the club's local time
+  v_starts_at := (v_workout.workout_date + v_workout.start_time) AT TIME ZONE 'Europe/Sofia';
+  v_ends_at := (v_workout.workout_date + v_workout.end_time) AT TIME ZONE 'Europe/Sofia';
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, 24);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the first half of the booking window
+  v_priority_ends_at := v_starts_at - make_interval(secs => v_opens_hours * 3600 / 2.0);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.get_member_type(v_user) = 'card'
+      OR public.has_role(v_user, 'card_member');
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.reserve_workout TO authenticated;
+
+-- Waiting list promotion takes the same workout lock so it cannot race a booking.
+CREATE OR REPLACE FUNCTION public.promote_waiting_list_until_full(p_workout_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_max_spots integer;
+  v_active_count integer;
+  v_promoted_user uuid;
+  v_promoted_count integer := 0;
+BEGIN
+  SELECT max_spots INTO v_max_spots
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF v_max_spots IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  LOOP
+    SELECT COUNT(*)::integer INTO v_active_count
+    FROM public.reservations
+    WHERE workout_id = p_workout_id
+      AND is_active = true;
+
+    EXIT WHEN v_active_count >= v_max_spots;
+
+    -- This function already picks the lowest position active entry first.
+    SELECT public.promote_from_waiting_list(p_workout_id) INTO v_promoted_user;
+
+    EXIT WHEN v_promoted_user IS NULL;
+
+    v_promoted_count := v_promoted_count + 1;
+  END LOOP;
+
+  RETURN v_promoted_count;
+END;
+$$;
+
+-- Members now book only through reserve_workout; direct inserts would bypass capacity.
+DROP POLICY IF EXISTS "Members can create reservations" ON public.reservations;
+
+-- Members may still cancel their own reservations, but not reactivate them directly.
+DROP POLICY IF EXISTS "Users can cancel own reservations" ON public.reservations;
+CREATE POLICY "Users can cancel own reservations"
+ON public.reservations
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND is_active = false);
@@ -0,0 +1,119 @@
+-- Scheduled auto-reserve for card members.
+-- A pg_cron job runs every minute, finds workouts that entered their booking window
+-- (reservation_opens_hours before start) and calls the auto-reserve-card-members edge
+-- function through pg_net exactly once per workout. Every run is recorded in
+-- auto_reserve_runs so staff can see when it fired and what happened.
+--
+-- The job reads the project URL and service role key from Vault:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service-role-key>', 'service_role_key');
+
+CREATE TABLE public.auto_reserve_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workout_id UUID NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  -- schedule (pg_cron), staff (manual button) or workout_created
+  triggered_by TEXT NOT NULL DEFAULT 'schedule' CHECK (triggered_by IN ('schedule', 'staff', 'workout_created')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed')),
+  reserved_count INTEGER NOT NULL DEFAULT 0,
+  message TEXT,
+  request_id BIGINT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX auto_reserve_runs_workout_idx ON public.auto_reserve_runs (workout_id, started_at DESC);
+
+ALTER TABLE public.auto_reserve_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view auto-reserve runs"
+ON public.auto_reserve_runs
+FOR SELECT
+USING (is_staff_or_admin(auth.uid()));
+
+-- Claim every workout that is due and fire the edge function for it.
+-- Claiming sets auto_reserve_executed first, so a workout is never dispatched twice
+-- even if a run overlaps with the next cron tick.
+CREATE OR REPLACE FUNCTION public.run_due_auto_reserves()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_project_url text;
+  v_service_key text;
+  v_workout record;
+  v_run_id uuid;
+  v_request_id bigint;
+  v_dispatched integer := 0;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_key IS NULL THEN
+    RAISE WARNING 'run_due_auto_reserves: project_url or service_role_key missing from vault';
+    RETURN 0;
+  END IF;
+
+  -- Record the outcome of earlier requests that never reached the edge function
+  UPDATE public.auto_reserve_runs r
+  SET status = 'failed',
+      message = COALESCE(resp.error_msg, 'HTTP ' || resp.status_code),
+      finished_at = now()
+  FROM net._http_response resp
+  WHERE r.status = 'pending'
+    AND r.request_id = resp.id
+    AND (resp.error_msg IS NOT NULL OR resp.status_code >= 400);
+
+  FOR v_workout IN
+    SELECT w.id
+    FROM public.workouts w
+    WHERE COALESCE(w.card_priority_enabled, false)
+      AND COALESCE(w.auto_reserve_enabled, false)
+      AND NOT COALESCE(w.auto_reserve_executed, false)
+      -- Workout times are stored in the club's local time
+      AND now() >= ((w.workout_date + w.start_time) AT TIME ZONE 'Europe/Sofia')
+                   - make_interval(hours => COALESCE(w.reservation_opens_hours, 24))
+      AND now() < ((w.workout_date + w.start_time) AT TIME ZONE 'Europe/Sofia')
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.workouts
+    SET auto_reserve_executed = true
+    WHERE id = v_workout.id;
+
+    INSERT INTO public.auto_reserve_runs (workout_id, triggered_by)
+    VALUES (v_workout.id, 'schedule')
+    RETURNING id INTO v_run_id;
+
+    SELECT net.http_post(
+      url := v_project_url || '/functions/v1/auto-reserve-card-members',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || v_service_key
+      ),
+      body := jsonb_build_object('workoutId', v_workout.id, 'runId', v_run_id)
+    ) INTO v_request_id;
+
+    UPDATE public.auto_reserve_runs
+    SET request_id = v_request_id
+    WHERE id = v_run_id;
+
+    v_dispatched := v_dispatched + 1;
+  END LOOP;
+
+  RETURN v_dispatched;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_due_auto_reserves FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'auto-reserve-card-members',
+  '* * * * *',
+  $$ SELECT public.run_due_auto_reserves(); $$
+);
@@ -0,0 +1,61 @@
+-- Live schedule updates.
+-- Members only see their own reservations and waiting list entries through RLS, so
+-- realtime events for other members' bookings never reach them. Every booking change
+-- therefore also touches its workout row, which everyone can see, and clients refetch
+-- the counts when a workout in view changes.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.workouts;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.reservations;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.waiting_list;
+
+CREATE OR REPLACE FUNCTION public.touch_workout_on_booking_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND OLD.is_active IS NOT DISTINCT FROM NEW.is_active
+     AND OLD.workout_id = NEW.workout_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.workouts
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.workout_id, OLD.workout_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_touch_workout ON public.reservations;
+CREATE TRIGGER reservations_touch_workout
+AFTER INSERT OR UPDATE OR DELETE ON public.reservations
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_workout_on_booking_change();
+
+DROP TRIGGER IF EXISTS waiting_list_touch_workout ON public.waiting_list;
+CREATE TRIGGER waiting_list_touch_workout
+AFTER INSERT OR UPDATE OR DELETE ON public.waiting_list
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_workout_on_booking_change();
+
+-- Active reservation and waiting list counts for every workout in a date range,
+-- replacing one count request per workout.
+CREATE OR REPLACE FUNCTION public.get_workout_counts(p_start date, p_end date)
+RETURNS TABLE(workout_id uuid, reservation_count integer, waiting_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    w.id,
+    (SELECT COUNT(*)::integer FROM reservations r WHERE r.workout_id = w.id AND r.is_active = true),
+    (SELECT COUNT(*)::integer FROM waiting_list wl WHERE wl.workout_id = w.id AND wl.is_active = true)
+  FROM workouts w
+  WHERE w.workout_date BETWEEN p_start AND p_end;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workout_counts TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_workout_counts TO anon;
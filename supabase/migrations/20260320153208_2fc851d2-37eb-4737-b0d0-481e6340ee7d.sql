@@ -0,0 +1,487 @@
+-- Late cancellations and no-show strikes.
+-- Cancelling after the cancellation deadline, or being marked as not attended while
+-- booked, gives the member a strike. Once a member reaches the strike threshold they
+-- either cannot book at all or lose card priority, until staff clear their strikes.
+
+-- Club-wide booking rules (a single row)
+CREATE TABLE public.club_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  -- Hours before start after which a cancellation counts as late (0 = never late)
+  cancellation_deadline_hours INTEGER NOT NULL DEFAULT 3 CHECK (cancellation_deadline_hours >= 0),
+  strike_threshold INTEGER NOT NULL DEFAULT 3 CHECK (strike_threshold > 0),
+  strike_penalty TEXT NOT NULL DEFAULT 'block_booking' CHECK (strike_penalty IN ('block_booking', 'lose_priority')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.club_settings (id) VALUES (true);
+
+ALTER TABLE public.club_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view club settings"
+ON public.club_settings
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can update club settings"
+ON public.club_settings
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_club_settings_updated_at
+  BEFORE UPDATE ON public.club_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Per-workout override of the club cancellation deadline (NULL = club default)
+ALTER TABLE public.workouts
+ADD COLUMN cancellation_deadline_hours INTEGER CHECK (cancellation_deadline_hours >= 0);
+
+ALTER TABLE public.workout_series
+ADD COLUMN cancellation_deadline_hours INTEGER CHECK (cancellation_deadline_hours >= 0);
+
+CREATE TABLE public.member_strikes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  workout_id UUID NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('late_cancel', 'no_show')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cleared_at TIMESTAMP WITH TIME ZONE,
+  cleared_by UUID,
+  UNIQUE (user_id, workout_id, reason)
+);
+
+CREATE INDEX member_strikes_active_idx ON public.member_strikes (user_id) WHERE cleared_at IS NULL;
+
+ALTER TABLE public.member_strikes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own strikes"
+ON public.member_strikes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all strikes"
+ON public.member_strikes
+FOR SELECT
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE POLICY "Staff can clear strikes"
+ON public.member_strikes
+FOR UPDATE
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.get_active_strike_count(_user_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COUNT(*)::integer
+  FROM member_strikes
+  WHERE user_id = _user_id
+    AND cleared_at IS NULL;
+$$;
+
+-- The penalty currently applied to a member: NULL, 'block_booking' or 'lose_priority'
+CREATE OR REPLACE FUNCTION public.get_strike_penalty(_user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT CASE
+    WHEN public.get_active_strike_count(_user_id) >= s.strike_threshold THEN s.strike_penalty
+  END
+  FROM club_settings s;
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_booking_suspended(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(public.get_strike_penalty(_user_id) = 'block_booking', false);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_active_strike_count TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_strike_penalty TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_booking_suspended TO authenticated;
+
+-- A member cancelling their own booking after the deadline gets a late-cancel strike.
+-- Staff removing a member from a workout never counts against the member.
+CREATE OR REPLACE FUNCTION public.on_reservation_cancelled_late()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_deadline_hours integer;
+  v_starts_at timestamptz;
+BEGIN
+  IF NOT (OLD.is_active = true AND NEW.is_active = false) OR auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours),
+    -- Workout times are stored in the club's local time
+    (w.workout_date + w.start_time) AT TIME ZONE 'Europe/Sofia'
+  INTO v_deadline_hours, v_starts_at
+  FROM public.workouts w
+  CROSS JOIN public.club_settings s
+  WHERE w.id = NEW.workout_id;
+
+  IF v_deadline_hours > 0 AND now() >= v_starts_at - make_interval(hours => v_deadline_hours) THEN
+    INSERT INTO public.member_strikes (user_id, workout_id, reason)
+    VALUES (NEW.user_id, NEW.workout_id, 'late_cancel')
+    ON CONFLICT (user_id, workout_id, reason) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_late_cancel_strike ON public.reservations;
+CREATE TRIGGER reservations_late_cancel_strike
+AFTER UPDATE OF is_active ON public.reservations
+FOR EACH ROW
+EXECUTE FUNCTION public.on_reservation_cancelled_late();
+
+-- Marking a booked member as not attended gives a no-show strike; correcting the
+-- mark to attended takes the strike back.
+CREATE OR REPLACE FUNCTION public.on_attendance_marked()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF COALESCE(NEW.attended, false) THEN
+    DELETE FROM public.member_strikes
+    WHERE user_id = NEW.user_id
+      AND workout_id = NEW.workout_id
+      AND reason = 'no_show'
+      AND cleared_at IS NULL;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.reservations
+    WHERE workout_id = NEW.workout_id
+      AND user_id = NEW.user_id
+      AND is_active = true
+  ) THEN
+    INSERT INTO public.member_strikes (user_id, workout_id, reason)
+    VALUES (NEW.user_id, NEW.workout_id, 'no_show')
+    ON CONFLICT (user_id, workout_id, reason) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS attendance_no_show_strike ON public.attendance;
+CREATE TRIGGER attendance_no_show_strike
+AFTER INSERT OR UPDATE OF attended ON public.attendance
+FOR EACH ROW
+EXECUTE FUNCTION public.on_attendance_marked();
+
+-- Suspended members cannot join the waiting list or be promoted from it.
+DROP POLICY IF EXISTS "Users can insert own waiting list entries" ON public.waiting_list;
+CREATE POLICY "Users can insert own waiting list entries"
+ON public.waiting_list
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND NOT public.is_booking_suspended(auth.uid()));
+
+DROP POLICY IF EXISTS "Users can update own waiting list entries" ON public.waiting_list;
+CREATE POLICY "Users can update own waiting list entries"
+ON public.waiting_list
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND (is_active = false OR NOT public.is_booking_suspended(auth.uid())));
+
+CREATE OR REPLACE FUNCTION public.promote_from_waiting_list(p_workout_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_user_id UUID;
+  v_waiting_id UUID;
+BEGIN
+  -- Get the first active waiting list entry of a member who may book
+  SELECT id, user_id INTO v_waiting_id, v_next_user_id
+  FROM public.waiting_list
+  WHERE workout_id = p_workout_id AND is_active = true
+    AND NOT public.is_booking_suspended(user_id)
+  ORDER BY position ASC
+  LIMIT 1;
+
+  IF v_next_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Mark waiting list entry as inactive
+  UPDATE public.waiting_list
+  SET is_active = false, notified_at = now()
+  WHERE id = v_waiting_id;
+
+  -- Create or reactivate reservation for this user
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_next_user_id, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now();
+
+  RETURN v_next_user_id;
+END;
+$$;
+
+-- reserve_workout now also enforces strike penalties and returns status 'suspended'
+-- for members who are blocked from booking.
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+
+  IF v_on_behalf AND NOT public.is_staff_or_admin(v_caller) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold
+  IF NOT v_on_behalf THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Workout times are stored in the club's local time
+  v_starts_at := (v_workout.workout_date + v_workout.start_time) AT TIME ZONE 'Europe/Sofia';
+  v_ends_at := (v_workout.workout_date + v_workout.end_time) AT TIME ZONE 'Europe/Sofia';
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, 24);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the first half of the booking window
+  v_priority_ends_at := v_starts_at - make_interval(secs => v_opens_hours * 3600 / 2.0);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := (public.get_member_type(v_user) = 'card'
+      OR public.has_role(v_user, 'card_member'))
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
+
+-- Series occurrences carry the cancellation deadline like every other template field.
+CREATE OR REPLACE FUNCTION public.generate_workout_series(p_series_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.workouts (
+    title, title_bg, description, description_bg,
+    workout_date, start_time, end_time, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    cancellation_deadline_hours, workout_type, created_by, series_id
+  )
+  SELECT
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg,
+    d::date, v_series.start_time, v_series.end_time, v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.cancellation_deadline_hours, v_series.workout_type, v_series.created_by, v_series.id
+  FROM generate_series(GREATEST(v_series.starts_on, CURRENT_DATE), v_series.ends_on, interval '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::smallint = ANY (v_series.weekdays)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workouts w
+      WHERE w.series_id = v_series.id
+        AND w.workout_date = d::date
+    );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.split_workout_series(p_series_id uuid, p_from date)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout series % not found', p_series_id;
+  END IF;
+
+  IF p_from <= v_series.starts_on THEN
+    RETURN v_series.id;
+  END IF;
+
+  INSERT INTO public.workout_series (
+    title, title_bg, description, description_bg, weekdays,
+    start_time, end_time, starts_on, ends_on, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    cancellation_deadline_hours, workout_type, created_by
+  )
+  VALUES (
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg, v_series.weekdays,
+    v_series.start_time, v_series.end_time, p_from, GREATEST(v_series.ends_on, p_from), v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.cancellation_deadline_hours, v_series.workout_type, v_series.created_by
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE public.workouts
+  SET series_id = v_new_id
+  WHERE series_id = v_series.id
+    AND workout_date >= p_from;
+
+  UPDATE public.workout_series
+  SET ends_on = LEAST(ends_on, p_from - 1)
+  WHERE id = v_series.id;
+
+  RETURN v_new_id;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Reception tablet account: may check members in but never sees the staff dashboard.
+-- Added on its own so later migrations can use the new enum value.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'kiosk';
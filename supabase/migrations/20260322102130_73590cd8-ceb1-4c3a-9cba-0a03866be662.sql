@@ -0,0 +1,268 @@
+-- Front-desk kiosk: a locked tablet account that checks members in by QR code or PIN
+-- and can hand out free spots to walk-ins.
+
+-- Self-service signup may only create member roles or unapproved staff requests.
+-- Kiosk (and approved staff) roles are granted by admins.
+DROP POLICY IF EXISTS "Users can insert own role on signup" ON public.user_roles;
+CREATE POLICY "Users can insert own role on signup"
+  ON public.user_roles FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      role IN ('member', 'card_member')
+      OR (role IN ('staff', 'admin') AND is_approved = false)
+    )
+  );
+
+-- Short numeric code members can type at the kiosk instead of scanning
+CREATE TABLE public.kiosk_pins (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin text NOT NULL UNIQUE CHECK (pin ~ '^[0-9]{6}$'),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.kiosk_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own kiosk pin"
+  ON public.kiosk_pins FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Returns the caller's kiosk PIN, creating a unique one on first use
+CREATE OR REPLACE FUNCTION public.get_my_kiosk_pin()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_pin text;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT pin INTO v_pin FROM public.kiosk_pins WHERE user_id = v_user;
+  IF v_pin IS NOT NULL THEN
+    RETURN v_pin;
+  END IF;
+
+  LOOP
+    v_pin := lpad(floor(random() * 1000000)::integer::text, 6, '0');
+    BEGIN
+      INSERT INTO public.kiosk_pins (user_id, pin) VALUES (v_user, v_pin);
+      RETURN v_pin;
+    EXCEPTION WHEN unique_violation THEN
+      -- Another member already has this PIN (or a concurrent call created ours)
+      SELECT pin INTO v_pin FROM public.kiosk_pins WHERE user_id = v_user;
+      IF v_pin IS NOT NULL THEN
+        RETURN v_pin;
+      END IF;
+    END;
+  END LOOP;
+END;
+$$;
+
+-- Admins turn an account into a kiosk account; it loses every other role
+CREATE OR REPLACE FUNCTION public.set_kiosk_account(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create kiosk accounts';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot turn their own account into a kiosk';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = p_user_id;
+  DELETE FROM public.kiosk_pins WHERE user_id = p_user_id;
+
+  INSERT INTO public.user_roles (user_id, role, is_approved, approved_by, approved_at)
+  VALUES (p_user_id, 'kiosk', true, auth.uid(), now());
+END;
+$$;
+
+-- reserve_workout: the kiosk may book walk-ins into free spots of workouts open for check-in.
+-- Unlike staff bookings, kiosk bookings still respect strike penalties.
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.is_staff_or_admin(v_caller);
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Workout times are stored in the club's local time
+  v_starts_at := (v_workout.workout_date + v_workout.start_time) AT TIME ZONE 'Europe/Sofia';
+  v_ends_at := (v_workout.workout_date + v_workout.end_time) AT TIME ZONE 'Europe/Sofia';
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, 24);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the first half of the booking window
+  v_priority_ends_at := v_starts_at - make_interval(secs => v_opens_hours * 3600 / 2.0);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := (public.get_member_type(v_user) = 'card'
+      OR public.has_role(v_user, 'card_member'))
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
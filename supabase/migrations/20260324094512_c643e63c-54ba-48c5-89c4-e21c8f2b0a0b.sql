@@ -0,0 +1,584 @@
+-- Memberships: plan definitions, per-member subscriptions with start and end dates,
+-- and a class credit balance. Booking needs a membership that is valid on the workout
+-- date and still has credits; a booking spends one credit and a timely cancellation
+-- refunds it. Card priority now comes from an active plan instead of a manual toggle.
+
+CREATE TABLE public.membership_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  name_bg TEXT,
+  plan_type TEXT NOT NULL CHECK (plan_type IN ('unlimited', 'class_pack', 'drop_in')),
+  -- How long a membership on this plan is valid, counting the start day
+  duration_days INTEGER NOT NULL CHECK (duration_days > 0),
+  -- Classes included (NULL = unlimited)
+  credits INTEGER CHECK (credits > 0),
+  grants_card_priority BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.membership_plans (name, name_bg, plan_type, duration_days, credits, grants_card_priority, sort_order)
+VALUES
+  ('Monthly unlimited', 'Месечна карта', 'unlimited', 30, NULL, true, 10),
+  ('10-class pack', 'Карта за 10 посещения', 'class_pack', 90, 10, false, 20),
+  ('Drop-in', 'Еднократно посещение', 'drop_in', 7, 1, false, 30);
+
+ALTER TABLE public.membership_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view membership plans"
+ON public.membership_plans
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage membership plans"
+ON public.membership_plans
+FOR ALL
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_membership_plans_updated_at
+  BEFORE UPDATE ON public.membership_plans
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.memberships (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES public.membership_plans(id),
+  starts_on DATE NOT NULL,
+  ends_on DATE NOT NULL,
+  -- Classes left (NULL = unlimited)
+  credits_remaining INTEGER CHECK (credits_remaining >= 0),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  CHECK (ends_on >= starts_on)
+);
+
+CREATE INDEX memberships_user_id_idx ON public.memberships (user_id);
+
+ALTER TABLE public.memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memberships"
+ON public.memberships
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all memberships"
+ON public.memberships
+FOR SELECT
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE POLICY "Staff can update memberships"
+ON public.memberships
+FOR UPDATE
+USING (is_staff_or_admin(auth.uid()));
+
+-- The membership a booking spent its credit from (NULL once refunded)
+ALTER TABLE public.reservations
+ADD COLUMN membership_id UUID REFERENCES public.memberships(id) ON DELETE SET NULL;
+
+-- The membership a booking on the given date would use: unlimited plans first,
+-- then the one that expires soonest
+CREATE OR REPLACE FUNCTION public.get_usable_membership(_user_id uuid, _on date)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT m.id
+  FROM memberships m
+  WHERE m.user_id = _user_id
+    AND m.cancelled_at IS NULL
+    AND _on BETWEEN m.starts_on AND m.ends_on
+    AND (m.credits_remaining IS NULL OR m.credits_remaining > 0)
+  ORDER BY (m.credits_remaining IS NULL) DESC, m.ends_on ASC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_card_priority(_user_id uuid, _on date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM memberships m
+    JOIN membership_plans p ON p.id = m.plan_id
+    WHERE m.user_id = _user_id
+      AND p.grants_card_priority
+      AND m.cancelled_at IS NULL
+      AND _on BETWEEN m.starts_on AND m.ends_on
+      AND (m.credits_remaining IS NULL OR m.credits_remaining > 0)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_past_cancellation_deadline(p_workout_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours) > 0
+    -- Workout times are stored in the club's local time
+    AND now() >= (w.workout_date + w.start_time) AT TIME ZONE 'Europe/Sofia'
+      - make_interval(hours => COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours))
+  FROM workouts w
+  CROSS JOIN club_settings s
+  WHERE w.id = p_workout_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_usable_membership TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_card_priority TO authenticated;
+
+-- Spends a credit when a booking becomes active and refunds it when the booking is
+-- cancelled in time, removed by staff or deleted with its workout. A member cancelling
+-- their own booking after the deadline forfeits the credit.
+CREATE OR REPLACE FUNCTION public.apply_membership_credit()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_workout_date date;
+  v_membership uuid;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.is_active AND OLD.membership_id IS NOT NULL THEN
+      UPDATE public.memberships
+      SET credits_remaining = credits_remaining + 1
+      WHERE id = OLD.membership_id
+        AND credits_remaining IS NOT NULL;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.is_active AND (TG_OP = 'INSERT' OR NOT COALESCE(OLD.is_active, false)) THEN
+    SELECT workout_date INTO v_workout_date
+    FROM public.workouts
+    WHERE id = NEW.workout_id;
+
+    v_membership := public.get_usable_membership(NEW.user_id, v_workout_date);
+
+    IF v_membership IS NOT NULL THEN
+      UPDATE public.memberships
+      SET credits_remaining = credits_remaining - 1
+      WHERE id = v_membership
+        AND (credits_remaining IS NULL OR credits_remaining > 0);
+
+      IF NOT FOUND THEN
+        v_membership := NULL;
+      END IF;
+    END IF;
+
+    -- Staff and scheduled jobs may still book a member without a membership
+    IF v_membership IS NULL AND auth.uid() IS NOT NULL AND NOT public.is_staff_or_admin(auth.uid()) THEN
+      RAISE EXCEPTION 'No active membership for this workout';
+    END IF;
+
+    NEW.membership_id := v_membership;
+  ELSIF TG_OP = 'UPDATE' AND OLD.is_active AND NOT NEW.is_active AND OLD.membership_id IS NOT NULL THEN
+    IF auth.uid() IS DISTINCT FROM NEW.user_id OR NOT public.is_past_cancellation_deadline(NEW.workout_id) THEN
+      UPDATE public.memberships
+      SET credits_remaining = credits_remaining + 1
+      WHERE id = OLD.membership_id
+        AND credits_remaining IS NOT NULL;
+
+      NEW.membership_id := NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reservations_membership_credit ON public.reservations;
+CREATE TRIGGER reservations_membership_credit
+BEFORE INSERT OR UPDATE OF is_active OR DELETE ON public.reservations
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_membership_credit();
+
+-- profiles.member_type and the member/card_member role mirror whether the member
+-- currently holds a plan with card priority, so existing screens keep working
+CREATE OR REPLACE FUNCTION public.sync_member_type(_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_is_card boolean;
+  v_member_type member_type;
+  v_role app_role;
+BEGIN
+  v_is_card := public.has_card_priority(_user_id, (now() AT TIME ZONE 'Europe/Sofia')::date);
+  v_member_type := CASE WHEN v_is_card THEN 'card' ELSE 'regular' END;
+  v_role := CASE WHEN v_is_card THEN 'card_member' ELSE 'member' END;
+
+  UPDATE public.profiles
+  SET member_type = v_member_type
+  WHERE user_id = _user_id
+    AND removed_at IS NULL
+    AND member_type IS DISTINCT FROM v_member_type;
+
+  UPDATE public.user_roles
+  SET role = v_role
+  WHERE user_id = _user_id
+    AND role IN ('member', 'card_member')
+    AND role <> v_role
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_roles r
+      WHERE r.user_id = _user_id
+        AND r.role = v_role
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.on_membership_changed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  PERFORM public.sync_member_type(COALESCE(NEW.user_id, OLD.user_id));
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS memberships_sync_member_type ON public.memberships;
+CREATE TRIGGER memberships_sync_member_type
+AFTER INSERT OR UPDATE OR DELETE ON public.memberships
+FOR EACH ROW
+EXECUTE FUNCTION public.on_membership_changed();
+
+-- Memberships expire by date alone, so re-sync every member periodically
+CREATE OR REPLACE FUNCTION public.sync_all_member_types()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT user_id FROM public.profiles WHERE removed_at IS NULL
+  LOOP
+    PERFORM public.sync_member_type(v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_all_member_types FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'sync-member-types',
+  '5 * * * *',
+  $$ SELECT public.sync_all_member_types(); $$
+);
+
+-- Staff sell a plan to a member; dates and credits come from the plan
+CREATE OR REPLACE FUNCTION public.assign_membership(p_user_id uuid, p_plan_id uuid, p_starts_on date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_plan public.membership_plans%ROWTYPE;
+  v_starts_on date := COALESCE(p_starts_on, (now() AT TIME ZONE 'Europe/Sofia')::date);
+  v_membership_id uuid;
+BEGIN
+  IF NOT public.is_staff_or_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can assign memberships';
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM public.membership_plans
+  WHERE id = p_plan_id
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership plan not found';
+  END IF;
+
+  INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining, created_by)
+  VALUES (p_user_id, v_plan.id, v_starts_on, v_starts_on + v_plan.duration_days - 1, v_plan.credits, auth.uid())
+  RETURNING id INTO v_membership_id;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+-- Existing card members keep their priority for a month so staff can move them onto a plan
+INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining)
+SELECT
+  p.user_id,
+  plan.id,
+  (now() AT TIME ZONE 'Europe/Sofia')::date,
+  (now() AT TIME ZONE 'Europe/Sofia')::date + plan.duration_days - 1,
+  plan.credits
+FROM public.profiles p
+CROSS JOIN (
+  SELECT * FROM public.membership_plans WHERE grants_card_priority ORDER BY sort_order LIMIT 1
+) plan
+WHERE p.member_type = 'card'
+  AND p.removed_at IS NULL;
+
+-- Booking now needs a membership, so every existing member, card members included, gets
+-- a year on a grandfathered plan; the card members' month above only carries priority.
+-- The plan is not for sale; staff move members onto a real plan when they renew.
+INSERT INTO public.membership_plans (name, name_bg, plan_type, duration_days, credits, grants_card_priority, is_active, sort_order)
+VALUES ('Existing member', 'Съществуващ член', 'unlimited', 365, NULL, false, false, 100);
+
+INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining)
+SELECT
+  p.user_id,
+  plan.id,
+  (now() AT TIME ZONE 'Europe/Sofia')::date,
+  (now() AT TIME ZONE 'Europe/Sofia')::date + plan.duration_days - 1,
+  plan.credits
+FROM public.profiles p
+CROSS JOIN (
+  SELECT * FROM public.membership_plans WHERE name = 'Existing member' AND NOT is_active
+) plan
+WHERE p.removed_at IS NULL
+  AND public.is_member_or_card_member(p.user_id)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.memberships m WHERE m.user_id = p.user_id AND m.plan_id = plan.id
+  );
+
+-- Members without a usable membership are skipped when promoting from the waiting list
+CREATE OR REPLACE FUNCTION public.promote_from_waiting_list(p_workout_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_user_id UUID;
+  v_waiting_id UUID;
+  v_workout_date DATE;
+BEGIN
+  SELECT workout_date INTO v_workout_date
+  FROM public.workouts
+  WHERE id = p_workout_id;
+
+  -- Get the first active waiting list entry of a member who may book
+  SELECT id, user_id INTO v_waiting_id, v_next_user_id
+  FROM public.waiting_list
+  WHERE workout_id = p_workout_id AND is_active = true
+    AND NOT public.is_booking_suspended(user_id)
+    AND public.get_usable_membership(user_id, v_workout_date) IS NOT NULL
+  ORDER BY position ASC
+  LIMIT 1;
+
+  IF v_next_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Mark waiting list entry as inactive
+  UPDATE public.waiting_list
+  SET is_active = false, notified_at = now()
+  WHERE id = v_waiting_id;
+
+  -- Create or reactivate reservation for this user
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_next_user_id, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now();
+
+  RETURN v_next_user_id;
+END;
+$$;
+
+-- reserve_workout: members need a usable membership (status 'no_membership') and
+-- card priority comes from the member's plan
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.is_staff_or_admin(v_caller);
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Workout times are stored in the club's local time
+  v_starts_at := (v_workout.workout_date + v_workout.start_time) AT TIME ZONE 'Europe/Sofia';
+  v_ends_at := (v_workout.workout_date + v_workout.end_time) AT TIME ZONE 'Europe/Sofia';
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, 24);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the first half of the booking window
+  v_priority_ends_at := v_starts_at - make_interval(secs => v_opens_hours * 3600 / 2.0);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  -- Staff may book a member without a membership; nobody else may
+  IF NOT v_staff_booking AND public.get_usable_membership(v_user, v_workout.workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.has_card_priority(v_user, v_workout.workout_date)
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
@@ -0,0 +1,131 @@
+-- Paying for memberships online. A checkout creates a pending payment, the payment
+-- provider's webhook activates the membership once the payment succeeds, and staff can
+-- refund a payment, which also cancels its membership. The payments table is the ledger;
+-- it is only written by edge functions using the service role.
+
+ALTER TABLE public.membership_plans
+ADD COLUMN price_cents INTEGER CHECK (price_cents >= 0),
+ADD COLUMN currency TEXT NOT NULL DEFAULT 'EUR';
+
+-- Plans without a price can only be assigned by staff
+UPDATE public.membership_plans SET price_cents = 6000 WHERE plan_type = 'unlimited';
+UPDATE public.membership_plans SET price_cents = 8000 WHERE plan_type = 'class_pack';
+UPDATE public.membership_plans SET price_cents = 1000 WHERE plan_type = 'drop_in';
+
+CREATE TABLE public.payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES public.membership_plans(id),
+  -- Set once the payment succeeded and the membership was created
+  membership_id UUID REFERENCES public.memberships(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL,
+  provider_session_id TEXT UNIQUE,
+  provider_payment_id TEXT,
+  provider_refund_id TEXT,
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded')),
+  failure_reason TEXT,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  refunded_at TIMESTAMP WITH TIME ZONE,
+  refunded_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX payments_user_id_idx ON public.payments (user_id);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payments"
+ON public.payments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all payments"
+ON public.payments
+FOR SELECT
+USING (is_staff_or_admin(auth.uid()));
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Marks a payment as paid and creates its membership. Webhooks can be delivered more
+-- than once, so an already processed payment is returned unchanged.
+CREATE OR REPLACE FUNCTION public.complete_payment(p_payment_id uuid, p_provider_payment_id text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_plan public.membership_plans%ROWTYPE;
+  v_starts_on date := (now() AT TIME ZONE 'Europe/Sofia')::date;
+  v_membership_id uuid;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    RETURN v_payment.membership_id;
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM public.membership_plans
+  WHERE id = v_payment.plan_id;
+
+  INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining)
+  VALUES (v_payment.user_id, v_plan.id, v_starts_on, v_starts_on + v_plan.duration_days - 1, v_plan.credits)
+  RETURNING id INTO v_membership_id;
+
+  UPDATE public.payments
+  SET status = 'succeeded',
+      membership_id = v_membership_id,
+      provider_payment_id = p_provider_payment_id,
+      paid_at = now()
+  WHERE id = p_payment_id;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+-- Records a refund made with the provider and cancels the membership it paid for
+CREATE OR REPLACE FUNCTION public.record_payment_refund(p_payment_id uuid, p_provider_refund_id text, p_refunded_by uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_membership_id uuid;
+BEGIN
+  UPDATE public.payments
+  SET status = 'refunded',
+      provider_refund_id = p_provider_refund_id,
+      refunded_at = now(),
+      refunded_by = p_refunded_by
+  WHERE id = p_payment_id
+    AND status = 'succeeded'
+  RETURNING membership_id INTO v_membership_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only succeeded payments can be refunded';
+  END IF;
+
+  UPDATE public.memberships
+  SET cancelled_at = now()
+  WHERE id = v_membership_id
+    AND cancelled_at IS NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_payment FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_payment_refund FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,59 @@
+-- Member booking history: one row per workout the caller booked, waited for or was
+-- marked on, newest first. Reservations, waiting list entries and attendance marks are
+-- joined so the history page can page through them as a single list.
+
+CREATE OR REPLACE FUNCTION public.get_my_history(p_limit integer DEFAULT 20, p_offset integer DEFAULT 0)
+RETURNS TABLE (
+  workout_id uuid,
+  workout_date date,
+  start_time time,
+  end_time time,
+  title text,
+  title_bg text,
+  workout_type text,
+  reserved_at timestamptz,
+  reservation_active boolean,
+  cancelled_at timestamptz,
+  waitlisted_at timestamptz,
+  waitlist_active boolean,
+  promoted_at timestamptz,
+  attended boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH touched AS (
+    SELECT r.workout_id FROM reservations r WHERE r.user_id = auth.uid()
+    UNION
+    SELECT wl.workout_id FROM waiting_list wl WHERE wl.user_id = auth.uid()
+    UNION
+    SELECT a.workout_id FROM attendance a WHERE a.user_id = auth.uid()
+  )
+  SELECT
+    w.id,
+    w.workout_date,
+    w.start_time,
+    w.end_time,
+    w.title,
+    w.title_bg,
+    w.workout_type,
+    r.reserved_at,
+    r.is_active,
+    r.cancelled_at,
+    wl.created_at,
+    wl.is_active,
+    wl.notified_at,
+    a.attended
+  FROM touched t
+  JOIN workouts w ON w.id = t.workout_id
+  LEFT JOIN reservations r ON r.workout_id = w.id AND r.user_id = auth.uid()
+  LEFT JOIN waiting_list wl ON wl.workout_id = w.id AND wl.user_id = auth.uid()
+  LEFT JOIN attendance a ON a.workout_id = w.id AND a.user_id = auth.uid()
+  ORDER BY w.workout_date DESC, w.start_time DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100)
+  OFFSET GREATEST(p_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_history TO authenticated;
@@ -0,0 +1,84 @@
+-- Staff analytics: per-workout booking, attendance and waiting list figures for a date
+-- range. The staff dashboard aggregates these into fill rate, show-up rate, unserved
+-- waitlist demand and weekday / time slot / workout type / card usage breakdowns.
+
+CREATE OR REPLACE FUNCTION public.get_workout_analytics(p_start date, p_end date)
+RETURNS TABLE (
+  workout_id uuid,
+  workout_date date,
+  start_time time,
+  title text,
+  title_bg text,
+  workout_type text,
+  max_spots integer,
+  reserved_count integer,
+  card_reserved_count integer,
+  cancelled_count integer,
+  attended_count integer,
+  no_show_count integer,
+  waitlist_count integer,
+  unserved_waitlist_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.is_staff_or_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.id,
+    w.workout_date,
+    w.start_time,
+    w.title,
+    w.title_bg,
+    w.workout_type,
+    w.max_spots,
+    COALESCE(r.reserved_count, 0),
+    COALESCE(r.card_reserved_count, 0),
+    COALESCE(r.cancelled_count, 0),
+    COALESCE(a.attended_count, 0),
+    COALESCE(a.no_show_count, 0),
+    COALESCE(wl.waitlist_count, 0),
+    COALESCE(wl.unserved_count, 0)
+  FROM workouts w
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE res.is_active)::integer AS reserved_count,
+      -- Card usage follows the membership the booking was made on; older bookings
+      -- without one fall back to the member's plan on the workout date
+      COUNT(*) FILTER (
+        WHERE res.is_active
+          AND COALESCE(mp.grants_card_priority, public.has_card_priority(res.user_id, w.workout_date))
+      )::integer AS card_reserved_count,
+      COUNT(*) FILTER (WHERE NOT res.is_active)::integer AS cancelled_count
+    FROM reservations res
+    LEFT JOIN memberships m ON m.id = res.membership_id
+    LEFT JOIN membership_plans mp ON mp.id = m.plan_id
+    WHERE res.workout_id = w.id
+  ) r ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE att.attended)::integer AS attended_count,
+      COUNT(*) FILTER (WHERE att.attended = false)::integer AS no_show_count
+    FROM attendance att
+    WHERE att.workout_id = w.id
+  ) a ON true
+  LEFT JOIN LATERAL (
+    -- Entries that were never promoted to a reservation are demand the workout did not serve
+    SELECT
+      COUNT(*)::integer AS waitlist_count,
+      COUNT(*) FILTER (WHERE q.notified_at IS NULL)::integer AS unserved_count
+    FROM waiting_list q
+    WHERE q.workout_id = w.id
+  ) wl ON true
+  WHERE w.workout_date BETWEEN p_start AND p_end
+  ORDER BY w.workout_date, w.start_time;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_workout_analytics TO authenticated;
@@ -0,0 +1,46 @@
+-- Notification preferences: members (and staff, for the staff-facing types) choose per
+-- notification type and channel what they receive. No row means the default, which is
+-- on. Quiet hours hold back push notifications overnight; the in-app copy is still kept.
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('push', 'email', 'in_app')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, notification_type, channel)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notification preferences"
+ON public.notification_preferences
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Quiet hours in the club's local time; both NULL means none. The window may span
+-- midnight (e.g. 22:00 to 07:00).
+ALTER TABLE public.profiles
+ADD COLUMN quiet_hours_start TIME,
+ADD COLUMN quiet_hours_end TIME,
+ADD CONSTRAINT profiles_quiet_hours_check
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
@@ -0,0 +1,38 @@
+-- Read state for in-app notifications, stored so it follows the member across devices.
+-- Until now anything from the last 24 hours counted as unread; older notifications are
+-- marked read so the badge starts from that same point.
+
+ALTER TABLE public.notification_queue
+ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.notification_queue
+SET read_at = created_at
+WHERE created_at < now() - interval '1 day';
+
+CREATE INDEX notification_queue_user_created_idx
+ON public.notification_queue (user_id, created_at DESC);
+
+CREATE INDEX notification_queue_unread_idx
+ON public.notification_queue (user_id)
+WHERE read_at IS NULL;
+
+-- Marks the caller's notifications as read: the given ones, or all of them when no ids
+-- are passed. Returns how many changed.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(p_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH updated AS (
+    UPDATE public.notification_queue
+    SET read_at = now()
+    WHERE user_id = auth.uid()
+      AND read_at IS NULL
+      AND (p_ids IS NULL OR id = ANY(p_ids))
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM updated;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_notifications_read(uuid[]) TO authenticated;
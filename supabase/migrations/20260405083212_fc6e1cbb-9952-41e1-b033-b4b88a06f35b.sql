@@ -0,0 +1,22 @@
+-- Weekly schedule email: every Sunday afternoon the send-weekly-digest edge function
+-- mails next week's workouts to members who opted in (a notification_preferences row
+-- with notification_type 'weekly_digest', channel 'email' and enabled). Members get
+-- nothing until they opt in.
+--
+-- Like the auto-reserve job, it reads project_url and service_role_key from Vault.
+
+SELECT cron.schedule(
+  'send-weekly-digest',
+  '0 15 * * 0',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-weekly-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
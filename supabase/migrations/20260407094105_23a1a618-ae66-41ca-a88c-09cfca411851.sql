@@ -0,0 +1,97 @@
+-- Workout reminders at lead times each member chooses, e.g. the day before and an hour
+-- before. Every reminder sent is recorded per booking and lead time, so a second
+-- reminder for the same workout is not mistaken for a duplicate and members who book
+-- late still get the reminders that are not yet due.
+
+-- Minutes before the start; the default keeps the old single reminder two hours ahead
+ALTER TABLE public.profiles
+ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{120}'
+  CHECK (0 < ALL (reminder_offsets) AND 10080 >= ALL (reminder_offsets) AND cardinality(reminder_offsets) <= 5);
+
+CREATE TABLE public.workout_reminders (
+  reservation_id UUID NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+  offset_minutes INTEGER NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (reservation_id, offset_minutes)
+);
+
+-- Only written and read by the send-workout-reminders function
+ALTER TABLE public.workout_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Reminders that are due and not sent yet: the workout starts within the member's lead
+-- time, and the booking was made before the reminder fell due (someone booking 20
+-- minutes ahead does not need an hour-before reminder).
+CREATE OR REPLACE FUNCTION public.get_due_workout_reminders()
+RETURNS TABLE (
+  reservation_id uuid,
+  user_id uuid,
+  workout_id uuid,
+  offset_minutes integer,
+  days_until integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    w.id,
+    o.offset_minutes,
+    w.workout_date - (now() AT TIME ZONE 'Europe/Sofia')::date
+  FROM reservations r
+  JOIN workouts w ON w.id = r.workout_id
+  JOIN profiles p ON p.user_id = r.user_id AND p.removed_at IS NULL
+  CROSS JOIN LATERAL unnest(p.reminder_offsets) AS o(offset_minutes)
+  -- Workout times are stored in the club's local time
+  CROSS JOIN LATERAL (
+    SELECT (w.workout_date + w.start_time) AT TIME ZONE 'Europe/Sofia' AS starts_at
+  ) s
+  WHERE r.is_active
+    AND w.workout_date BETWEEN (now() AT TIME ZONE 'Europe/Sofia')::date - 1
+      AND (now() AT TIME ZONE 'Europe/Sofia')::date + 8
+    AND now() < s.starts_at
+    AND now() >= s.starts_at - make_interval(mins => o.offset_minutes)
+    AND r.reserved_at < s.starts_at - make_interval(mins => o.offset_minutes)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM workout_reminders wr
+      WHERE wr.reservation_id = r.id
+        AND wr.offset_minutes = o.offset_minutes
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_due_workout_reminders FROM PUBLIC, anon, authenticated;
+
+-- Reminders that already went out under the old once-per-workout rule count as sent
+INSERT INTO public.workout_reminders (reservation_id, offset_minutes, sent_at)
+SELECT r.id, 120, n.created_at
+FROM public.reservations r
+JOIN LATERAL (
+  SELECT q.created_at
+  FROM public.notification_queue q
+  WHERE q.workout_id = r.workout_id
+    AND q.user_id = r.user_id
+    AND q.notification_type = 'workout_reminder'
+  ORDER BY q.created_at DESC
+  LIMIT 1
+) n ON true
+ON CONFLICT DO NOTHING;
+
+-- Lead times can be as short as a few minutes, so check often
+SELECT cron.schedule(
+  'send-workout-reminders',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-workout-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
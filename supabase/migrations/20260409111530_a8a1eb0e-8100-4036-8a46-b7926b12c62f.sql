@@ -0,0 +1,547 @@
+-- The club's time zone becomes a setting instead of 'Europe/Sofia' repeated in every
+-- function. Workout dates and times stay stored as the club's wall-clock time; these
+-- helpers turn them into instants, so bookings, deadlines, reminders and auto-reserve
+-- all agree across DST changes. The front end (src/lib/clubTime.ts) and the edge
+-- functions (_shared/clubTime.ts) do the same with the same setting.
+
+CREATE OR REPLACE FUNCTION public.is_valid_time_zone(p_time_zone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_time_zone);
+$$;
+
+ALTER TABLE public.club_settings
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'Europe/Sofia'
+  CHECK (public.is_valid_time_zone(time_zone));
+
+CREATE OR REPLACE FUNCTION public.club_time_zone()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE((SELECT time_zone FROM club_settings LIMIT 1), 'Europe/Sofia');
+$$;
+
+-- Today's date at the club
+CREATE OR REPLACE FUNCTION public.club_today()
+RETURNS date
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT (now() AT TIME ZONE public.club_time_zone())::date;
+$$;
+
+-- The instant a club-local date and time refer to
+CREATE OR REPLACE FUNCTION public.club_timestamp(p_date date, p_time time)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT (p_date + p_time) AT TIME ZONE public.club_time_zone();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.club_time_zone TO authenticated;
+GRANT EXECUTE ON FUNCTION public.club_today TO authenticated;
+GRANT EXECUTE ON FUNCTION public.club_timestamp TO authenticated;
+
+-- Everything below is unchanged apart from using the helpers above
+
+CREATE OR REPLACE FUNCTION public.is_past_cancellation_deadline(p_workout_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours) > 0
+    AND now() >= public.club_timestamp(w.workout_date, w.start_time)
+      - make_interval(hours => COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours))
+  FROM workouts w
+  CROSS JOIN club_settings s
+  WHERE w.id = p_workout_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.on_reservation_cancelled_late()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_deadline_hours integer;
+  v_starts_at timestamptz;
+BEGIN
+  IF NOT (OLD.is_active = true AND NEW.is_active = false) OR auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    COALESCE(w.cancellation_deadline_hours, s.cancellation_deadline_hours),
+    public.club_timestamp(w.workout_date, w.start_time)
+  INTO v_deadline_hours, v_starts_at
+  FROM public.workouts w
+  CROSS JOIN public.club_settings s
+  WHERE w.id = NEW.workout_id;
+
+  IF v_deadline_hours > 0 AND now() >= v_starts_at - make_interval(hours => v_deadline_hours) THEN
+    INSERT INTO public.member_strikes (user_id, workout_id, reason)
+    VALUES (NEW.user_id, NEW.workout_id, 'late_cancel')
+    ON CONFLICT (user_id, workout_id, reason) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.is_staff_or_admin(v_caller);
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  v_starts_at := public.club_timestamp(v_workout.workout_date, v_workout.start_time);
+  v_ends_at := public.club_timestamp(v_workout.workout_date, v_workout.end_time);
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, 24);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the first half of the booking window
+  v_priority_ends_at := v_starts_at - make_interval(secs => v_opens_hours * 3600 / 2.0);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  -- Staff may book a member without a membership; nobody else may
+  IF NOT v_staff_booking AND public.get_usable_membership(v_user, v_workout.workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.has_card_priority(v_user, v_workout.workout_date)
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_due_auto_reserves()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_project_url text;
+  v_service_key text;
+  v_workout record;
+  v_run_id uuid;
+  v_request_id bigint;
+  v_dispatched integer := 0;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_key IS NULL THEN
+    RAISE WARNING 'run_due_auto_reserves: project_url or service_role_key missing from vault';
+    RETURN 0;
+  END IF;
+
+  -- Record the outcome of earlier requests that never reached the edge function
+  UPDATE public.auto_reserve_runs r
+  SET status = 'failed',
+      message = COALESCE(resp.error_msg, 'HTTP ' || resp.status_code),
+      finished_at = now()
+  FROM net._http_response resp
+  WHERE r.status = 'pending'
+    AND r.request_id = resp.id
+    AND (resp.error_msg IS NOT NULL OR resp.status_code >= 400);
+
+  FOR v_workout IN
+    SELECT w.id
+    FROM public.workouts w
+    WHERE COALESCE(w.card_priority_enabled, false)
+      AND COALESCE(w.auto_reserve_enabled, false)
+      AND NOT COALESCE(w.auto_reserve_executed, false)
+      AND now() >= public.club_timestamp(w.workout_date, w.start_time)
+                   - make_interval(hours => COALESCE(w.reservation_opens_hours, 24))
+      AND now() < public.club_timestamp(w.workout_date, w.start_time)
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.workouts
+    SET auto_reserve_executed = true
+    WHERE id = v_workout.id;
+
+    INSERT INTO public.auto_reserve_runs (workout_id, triggered_by)
+    VALUES (v_workout.id, 'schedule')
+    RETURNING id INTO v_run_id;
+
+    SELECT net.http_post(
+      url := v_project_url || '/functions/v1/auto-reserve-card-members',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || v_service_key
+      ),
+      body := jsonb_build_object('workoutId', v_workout.id, 'runId', v_run_id)
+    ) INTO v_request_id;
+
+    UPDATE public.auto_reserve_runs
+    SET request_id = v_request_id
+    WHERE id = v_run_id;
+
+    v_dispatched := v_dispatched + 1;
+  END LOOP;
+
+  RETURN v_dispatched;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_due_workout_reminders()
+RETURNS TABLE (
+  reservation_id uuid,
+  user_id uuid,
+  workout_id uuid,
+  offset_minutes integer,
+  days_until integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    w.id,
+    o.offset_minutes,
+    w.workout_date - public.club_today()
+  FROM reservations r
+  JOIN workouts w ON w.id = r.workout_id
+  JOIN profiles p ON p.user_id = r.user_id AND p.removed_at IS NULL
+  CROSS JOIN LATERAL unnest(p.reminder_offsets) AS o(offset_minutes)
+  CROSS JOIN LATERAL (
+    SELECT public.club_timestamp(w.workout_date, w.start_time) AS starts_at
+  ) s
+  WHERE r.is_active
+    AND w.workout_date BETWEEN public.club_today() - 1
+      AND public.club_today() + 8
+    AND now() < s.starts_at
+    AND now() >= s.starts_at - make_interval(mins => o.offset_minutes)
+    AND r.reserved_at < s.starts_at - make_interval(mins => o.offset_minutes)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM workout_reminders wr
+      WHERE wr.reservation_id = r.id
+        AND wr.offset_minutes = o.offset_minutes
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_member_type(_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_is_card boolean;
+  v_member_type member_type;
+  v_role app_role;
+BEGIN
+  v_is_card := public.has_card_priority(_user_id, public.club_today());
+  v_member_type := CASE WHEN v_is_card THEN 'card' ELSE 'regular' END;
+  v_role := CASE WHEN v_is_card THEN 'card_member' ELSE 'member' END;
+
+  UPDATE public.profiles
+  SET member_type = v_member_type
+  WHERE user_id = _user_id
+    AND removed_at IS NULL
+    AND member_type IS DISTINCT FROM v_member_type;
+
+  UPDATE public.user_roles
+  SET role = v_role
+  WHERE user_id = _user_id
+    AND role IN ('member', 'card_member')
+    AND role <> v_role
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_roles r
+      WHERE r.user_id = _user_id
+        AND r.role = v_role
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_membership(p_user_id uuid, p_plan_id uuid, p_starts_on date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_plan public.membership_plans%ROWTYPE;
+  v_starts_on date := COALESCE(p_starts_on, public.club_today());
+  v_membership_id uuid;
+BEGIN
+  IF NOT public.is_staff_or_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can assign memberships';
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM public.membership_plans
+  WHERE id = p_plan_id
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership plan not found';
+  END IF;
+
+  INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining, created_by)
+  VALUES (p_user_id, v_plan.id, v_starts_on, v_starts_on + v_plan.duration_days - 1, v_plan.credits, auth.uid())
+  RETURNING id INTO v_membership_id;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_payment(p_payment_id uuid, p_provider_payment_id text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_plan public.membership_plans%ROWTYPE;
+  v_starts_on date := public.club_today();
+  v_membership_id uuid;
+BEGIN
+  SELECT * INTO v_payment
+  FROM public.payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.status <> 'pending' THEN
+    RETURN v_payment.membership_id;
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM public.membership_plans
+  WHERE id = v_payment.plan_id;
+
+  INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining)
+  VALUES (v_payment.user_id, v_plan.id, v_starts_on, v_starts_on + v_plan.duration_days - 1, v_plan.credits)
+  RETURNING id INTO v_membership_id;
+
+  UPDATE public.payments
+  SET status = 'succeeded',
+      membership_id = v_membership_id,
+      provider_payment_id = p_provider_payment_id,
+      paid_at = now()
+  WHERE id = p_payment_id;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_workout_series(p_series_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.workouts (
+    title, title_bg, description, description_bg,
+    workout_date, start_time, end_time, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    cancellation_deadline_hours, workout_type, created_by, series_id
+  )
+  SELECT
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg,
+    d::date, v_series.start_time, v_series.end_time, v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.cancellation_deadline_hours, v_series.workout_type, v_series.created_by, v_series.id
+  FROM generate_series(GREATEST(v_series.starts_on, public.club_today()), v_series.ends_on, interval '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::smallint = ANY (v_series.weekdays)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workouts w
+      WHERE w.series_id = v_series.id
+        AND w.workout_date = d::date
+    );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
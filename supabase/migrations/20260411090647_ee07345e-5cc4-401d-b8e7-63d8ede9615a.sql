@@ -0,0 +1,341 @@
+-- Booking rules that were hard-coded now live in club_settings, next to the
+-- cancellation deadline and strike rules, and admins edit them from the staff dashboard:
+-- the default booking window and how much of it card members get to themselves, the
+-- values a new workout starts with, and the reminder lead times members get until they
+-- choose their own.
+
+ALTER TABLE public.club_settings
+ADD COLUMN default_reservation_opens_hours INTEGER NOT NULL DEFAULT 24 CHECK (default_reservation_opens_hours > 0),
+-- Hours at the start of the booking window reserved for card members (NULL = half the window)
+ADD COLUMN priority_period_hours INTEGER CHECK (priority_period_hours >= 0),
+ADD COLUMN default_max_spots INTEGER NOT NULL DEFAULT 10 CHECK (default_max_spots > 0),
+ADD COLUMN default_start_time TIME NOT NULL DEFAULT '09:00',
+ADD COLUMN default_end_time TIME NOT NULL DEFAULT '10:00',
+ADD COLUMN default_card_priority_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN default_auto_reserve_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN default_reminder_offsets INTEGER[] NOT NULL DEFAULT '{120}'
+  CHECK (0 < ALL (default_reminder_offsets) AND 10080 >= ALL (default_reminder_offsets) AND cardinality(default_reminder_offsets) <= 5),
+ADD CHECK (default_end_time > default_start_time);
+
+-- NULL now means the club's default lead times. Members still on the old default follow
+-- the club's from here on.
+ALTER TABLE public.profiles
+ALTER COLUMN reminder_offsets DROP NOT NULL,
+ALTER COLUMN reminder_offsets DROP DEFAULT;
+
+UPDATE public.profiles
+SET reminder_offsets = NULL
+WHERE reminder_offsets = '{120}';
+
+-- Length of the card member priority period for a booking window of the given length
+CREATE OR REPLACE FUNCTION public.get_priority_period_hours(p_opens_hours integer)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT LEAST(COALESCE(s.priority_period_hours, p_opens_hours / 2.0), p_opens_hours)
+  FROM club_settings s;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_priority_period_hours TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_settings public.club_settings%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.is_staff_or_admin(v_caller);
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM public.club_settings;
+
+  v_starts_at := public.club_timestamp(v_workout.workout_date, v_workout.start_time);
+  v_ends_at := public.club_timestamp(v_workout.workout_date, v_workout.end_time);
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, v_settings.default_reservation_opens_hours);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the start of the booking window to themselves
+  v_priority_ends_at := v_opens_at + make_interval(secs => public.get_priority_period_hours(v_opens_hours) * 3600);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  -- Staff may book a member without a membership; nobody else may
+  IF NOT v_staff_booking AND public.get_usable_membership(v_user, v_workout.workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.has_card_priority(v_user, v_workout.workout_date)
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_due_auto_reserves()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_project_url text;
+  v_service_key text;
+  v_workout record;
+  v_run_id uuid;
+  v_request_id bigint;
+  v_dispatched integer := 0;
+BEGIN
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_key IS NULL THEN
+    RAISE WARNING 'run_due_auto_reserves: project_url or service_role_key missing from vault';
+    RETURN 0;
+  END IF;
+
+  -- Record the outcome of earlier requests that never reached the edge function
+  UPDATE public.auto_reserve_runs r
+  SET status = 'failed',
+      message = COALESCE(resp.error_msg, 'HTTP ' || resp.status_code),
+      finished_at = now()
+  FROM net._http_response resp
+  WHERE r.status = 'pending'
+    AND r.request_id = resp.id
+    AND (resp.error_msg IS NOT NULL OR resp.status_code >= 400);
+
+  FOR v_workout IN
+    SELECT w.id
+    FROM public.workouts w
+    CROSS JOIN public.club_settings s
+    WHERE COALESCE(w.card_priority_enabled, false)
+      AND COALESCE(w.auto_reserve_enabled, false)
+      AND NOT COALESCE(w.auto_reserve_executed, false)
+      AND now() >= public.club_timestamp(w.workout_date, w.start_time)
+                   - make_interval(hours => COALESCE(w.reservation_opens_hours, s.default_reservation_opens_hours))
+      AND now() < public.club_timestamp(w.workout_date, w.start_time)
+    FOR UPDATE OF w SKIP LOCKED
+  LOOP
+    UPDATE public.workouts
+    SET auto_reserve_executed = true
+    WHERE id = v_workout.id;
+
+    INSERT INTO public.auto_reserve_runs (workout_id, triggered_by)
+    VALUES (v_workout.id, 'schedule')
+    RETURNING id INTO v_run_id;
+
+    SELECT net.http_post(
+      url := v_project_url || '/functions/v1/auto-reserve-card-members',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || v_service_key
+      ),
+      body := jsonb_build_object('workoutId', v_workout.id, 'runId', v_run_id)
+    ) INTO v_request_id;
+
+    UPDATE public.auto_reserve_runs
+    SET request_id = v_request_id
+    WHERE id = v_run_id;
+
+    v_dispatched := v_dispatched + 1;
+  END LOOP;
+
+  RETURN v_dispatched;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_due_workout_reminders()
+RETURNS TABLE (
+  reservation_id uuid,
+  user_id uuid,
+  workout_id uuid,
+  offset_minutes integer,
+  days_until integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    r.id,
+    r.user_id,
+    w.id,
+    o.offset_minutes,
+    w.workout_date - public.club_today()
+  FROM reservations r
+  JOIN workouts w ON w.id = r.workout_id
+  JOIN profiles p ON p.user_id = r.user_id AND p.removed_at IS NULL
+  CROSS JOIN club_settings cs
+  CROSS JOIN LATERAL unnest(COALESCE(p.reminder_offsets, cs.default_reminder_offsets)) AS o(offset_minutes)
+  CROSS JOIN LATERAL (
+    SELECT public.club_timestamp(w.workout_date, w.start_time) AS starts_at
+  ) s
+  WHERE r.is_active
+    AND w.workout_date BETWEEN public.club_today() - 1
+      AND public.club_today() + 8
+    AND now() < s.starts_at
+    AND now() >= s.starts_at - make_interval(mins => o.offset_minutes)
+    AND r.reserved_at < s.starts_at - make_interval(mins => o.offset_minutes)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM workout_reminders wr
+      WHERE wr.reservation_id = r.id
+        AND wr.offset_minutes = o.offset_minutes
+    );
+$$;
@@ -0,0 +1,645 @@
+-- Waiting list offers: when the club turns them on, a freed spot is no longer handed
+-- straight to the first member on the waiting list. It is held for them as an offer they
+-- accept or decline within waitlist_offer_minutes; a declined or expired offer moves on
+-- to the next member. Offers stop at waitlist_offer_cutoff_minutes before the start, and
+-- from then on spots go straight to the next member in line as before.
+--
+-- Every hand-off is recorded in waitlist_offers, direct promotions included, and the
+-- send-waitlist-offers edge function tells the members about them. Like the auto-reserve
+-- job, it is called with project_url and service_role_key from Vault.
+
+ALTER TABLE public.club_settings
+ADD COLUMN waitlist_offers_enabled BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN waitlist_offer_minutes INTEGER NOT NULL DEFAULT 30 CHECK (waitlist_offer_minutes BETWEEN 1 AND 1440),
+ADD COLUMN waitlist_offer_cutoff_minutes INTEGER NOT NULL DEFAULT 60 CHECK (waitlist_offer_cutoff_minutes >= 0);
+
+CREATE TABLE public.waitlist_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  workout_id UUID NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  -- 'promoted' is a spot given without asking (offers off, or past the cut-off)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'promoted')),
+  -- NULL for direct promotions
+  expires_at TIMESTAMP WITH TIME ZONE,
+  responded_at TIMESTAMP WITH TIME ZONE,
+  -- Set by send-waitlist-offers once the member has been told
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A member holds at most one open offer per workout
+CREATE UNIQUE INDEX waitlist_offers_pending_key
+ON public.waitlist_offers (workout_id, user_id)
+WHERE status = 'pending';
+
+CREATE INDEX waitlist_offers_pending_expiry_idx
+ON public.waitlist_offers (expires_at)
+WHERE status = 'pending';
+
+-- Written only through the functions below
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own waitlist offers"
+ON public.waitlist_offers
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all waitlist offers"
+ON public.waitlist_offers
+FOR SELECT
+USING (is_staff_or_admin(auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.waitlist_offers;
+
+-- Asks send-waitlist-offers to notify members about hand-offs it has not sent yet.
+-- Runs inside the cancellation that freed the spot, so a missing secret or pg_net
+-- problem is only logged; the cron job below retries.
+CREATE OR REPLACE FUNCTION public.request_waitlist_notifications()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_project_url text;
+  v_service_key text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.waitlist_offers
+    WHERE notified_at IS NULL
+      AND status IN ('pending', 'promoted')
+      AND created_at > now() - interval '1 day'
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'project_url';
+
+  SELECT decrypted_secret INTO v_service_key
+  FROM vault.decrypted_secrets
+  WHERE name = 'service_role_key';
+
+  IF v_project_url IS NULL OR v_service_key IS NULL THEN
+    RAISE WARNING 'request_waitlist_notifications: project_url or service_role_key missing from vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/send-waitlist-offers',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_key
+    ),
+    body := '{}'::jsonb
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'request_waitlist_notifications: %', SQLERRM;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_waitlist_notifications FROM PUBLIC, anon, authenticated;
+
+-- Members who already hold an offer for the workout are passed over
+CREATE OR REPLACE FUNCTION public.promote_from_waiting_list(p_workout_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_user_id UUID;
+  v_waiting_id UUID;
+  v_workout_date DATE;
+BEGIN
+  SELECT workout_date INTO v_workout_date
+  FROM public.workouts
+  WHERE id = p_workout_id;
+
+  -- Get the first active waiting list entry of a member who may book
+  SELECT id, user_id INTO v_waiting_id, v_next_user_id
+  FROM public.waiting_list wl
+  WHERE workout_id = p_workout_id AND is_active = true
+    AND NOT public.is_booking_suspended(user_id)
+    AND public.get_usable_membership(user_id, v_workout_date) IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.waitlist_offers o
+      WHERE o.workout_id = p_workout_id
+        AND o.user_id = wl.user_id
+        AND o.status = 'pending'
+    )
+  ORDER BY position ASC
+  LIMIT 1;
+
+  IF v_next_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Mark waiting list entry as inactive
+  UPDATE public.waiting_list
+  SET is_active = false, notified_at = now()
+  WHERE id = v_waiting_id;
+
+  -- Create or reactivate reservation for this user
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_next_user_id, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now();
+
+  RETURN v_next_user_id;
+END;
+$$;
+
+-- Holds a spot for the first member on the waiting list who may book and has no open
+-- offer yet. Returns that member, or NULL when nobody is left to ask.
+CREATE OR REPLACE FUNCTION public.offer_from_waiting_list(p_workout_id uuid, p_expires_at timestamptz)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_workout_date date;
+BEGIN
+  SELECT workout_date INTO v_workout_date
+  FROM public.workouts
+  WHERE id = p_workout_id;
+
+  SELECT user_id INTO v_user_id
+  FROM public.waiting_list wl
+  WHERE workout_id = p_workout_id AND is_active = true
+    AND NOT public.is_booking_suspended(user_id)
+    AND public.get_usable_membership(user_id, v_workout_date) IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.waitlist_offers o
+      WHERE o.workout_id = p_workout_id
+        AND o.user_id = wl.user_id
+        AND o.status = 'pending'
+    )
+  ORDER BY position ASC
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.waitlist_offers (workout_id, user_id, expires_at)
+  VALUES (p_workout_id, v_user_id, p_expires_at);
+
+  RETURN v_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.offer_from_waiting_list FROM PUBLIC, anon, authenticated;
+
+-- Fills free spots from the waiting list, as offers or directly depending on the club
+-- settings. Spots held by open offers count as taken.
+CREATE OR REPLACE FUNCTION public.promote_waiting_list_until_full(p_workout_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_workout public.workouts%ROWTYPE;
+  v_settings public.club_settings%ROWTYPE;
+  v_offers_until timestamptz;
+  v_taken integer;
+  v_user_id uuid;
+  v_handed_out integer := 0;
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM public.club_settings;
+
+  IF v_settings.waitlist_offers_enabled THEN
+    v_offers_until := public.club_timestamp(v_workout.workout_date, v_workout.start_time)
+      - make_interval(mins => v_settings.waitlist_offer_cutoff_minutes);
+  END IF;
+
+  LOOP
+    SELECT
+      (SELECT COUNT(*) FROM public.reservations WHERE workout_id = p_workout_id AND is_active = true)
+      + (SELECT COUNT(*) FROM public.waitlist_offers WHERE workout_id = p_workout_id AND status = 'pending')
+    INTO v_taken;
+
+    EXIT WHEN v_taken >= v_workout.max_spots;
+
+    -- An offer never runs past the cut-off, so whoever has not answered by then makes
+    -- way for a direct promotion
+    IF now() < v_offers_until THEN
+      v_user_id := public.offer_from_waiting_list(
+        p_workout_id,
+        LEAST(now() + make_interval(mins => v_settings.waitlist_offer_minutes), v_offers_until)
+      );
+    ELSE
+      v_user_id := public.promote_from_waiting_list(p_workout_id);
+
+      IF v_user_id IS NOT NULL THEN
+        INSERT INTO public.waitlist_offers (workout_id, user_id, status, responded_at)
+        VALUES (p_workout_id, v_user_id, 'promoted', now());
+      END IF;
+    END IF;
+
+    EXIT WHEN v_user_id IS NULL;
+
+    v_handed_out := v_handed_out + 1;
+  END LOOP;
+
+  IF v_handed_out > 0 THEN
+    PERFORM public.request_waitlist_notifications();
+  END IF;
+
+  RETURN v_handed_out;
+END;
+$$;
+
+-- Only the spot-freed trigger and the offer functions hand out spots now
+REVOKE EXECUTE ON FUNCTION public.promote_from_waiting_list FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.promote_waiting_list_until_full FROM PUBLIC, anon, authenticated;
+
+-- The member's answer to an offer. Accepting books the held spot; declining gives up the
+-- place on the waiting list and passes the spot on.
+CREATE OR REPLACE FUNCTION public.respond_to_waitlist_offer(p_offer_id uuid, p_accept boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_workout_id uuid;
+  v_offer public.waitlist_offers%ROWTYPE;
+  v_workout_date date;
+  v_reservation_id uuid;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT workout_id INTO v_workout_id
+  FROM public.waitlist_offers
+  WHERE id = p_offer_id
+    AND user_id = v_user;
+
+  IF v_workout_id IS NULL THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  -- Same lock as bookings and promotions, so the held spot cannot be taken meanwhile
+  SELECT workout_date INTO v_workout_date
+  FROM public.workouts
+  WHERE id = v_workout_id
+  FOR UPDATE;
+
+  SELECT * INTO v_offer
+  FROM public.waitlist_offers
+  WHERE id = p_offer_id
+  FOR UPDATE;
+
+  IF v_offer.status <> 'pending' THEN
+    RETURN jsonb_build_object('status', v_offer.status);
+  END IF;
+
+  -- The expiry job passes the spot on shortly
+  IF v_offer.expires_at <= now() THEN
+    RETURN jsonb_build_object('status', 'expired');
+  END IF;
+
+  IF NOT p_accept THEN
+    UPDATE public.waitlist_offers
+    SET status = 'declined', responded_at = now(), notified_at = COALESCE(notified_at, now())
+    WHERE id = p_offer_id;
+
+    UPDATE public.waiting_list
+    SET is_active = false
+    WHERE workout_id = v_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    PERFORM public.promote_waiting_list_until_full(v_workout_id);
+
+    RETURN jsonb_build_object('status', 'declined');
+  END IF;
+
+  IF public.is_booking_suspended(v_user) THEN
+    RETURN jsonb_build_object('status', 'suspended');
+  END IF;
+
+  IF public.get_usable_membership(v_user, v_workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  UPDATE public.waitlist_offers
+  SET status = 'accepted', responded_at = now(), notified_at = COALESCE(notified_at, now())
+  WHERE id = p_offer_id;
+
+  UPDATE public.waiting_list
+  SET is_active = false, notified_at = now()
+  WHERE workout_id = v_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (v_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  RETURN jsonb_build_object('status', 'booked', 'reservation_id', v_reservation_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.respond_to_waitlist_offer TO authenticated;
+
+-- Offers nobody answered in time: the member leaves the waiting list and the spot goes
+-- to the next one, as a new offer or directly once the cut-off has passed
+CREATE OR REPLACE FUNCTION public.expire_waitlist_offers()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_workout_id uuid;
+  v_offer record;
+  v_expired integer := 0;
+BEGIN
+  FOR v_workout_id IN
+    SELECT DISTINCT workout_id
+    FROM public.waitlist_offers
+    WHERE status = 'pending'
+      AND expires_at <= now()
+  LOOP
+    -- The workout is locked before its offers, in the same order as bookings and answers
+    PERFORM 1
+    FROM public.workouts
+    WHERE id = v_workout_id
+    FOR UPDATE;
+
+    FOR v_offer IN
+      UPDATE public.waitlist_offers
+      SET status = 'expired'
+      WHERE workout_id = v_workout_id
+        AND status = 'pending'
+        AND expires_at <= now()
+      RETURNING user_id
+    LOOP
+      UPDATE public.waiting_list
+      SET is_active = false
+      WHERE workout_id = v_workout_id
+        AND user_id = v_offer.user_id
+        AND is_active = true;
+
+      v_expired := v_expired + 1;
+    END LOOP;
+
+    PERFORM public.promote_waiting_list_until_full(v_workout_id);
+  END LOOP;
+
+  -- Picks up notifications an earlier request failed to deliver
+  PERFORM public.request_waitlist_notifications();
+
+  RETURN v_expired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_waitlist_offers FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-waitlist-offers',
+  '* * * * *',
+  $$ SELECT public.expire_waitlist_offers(); $$
+);
+
+-- Held spots are reported next to the bookings, so members see them as taken
+DROP FUNCTION public.get_workout_counts(date, date);
+
+CREATE OR REPLACE FUNCTION public.get_workout_counts(p_start date, p_end date)
+RETURNS TABLE(workout_id uuid, reservation_count integer, waiting_count integer, held_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    w.id,
+    (SELECT COUNT(*)::integer FROM reservations r WHERE r.workout_id = w.id AND r.is_active = true),
+    (SELECT COUNT(*)::integer FROM waiting_list wl WHERE wl.workout_id = w.id AND wl.is_active = true),
+    (SELECT COUNT(*)::integer FROM waitlist_offers o WHERE o.workout_id = w.id AND o.status = 'pending')
+  FROM workouts w
+  WHERE w.workout_date BETWEEN p_start AND p_end;
+$$;
+
+-- Booking and held counts are for signed-in members only
+REVOKE EXECUTE ON FUNCTION public.get_workout_counts FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_workout_counts TO authenticated;
+
+-- reserve_workout: spots held for other members' offers count as taken, and a member
+-- who books while holding an offer takes the held spot
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_settings public.club_settings%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_held_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.is_staff_or_admin(v_caller);
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM public.club_settings;
+
+  v_starts_at := public.club_timestamp(v_workout.workout_date, v_workout.start_time);
+  v_ends_at := public.club_timestamp(v_workout.workout_date, v_workout.end_time);
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, v_settings.default_reservation_opens_hours);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the start of the booking window to themselves
+  v_priority_ends_at := v_opens_at + make_interval(secs => public.get_priority_period_hours(v_opens_hours) * 3600);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  -- Staff may book a member without a membership; nobody else may
+  IF NOT v_staff_booking AND public.get_usable_membership(v_user, v_workout.workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.has_card_priority(v_user, v_workout.workout_date)
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  SELECT COUNT(*)::integer INTO v_held_count
+  FROM public.waitlist_offers
+  WHERE workout_id = p_workout_id
+    AND status = 'pending'
+    AND user_id <> v_user;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count + v_held_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count + v_held_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  UPDATE public.waitlist_offers
+  SET status = 'accepted', responded_at = now(), notified_at = COALESCE(notified_at, now())
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
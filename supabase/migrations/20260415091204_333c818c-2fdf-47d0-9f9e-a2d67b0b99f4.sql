@@ -0,0 +1,208 @@
+-- Audit log: an append-only record of who changed what, for whom, with the row before
+-- and after the change. Rows are written by the record_audit_log trigger on the tables
+-- below and by edge functions for actions that do not touch them (report exports).
+--
+-- Changes made from the app are attributed to the signed-in user. Edge functions run
+-- as the service role, so they pass the user they act for in the x-audit-actor header
+-- and their own name in x-audit-source (supabase/functions/_shared/audit.ts). Those
+-- headers are only trusted on service-role requests. Scheduled jobs and other changes
+-- with no request behind them are recorded with no actor and source 'system'.
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- No foreign keys: entries must outlive the users and rows they describe
+  actor_id UUID,
+  -- 'app', 'system' or the edge function that made the change
+  source TEXT NOT NULL,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT,
+  -- The member the change was about, when there is one
+  target_user_id UUID,
+  old_values JSONB,
+  new_values JSONB
+);
+
+CREATE INDEX audit_log_created_at_idx ON public.audit_log (created_at DESC);
+CREATE INDEX audit_log_actor_idx ON public.audit_log (actor_id, created_at DESC);
+CREATE INDEX audit_log_target_idx ON public.audit_log (target_user_id, created_at DESC);
+CREATE INDEX audit_log_entity_idx ON public.audit_log (entity_type, entity_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view audit log"
+ON public.audit_log
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Only the trigger below and service-role edge functions write entries, and nobody
+-- changes or removes them afterwards
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON public.audit_log FROM anon, authenticated;
+REVOKE UPDATE, DELETE, TRUNCATE ON public.audit_log FROM service_role;
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+CREATE TRIGGER audit_log_no_truncate
+BEFORE TRUNCATE ON public.audit_log
+FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- A header of the current API request; only honoured for the service role, since any
+-- client can send headers
+CREATE OR REPLACE FUNCTION public.audit_request_header(p_name text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF COALESCE(auth.jwt() ->> 'role', '') <> 'service_role' THEN
+    RETURN NULL;
+  END IF;
+  RETURN NULLIF(current_setting('request.headers', true), '')::json ->> p_name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.audit_request_header(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_audit_log()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_old jsonb;
+  v_new jsonb;
+  v_row jsonb;
+  v_action text;
+  v_actor uuid;
+  v_header_actor text;
+  v_source text;
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    v_old := to_jsonb(OLD) - 'updated_at';
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    v_new := to_jsonb(NEW) - 'updated_at';
+  END IF;
+
+  -- Updates that only touch updated_at are not worth an entry
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := COALESCE(v_new, v_old);
+
+  -- Name the common transitions so they can be searched for; anything else is 'updated'
+  v_action := CASE
+    WHEN TG_OP = 'INSERT' THEN 'created'
+    WHEN TG_OP = 'DELETE' THEN 'deleted'
+    WHEN v_old ->> 'removed_at' IS NULL AND v_new ->> 'removed_at' IS NOT NULL THEN 'removed'
+    WHEN v_old ->> 'removed_at' IS NOT NULL AND v_new ->> 'removed_at' IS NULL THEN 'restored'
+    WHEN v_old ->> 'cancelled_at' IS NULL AND v_new ->> 'cancelled_at' IS NOT NULL THEN 'cancelled'
+    WHEN v_old ->> 'cleared_at' IS NULL AND v_new ->> 'cleared_at' IS NOT NULL THEN 'cleared'
+    WHEN v_old ->> 'refunded_at' IS NULL AND v_new ->> 'refunded_at' IS NOT NULL THEN 'refunded'
+    WHEN (v_old ->> 'is_active')::boolean AND NOT (v_new ->> 'is_active')::boolean THEN
+      CASE WHEN TG_TABLE_NAME = 'waiting_list' THEN 'cancelled' ELSE 'deactivated' END
+    WHEN NOT (v_old ->> 'is_active')::boolean AND (v_new ->> 'is_active')::boolean THEN 'activated'
+    WHEN NOT (v_old ->> 'is_approved')::boolean AND (v_new ->> 'is_approved')::boolean THEN 'approved'
+    WHEN v_old -> 'member_type' IS DISTINCT FROM v_new -> 'member_type' THEN 'member_type_changed'
+    ELSE 'updated'
+  END;
+
+  v_actor := auth.uid();
+  IF v_actor IS NULL THEN
+    v_header_actor := public.audit_request_header('x-audit-actor');
+    IF v_header_actor ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      v_actor := v_header_actor::uuid;
+    END IF;
+  END IF;
+
+  v_source := COALESCE(
+    left(public.audit_request_header('x-audit-source'), 64),
+    CASE WHEN auth.uid() IS NOT NULL THEN 'app' ELSE 'system' END
+  );
+
+  INSERT INTO public.audit_log (
+    actor_id, source, action, entity_type, entity_id, target_user_id, old_values, new_values
+  )
+  VALUES (
+    v_actor,
+    v_source,
+    v_action,
+    TG_TABLE_NAME,
+    v_row ->> 'id',
+    (v_row ->> 'user_id')::uuid,
+    v_old,
+    v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_audit_log() FROM PUBLIC, anon, authenticated;
+
+-- Membership, booking, schedule and club data. Kiosk PINs and staff approval tokens
+-- are left out on purpose: their rows hold secrets.
+CREATE TRIGGER audit_profiles
+AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_user_roles
+AFTER INSERT OR UPDATE OR DELETE ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_reservations
+AFTER INSERT OR UPDATE OR DELETE ON public.reservations
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_waiting_list
+AFTER INSERT OR UPDATE OR DELETE ON public.waiting_list
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_attendance
+AFTER INSERT OR UPDATE OR DELETE ON public.attendance
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_workouts
+AFTER INSERT OR UPDATE OR DELETE ON public.workouts
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_workout_series
+AFTER INSERT OR UPDATE OR DELETE ON public.workout_series
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_memberships
+AFTER INSERT OR UPDATE OR DELETE ON public.memberships
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_membership_plans
+AFTER INSERT OR UPDATE OR DELETE ON public.membership_plans
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_member_strikes
+AFTER INSERT OR UPDATE OR DELETE ON public.member_strikes
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_payments
+AFTER INSERT OR UPDATE OR DELETE ON public.payments
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_club_settings
+AFTER INSERT OR UPDATE OR DELETE ON public.club_settings
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
@@ -0,0 +1,586 @@
+-- Staff permissions: approved staff no longer all share the same powers. Each staff
+-- account holds a set of capabilities, granted by an admin, and RLS policies, database
+-- functions and edge functions check the capability an action needs via
+-- has_permission(). Admins hold every capability. Reading the schedule, members and
+-- bookings stays open to all staff (is_staff_or_admin).
+--
+--   manage_schedule  create, edit and delete workouts and series
+--   manage_members   remove, restore and (de)activate members, card status, strikes,
+--                    memberships and refunds, and booking members into workouts
+--   mark_attendance  take attendance and scan check-in codes
+--   view_reports     analytics and report exports
+--   approve_staff    approve staff sign-ups and remove staff accounts
+--
+-- Staff approved before this change keep what they could do until now: everything but
+-- approving staff. Newly approved staff start with the same set, which an admin can
+-- narrow down (e.g. to mark_attendance for front-desk helpers).
+
+CREATE TYPE public.staff_permission AS ENUM (
+  'manage_schedule',
+  'manage_members',
+  'mark_attendance',
+  'view_reports',
+  'approve_staff'
+);
+
+CREATE TABLE public.staff_permissions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  permission public.staff_permission NOT NULL,
+  granted_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+ALTER TABLE public.staff_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own permissions"
+ON public.staff_permissions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all permissions"
+ON public.staff_permissions
+FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can grant permissions"
+ON public.staff_permissions
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke permissions"
+ON public.staff_permissions
+FOR DELETE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id uuid, _permission public.staff_permission)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    OR (
+      public.has_role(_user_id, 'staff')
+      AND EXISTS (
+        SELECT 1
+        FROM public.staff_permissions
+        WHERE user_id = _user_id
+          AND permission = _permission
+      )
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_permission TO authenticated;
+
+-- What approved staff could do before permissions existed
+CREATE OR REPLACE FUNCTION public.grant_default_staff_permissions(_user_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  INSERT INTO public.staff_permissions (user_id, permission)
+  SELECT _user_id, p
+  FROM unnest(ARRAY['manage_schedule', 'manage_members', 'mark_attendance', 'view_reports']::public.staff_permission[]) AS p
+  ON CONFLICT DO NOTHING
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_default_staff_permissions FROM PUBLIC, anon, authenticated;
+
+-- Staff approved through the dashboard or the emailed link get the defaults, unless an
+-- admin already picked their permissions
+CREATE OR REPLACE FUNCTION public.on_staff_role_approved()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.role = 'staff'
+    AND NEW.is_approved
+    AND (TG_OP = 'INSERT' OR NOT OLD.is_approved)
+    AND NOT EXISTS (SELECT 1 FROM public.staff_permissions WHERE user_id = NEW.user_id)
+  THEN
+    PERFORM public.grant_default_staff_permissions(NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_staff_role_approved
+AFTER INSERT OR UPDATE OF is_approved ON public.user_roles
+FOR EACH ROW EXECUTE FUNCTION public.on_staff_role_approved();
+
+SELECT public.grant_default_staff_permissions(user_id)
+FROM public.user_roles
+WHERE role = 'staff'
+  AND is_approved;
+
+-- Who granted or revoked what goes to the audit log like other staff actions
+CREATE TRIGGER audit_staff_permissions
+AFTER INSERT OR UPDATE OR DELETE ON public.staff_permissions
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+-- Schedule
+DROP POLICY IF EXISTS "Staff can insert workouts" ON public.workouts;
+CREATE POLICY "Staff can insert workouts"
+ON public.workouts
+FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'manage_schedule'));
+
+DROP POLICY IF EXISTS "Staff can update workouts" ON public.workouts;
+CREATE POLICY "Staff can update workouts"
+ON public.workouts
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+DROP POLICY IF EXISTS "Staff can delete workouts" ON public.workouts;
+CREATE POLICY "Staff can delete workouts"
+ON public.workouts
+FOR DELETE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+DROP POLICY IF EXISTS "Staff can insert workout series" ON public.workout_series;
+CREATE POLICY "Staff can insert workout series"
+ON public.workout_series
+FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'manage_schedule'));
+
+DROP POLICY IF EXISTS "Staff can update workout series" ON public.workout_series;
+CREATE POLICY "Staff can update workout series"
+ON public.workout_series
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+DROP POLICY IF EXISTS "Staff can delete workout series" ON public.workout_series;
+CREATE POLICY "Staff can delete workout series"
+ON public.workout_series
+FOR DELETE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+-- Attendance
+DROP POLICY IF EXISTS "Staff can manage attendance" ON public.attendance;
+CREATE POLICY "Staff can manage attendance"
+ON public.attendance
+FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'mark_attendance'));
+
+DROP POLICY IF EXISTS "Staff can update attendance" ON public.attendance;
+CREATE POLICY "Staff can update attendance"
+ON public.attendance
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'mark_attendance'));
+
+-- Members and their bookings
+DROP POLICY IF EXISTS "Staff can update profiles" ON public.profiles;
+CREATE POLICY "Staff can update profiles"
+ON public.profiles
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can delete profiles" ON public.profiles;
+CREATE POLICY "Staff can delete profiles"
+ON public.profiles
+FOR DELETE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can insert member roles" ON public.user_roles;
+CREATE POLICY "Staff can insert member roles"
+ON public.user_roles
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  public.has_permission(auth.uid(), 'manage_members')
+  AND role IN ('member', 'card_member')
+);
+
+DROP POLICY IF EXISTS "Staff can update member roles" ON public.user_roles;
+CREATE POLICY "Staff can update member roles"
+ON public.user_roles
+FOR UPDATE
+USING (
+  public.has_permission(auth.uid(), 'manage_members')
+  AND role IN ('member', 'card_member')
+);
+
+-- Removing a staff account belongs with approving one
+DROP POLICY IF EXISTS "Staff can delete member roles" ON public.user_roles;
+CREATE POLICY "Staff can delete member roles"
+ON public.user_roles
+FOR DELETE
+USING (
+  (public.has_permission(auth.uid(), 'manage_members') AND role IN ('member', 'card_member'))
+  OR (public.has_permission(auth.uid(), 'approve_staff') AND role = 'staff')
+);
+
+DROP POLICY IF EXISTS "Staff can insert reservations" ON public.reservations;
+CREATE POLICY "Staff can insert reservations"
+ON public.reservations
+FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can update reservations" ON public.reservations;
+CREATE POLICY "Staff can update reservations"
+ON public.reservations
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can delete reservations" ON public.reservations;
+CREATE POLICY "Staff can delete reservations"
+ON public.reservations
+FOR DELETE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can manage all waiting list entries" ON public.waiting_list;
+CREATE POLICY "Staff can manage all waiting list entries"
+ON public.waiting_list
+FOR ALL
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can clear strikes" ON public.member_strikes;
+CREATE POLICY "Staff can clear strikes"
+ON public.member_strikes
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+DROP POLICY IF EXISTS "Staff can update memberships" ON public.memberships;
+CREATE POLICY "Staff can update memberships"
+ON public.memberships
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+-- Notifications are written by the edge functions with the service role; staff only read them
+DROP POLICY IF EXISTS "Staff can manage notifications" ON public.notification_queue;
+CREATE POLICY "Staff can view notifications"
+ON public.notification_queue
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'manage_members'));
+
+-- Staff approvals, until now admin only
+CREATE POLICY "Staff approvers can view pending approvals"
+ON public.pending_staff_approvals
+FOR SELECT
+USING (public.has_permission(auth.uid(), 'approve_staff'));
+
+CREATE POLICY "Staff approvers can update approvals"
+ON public.pending_staff_approvals
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'approve_staff'));
+
+CREATE POLICY "Staff approvers can approve staff roles"
+ON public.user_roles
+FOR UPDATE
+USING (
+  public.has_permission(auth.uid(), 'approve_staff')
+  AND role = 'staff'
+);
+
+-- Database functions gated on staff
+CREATE OR REPLACE FUNCTION public.assign_membership(p_user_id uuid, p_plan_id uuid, p_starts_on date DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_plan public.membership_plans%ROWTYPE;
+  v_starts_on date := COALESCE(p_starts_on, public.club_today());
+  v_membership_id uuid;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'manage_members') THEN
+    RAISE EXCEPTION 'Not allowed to assign memberships';
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM public.membership_plans
+  WHERE id = p_plan_id
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Membership plan not found';
+  END IF;
+
+  INSERT INTO public.memberships (user_id, plan_id, starts_on, ends_on, credits_remaining, created_by)
+  VALUES (p_user_id, v_plan.id, v_starts_on, v_starts_on + v_plan.duration_days - 1, v_plan.credits, auth.uid())
+  RETURNING id INTO v_membership_id;
+
+  RETURN v_membership_id;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.get_workout_analytics(p_start date, p_end date)
+RETURNS TABLE (
+  workout_id uuid,
+  workout_date date,
+  start_time time,
+  title text,
+  title_bg text,
+  workout_type text,
+  max_spots integer,
+  reserved_count integer,
+  card_reserved_count integer,
+  cancelled_count integer,
+  attended_count integer,
+  no_show_count integer,
+  waitlist_count integer,
+  unserved_waitlist_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'view_reports') THEN
+    RAISE EXCEPTION 'Not allowed to view analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    w.id,
+    w.workout_date,
+    w.start_time,
+    w.title,
+    w.title_bg,
+    w.workout_type,
+    w.max_spots,
+    COALESCE(r.reserved_count, 0),
+    COALESCE(r.card_reserved_count, 0),
+    COALESCE(r.cancelled_count, 0),
+    COALESCE(a.attended_count, 0),
+    COALESCE(a.no_show_count, 0),
+    COALESCE(wl.waitlist_count, 0),
+    COALESCE(wl.unserved_count, 0)
+  FROM workouts w
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE res.is_active)::integer AS reserved_count,
+      -- Card usage follows the membership the booking was made on; older bookings
+      -- without one fall back to the member's plan on the workout date
+      COUNT(*) FILTER (
+        WHERE res.is_active
+          AND COALESCE(mp.grants_card_priority, public.has_card_priority(res.user_id, w.workout_date))
+      )::integer AS card_reserved_count,
+      COUNT(*) FILTER (WHERE NOT res.is_active)::integer AS cancelled_count
+    FROM reservations res
+    LEFT JOIN memberships m ON m.id = res.membership_id
+    LEFT JOIN membership_plans mp ON mp.id = m.plan_id
+    WHERE res.workout_id = w.id
+  ) r ON true
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) FILTER (WHERE att.attended)::integer AS attended_count,
+      COUNT(*) FILTER (WHERE att.attended = false)::integer AS no_show_count
+    FROM attendance att
+    WHERE att.workout_id = w.id
+  ) a ON true
+  LEFT JOIN LATERAL (
+    -- Entries that were never promoted to a reservation are demand the workout did not serve
+    SELECT
+      COUNT(*)::integer AS waitlist_count,
+      COUNT(*) FILTER (WHERE q.notified_at IS NULL)::integer AS unserved_count
+    FROM waiting_list q
+    WHERE q.workout_id = w.id
+  ) wl ON true
+  WHERE w.workout_date BETWEEN p_start AND p_end
+  ORDER BY w.workout_date, w.start_time;
+END;
+$$;
+
+-- reserve_workout: only staff who manage members may book on a member's behalf
+CREATE OR REPLACE FUNCTION public.reserve_workout(p_workout_id uuid, p_user_id uuid DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+  v_user uuid := COALESCE(p_user_id, auth.uid());
+  v_on_behalf boolean;
+  v_is_kiosk boolean;
+  v_staff_booking boolean;
+  v_workout public.workouts%ROWTYPE;
+  v_settings public.club_settings%ROWTYPE;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_opens_hours integer;
+  v_opens_at timestamptz;
+  v_priority_ends_at timestamptz;
+  v_penalty text;
+  v_is_card boolean;
+  v_active_count integer;
+  v_held_count integer;
+  v_reservation_id uuid;
+  v_existing_active boolean;
+  v_position integer;
+BEGIN
+  IF v_caller IS NULL OR v_user IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_on_behalf := v_user <> v_caller;
+  v_staff_booking := v_on_behalf AND public.has_permission(v_caller, 'manage_members');
+  v_is_kiosk := v_on_behalf AND NOT v_staff_booking AND public.has_role(v_caller, 'kiosk');
+
+  IF v_on_behalf AND NOT v_staff_booking AND NOT v_is_kiosk THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff accounts cannot hold reservations themselves
+  IF NOT public.is_member_or_card_member(v_user) THEN
+    RETURN jsonb_build_object('status', 'not_allowed');
+  END IF;
+
+  -- Staff may still book a member who has reached the strike threshold; the kiosk may not
+  IF NOT v_staff_booking THEN
+    v_penalty := public.get_strike_penalty(v_user);
+
+    IF v_penalty = 'block_booking' THEN
+      RETURN jsonb_build_object('status', 'suspended');
+    END IF;
+  END IF;
+
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO v_settings
+  FROM public.club_settings;
+
+  v_starts_at := public.club_timestamp(v_workout.workout_date, v_workout.start_time);
+  v_ends_at := public.club_timestamp(v_workout.workout_date, v_workout.end_time);
+  v_opens_hours := COALESCE(v_workout.reservation_opens_hours, v_settings.default_reservation_opens_hours);
+  v_opens_at := v_starts_at - make_interval(hours => v_opens_hours);
+  -- Card members get the start of the booking window to themselves
+  v_priority_ends_at := v_opens_at + make_interval(secs => public.get_priority_period_hours(v_opens_hours) * 3600);
+
+  IF v_ends_at < now() THEN
+    RETURN jsonb_build_object('status', 'passed');
+  END IF;
+
+  -- Walk-ins at the kiosk are only taken once check-in has opened
+  IF v_is_kiosk AND now() < v_starts_at - interval '30 minutes' THEN
+    RETURN jsonb_build_object('status', 'not_open');
+  END IF;
+
+  -- Staff may book a member without a membership; nobody else may
+  IF NOT v_staff_booking AND public.get_usable_membership(v_user, v_workout.workout_date) IS NULL THEN
+    RETURN jsonb_build_object('status', 'no_membership');
+  END IF;
+
+  IF NOT v_on_behalf THEN
+    IF now() < v_opens_at THEN
+      RETURN jsonb_build_object('status', 'not_open');
+    END IF;
+
+    v_is_card := public.has_card_priority(v_user, v_workout.workout_date)
+      AND v_penalty IS DISTINCT FROM 'lose_priority';
+
+    IF COALESCE(v_workout.card_priority_enabled, false)
+       AND now() < v_priority_ends_at
+       AND NOT v_is_card THEN
+      RETURN jsonb_build_object('status', 'priority_only');
+    END IF;
+  END IF;
+
+  SELECT id, COALESCE(is_active, false) INTO v_reservation_id, v_existing_active
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user;
+
+  SELECT COUNT(*)::integer INTO v_active_count
+  FROM public.reservations
+  WHERE workout_id = p_workout_id
+    AND is_active = true;
+
+  SELECT COUNT(*)::integer INTO v_held_count
+  FROM public.waitlist_offers
+  WHERE workout_id = p_workout_id
+    AND status = 'pending'
+    AND user_id <> v_user;
+
+  IF v_existing_active THEN
+    RETURN jsonb_build_object(
+      'status', 'already_booked',
+      'reservation_id', v_reservation_id,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  -- The kiosk only offers free spots and never joins the waiting list
+  IF v_active_count + v_held_count >= v_workout.max_spots AND v_is_kiosk THEN
+    RETURN jsonb_build_object(
+      'status', 'full',
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  IF v_active_count + v_held_count >= v_workout.max_spots THEN
+    SELECT position INTO v_position
+    FROM public.waiting_list
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    IF v_position IS NOT NULL THEN
+      RETURN jsonb_build_object(
+        'status', 'already_waitlisted',
+        'waiting_position', v_position,
+        'active_count', v_active_count,
+        'max_spots', v_workout.max_spots
+      );
+    END IF;
+
+    v_position := public.get_next_waiting_list_position(p_workout_id);
+
+    INSERT INTO public.waiting_list (workout_id, user_id, position, is_active, created_at)
+    VALUES (p_workout_id, v_user, v_position, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, position = EXCLUDED.position, created_at = now(), notified_at = NULL;
+
+    RETURN jsonb_build_object(
+      'status', 'waitlisted',
+      'waiting_position', v_position,
+      'active_count', v_active_count,
+      'max_spots', v_workout.max_spots
+    );
+  END IF;
+
+  INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+  VALUES (p_workout_id, v_user, true, now())
+  ON CONFLICT (workout_id, user_id)
+  DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now()
+  RETURNING id INTO v_reservation_id;
+
+  -- A booked member no longer needs their place on the waiting list
+  UPDATE public.waiting_list
+  SET is_active = false
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND is_active = true;
+
+  UPDATE public.waitlist_offers
+  SET status = 'accepted', responded_at = now(), notified_at = COALESCE(notified_at, now())
+  WHERE workout_id = p_workout_id
+    AND user_id = v_user
+    AND status = 'pending';
+
+  RETURN jsonb_build_object(
+    'status', 'booked',
+    'reservation_id', v_reservation_id,
+    'active_count', v_active_count + 1,
+    'max_spots', v_workout.max_spots
+  );
+END;
+$$;
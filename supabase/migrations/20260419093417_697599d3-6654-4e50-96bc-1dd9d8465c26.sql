@@ -0,0 +1,161 @@
+-- Trainers: the coaches who lead workouts. A trainer is a staff account with a display
+-- name shown to members; a workout can be led by several trainers (workout_trainers).
+-- Staff with manage_schedule keep the trainer list and assign trainers to workouts.
+-- Trainers can take attendance for the workouts they lead, and hand one of their
+-- sessions over to another trainer with substitute_workout_trainer. Booked members are
+-- told about the change by the app (trainer_changed notification).
+
+CREATE TABLE public.trainers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL CHECK (length(trim(display_name)) > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_trainers_updated_at
+  BEFORE UPDATE ON public.trainers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.workout_trainers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  workout_id UUID NOT NULL REFERENCES public.workouts(id) ON DELETE CASCADE,
+  trainer_id UUID NOT NULL REFERENCES public.trainers(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (workout_id, trainer_id)
+);
+
+CREATE INDEX workout_trainers_trainer_idx ON public.workout_trainers (trainer_id);
+
+ALTER TABLE public.trainers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workout_trainers ENABLE ROW LEVEL SECURITY;
+
+-- Trainer names are shown on the member schedule
+CREATE POLICY "Anyone can view trainers"
+ON public.trainers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can add trainers"
+ON public.trainers
+FOR INSERT
+WITH CHECK (
+  public.has_permission(auth.uid(), 'manage_schedule')
+  AND public.is_staff_or_admin(user_id)
+);
+
+CREATE POLICY "Staff can update trainers"
+ON public.trainers
+FOR UPDATE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+CREATE POLICY "Anyone can view workout trainers"
+ON public.workout_trainers
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Staff can assign workout trainers"
+ON public.workout_trainers
+FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'manage_schedule'));
+
+CREATE POLICY "Staff can unassign workout trainers"
+ON public.workout_trainers
+FOR DELETE
+USING (public.has_permission(auth.uid(), 'manage_schedule'));
+
+CREATE OR REPLACE FUNCTION public.is_workout_trainer(_user_id uuid, _workout_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT public.is_staff_or_admin(_user_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.workout_trainers wt
+      JOIN public.trainers t ON t.id = wt.trainer_id
+      WHERE wt.workout_id = _workout_id
+        AND t.user_id = _user_id
+    )
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_workout_trainer TO authenticated;
+
+-- Trainers take attendance for their own sessions, with or without mark_attendance
+DROP POLICY IF EXISTS "Staff can manage attendance" ON public.attendance;
+CREATE POLICY "Staff can manage attendance"
+ON public.attendance
+FOR INSERT
+WITH CHECK (
+  public.has_permission(auth.uid(), 'mark_attendance')
+  OR public.is_workout_trainer(auth.uid(), workout_id)
+);
+
+DROP POLICY IF EXISTS "Staff can update attendance" ON public.attendance;
+CREATE POLICY "Staff can update attendance"
+ON public.attendance
+FOR UPDATE
+USING (
+  public.has_permission(auth.uid(), 'mark_attendance')
+  OR public.is_workout_trainer(auth.uid(), workout_id)
+);
+
+-- Hands a workout from one trainer to another. Allowed to schedule managers and to the
+-- trainer giving the session away.
+CREATE OR REPLACE FUNCTION public.substitute_workout_trainer(
+  p_workout_id uuid,
+  p_from_trainer_id uuid,
+  p_to_trainer_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_caller uuid := auth.uid();
+BEGIN
+  IF NOT (
+    public.has_permission(v_caller, 'manage_schedule')
+    OR (
+      public.is_staff_or_admin(v_caller)
+      AND EXISTS (SELECT 1 FROM public.trainers WHERE id = p_from_trainer_id AND user_id = v_caller)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change the trainers of this workout';
+  END IF;
+
+  IF p_from_trainer_id = p_to_trainer_id THEN
+    RAISE EXCEPTION 'Pick a different trainer';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.trainers WHERE id = p_to_trainer_id AND is_active) THEN
+    RAISE EXCEPTION 'Trainer % not found', p_to_trainer_id;
+  END IF;
+
+  DELETE FROM public.workout_trainers
+  WHERE workout_id = p_workout_id
+    AND trainer_id = p_from_trainer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Trainer % is not assigned to workout %', p_from_trainer_id, p_workout_id;
+  END IF;
+
+  INSERT INTO public.workout_trainers (workout_id, trainer_id)
+  VALUES (p_workout_id, p_to_trainer_id)
+  ON CONFLICT (workout_id, trainer_id) DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.substitute_workout_trainer TO authenticated;
+
+CREATE TRIGGER audit_trainers
+AFTER INSERT OR UPDATE OR DELETE ON public.trainers
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_workout_trainers
+AFTER INSERT OR UPDATE OR DELETE ON public.workout_trainers
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
@@ -0,0 +1,202 @@
+-- Locations and rooms: the club can run workouts in more than one hall. Each location
+-- has rooms with a capacity; workouts and series are held in a room, and new workouts
+-- take their max_spots from the room's capacity (set by the app, staff can change it).
+-- Members can pick a preferred location, which the schedule opens on and card member
+-- auto-reserve respects. Everything scheduled so far happened in the one existing hall,
+-- which becomes the first location and room.
+
+CREATE TABLE public.locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  name_bg TEXT,
+  address TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  name_bg TEXT,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX rooms_location_idx ON public.rooms (location_id);
+
+CREATE TRIGGER update_locations_updated_at
+  BEFORE UPDATE ON public.locations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_rooms_updated_at
+  BEFORE UPDATE ON public.rooms
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view locations"
+ON public.locations
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can add locations"
+ON public.locations
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update locations"
+ON public.locations
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view rooms"
+ON public.rooms
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can add rooms"
+ON public.rooms
+FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update rooms"
+ON public.rooms
+FOR UPDATE
+USING (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.workouts
+ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+ALTER TABLE public.workout_series
+ADD COLUMN room_id UUID REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+-- Double-booking checks look up a room's workouts by day
+CREATE INDEX workouts_room_date_idx ON public.workouts (room_id, workout_date);
+
+ALTER TABLE public.profiles
+ADD COLUMN preferred_location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL;
+
+-- The existing hall
+WITH main_location AS (
+  INSERT INTO public.locations (name, name_bg)
+  VALUES ('NZ Sports Club', 'NZ Спортен клуб')
+  RETURNING id
+),
+main_room AS (
+  INSERT INTO public.rooms (location_id, name, name_bg, capacity)
+  SELECT id, 'Main hall', 'Основна зала', COALESCE((SELECT default_max_spots FROM public.club_settings LIMIT 1), 20)
+  FROM main_location
+  RETURNING id
+),
+series AS (
+  UPDATE public.workout_series
+  SET room_id = (SELECT id FROM main_room)
+  RETURNING id
+)
+UPDATE public.workouts
+SET room_id = (SELECT id FROM main_room);
+
+CREATE OR REPLACE FUNCTION public.generate_workout_series(p_series_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_inserted integer;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id;
+
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.workouts (
+    title, title_bg, description, description_bg,
+    workout_date, start_time, end_time, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    cancellation_deadline_hours, workout_type, room_id, created_by, series_id
+  )
+  SELECT
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg,
+    d::date, v_series.start_time, v_series.end_time, v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.cancellation_deadline_hours, v_series.workout_type, v_series.room_id, v_series.created_by, v_series.id
+  FROM generate_series(GREATEST(v_series.starts_on, public.club_today()), v_series.ends_on, interval '1 day') AS d
+  WHERE EXTRACT(DOW FROM d)::smallint = ANY (v_series.weekdays)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.workouts w
+      WHERE w.series_id = v_series.id
+        AND w.workout_date = d::date
+    );
+
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+  RETURN v_inserted;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.split_workout_series(p_series_id uuid, p_from date)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_series public.workout_series%ROWTYPE;
+  v_new_id uuid;
+BEGIN
+  SELECT * INTO v_series
+  FROM public.workout_series
+  WHERE id = p_series_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Workout series % not found', p_series_id;
+  END IF;
+
+  IF p_from <= v_series.starts_on THEN
+    RETURN v_series.id;
+  END IF;
+
+  INSERT INTO public.workout_series (
+    title, title_bg, description, description_bg, weekdays,
+    start_time, end_time, starts_on, ends_on, max_spots,
+    card_priority_enabled, auto_reserve_enabled, reservation_opens_hours,
+    cancellation_deadline_hours, workout_type, room_id, created_by
+  )
+  VALUES (
+    v_series.title, v_series.title_bg, v_series.description, v_series.description_bg, v_series.weekdays,
+    v_series.start_time, v_series.end_time, p_from, GREATEST(v_series.ends_on, p_from), v_series.max_spots,
+    v_series.card_priority_enabled, v_series.auto_reserve_enabled, v_series.reservation_opens_hours,
+    v_series.cancellation_deadline_hours, v_series.workout_type, v_series.room_id, v_series.created_by
+  )
+  RETURNING id INTO v_new_id;
+
+  UPDATE public.workouts
+  SET series_id = v_new_id
+  WHERE series_id = v_series.id
+    AND workout_date >= p_from;
+
+  UPDATE public.workout_series
+  SET ends_on = LEAST(ends_on, p_from - 1)
+  WHERE id = v_series.id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+CREATE TRIGGER audit_locations
+AFTER INSERT OR UPDATE OR DELETE ON public.locations
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
+
+CREATE TRIGGER audit_rooms
+AFTER INSERT OR UPDATE OR DELETE ON public.rooms
+FOR EACH ROW EXECUTE FUNCTION public.record_audit_log();
@@ -0,0 +1,64 @@
+-- Card member auto-reserve books through the database: the workout row is locked like
+-- reserve_workout does, and bookings plus spots held for waiting list offers are checked
+-- against max_spots, so a run cannot race member bookings and overbook the workout.
+-- Members are booked in the given order until the workout is full; returns the members
+-- who were booked by this call.
+CREATE OR REPLACE FUNCTION public.auto_reserve_workout(p_workout_id uuid, p_user_ids uuid[])
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_workout public.workouts%ROWTYPE;
+  v_taken integer;
+  v_user uuid;
+  v_reserved uuid[] := ARRAY[]::uuid[];
+BEGIN
+  SELECT * INTO v_workout
+  FROM public.workouts
+  WHERE id = p_workout_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN v_reserved;
+  END IF;
+
+  SELECT
+    (SELECT COUNT(*)::integer FROM public.reservations WHERE workout_id = p_workout_id AND is_active = true)
+    + (SELECT COUNT(*)::integer FROM public.waitlist_offers WHERE workout_id = p_workout_id AND status = 'pending')
+  INTO v_taken;
+
+  FOREACH v_user IN ARRAY COALESCE(p_user_ids, ARRAY[]::uuid[])
+  LOOP
+    EXIT WHEN v_taken >= v_workout.max_spots;
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.reservations
+      WHERE workout_id = p_workout_id
+        AND user_id = v_user
+        AND is_active = true
+    );
+
+    INSERT INTO public.reservations (workout_id, user_id, is_active, reserved_at)
+    VALUES (p_workout_id, v_user, true, now())
+    ON CONFLICT (workout_id, user_id)
+    DO UPDATE SET is_active = true, cancelled_at = NULL, reserved_at = now();
+
+    -- A booked member no longer needs their place on the waiting list
+    UPDATE public.waiting_list
+    SET is_active = false
+    WHERE workout_id = p_workout_id
+      AND user_id = v_user
+      AND is_active = true;
+
+    v_reserved := v_reserved || v_user;
+    v_taken := v_taken + 1;
+  END LOOP;
+
+  RETURN v_reserved;
+END;
+$$;
+
+-- Only the auto-reserve edge function (service role) books on members' behalf
+REVOKE EXECUTE ON FUNCTION public.auto_reserve_workout FROM PUBLIC, anon, authenticated;